@@ -5,10 +5,30 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE TYPE user_role AS ENUM ('admin', 'company', 'bidder');
 CREATE TYPE auction_status AS ENUM ('draft', 'scheduled', 'live', 'paused', 'ended', 'cancelled', 'sold');
 CREATE TYPE auction_category AS ENUM ('machinery', 'vehicles', 'property', 'goods', 'services');
+CREATE TYPE auction_format AS ENUM ('english', 'dutch', 'sealed_first_price', 'vickrey', 'reverse');
 CREATE TYPE kyc_status AS ENUM ('pending', 'verified', 'rejected');
 CREATE TYPE bid_status AS ENUM ('active', 'outbid', 'winning', 'withdrawn', 'invalid');
-CREATE TYPE payment_status AS ENUM ('created', 'pending', 'completed', 'failed', 'refunded');
-CREATE TYPE payment_provider AS ENUM ('razorpay', 'stripe', 'paypal');
+CREATE TYPE payment_status AS ENUM ('created', 'pending', 'completed', 'failed', 'partially_refunded', 'refunded');
+CREATE TYPE payment_provider AS ENUM ('razorpay', 'stripe', 'mock');
+CREATE TYPE auto_bid_status AS ENUM ('active', 'outbid', 'cancelled');
+CREATE TYPE status_actor_role AS ENUM ('admin', 'company', 'bidder', 'system');
+CREATE TYPE lot_status AS ENUM ('open', 'sold', 'unsold', 'withdrawn');
+CREATE TYPE retraction_reason AS ENUM ('amount_typo', 'wrong_auction', 'description_changed', 'duplicate_bid');
+CREATE TYPE retraction_status AS ENUM ('pending', 'approved', 'rejected');
+CREATE TYPE deposit_status AS ENUM ('pending', 'held', 'released', 'applied');
+CREATE TYPE settlement_kind AS ENUM ('winner', 'second_chance');
+CREATE TYPE settlement_status AS ENUM ('offered', 'awaiting_payment', 'paid', 'defaulted', 'declined', 'expired');
+CREATE TYPE invoice_type AS ENUM ('invoice', 'credit_note');
+CREATE TYPE escrow_status AS ENUM ('held', 'released', 'reversed');
+CREATE TYPE ledger_account AS ENUM ('cash', 'escrow', 'platform_revenue', 'tax_payable', 'seller_payable', 'seller_available', 'payouts_in_transit');
+CREATE TYPE ledger_direction AS ENUM ('debit', 'credit');
+CREATE TYPE ledger_entry_kind AS ENUM ('payment_received', 'sale_allocated', 'funds_released', 'refund', 'sale_reversed', 'payout_initiated', 'payout_paid', 'payout_failed');
+CREATE TYPE payout_status AS ENUM ('pending', 'paid', 'failed');
+CREATE TYPE refund_status AS ENUM ('requested', 'processing', 'succeeded', 'failed', 'rejected');
+CREATE TYPE company_member_role AS ENUM ('owner', 'manager', 'lister', 'viewer');
+CREATE TYPE user_token_purpose AS ENUM ('email_verification', 'password_reset', 'email_change');
+CREATE TYPE reconciliation_status AS ENUM ('completed', 'failed');
+CREATE TYPE webhook_status AS ENUM ('pending', 'processing', 'processed', 'failed', 'ignored');
 
 -- Users table
 CREATE TABLE IF NOT EXISTS users (
@@ -25,10 +45,14 @@ CREATE TABLE IF NOT EXISTS users (
   profile_picture VARCHAR(500),
   address JSONB,
   kyc_status kyc_status DEFAULT 'pending',
+  credit_limit DECIMAL(15,2),
   last_login TIMESTAMP,
   email_verified BOOLEAN DEFAULT false,
   phone_verified BOOLEAN DEFAULT false,
   two_factor_enabled BOOLEAN DEFAULT false,
+  two_factor_secret TEXT,
+  two_factor_backup_codes JSONB NOT NULL DEFAULT '[]',
+  two_factor_last_step INTEGER,
   login_attempts INTEGER DEFAULT 0,
   account_locked_until TIMESTAMP,
   settings JSONB DEFAULT '{
@@ -87,11 +111,12 @@ CREATE TABLE IF NOT EXISTS companies (
 -- Auctions table
 CREATE TABLE IF NOT EXISTS auctions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  company_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
   title VARCHAR(200) NOT NULL,
   description TEXT NOT NULL,
   category auction_category NOT NULL,
   subcategory VARCHAR(100) NOT NULL,
+  format auction_format NOT NULL DEFAULT 'english',
   item_details JSONB NOT NULL,
   auction_config JSONB NOT NULL DEFAULT '{
     "bidIncrement": 100,
@@ -137,10 +162,36 @@ CREATE TABLE IF NOT EXISTS auctions (
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Auction lots table (multi-item events)
+CREATE TABLE IF NOT EXISTS auction_lots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  auction_id UUID REFERENCES auctions(id) ON DELETE CASCADE,
+  lot_number INTEGER NOT NULL,
+  title VARCHAR(200) NOT NULL,
+  description TEXT,
+  item_details JSONB DEFAULT '{}',
+  starting_bid DECIMAL(15,2) DEFAULT 0,
+  bid_increment DECIMAL(15,2),
+  reserve_price DECIMAL(15,2),
+  status lot_status DEFAULT 'open',
+  closes_at TIMESTAMP,
+  current_highest_bid DECIMAL(15,2) DEFAULT 0,
+  current_highest_bidder_id UUID REFERENCES users(id),
+  total_bids INTEGER DEFAULT 0,
+  total_bidders INTEGER DEFAULT 0,
+  winner_id UUID REFERENCES users(id),
+  winner_amount DECIMAL(15,2),
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (auction_id, lot_number)
+);
+
 -- Bids table
 CREATE TABLE IF NOT EXISTS bids (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   auction_id UUID REFERENCES auctions(id) ON DELETE CASCADE,
+  lot_id UUID REFERENCES auction_lots(id) ON DELETE CASCADE,
   bidder_id UUID REFERENCES users(id) ON DELETE CASCADE,
   amount DECIMAL(15,2) NOT NULL,
   is_auto_bid BOOLEAN DEFAULT false,
@@ -151,6 +202,79 @@ CREATE TABLE IF NOT EXISTS bids (
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Bid retraction requests table
+CREATE TABLE IF NOT EXISTS bid_retractions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bid_id UUID REFERENCES bids(id) ON DELETE CASCADE,
+  auction_id UUID REFERENCES auctions(id) ON DELETE CASCADE,
+  bidder_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  reason retraction_reason NOT NULL,
+  notes TEXT,
+  status retraction_status NOT NULL DEFAULT 'pending',
+  auto_approved BOOLEAN NOT NULL DEFAULT false,
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  review_notes TEXT,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Auto-bids (proxy bidding ceilings) table
+CREATE TABLE IF NOT EXISTS auto_bids (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  auction_id UUID REFERENCES auctions(id) ON DELETE CASCADE,
+  bidder_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  max_amount DECIMAL(15,2) NOT NULL,
+  status auto_bid_status DEFAULT 'active',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Auction status history table
+CREATE TABLE IF NOT EXISTS auction_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  auction_id UUID REFERENCES auctions(id) ON DELETE CASCADE,
+  from_status auction_status,
+  to_status auction_status NOT NULL,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  actor_role status_actor_role NOT NULL DEFAULT 'system',
+  reason TEXT,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Bid increment ladders per auction category
+CREATE TABLE IF NOT EXISTS bid_increment_tables (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  category auction_category UNIQUE NOT NULL,
+  tiers JSONB NOT NULL DEFAULT '[]',
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Versioned fee schedules (buyer's premium, seller commission, tax)
+CREATE TABLE IF NOT EXISTS fee_schedules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  category auction_category,
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL DEFAULT 1,
+  buyer_premium_tiers JSONB NOT NULL DEFAULT '[]',
+  buyer_premium_min DECIMAL(15,2),
+  buyer_premium_max DECIMAL(15,2),
+  seller_commission_tiers JSONB NOT NULL DEFAULT '[]',
+  seller_commission_min DECIMAL(15,2),
+  seller_commission_max DECIMAL(15,2),
+  tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+  effective_from TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  superseded_at TIMESTAMP,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Payments table
 CREATE TABLE IF NOT EXISTS payments (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -162,11 +286,268 @@ CREATE TABLE IF NOT EXISTS payments (
   provider_order_id VARCHAR(255) UNIQUE NOT NULL,
   provider_payment_id VARCHAR(255),
   status payment_status DEFAULT 'created',
+  refunded_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
   metadata JSONB,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Bidder deposits (earnest money) table
+CREATE TABLE IF NOT EXISTS bidder_deposits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  auction_id UUID REFERENCES auctions(id) ON DELETE CASCADE,
+  bidder_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+  amount DECIMAL(15,2) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  provider payment_provider NOT NULL,
+  status deposit_status NOT NULL DEFAULT 'pending',
+  held_at TIMESTAMP,
+  released_at TIMESTAMP,
+  applied_at TIMESTAMP,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Settlements (payment requests to auction winners) table
+CREATE TABLE IF NOT EXISTS settlements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  auction_id UUID REFERENCES auctions(id) ON DELETE CASCADE,
+  bidder_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  seller_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  kind settlement_kind NOT NULL DEFAULT 'winner',
+  status settlement_status NOT NULL DEFAULT 'awaiting_payment',
+  hammer_amount DECIMAL(15,2) NOT NULL,
+  commission_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(15,2) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'INR',
+  due_at TIMESTAMP,
+  offer_expires_at TIMESTAMP,
+  next_action_at TIMESTAMP,
+  reminders_sent INTEGER NOT NULL DEFAULT 0,
+  last_reminder_at TIMESTAMP,
+  paid_at TIMESTAMP,
+  defaulted_at TIMESTAMP,
+  escrow_status escrow_status,
+  escrow_release_at TIMESTAMP,
+  delivery_confirmed_at TIMESTAMP,
+  escrow_released_at TIMESTAMP,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Invoices and credit notes table
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  type invoice_type NOT NULL DEFAULT 'invoice',
+  number VARCHAR(50) UNIQUE NOT NULL,
+  financial_year VARCHAR(9) NOT NULL,
+  sequence INTEGER NOT NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  auction_id UUID REFERENCES auctions(id) ON DELETE RESTRICT,
+  settlement_id UUID REFERENCES settlements(id) ON DELETE SET NULL,
+  original_invoice_id UUID REFERENCES invoices(id) ON DELETE RESTRICT,
+  buyer_id UUID REFERENCES users(id) ON DELETE RESTRICT,
+  seller_id UUID REFERENCES users(id) ON DELETE RESTRICT,
+  buyer JSONB NOT NULL,
+  seller JSONB NOT NULL,
+  lines JSONB NOT NULL DEFAULT '[]',
+  currency VARCHAR(3) NOT NULL DEFAULT 'INR',
+  subtotal DECIMAL(15,2) NOT NULL,
+  tax_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(15,2) NOT NULL,
+  issued_at TIMESTAMP NOT NULL,
+  reason TEXT,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (type, financial_year, sequence)
+);
+
+-- Seller payouts table
+CREATE TABLE IF NOT EXISTS payouts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  batch_id UUID NOT NULL,
+  seller_id UUID REFERENCES users(id) ON DELETE RESTRICT,
+  amount DECIMAL(15,2) NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'INR',
+  status payout_status NOT NULL DEFAULT 'pending',
+  reference VARCHAR(255),
+  paid_at TIMESTAMP,
+  failed_at TIMESTAMP,
+  failure_reason TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Double-entry ledger (escrow, revenue, seller balances and payouts)
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_id UUID NOT NULL,
+  account ledger_account NOT NULL,
+  owner_id UUID REFERENCES users(id) ON DELETE RESTRICT,
+  direction ledger_direction NOT NULL,
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'INR',
+  kind ledger_entry_kind NOT NULL,
+  auction_id UUID REFERENCES auctions(id) ON DELETE RESTRICT,
+  settlement_id UUID REFERENCES settlements(id) ON DELETE RESTRICT,
+  payment_id UUID REFERENCES payments(id) ON DELETE RESTRICT,
+  payout_id UUID REFERENCES payouts(id) ON DELETE RESTRICT,
+  description VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Refunds, one row per refund of a payment
+CREATE TABLE IF NOT EXISTS refunds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE RESTRICT,
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  currency VARCHAR(3) NOT NULL,
+  status refund_status NOT NULL DEFAULT 'requested',
+  reason TEXT,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  review_note TEXT,
+  provider_refund_id VARCHAR(255) UNIQUE,
+  failure_reason TEXT,
+  processed_at TIMESTAMP,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Payment provider webhook deliveries
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider payment_provider NOT NULL,
+  event_id VARCHAR(255) NOT NULL,
+  type VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL,
+  status webhook_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP,
+  processed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(provider, event_id)
+);
+
+-- Daily comparison of payments against each provider's records
+CREATE TABLE IF NOT EXISTS reconciliation_reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider payment_provider NOT NULL,
+  report_date DATE NOT NULL,
+  status reconciliation_status NOT NULL,
+  summary JSONB NOT NULL DEFAULT '{}',
+  discrepancies JSONB NOT NULL DEFAULT '[]',
+  fixes JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(provider, report_date)
+);
+
+-- Signed-in devices; each holds the hash of its current refresh token
+CREATE TABLE IF NOT EXISTS sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash VARCHAR(64) UNIQUE NOT NULL,
+  two_factor BOOLEAN NOT NULL DEFAULT false,
+  device_id VARCHAR(255),
+  device_name VARCHAR(255),
+  platform VARCHAR(100),
+  ip_address VARCHAR(100),
+  user_agent TEXT,
+  last_used_at TIMESTAMP NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  revoked_reason VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Single-use tokens mailed for email verification, password reset and email change
+CREATE TABLE IF NOT EXISTS user_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose user_token_purpose NOT NULL,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMP NOT NULL,
+  consumed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Named sets of admin permissions
+CREATE TABLE IF NOT EXISTS roles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(50) UNIQUE NOT NULL,
+  description TEXT,
+  permissions JSONB NOT NULL DEFAULT '[]',
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Roles held by admin users
+CREATE TABLE IF NOT EXISTS user_roles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role_id UUID NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, role_id)
+);
+
+-- Company team members; a user belongs to at most one company
+CREATE TABLE IF NOT EXISTS company_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  user_id UUID UNIQUE NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role company_member_role NOT NULL,
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Emailed invitations to join a company team
+CREATE TABLE IF NOT EXISTS company_invitations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  role company_member_role NOT NULL,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  invited_by UUID NOT NULL REFERENCES users(id),
+  expires_at TIMESTAMP NOT NULL,
+  accepted_at TIMESTAMP,
+  accepted_by UUID REFERENCES users(id),
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- What each company member did
+CREATE TABLE IF NOT EXISTS company_audit_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  action VARCHAR(100) NOT NULL,
+  target_type VARCHAR(50),
+  target_id UUID,
+  details JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Create indexes
 CREATE INDEX idx_users_email ON users(email);
 CREATE INDEX idx_users_role ON users(role);
@@ -188,11 +569,79 @@ CREATE INDEX idx_bids_bidder_id ON bids(bidder_id);
 CREATE INDEX idx_bids_auction_id_bidder_id ON bids(auction_id, bidder_id);
 CREATE INDEX idx_bids_status ON bids(status);
 
+CREATE INDEX idx_auction_lots_auction_id ON auction_lots(auction_id);
+CREATE INDEX idx_auction_lots_status ON auction_lots(status);
+CREATE INDEX idx_auction_lots_closes_at ON auction_lots(closes_at);
+CREATE INDEX idx_bids_lot_id ON bids(lot_id);
+
+CREATE INDEX idx_bid_retractions_bid_id ON bid_retractions(bid_id);
+CREATE INDEX idx_bid_retractions_auction_id ON bid_retractions(auction_id);
+CREATE INDEX idx_bid_retractions_bidder_id ON bid_retractions(bidder_id);
+CREATE INDEX idx_bid_retractions_status ON bid_retractions(status);
+
+CREATE INDEX idx_auto_bids_auction_id ON auto_bids(auction_id);
+CREATE INDEX idx_auto_bids_bidder_id ON auto_bids(bidder_id);
+CREATE INDEX idx_auto_bids_auction_id_status ON auto_bids(auction_id, status);
+
+CREATE INDEX idx_auction_status_history_auction_id ON auction_status_history(auction_id);
+CREATE INDEX idx_auction_status_history_auction_id_created_at ON auction_status_history(auction_id, created_at);
+
 CREATE INDEX idx_payments_user_id ON payments(user_id);
 CREATE INDEX idx_payments_auction_id ON payments(auction_id);
 CREATE INDEX idx_payments_provider_order_id ON payments(provider_order_id);
 CREATE INDEX idx_payments_status ON payments(status);
 
+CREATE INDEX idx_bidder_deposits_auction_id_bidder_id ON bidder_deposits(auction_id, bidder_id);
+CREATE INDEX idx_bidder_deposits_payment_id ON bidder_deposits(payment_id);
+CREATE INDEX idx_bidder_deposits_status ON bidder_deposits(status);
+
+CREATE INDEX idx_fee_schedules_scope_version ON fee_schedules(category, company_id, version);
+CREATE INDEX idx_fee_schedules_superseded_at ON fee_schedules(superseded_at);
+
+CREATE INDEX idx_settlements_auction_id ON settlements(auction_id);
+CREATE INDEX idx_settlements_bidder_id_status ON settlements(bidder_id, status);
+CREATE INDEX idx_settlements_next_action_at ON settlements(next_action_at);
+CREATE INDEX idx_settlements_escrow_status_release_at ON settlements(escrow_status, escrow_release_at);
+
+CREATE INDEX idx_invoices_payment_id ON invoices(payment_id);
+CREATE INDEX idx_invoices_auction_id ON invoices(auction_id);
+CREATE INDEX idx_invoices_settlement_id ON invoices(settlement_id);
+CREATE INDEX idx_invoices_buyer_id ON invoices(buyer_id);
+CREATE INDEX idx_invoices_seller_id ON invoices(seller_id);
+CREATE INDEX idx_invoices_original_invoice_id ON invoices(original_invoice_id);
+
+CREATE INDEX idx_payouts_batch_id ON payouts(batch_id);
+CREATE INDEX idx_payouts_seller_id_status ON payouts(seller_id, status);
+CREATE INDEX idx_payouts_status ON payouts(status);
+
+CREATE INDEX idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+CREATE INDEX idx_ledger_entries_account_owner_id ON ledger_entries(account, owner_id);
+CREATE INDEX idx_ledger_entries_owner_id_created_at ON ledger_entries(owner_id, created_at);
+CREATE INDEX idx_ledger_entries_settlement_id ON ledger_entries(settlement_id);
+CREATE INDEX idx_ledger_entries_payment_id ON ledger_entries(payment_id);
+CREATE INDEX idx_ledger_entries_payout_id ON ledger_entries(payout_id);
+
+CREATE INDEX idx_refunds_payment_id ON refunds(payment_id);
+CREATE INDEX idx_refunds_status ON refunds(status);
+CREATE INDEX idx_refunds_requested_by ON refunds(requested_by);
+
+CREATE INDEX idx_webhook_events_status_next_attempt_at ON webhook_events(status, next_attempt_at);
+CREATE INDEX idx_webhook_events_type ON webhook_events(type);
+
+CREATE INDEX idx_reconciliation_reports_report_date ON reconciliation_reports(report_date);
+
+CREATE INDEX idx_sessions_user_id_revoked_at ON sessions(user_id, revoked_at);
+CREATE INDEX idx_sessions_expires_at ON sessions(expires_at);
+
+CREATE INDEX idx_user_tokens_user_id_purpose ON user_tokens(user_id, purpose);
+
+CREATE INDEX idx_user_roles_role_id ON user_roles(role_id);
+
+CREATE INDEX idx_company_members_company_id_role ON company_members(company_id, role);
+CREATE INDEX idx_company_invitations_company_id_email ON company_invitations(company_id, email);
+CREATE INDEX idx_company_audit_logs_company_id_created_at ON company_audit_logs(company_id, created_at);
+CREATE INDEX idx_company_audit_logs_actor_id ON company_audit_logs(actor_id);
+
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -207,4 +656,22 @@ CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users FOR EACH ROW EXECU
 CREATE TRIGGER update_companies_updated_at BEFORE UPDATE ON companies FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_auctions_updated_at BEFORE UPDATE ON auctions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_bids_updated_at BEFORE UPDATE ON bids FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON payments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
+CREATE TRIGGER update_auction_lots_updated_at BEFORE UPDATE ON auction_lots FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_bid_retractions_updated_at BEFORE UPDATE ON bid_retractions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_auto_bids_updated_at BEFORE UPDATE ON auto_bids FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_bid_increment_tables_updated_at BEFORE UPDATE ON bid_increment_tables FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_fee_schedules_updated_at BEFORE UPDATE ON fee_schedules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON payments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_bidder_deposits_updated_at BEFORE UPDATE ON bidder_deposits FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_settlements_updated_at BEFORE UPDATE ON settlements FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_invoices_updated_at BEFORE UPDATE ON invoices FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_payouts_updated_at BEFORE UPDATE ON payouts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_refunds_updated_at BEFORE UPDATE ON refunds FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_webhook_events_updated_at BEFORE UPDATE ON webhook_events FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_reconciliation_reports_updated_at BEFORE UPDATE ON reconciliation_reports FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_sessions_updated_at BEFORE UPDATE ON sessions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_user_tokens_updated_at BEFORE UPDATE ON user_tokens FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_roles_updated_at BEFORE UPDATE ON roles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_user_roles_updated_at BEFORE UPDATE ON user_roles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_company_members_updated_at BEFORE UPDATE ON company_members FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_company_invitations_updated_at BEFORE UPDATE ON company_invitations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { Sequelize } from 'sequelize';
 import { logger } from '../utils/logger';
+import * as companyOwnedAuctions from '../database/migrations/002-company-owned-auctions';
 
 // Use DATABASE_URL if available (Render provides this), otherwise use individual vars
 const databaseUrl = process.env.DATABASE_URL || 
@@ -26,6 +27,9 @@ export const connectDatabase = async (): Promise<void> => {
   try {
     await sequelize.authenticate();
     logger.info('Database connected successfully');
+
+    // Before any sync, whose alter would fail on rows the migration rewrites
+    await companyOwnedAuctions.up(sequelize.getQueryInterface());
     
     // Sync models in development
     if (process.env.NODE_ENV === 'development') {
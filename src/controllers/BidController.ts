@@ -1,11 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import { BidService } from '../services/bid.service';
-import { ApiResponse } from '../utils/helpers';
+import { ApiResponse, getClientIP, getUserAgent } from '../utils/helpers';
 import { logger } from '../utils/logger';
+import { RetractionService } from '../services/retraction.service';
+import { broadcastBidPlacement, broadcastBidRetracted, notifyUser } from '../sockets/auction.socket';
 import { validationResult } from 'express-validator';
 import Bid from '../database/models/Bid';
 import Auction from '../database/models/Auction';
 import User from '../database/models/User';
+import Company from '../database/models/Company';
 
 export class BidController {
   // Place a bid
@@ -17,7 +20,7 @@ export class BidController {
       }
 
       const { auctionId } = req.params;
-      const { amount, isAutoBid = false, maxAutoBidAmount } = req.body;
+      const { amount } = req.body;
       const bidderId = (req as any).user.id;
 
       // Validate user role
@@ -29,10 +32,14 @@ export class BidController {
         auctionId, 
         bidderId, 
         parseFloat(amount),
-        isAutoBid,
-        maxAutoBidAmount ? parseFloat(maxAutoBidAmount) : null
+        {
+          ipAddress: getClientIP(req),
+          userAgent: getUserAgent(req)
+        }
       );
 
+      await broadcastBidPlacement(bidResult);
+
       logger.info(`Bid placed: ${amount} on auction ${auctionId} by user ${bidderId}`);
 
       res.json(new ApiResponse(200, 'Bid placed successfully', {
@@ -40,7 +47,9 @@ export class BidController {
         amount: bidResult.amount,
         auctionId: bidResult.auctionId,
         isWinning: bidResult.isWinning,
-        previousHighestBidderId: bidResult.previousHighestBidderId
+        currentHighestBid: bidResult.currentHighestBid,
+        previousHighestBidderId: bidResult.previousHighestBidderId,
+        steps: bidResult.steps
       }));
     } catch (error) {
       next(error);
@@ -51,29 +60,17 @@ export class BidController {
   public static async getAuctionBids(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { auctionId } = req.params;
-      const { limit = 20, offset = 0, sortBy = 'createdAt', sortOrder = 'DESC' } = req.query;
-
-      const bids = await Bid.findAll({
-        where: { auctionId },
-        limit: parseInt(limit as string),
-        offset: parseInt(offset as string),
-        order: [[sortBy as string, sortOrder as string]],
-        include: [
-          {
-            model: User,
-            as: 'bidder',
-            attributes: ['id', 'firstName', 'lastName', 'email', 'profilePicture']
-          }
-        ]
-      });
+      const filters = req.query;
+      const limit = parseInt(filters.limit as string || '20');
+      const offset = parseInt(filters.offset as string || '0');
 
-      const total = await Bid.count({ where: { auctionId } });
+      const result = await BidService.getAuctionBids(auctionId, filters, (req as any).user);
 
       res.json(new ApiResponse(200, 'Bids fetched successfully', {
-        bids,
-        total,
-        page: Math.floor(parseInt(offset as string) / parseInt(limit as string)) + 1,
-        totalPages: Math.ceil(total / parseInt(limit as string))
+        bids: result.bids,
+        total: result.total,
+        page: Math.floor(offset / limit) + 1,
+        totalPages: Math.ceil(result.total / limit)
       }));
     } catch (error) {
       next(error);
@@ -84,33 +81,11 @@ export class BidController {
   public static async getUserBids(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = (req as any).user.id;
-      const { status, limit = 20, offset = 0 } = req.query;
-
-      const whereClause: any = { bidderId: userId };
-      if (status) whereClause.status = status;
-
-      const bids = await Bid.findAll({
-        where: whereClause,
-        limit: parseInt(limit as string),
-        offset: parseInt(offset as string),
-        order: [['createdAt', 'DESC']],
-        include: [
-          {
-            model: Auction,
-            as: 'auction',
-            attributes: ['id', 'title', 'category', 'status', 'currentHighestBid', 'timing'],
-            include: [
-              {
-                model: User,
-                as: 'company',
-                attributes: ['id', 'firstName', 'lastName', 'profilePicture']
-              }
-            ]
-          }
-        ]
-      });
+      const filters = req.query;
+      const limit = parseInt(filters.limit as string || '20');
+      const offset = parseInt(filters.offset as string || '0');
 
-      const total = await Bid.count({ where: whereClause });
+      const result = await BidService.getUserBids(userId, filters);
 
       // Calculate stats
       const stats = {
@@ -121,11 +96,11 @@ export class BidController {
       };
 
       res.json(new ApiResponse(200, 'User bids fetched successfully', {
-        bids,
-        total,
+        bids: result.bids,
+        total: result.total,
         stats,
-        page: Math.floor(parseInt(offset as string) / parseInt(limit as string)) + 1,
-        totalPages: Math.ceil(total / parseInt(limit as string))
+        page: Math.floor(offset / limit) + 1,
+        totalPages: Math.ceil(result.total / limit)
       }));
     } catch (error) {
       next(error);
@@ -145,9 +120,9 @@ export class BidController {
             as: 'auction',
             include: [
               {
-                model: User,
+                model: Company,
                 as: 'company',
-                attributes: ['id', 'firstName', 'lastName', 'profilePicture']
+                attributes: ['id', 'name', 'logo']
               }
             ]
           },
@@ -163,12 +138,15 @@ export class BidController {
         throw new ApiResponse(404, 'Bid not found');
       }
 
-      // Check if user owns the bid or is admin/auction owner
+      // Check if user owns the bid or is admin/a member of the selling company
       if (bid.bidderId !== userId && (req as any).user.role !== 'admin') {
         const auction = await Auction.findByPk(bid.auctionId);
-        if (!auction || auction.companyId !== userId) {
+        if (!auction || !(req as any).user.companyId || auction.companyId !== (req as any).user.companyId) {
           throw new ApiResponse(403, 'Not authorized to view this bid');
         }
+
+        // Owners only see sealed bids once the auction has closed
+        BidService.assertBidsVisible(auction, (req as any).user);
       }
 
       res.json(new ApiResponse(200, 'Bid details fetched successfully', bid));
@@ -177,68 +155,84 @@ export class BidController {
     }
   }
 
-  // Withdraw bid
+  // Retract a bid: applies straight away inside the grace window, otherwise queued for an admin
   public static async withdrawBid(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
       const { bidId } = req.params;
+      const { reason, notes } = req.body;
       const userId = (req as any).user.id;
 
-      const bid = await Bid.findByPk(bidId);
-      
-      if (!bid) {
-        throw new ApiResponse(404, 'Bid not found');
-      }
+      const result = await RetractionService.requestRetraction(bidId, userId, reason, notes || null);
 
-      // Check ownership
-      if (bid.bidderId !== userId) {
-        throw new ApiResponse(403, 'Not authorized to withdraw this bid');
+      if (result.outcome) {
+        await broadcastBidRetracted(result.outcome);
       }
 
-      // Check if bid can be withdrawn
-      if (bid.status !== 'active') {
-        throw new ApiResponse(400, 'Only active bids can be withdrawn');
-      }
+      logger.info(`Bid retraction ${result.retraction.status}: ${bidId} by user ${userId}`);
 
-      // Get auction
-      const auction = await Auction.findByPk(bid.auctionId);
-      if (!auction) {
-        throw new ApiResponse(404, 'Auction not found');
-      }
+      res.json(new ApiResponse(200, result.outcome ? 'Bid retracted successfully' : 'Retraction request submitted for review', {
+        retraction: result.retraction,
+        outcome: result.outcome
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Admin retraction queue
+  public static async getRetractions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query;
+      const limit = parseInt(filters.limit as string || '20');
+      const offset = parseInt(filters.offset as string || '0');
 
-      // Check auction status
-      if (auction.status !== 'live') {
-        throw new ApiResponse(400, 'Cannot withdraw bid from non-live auction');
+      const result = await RetractionService.getRetractions(filters);
+
+      res.json(new ApiResponse(200, 'Retraction requests fetched successfully', {
+        retractions: result.retractions,
+        total: result.total,
+        page: Math.floor(offset / limit) + 1,
+        totalPages: Math.ceil(result.total / limit)
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Approve or reject a queued retraction
+  public static async reviewRetraction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
       }
 
-      // Update bid status
-      bid.status = 'withdrawn';
-      await bid.save();
-
-      // If this was the highest bid, find next highest bid
-      if (auction.currentHighestBidderId === userId && auction.currentHighestBid === bid.amount) {
-        const nextHighestBid = await Bid.findOne({
-          where: {
-            auctionId: auction.id,
-            bidderId: { $ne: userId },
-            status: 'active'
-          },
-          order: [['amount', 'DESC']]
-        });
-
-        if (nextHighestBid) {
-          auction.currentHighestBid = nextHighestBid.amount;
-          auction.currentHighestBidderId = nextHighestBid.bidderId;
-        } else {
-          auction.currentHighestBid = auction.auctionConfig?.startingBid || 0;
-          auction.currentHighestBidderId = null;
-        }
-        
-        await auction.save();
+      const { retractionId } = req.params;
+      const { approve, notes } = req.body;
+      const adminId = (req as any).user.id;
+
+      const result = await RetractionService.reviewRetraction(retractionId, adminId, approve, notes || null);
+
+      if (result.outcome) {
+        await broadcastBidRetracted(result.outcome);
       }
 
-      logger.info(`Bid withdrawn: ${bidId} by user ${userId}`);
+      notifyUser(result.retraction.bidderId, approve ? 'BID_RETRACTION_APPROVED' : 'BID_RETRACTION_REJECTED', {
+        retractionId: result.retraction.id,
+        bidId: result.retraction.bidId,
+        auctionId: result.retraction.auctionId,
+        notes: result.retraction.reviewNotes
+      });
 
-      res.json(new ApiResponse(200, 'Bid withdrawn successfully'));
+      res.json(new ApiResponse(200, `Retraction ${result.retraction.status}`, {
+        retraction: result.retraction,
+        outcome: result.outcome
+      }));
     } catch (error) {
       next(error);
     }
@@ -247,8 +241,13 @@ export class BidController {
   // Update auto-bid settings
   public static async updateAutoBid(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
       const { auctionId } = req.params;
-      const { maxAmount, increment } = req.body;
+      const { maxAmount } = req.body;
       const userId = (req as any).user.id;
 
       // Validate user role
@@ -256,33 +255,20 @@ export class BidController {
         throw new ApiResponse(403, 'Only bidders can set auto-bid');
       }
 
-      // Get auction
-      const auction = await Auction.findByPk(auctionId);
-      if (!auction) {
-        throw new ApiResponse(404, 'Auction not found');
-      }
-
-      if (auction.status !== 'live') {
-        throw new ApiResponse(400, 'Cannot set auto-bid on non-live auction');
-      }
-
-      // Get or create auto-bid settings
-      // In a real app, you might have an AutoBid model
-      const autoBidSettings = {
-        auctionId,
-        userId,
-        maxAmount: parseFloat(maxAmount),
-        increment: increment ? parseFloat(increment) : null,
-        active: true,
-        updatedAt: new Date()
-      };
+      const result = await BidService.setAutoBid(auctionId, userId, parseFloat(maxAmount));
 
-      // Store in Redis for quick access
-      // await redisClient.setEx(`auto_bid:${auctionId}:${userId}`, 3600, JSON.stringify(autoBidSettings));
+      await broadcastBidPlacement(result);
 
       logger.info(`Auto-bid settings updated for auction ${auctionId} by user ${userId}`);
 
-      res.json(new ApiResponse(200, 'Auto-bid settings updated successfully', autoBidSettings));
+      res.json(new ApiResponse(200, 'Auto-bid settings updated successfully', {
+        autoBidId: result.autoBidId,
+        auctionId,
+        maxAmount: result.maxAmount,
+        isWinning: result.isWinning,
+        currentHighestBid: result.currentHighestBid,
+        steps: result.steps
+      }));
     } catch (error) {
       next(error);
     }
@@ -1,8 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { auctionService } from '../services/auction.service';
 import { bidService } from '../services/bid.service';
-import { ApiResponse } from '../utils/helpers';
+import { auctionStateService } from '../services/auctionState.service';
+import { companyAuditService } from '../services/companyAudit.service';
+import { ApiResponse, getClientIP, getUserAgent } from '../utils/helpers';
 import { logger } from '../utils/logger';
+import { broadcastBidPlacement, notifyCompany, notifyUser } from '../sockets/auction.socket';
 import { validationResult } from 'express-validator';
 
 export class AuctionController {
@@ -50,14 +53,21 @@ export class AuctionController {
       
       // Ensure company users can only create auctions for their company
       if (user.role === 'company') {
-        auctionData.companyId = user.id;
+        auctionData.companyId = user.companyId;
       } else if (user.role === 'admin' && !auctionData.companyId) {
         throw new ApiResponse(400, 'Company ID is required for admin users');
       }
 
-      const auction = await auctionService.createAuction(auctionData, auctionData.companyId);
+      const auction = await auctionService.createAuction(auctionData, auctionData.companyId, {
+        actorId: user.id,
+        actorRole: user.role
+      });
       
       logger.info(`Auction created: ${auction.title} by user ${user.id}`);
+
+      await companyAuditService.record(auction.companyId, user.id, 'auction.created', { type: 'auction', id: auction.id }, {
+        title: auction.title
+      });
       
       res.status(201).json(
         new ApiResponse(201, 'Auction created successfully', auction)
@@ -89,8 +99,13 @@ export class AuctionController {
       const auction = await auctionService.updateAuction(
         id, 
         updateData, 
-        user.role === 'admin' ? undefined : user.id
+        user.role === 'admin' ? undefined : user.companyId,
+        { actorId: user.id, actorRole: user.role }
       );
+
+      await companyAuditService.record(auction.companyId, user.id, 'auction.updated', { type: 'auction', id: auction.id }, {
+        fields: Object.keys(updateData)
+      });
       
       res.json(new ApiResponse(200, 'Auction updated successfully', auction));
     } catch (error) {
@@ -106,7 +121,7 @@ export class AuctionController {
       
       await auctionService.deleteAuction(
         id, 
-        user.role === 'admin' ? undefined : user.id
+        user.role === 'admin' ? undefined : user.companyId
       );
       
       res.json(new ApiResponse(200, 'Auction deleted successfully'));
@@ -121,7 +136,13 @@ export class AuctionController {
       const { id } = req.params;
       const user = (req as any).user;
       
-      const auction = await auctionService.startAuction(id, user.id);
+      const auction = await auctionService.startAuction(id, user.role === 'admin' ? undefined : user.companyId, {
+        actorId: user.id,
+        actorRole: user.role,
+        reason: req.body?.reason
+      });
+
+      await companyAuditService.record(auction.companyId, user.id, 'auction.started', { type: 'auction', id: auction.id });
       
       res.json(new ApiResponse(200, 'Auction started successfully', auction));
     } catch (error) {
@@ -146,7 +167,12 @@ export class AuctionController {
         throw new ApiResponse(403, 'Only bidders can place bids');
       }
 
-      const bidResult = await bidService.placeBid(id, user.id, parseFloat(amount));
+      const bidResult = await bidService.placeBid(id, user.id, parseFloat(amount), {
+        ipAddress: getClientIP(req),
+        userAgent: getUserAgent(req)
+      });
+
+      await broadcastBidPlacement(bidResult);
       
       logger.info(`Bid placed: ${amount} on auction ${id} by user ${user.id}`);
       
@@ -165,9 +191,16 @@ export class AuctionController {
       const { id } = req.params;
       const filters = req.query;
       
-      const bids = await bidService.getAuctionBids(id, filters);
+      const result = await bidService.getAuctionBids(id, filters, (req as any).user);
       
-      res.json(new ApiResponse(200, 'Bids fetched successfully', bids));
+      res.json(
+        new ApiResponse(200, 'Bids fetched successfully', {
+          bids: result.bids,
+          total: result.total,
+          page: parseInt(filters.offset as string) / parseInt(filters.limit as string || '20') + 1 || 1,
+          totalPages: Math.ceil(result.total / parseInt(filters.limit as string || '20'))
+        })
+      );
     } catch (error) {
       next(error);
     }
@@ -179,9 +212,14 @@ export class AuctionController {
       const user = (req as any).user;
       const filters = req.query;
       
-      const bids = await bidService.getUserBids(user.id, filters);
+      const result = await bidService.getUserBids(user.id, filters);
       
-      res.json(new ApiResponse(200, 'User bids fetched successfully', bids));
+      res.json(
+        new ApiResponse(200, 'User bids fetched successfully', {
+          bids: result.bids,
+          total: result.total
+        })
+      );
     } catch (error) {
       next(error);
     }
@@ -190,15 +228,27 @@ export class AuctionController {
   // Update auction status
   public static async updateAuctionStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { id } = req.params;
-      const { status } = req.body;
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      // Shared by the owner route (/auctions/:id) and the admin route (/admin/auctions/:auctionId)
+      const id = req.params.id || req.params.auctionId;
+      const { status, reason } = req.body;
       const user = (req as any).user;
       
       const auction = await auctionService.updateAuctionStatus(
         id, 
         status, 
-        user.role === 'admin' ? undefined : user.id
+        user.role === 'admin' ? undefined : user.companyId,
+        { actorId: user.id, actorRole: user.role, reason }
       );
+
+      await companyAuditService.record(auction.companyId, user.id, 'auction.status_changed', { type: 'auction', id: auction.id }, {
+        status,
+        reason: reason || null
+      });
       
       res.json(new ApiResponse(200, 'Auction status updated successfully', auction));
     } catch (error) {
@@ -206,6 +256,82 @@ export class AuctionController {
     }
   }
 
+  // Get auction status history
+  public static async getAuctionHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      const history = await auctionStateService.getHistory(id);
+      
+      res.json(new ApiResponse(200, 'Auction history fetched successfully', history));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Offer a reserve-not-met item to the top bidder
+  public static async offerToTopBidder(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user = (req as any).user;
+
+      const auction = await auctionService.offerToTopBidder(
+        id,
+        user.role === 'admin' ? undefined : user.companyId
+      );
+      const offer = auction.metadata.reserveOffer;
+
+      await companyAuditService.record(auction.companyId, user.id, 'auction.reserve_offer_made', { type: 'auction', id: auction.id }, {
+        bidderId: offer.bidderId,
+        amount: offer.amount
+      });
+
+      notifyUser(offer.bidderId, 'RESERVE_OFFER_RECEIVED', {
+        auctionId: auction.id,
+        auctionTitle: auction.title,
+        amount: offer.amount,
+        expiresAt: offer.expiresAt
+      });
+
+      res.json(new ApiResponse(200, 'Offer sent to top bidder', offer));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Top bidder accepts or declines the seller's offer
+  public static async respondToReserveOffer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      const { accept } = req.body;
+      const user = (req as any).user;
+
+      const auction = await auctionService.respondToReserveOffer(id, user.id, accept === true || accept === 'true');
+      const offer = auction.metadata.reserveOffer;
+
+      notifyCompany(auction.companyId, offer.status === 'accepted' ? 'RESERVE_OFFER_ACCEPTED' : 'RESERVE_OFFER_DECLINED', {
+        auctionId: auction.id,
+        auctionTitle: auction.title,
+        amount: offer.amount
+      });
+
+      res.json(new ApiResponse(200, `Offer ${offer.status}`, {
+        auctionId: auction.id,
+        status: auction.status,
+        winnerId: auction.winnerId,
+        finalAmount: auction.finalAmount,
+        offer
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // Get live auctions
   public static async getLiveAuctions(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -225,8 +351,8 @@ export class AuctionController {
       
       // Allow admins to view any company's auctions
       const companyId = user.role === 'admin' 
-        ? (req.params.companyId || user.id)
-        : user.id;
+        ? (req.params.companyId || user.companyId)
+        : user.companyId;
       
       const result = await auctionService.getAuctionsByCompany(companyId, filters);
       
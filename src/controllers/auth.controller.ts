@@ -1,9 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import { authService } from '../services/auth.service';
+import { twoFactorService } from '../services/twoFactor.service';
+import { sessionService, SessionContext } from '../services/session.service';
+import User from '../database/models/User';
 import { logger } from '../utils/logger';
-import { ApiResponse } from '../utils/helpers';
-import redisClient from '../config/redis';
+import { ApiResponse, getClientIP, getUserAgent } from '../utils/helpers';
 
 interface RegisterBody {
   email: string;
@@ -21,6 +23,12 @@ interface LoginBody {
   deviceInfo?: any;
 }
 
+interface TwoFactorLoginBody {
+  challengeToken: string;
+  code: string;
+  deviceInfo?: any;
+}
+
 interface CustomRequest<T> extends Request {
   body: T;
 }
@@ -50,18 +58,22 @@ export class AuthController {
         companyDetails 
       });
 
-      const accessToken = user.generateAuthToken();
-      const refreshToken = user.generateRefreshToken();
-
-      // Store refresh token in Redis
-      await redisClient.setEx(
-        `refresh_token:${user.id}`, 
-        30 * 24 * 60 * 60, // 30 days
-        refreshToken
+      const { session, refreshToken } = await sessionService.create(
+        user,
+        false,
+        AuthController.sessionContext(req, req.body.deviceInfo)
       );
+      const accessToken = user.generateAuthToken(session.id);
 
       logger.info(`User registered: ${user.email}`);
 
+      // Registration still succeeds if the mail does not go out; the user can ask for it again
+      try {
+        await authService.sendVerificationEmail(user);
+      } catch (error) {
+        logger.error(`Error sending verification email to ${user.email}:`, error);
+      }
+
       res.status(201).json(
         new ApiResponse(201, 'Registration successful', { 
           user: user.toJSON(), 
@@ -97,36 +109,110 @@ export class AuthController {
         throw new ApiResponse(423, `Account locked. Try again in ${remainingTime} minutes`);
       }
 
-      // Update last login and reset attempts
-      user.lastLogin = new Date();
-      user.resetLoginAttempts();
-      await (user as any).save();
+      // The password alone is not enough; tokens wait for /2fa/verify
+      if (user.twoFactorEnabled) {
+        const challenge = await twoFactorService.createChallenge(user);
+
+        res.json(
+          new ApiResponse(200, 'Two-factor authentication required', {
+            twoFactorRequired: true,
+            ...challenge
+          })
+        );
+        return;
+      }
 
-      const accessToken = user.generateAuthToken();
-      const refreshToken = user.generateRefreshToken();
+      user.resetLoginAttempts();
 
-      // Store refresh token in Redis
-      await redisClient.setEx(
-        `refresh_token:${user.id}`,
-        30 * 24 * 60 * 60,
-        refreshToken
+      res.json(
+        new ApiResponse(200, 'Login successful', await AuthController.completeLogin(req, user, false, deviceInfo))
       );
+    } catch (error) { 
+      next(error); 
+    }
+  }
+
+  // Second login step: exchange the login challenge and a code for tokens
+  public static async verify2FA(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
 
-      logger.info(`User logged in: ${user.email}`);
+      const { challengeToken, code, deviceInfo } = req.body as TwoFactorLoginBody;
+      const user = await twoFactorService.completeChallenge(challengeToken, code);
 
       res.json(
-        new ApiResponse(200, 'Login successful', { 
-          user: user.toJSON(), 
-          tokens: { 
-            accessToken, 
-            refreshToken, 
-            expiresIn: 7 * 24 * 60 * 60 
-          },
-          deviceInfo
-        })
+        new ApiResponse(200, 'Login successful', await AuthController.completeLogin(req, user, true, deviceInfo))
       );
-    } catch (error) { 
-      next(error); 
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Start 2FA setup: a secret and provisioning URI for the authenticator app
+  public static async enable2FA(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      const setup = await twoFactorService.setup(user.id);
+
+      res.json(new ApiResponse(200, 'Scan the code with your authenticator app, then confirm it', setup));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Turn 2FA on with a first code from the app; returns the backup codes
+  public static async confirm2FA(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const user = (req as any).user;
+
+      const backupCodes = await twoFactorService.confirm(user.id, req.body.code);
+
+      res.json(new ApiResponse(200, 'Two-factor authentication enabled', { backupCodes }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async disable2FA(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const user = (req as any).user;
+
+      await twoFactorService.disable(user.id, req.body.code);
+
+      res.json(new ApiResponse(200, 'Two-factor authentication disabled'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async regenerateBackupCodes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const user = (req as any).user;
+
+      const backupCodes = await twoFactorService.regenerateBackupCodes(user.id, req.body.code);
+
+      res.json(new ApiResponse(200, 'Backup codes regenerated', { backupCodes }));
+    } catch (error) {
+      next(error);
     }
   }
 
@@ -166,32 +252,20 @@ export class AuthController {
         throw new ApiResponse(400, 'Refresh token required');
       }
 
-      const decoded = require('jsonwebtoken').verify(
-        refreshToken, 
-        process.env.JWT_REFRESH_SECRET!
-      ) as any;
-
-      const storedToken = await redisClient.get(`refresh_token:${decoded.id}`);
-      
-      if (storedToken !== refreshToken) {
-        throw new ApiResponse(401, 'Invalid refresh token');
-      }
+      // Single use: the token handed in is dead from here on
+      const { session, refreshToken: newRefreshToken } = await sessionService.rotate(
+        refreshToken,
+        AuthController.sessionContext(req)
+      );
 
-      const user = await authService.findUserById(decoded.id);
+      const user = await authService.findUserById(session.userId);
       
-      if (!user) {
-        throw new ApiResponse(404, 'User not found');
+      if (!user || !user.isActive) {
+        throw new ApiResponse(401, 'Account is not available');
       }
 
-      const newAccessToken = user.generateAuthToken();
-      const newRefreshToken = user.generateRefreshToken();
-
-      // Update refresh token in Redis
-      await redisClient.setEx(
-        `refresh_token:${user.id}`,
-        30 * 24 * 60 * 60,
-        newRefreshToken
-      );
+      // A session that passed 2FA keeps that through refreshes
+      const newAccessToken = user.generateAuthToken(session.id, session.twoFactor);
 
       res.json(
         new ApiResponse(200, 'Token refreshed', {
@@ -209,12 +283,201 @@ export class AuthController {
     try {
       const user = (req as any).user;
       
-      // Remove refresh token from Redis
-      await redisClient.del(`refresh_token:${user.id}`);
+      // Ends the refresh token and every access token of this session
+      await sessionService.revokeSession(user.sessionId, user.id, 'Logged out');
 
       res.json(new ApiResponse(200, 'Logged out successfully'));
     } catch (error) {
       next(error);
     }
   }
+
+  // Always answers the same, so it cannot be used to find out who has an account
+  public static async forgotPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      await authService.requestPasswordReset(req.body.email);
+
+      res.json(new ApiResponse(200, 'If an account exists for that email, a reset link has been sent'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async resetPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { token } = req.params;
+
+      await authService.resetPassword(token, req.body.password);
+
+      res.json(new ApiResponse(200, 'Password reset successfully. Please login again.'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.params;
+
+      const user = await authService.verifyEmail(token);
+
+      res.json(new ApiResponse(200, 'Email verified successfully', user.toJSON()));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async resendVerificationEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await authService.findUserById((req as any).user.id);
+
+      if (!user) {
+        throw new ApiResponse(404, 'User not found');
+      }
+
+      await authService.sendVerificationEmail(user);
+
+      res.json(new ApiResponse(200, 'Verification email sent'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Mail a confirmation link to the new address
+  public static async requestEmailChange(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const user = (req as any).user;
+      const { newEmail, password } = req.body;
+
+      await authService.requestEmailChange(user.id, newEmail, password);
+
+      res.json(new ApiResponse(200, 'Confirmation link sent to the new email address'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async confirmEmailChange(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.params;
+
+      const user = await authService.confirmEmailChange(token);
+
+      res.json(new ApiResponse(200, 'Email address changed', user.toJSON()));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List the devices signed in to the account
+  public static async getSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      const sessions = await sessionService.getActiveSessions(user.id);
+
+      res.json(
+        new ApiResponse(
+          200,
+          'Sessions fetched successfully',
+          sessions.map(session => ({ ...session.toJSON(), current: session.id === user.sessionId }))
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async revokeSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { sessionId } = req.params;
+      const user = (req as any).user;
+
+      await sessionService.revokeSession(sessionId, user.id, 'Revoked by user');
+
+      res.json(new ApiResponse(200, 'Session revoked'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Sign out every other device, keeping the current session
+  public static async revokeOtherSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      const revoked = await sessionService.revokeAll(user.id, 'Revoked by user', user.sessionId);
+
+      res.json(new ApiResponse(200, 'Other sessions revoked', { revoked }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Log a user out everywhere (admin)
+  public static async revokeUserSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const admin = (req as any).user;
+
+      const revoked = await sessionService.revokeAll(userId, `Revoked by admin ${admin.id}`);
+
+      res.json(new ApiResponse(200, 'User logged out everywhere', { revoked }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Start a session for a fully authenticated login
+  private static async completeLogin(req: Request, user: User, twoFactor: boolean, deviceInfo?: any): Promise<any> {
+    user.lastLogin = new Date();
+    await user.save();
+
+    const { session, refreshToken } = await sessionService.create(
+      user,
+      twoFactor,
+      AuthController.sessionContext(req, deviceInfo)
+    );
+    const accessToken = user.generateAuthToken(session.id, twoFactor);
+
+    logger.info(`User logged in: ${user.email}${twoFactor ? ' (2FA)' : ''}`);
+
+    return {
+      user: user.toJSON(),
+      tokens: {
+        accessToken,
+        refreshToken,
+        expiresIn: 7 * 24 * 60 * 60
+      },
+      deviceInfo
+    };
+  }
+
+  private static sessionContext(req: Request, deviceInfo?: any): SessionContext {
+    return {
+      ipAddress: getClientIP(req),
+      userAgent: getUserAgent(req),
+      deviceInfo: deviceInfo || null
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { Request, Response, NextFunction } from 'express';
+import { companyMemberService } from '../services/companyMember.service';
+import { companyAuditService } from '../services/companyAudit.service';
+import { ApiResponse } from '../utils/helpers';
+import { validationResult } from 'express-validator';
+
+export class CompanyTeamController {
+  // Get the company's members and pending invitations
+  public static async getTeam(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const team = await companyMemberService.getTeam(CompanyTeamController.getCompanyId(req));
+
+      res.json(new ApiResponse(200, 'Team fetched successfully', team));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Invite someone to the company by email
+  public static async inviteMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const user = (req as any).user;
+      const { email, role } = req.body;
+
+      const invitation = await companyMemberService.invite(
+        CompanyTeamController.getCompanyId(req),
+        email,
+        role,
+        user,
+        user.role === 'admin' ? 'admin' : user.companyRole
+      );
+
+      res.status(201).json(new ApiResponse(201, 'Invitation sent successfully', invitation));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async revokeInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { invitationId } = req.params;
+
+      const invitation = await companyMemberService.revokeInvitation(
+        CompanyTeamController.getCompanyId(req),
+        invitationId,
+        (req as any).user
+      );
+
+      res.json(new ApiResponse(200, 'Invitation revoked successfully', invitation));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Join a company with the token from an invitation email
+  public static async acceptInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.params;
+      const user = (req as any).user;
+
+      const member = await companyMemberService.acceptInvitation(token, user.id);
+
+      res.json(new ApiResponse(200, 'Invitation accepted successfully', member));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async updateMemberRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { userId } = req.params;
+
+      const member = await companyMemberService.updateMemberRole(
+        CompanyTeamController.getCompanyId(req),
+        userId,
+        req.body.role,
+        (req as any).user
+      );
+
+      res.json(new ApiResponse(200, 'Member role updated successfully', member));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Owners remove members; any member may remove themselves to leave
+  public static async removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { userId } = req.params;
+      const user = (req as any).user;
+
+      if (userId !== user.id && user.role !== 'admin' && user.companyRole !== 'owner') {
+        throw new ApiResponse(403, 'Only owners can remove other members');
+      }
+
+      await companyMemberService.removeMember(CompanyTeamController.getCompanyId(req), userId, user);
+
+      res.json(new ApiResponse(200, userId === user.id ? 'You have left the company' : 'Member removed successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Who in the team did what
+  public static async getAuditLog(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query;
+
+      const result = await companyAuditService.getLog(CompanyTeamController.getCompanyId(req), filters);
+
+      res.json(
+        new ApiResponse(200, 'Audit log fetched successfully', {
+          entries: result.entries,
+          total: result.total,
+          page: parseInt(filters.offset as string) / parseInt(filters.limit as string || '50') + 1 || 1,
+          totalPages: Math.ceil(result.total / parseInt(filters.limit as string || '50'))
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Members act on their own company; admins pick one with ?companyId
+  private static getCompanyId(req: Request): string {
+    const user = (req as any).user;
+    const companyId = user.role === 'admin' && req.query.companyId ? req.query.companyId as string : user.companyId;
+
+    if (!companyId) {
+      throw new ApiResponse(400, 'No company selected');
+    }
+
+    return companyId;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import { depositService } from '../services/deposit.service';
+import { auctionService } from '../services/auction.service';
+import { ApiResponse } from '../utils/helpers';
+import { validationResult } from 'express-validator';
+
+export class DepositController {
+  // Start a deposit hold for the current bidder
+  public static async createDeposit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      const user = (req as any).user;
+
+      const result = await depositService.createDeposit(id, user.id, req.body.provider);
+
+      res.status(201).json(new ApiResponse(201, 'Deposit started', result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the current bidder's deposit and what the auction requires
+  public static async getDeposit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user = (req as any).user;
+
+      const auction = await auctionService.getAuctionById(id);
+      const deposit = await depositService.getDeposit(id, user.id);
+
+      res.json(new ApiResponse(200, 'Deposit fetched successfully', {
+        depositRequired: depositService.getRequiredDeposit(auction),
+        depositHeld: !!deposit && deposit.isActive(),
+        deposit
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
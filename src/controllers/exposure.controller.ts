@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { exposureService } from '../services/exposure.service';
+import { ApiResponse } from '../utils/helpers';
+import { broadcastExposure } from '../sockets/auction.socket';
+import { validationResult } from 'express-validator';
+
+export class ExposureController {
+  // Get the current user's credit limit and exposure
+  public static async getMyExposure(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      const summary = await exposureService.getSummary(user.id);
+
+      res.json(new ApiResponse(200, 'Exposure fetched successfully', summary));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get any user's credit limit and exposure
+  public static async getUserExposure(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      const summary = await exposureService.getSummary(userId);
+
+      res.json(new ApiResponse(200, 'Exposure fetched successfully', summary));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Set a user's credit limit, or clear it to fall back to their KYC tier
+  public static async setCreditLimit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { userId } = req.params;
+      const { creditLimit } = req.body;
+      const user = (req as any).user;
+
+      const summary = await exposureService.setCreditLimit(
+        userId,
+        creditLimit === null ? null : parseFloat(creditLimit),
+        user.id
+      );
+
+      await broadcastExposure([userId]);
+
+      res.json(new ApiResponse(200, 'Credit limit updated successfully', summary));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import { feeService } from '../services/fee.service';
+import { ApiResponse } from '../utils/helpers';
+import { validationResult } from 'express-validator';
+
+export class FeeController {
+  // Get the active fee schedules, or every version with ?history=true
+  public static async getSchedules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedules = await feeService.getSchedules(req.query);
+
+      res.json(new ApiResponse(200, 'Fee schedules fetched successfully', schedules));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Publish a new fee schedule version for a category and/or company
+  public static async setSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const user = (req as any).user;
+
+      const schedule = await feeService.setSchedule(req.body, user.id);
+
+      res.json(new ApiResponse(200, 'Fee schedule updated successfully', schedule));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Retire a schedule so the next less specific one applies
+  public static async retireSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { scheduleId } = req.params;
+
+      const schedule = await feeService.retireSchedule(scheduleId);
+
+      res.json(new ApiResponse(200, 'Fee schedule retired successfully', schedule));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Platform fee revenue across all companies
+  public static async getPlatformRevenue(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { from, to, companyId } = req.query;
+
+      const report = await feeService.getRevenueReport({ from, to, companyId });
+
+      res.json(new ApiResponse(200, 'Revenue fetched successfully', report));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Fees charged on a company's auctions; companies only see their own
+  public static async getCompanyRevenue(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { from, to } = req.query;
+
+      const companyId = user.role === 'admin' && req.query.companyId ? req.query.companyId : user.companyId;
+
+      const report = await feeService.getRevenueReport({ from, to, companyId });
+
+      res.json(new ApiResponse(200, 'Revenue fetched successfully', report));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { incrementService } from '../services/increment.service';
+import { ApiResponse } from '../utils/helpers';
+import { validationResult } from 'express-validator';
+
+export class IncrementController {
+  // Get the increment ladder configured for each category
+  public static async getIncrementTables(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tables = await incrementService.getCategoryTables();
+
+      res.json(new ApiResponse(200, 'Bid increment tables fetched successfully', tables));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create or replace a category's increment ladder
+  public static async updateIncrementTable(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { category } = req.params;
+      const user = (req as any).user;
+
+      const table = await incrementService.setCategoryLadder(category, req.body.tiers, user.id);
+
+      res.json(new ApiResponse(200, 'Bid increment table updated successfully', table));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Remove a category's ladder so its auctions fall back to their flat increment
+  public static async deleteIncrementTable(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { category } = req.params;
+
+      await incrementService.removeCategoryLadder(category);
+
+      res.json(new ApiResponse(200, 'Bid increment table removed successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
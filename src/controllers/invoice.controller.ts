@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { invoiceService } from '../services/invoice.service';
+import { ApiResponse } from '../utils/helpers';
+import { validationResult } from 'express-validator';
+
+export class InvoiceController {
+  // List the invoices and credit notes visible to the current user
+  public static async getInvoices(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const filters = req.query;
+
+      const result = await invoiceService.getInvoices(user, filters);
+
+      res.json(
+        new ApiResponse(200, 'Invoices fetched successfully', {
+          invoices: result.invoices,
+          total: result.total,
+          page: parseInt(filters.offset as string) / parseInt(filters.limit as string || '10') + 1 || 1,
+          totalPages: Math.ceil(result.total / parseInt(filters.limit as string || '10'))
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get an invoice or credit note
+  public static async getInvoice(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { invoiceId } = req.params;
+      const user = (req as any).user;
+
+      const invoice = await invoiceService.getInvoice(invoiceId, user);
+
+      res.json(new ApiResponse(200, 'Invoice fetched successfully', invoice));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Download an invoice or credit note as a PDF
+  public static async downloadInvoice(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { invoiceId } = req.params;
+      const user = (req as any).user;
+
+      const invoice = await invoiceService.getInvoice(invoiceId, user);
+      const pdf = invoiceService.renderPdf(invoice);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.number.replace(/\//g, '-')}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Issue a credit note against an invoice, in full or for part of it
+  public static async createCreditNote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { invoiceId } = req.params;
+      const { amount, reason } = req.body;
+
+      const creditNote = await invoiceService.issueCreditNote(
+        invoiceId,
+        amount === undefined || amount === null ? null : parseFloat(amount),
+        reason
+      );
+
+      res.json(new ApiResponse(200, 'Credit note issued successfully', creditNote));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
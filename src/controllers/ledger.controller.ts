@@ -0,0 +1,148 @@
+import { Request, Response, NextFunction } from 'express';
+import { ledgerService } from '../services/ledger.service';
+import { companyMemberService } from '../services/companyMember.service';
+import { ApiResponse } from '../utils/helpers';
+import { validationResult } from 'express-validator';
+
+export class LedgerController {
+  // Get a company's ledger entries; admins pick the company with ?companyId
+  public static async getCompanyTransactions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query;
+      const sellerId = await LedgerController.getSellerId(req);
+
+      const result = await ledgerService.getTransactions(sellerId, filters);
+      const balances = await ledgerService.getSellerBalances(sellerId);
+
+      res.json(
+        new ApiResponse(200, 'Transactions fetched successfully', {
+          entries: result.entries,
+          balances,
+          total: result.total,
+          page: parseInt(filters.offset as string) / parseInt(filters.limit as string || '20') + 1 || 1,
+          totalPages: Math.ceil(result.total / parseInt(filters.limit as string || '20'))
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a company's payable, available and paid-out balances
+  public static async getCompanyBalance(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const sellerId = await LedgerController.getSellerId(req);
+
+      const balances = await ledgerService.getSellerBalances(sellerId);
+
+      res.json(new ApiResponse(200, 'Balances fetched successfully', balances));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Buyer confirms they received the item, releasing the seller's share
+  public static async confirmDelivery(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { settlementId } = req.params;
+      const user = (req as any).user;
+
+      const settlement = await ledgerService.confirmDelivery(settlementId, user.id);
+
+      res.json(new ApiResponse(200, 'Delivery confirmed successfully', settlement));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Release a settlement's escrow before the inspection window ends
+  public static async releaseEscrow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { settlementId } = req.params;
+
+      const settlement = await ledgerService.releaseSettlement(settlementId, true);
+
+      if (!settlement) {
+        throw new ApiResponse(400, 'There are no funds held in escrow for this settlement');
+      }
+
+      res.json(new ApiResponse(200, 'Escrow released successfully', settlement));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the balance of every ledger account
+  public static async getLedgerBalances(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const balances = await ledgerService.getPlatformBalances();
+
+      res.json(new ApiResponse(200, 'Ledger balances fetched successfully', balances));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List payouts, optionally by batch, seller or status
+  public static async getPayouts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await ledgerService.getPayouts(req.query);
+
+      res.json(new ApiResponse(200, 'Payouts fetched successfully', result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create a payout for every seller with an available balance
+  public static async createPayoutBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const user = (req as any).user;
+      const { minimumAmount } = req.body;
+
+      const batch = minimumAmount === undefined
+        ? await ledgerService.createPayoutBatch(user.id)
+        : await ledgerService.createPayoutBatch(user.id, parseFloat(minimumAmount));
+
+      res.json(new ApiResponse(200, 'Payout batch created successfully', batch));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Record whether a payout transfer went through
+  public static async updatePayout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { payoutId } = req.params;
+      const { status, reference, reason } = req.body;
+
+      const payout = await ledgerService.completePayout(payoutId, status, { reference, reason });
+
+      res.json(new ApiResponse(200, 'Payout updated successfully', payout));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Seller funds are held in the name of the company's account holder
+  private static async getSellerId(req: Request): Promise<string> {
+    const user = (req as any).user;
+    const companyId = user.role === 'admin' && req.query.companyId ? req.query.companyId as string : user.companyId;
+
+    if (!companyId) {
+      throw new ApiResponse(400, 'No company selected');
+    }
+
+    return companyMemberService.getAccountHolderId(companyId);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { Request, Response, NextFunction } from 'express';
+import { lotService } from '../services/lot.service';
+import { bidService } from '../services/bid.service';
+import { companyAuditService } from '../services/companyAudit.service';
+import { ApiResponse, getClientIP, getUserAgent } from '../utils/helpers';
+import { logger } from '../utils/logger';
+import { broadcastAuctionEnded, broadcastLotBid } from '../sockets/auction.socket';
+import { validationResult } from 'express-validator';
+
+export class LotController {
+  // Get an event's lots in catalogue order
+  public static async getLots(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const lots = await lotService.getLots(id);
+
+      res.json(new ApiResponse(200, 'Lots fetched successfully', lots));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a single lot
+  public static async getLot(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, lotId } = req.params;
+
+      const lot = await lotService.getLot(id, lotId);
+
+      res.json(new ApiResponse(200, 'Lot fetched successfully', lot));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Add lots to an event
+  public static async addLots(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      const user = (req as any).user;
+      const companyId = user.role === 'admin' ? undefined : user.companyId;
+
+      const lots = await lotService.addLots(id, req.body.lots, companyId);
+
+      if (companyId) {
+        await companyAuditService.record(companyId, user.id, 'lot.added', null, {
+          auctionId: id,
+          lotIds: lots.map(lot => lot.id)
+        });
+      }
+
+      res.status(201).json(new ApiResponse(201, 'Lots added successfully', lots));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a lot before the event goes live
+  public static async updateLot(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { id, lotId } = req.params;
+      const user = (req as any).user;
+      const companyId = user.role === 'admin' ? undefined : user.companyId;
+
+      const lot = await lotService.updateLot(id, lotId, req.body, companyId);
+
+      if (companyId) {
+        await companyAuditService.record(companyId, user.id, 'lot.updated', { type: 'lot', id: lot.id }, {
+          auctionId: id,
+          fields: Object.keys(req.body)
+        });
+      }
+
+      res.json(new ApiResponse(200, 'Lot updated successfully', lot));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Withdraw a lot from the catalogue
+  public static async withdrawLot(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, lotId } = req.params;
+      const user = (req as any).user;
+      const companyId = user.role === 'admin' ? undefined : user.companyId;
+
+      const result = await lotService.withdrawLot(id, lotId, companyId);
+
+      if (companyId) {
+        await companyAuditService.record(companyId, user.id, 'lot.withdrawn', { type: 'lot', id: result.lot.id }, { auctionId: id });
+      }
+
+      if (result.eventOutcome) {
+        broadcastAuctionEnded(result.auction, result.eventOutcome);
+      }
+
+      res.json(new ApiResponse(200, 'Lot withdrawn successfully', result.lot));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Place a bid on a lot
+  public static async placeLotBid(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { id, lotId } = req.params;
+      const { amount } = req.body;
+      const user = (req as any).user;
+
+      // Validate user role
+      if (user.role !== 'bidder') {
+        throw new ApiResponse(403, 'Only bidders can place bids');
+      }
+
+      const bidResult = await bidService.placeLotBid(id, lotId, user.id, parseFloat(amount), {
+        ipAddress: getClientIP(req),
+        userAgent: getUserAgent(req)
+      });
+
+      await broadcastLotBid(bidResult);
+
+      logger.info(`Bid placed: ${amount} on lot ${lotId} of auction ${id} by user ${user.id}`);
+
+      res.json(new ApiResponse(200, 'Bid placed successfully', {
+        ...bidResult,
+        bidderName: `${user.firstName} ${user.lastName}`
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the bids on one lot
+  public static async getLotBids(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, lotId } = req.params;
+      const filters = { ...req.query, lotId };
+      const limit = parseInt(req.query.limit as string || '20');
+      const offset = parseInt(req.query.offset as string || '0');
+
+      const result = await bidService.getAuctionBids(id, filters, (req as any).user);
+
+      res.json(new ApiResponse(200, 'Bids fetched successfully', {
+        bids: result.bids,
+        total: result.total,
+        page: Math.floor(offset / limit) + 1,
+        totalPages: Math.ceil(result.total / limit)
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
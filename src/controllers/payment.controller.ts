@@ -1,12 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { paymentService } from '../services/payment.service';
+import { invoiceService } from '../services/invoice.service';
 import { ApiResponse } from '../utils/helpers';
-import { logger } from '../utils/logger';
+import { broadcastExposure } from '../sockets/auction.socket';
 import { validationResult } from 'express-validator';
-import Stripe from 'stripe';
 
 export class PaymentController {
-  // Create Razorpay order
+  // Create an order with the provider routed for the currency
   public static async createPaymentOrder(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const errors = validationResult(req);
@@ -15,8 +15,14 @@ export class PaymentController {
       }
 
       const user = (req as any).user;
+      const { amount, currency, auctionId, description, metadata } = req.body;
+      // The gateway is picked by currency routing, never by the client
       const paymentData = {
-        ...req.body,
+        amount,
+        currency,
+        auctionId,
+        description,
+        metadata,
         userId: user.id
       };
 
@@ -55,13 +61,17 @@ export class PaymentController {
     try {
       const { razorpay_payment_id, razorpay_order_id, razorpay_signature } = req.body;
       
-      const isValid = await paymentService.verifyRazorpayPayment(
+      const isValid = await paymentService.verifyCheckout(
+        'razorpay',
         razorpay_payment_id,
         razorpay_order_id,
         razorpay_signature
       );
 
       if (isValid) {
+        // Paying for a won auction frees up credit
+        await broadcastExposure([(req as any).user?.id]);
+
         res.json(new ApiResponse(200, 'Payment verified successfully', { verified: true }));
       } else {
         throw new ApiResponse(400, 'Payment verification failed');
@@ -71,37 +81,6 @@ export class PaymentController {
     }
   }
 
-  // Handle Stripe webhook
-  public static async handleStripeWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
-    try {
-      const sig = req.headers['stripe-signature'] as string;
-      const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
-
-      if (!endpointSecret) {
-        throw new ApiResponse(500, 'Stripe webhook secret not configured');
-      }
-
-      let event: Stripe.Event;
-
-      try {
-        event = paymentService['stripe'].webhooks.constructEvent(
-          req.body,
-          sig,
-          endpointSecret
-        );
-      } catch (err: any) {
-        logger.error('Webhook signature verification failed:', err.message);
-        throw new ApiResponse(400, `Webhook Error: ${err.message}`);
-      }
-
-      await paymentService.handleStripeWebhook(event);
-
-      res.json(new ApiResponse(200, 'Webhook received'));
-    } catch (error) {
-      next(error);
-    }
-  }
-
   // Get payment history
   public static async getPaymentHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -123,27 +102,6 @@ export class PaymentController {
     }
   }
 
-  // Request refund
-  public static async requestRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
-    try {
-      const { paymentId } = req.params;
-      const { reason } = req.body;
-      const user = (req as any).user;
-
-      // In a real app, you would check if the user owns this payment
-      // For now, we'll allow the request
-      const success = await paymentService.refundPayment(paymentId, reason);
-
-      if (success) {
-        res.json(new ApiResponse(200, 'Refund request submitted successfully'));
-      } else {
-        throw new ApiResponse(500, 'Failed to process refund request');
-      }
-    } catch (error) {
-      next(error);
-    }
-  }
-
   // Get payment by ID
   public static async getPayment(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -168,29 +126,13 @@ export class PaymentController {
     }
   }
 
-  // Create invoice for payment
+  // Issue (or fetch) the invoice for the sale a payment completed
   public static async createInvoice(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { paymentId } = req.params;
       const user = (req as any).user;
 
-      // In a real app, generate PDF invoice
-      // For now, return mock data
-      const invoice = {
-        id: `INV-${Date.now()}`,
-        paymentId,
-        userId: user.id,
-        amount: 1000,
-        tax: 180,
-        total: 1180,
-        date: new Date(),
-        items: [
-          {
-            description: 'Auction Winning Bid',
-            amount: 1000
-          }
-        ]
-      };
+      const invoice = await invoiceService.createForPayment(paymentId, user);
 
       res.json(new ApiResponse(200, 'Invoice created successfully', invoice));
     } catch (error) {
@@ -202,14 +144,16 @@ export class PaymentController {
   public static async checkPaymentStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { paymentId } = req.params;
+      const user = (req as any).user;
+
+      const payment = await paymentService.getPaymentStatus(paymentId, user);
 
-      // In a real app, check payment status from provider
-      // For now, return mock data
       const status = {
-        paymentId,
-        status: 'completed',
-        lastUpdated: new Date(),
-        canRetry: false
+        paymentId: payment.id,
+        provider: payment.provider,
+        status: payment.status,
+        lastUpdated: payment.updatedAt,
+        canRetry: payment.status === 'failed'
       };
 
       res.json(new ApiResponse(200, 'Payment status fetched', status));
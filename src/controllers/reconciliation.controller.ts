@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import { reconciliationService } from '../services/reconciliation.service';
+import { ApiResponse } from '../utils/helpers';
+import { validationResult } from 'express-validator';
+
+export class ReconciliationController {
+  // Get a day's reconciliation reports, the latest by default (admin)
+  public static async getReport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const result = await reconciliationService.getReports(req.query);
+
+      res.json(new ApiResponse(200, 'Reconciliation report fetched successfully', result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Reconcile a day now, yesterday by default (admin)
+  public static async runReconciliation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const date = req.body.date || reconciliationService.previousDay();
+
+      const reports = await reconciliationService.run(date);
+
+      res.json(new ApiResponse(200, 'Reconciliation completed', { date, reports }));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { Request, Response, NextFunction } from 'express';
+import { refundService } from '../services/refund.service';
+import { ApiResponse } from '../utils/helpers';
+import { validationResult } from 'express-validator';
+
+const parseAmount = (amount: any): number | null =>
+  amount === undefined || amount === null || amount === '' ? null : parseFloat(amount);
+
+export class RefundController {
+  // Ask for a refund; it waits for an admin to approve it
+  public static async requestRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { paymentId } = req.params;
+      const user = (req as any).user;
+
+      const refund = await refundService.requestRefund(
+        paymentId,
+        user.id,
+        parseAmount(req.body.amount),
+        req.body.reason || null
+      );
+
+      res.status(201).json(new ApiResponse(201, 'Refund request submitted for review', refund));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the refunds on a payment
+  public static async getPaymentRefunds(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { paymentId } = req.params;
+      const user = (req as any).user;
+
+      const refunds = await refundService.getPaymentRefunds(paymentId, user);
+
+      res.json(new ApiResponse(200, 'Refunds fetched successfully', refunds));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Refund a payment straight away, in full or in part (admin)
+  public static async createRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { paymentId } = req.params;
+      const user = (req as any).user;
+
+      const refund = await refundService.createRefund(
+        paymentId,
+        user.id,
+        parseAmount(req.body.amount),
+        req.body.reason || null
+      );
+
+      res.json(new ApiResponse(200, 'Refund processed', refund));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get refunds, e.g. the queue awaiting review with ?status=requested (admin)
+  public static async getRefunds(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query;
+
+      const result = await refundService.getRefunds(filters);
+
+      res.json(
+        new ApiResponse(200, 'Refunds fetched successfully', {
+          refunds: result.refunds,
+          total: result.total,
+          page: parseInt(filters.offset as string) / parseInt(filters.limit as string || '20') + 1 || 1,
+          totalPages: Math.ceil(result.total / parseInt(filters.limit as string || '20'))
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Approve a requested refund and send it to the provider (admin)
+  public static async approveRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { refundId } = req.params;
+      const user = (req as any).user;
+
+      const refund = await refundService.approveRefund(refundId, user.id);
+
+      res.json(new ApiResponse(200, 'Refund approved', refund));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Turn down a requested refund (admin)
+  public static async rejectRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { refundId } = req.params;
+      const user = (req as any).user;
+
+      const refund = await refundService.rejectRefund(refundId, user.id, req.body.reason || null);
+
+      res.json(new ApiResponse(200, 'Refund rejected', refund));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction } from 'express';
+import { permissionService, SYSTEM_ROLES } from '../services/permission.service';
+import { PERMISSIONS } from '../database/models/Role';
+import { ApiResponse } from '../utils/helpers';
+import { validationResult } from 'express-validator';
+
+export class RoleController {
+  // List every permission a role can grant (admin)
+  public static async getPermissions(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.json(new ApiResponse(200, 'Permissions fetched successfully', {
+        permissions: PERMISSIONS,
+        systemRoles: SYSTEM_ROLES.map(role => role.name)
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async getRoles(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roles = await permissionService.getRoles();
+
+      res.json(new ApiResponse(200, 'Roles fetched successfully', roles));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async createRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const role = await permissionService.createRole(req.body, (req as any).user);
+
+      res.status(201).json(new ApiResponse(201, 'Role created successfully', role));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async updateRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { roleId } = req.params;
+
+      const role = await permissionService.updateRole(roleId, req.body, (req as any).user);
+
+      res.json(new ApiResponse(200, 'Role updated successfully', role));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async deleteRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { roleId } = req.params;
+
+      await permissionService.deleteRole(roleId, (req as any).user);
+
+      res.json(new ApiResponse(200, 'Role deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async getUserRoles(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { userId } = req.params;
+
+      const roles = await permissionService.getUserRoles(userId);
+
+      res.json(new ApiResponse(200, 'User roles fetched successfully', roles));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Give a role to an admin user
+  public static async assignRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { userId, roleId } = req.params;
+
+      const roles = await permissionService.assignRole(userId, roleId, (req as any).user);
+
+      res.json(new ApiResponse(200, 'Role assigned successfully', roles));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  public static async removeRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { userId, roleId } = req.params;
+
+      const roles = await permissionService.removeRole(userId, roleId, (req as any).user);
+
+      res.json(new ApiResponse(200, 'Role removed successfully', roles));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
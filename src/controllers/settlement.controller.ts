@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import { settlementService } from '../services/settlement.service';
+import { ApiResponse } from '../utils/helpers';
+import { validationResult } from 'express-validator';
+
+export class SettlementController {
+  // Get an auction's payment requests (bidders see only their own)
+  public static async getAuctionSettlements(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const settlements = await settlementService.getAuctionSettlements(id, (req as any).user);
+
+      res.json(new ApiResponse(200, 'Settlements fetched successfully', settlements));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the current user's payment requests, open ones by default
+  public static async getMySettlements(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const limit = parseInt(req.query.limit as string || '10');
+      const offset = parseInt(req.query.offset as string || '0');
+
+      const result = await settlementService.getBidderSettlements(user.id, req.query);
+
+      res.json(new ApiResponse(200, 'Settlements fetched successfully', {
+        settlements: result.settlements,
+        total: result.total,
+        page: Math.floor(offset / limit) + 1,
+        totalPages: Math.ceil(result.total / limit)
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Offer the item to the runner-up after the buyer defaulted
+  public static async offerSecondChance(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user = (req as any).user;
+
+      const settlement = await settlementService.offerSecondChance(
+        id,
+        user,
+        user.role === 'admin' ? undefined : user.companyId
+      );
+
+      res.json(new ApiResponse(200, 'Offer sent to the runner-up', settlement));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Runner-up accepts or declines a second-chance offer
+  public static async respondToSecondChance(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new ApiResponse(400, 'Validation failed', { errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      const { accept } = req.body;
+      const user = (req as any).user;
+
+      const settlement = await settlementService.respondToSecondChance(id, user.id, accept === true || accept === 'true');
+
+      res.json(new ApiResponse(200, `Offer ${settlement.status === 'declined' ? 'declined' : 'accepted'}`, settlement));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -26,16 +26,9 @@ export class UserController {
       }
 
       const user = (req as any).user;
-      const updateData = req.body;
 
-      // Remove fields that shouldn't be updated directly
-      delete updateData.id;
-      delete updateData.email;
-      delete updateData.role;
-      delete updateData.password;
-      delete updateData.companyId;
-
-      const updatedUser = await authService.updateUser(user.id, updateData);
+      // Only profile fields are applied; see AuthService.updateUser
+      const updatedUser = await authService.updateUser(user.id, req.body);
       
       logger.info(`User profile updated: ${user.id}`);
       
@@ -246,34 +239,6 @@ export class UserController {
     }
   }
 
-  // Verify email
-  public static async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
-    try {
-      const { token } = req.params;
-      
-      // In a real app, verify token and update user
-      logger.info(`Email verification attempt with token: ${token}`);
-      
-      res.json(new ApiResponse(200, 'Email verified successfully'));
-    } catch (error) {
-      next(error);
-    }
-  }
-
-  // Resend verification email
-  public static async resendVerificationEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
-    try {
-      const user = (req as any).user;
-      
-      // In a real app, send verification email
-      logger.info(`Verification email resent for user: ${user.id}`);
-      
-      res.json(new ApiResponse(200, 'Verification email sent'));
-    } catch (error) {
-      next(error);
-    }
-  }
-
   // Get user addresses
   public static async getAddresses(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
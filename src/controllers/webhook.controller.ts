@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { webhookService } from '../services/webhook.service';
+import { ApiResponse } from '../utils/helpers';
+
+export class WebhookController {
+  // Receive a provider webhook; processing happens asynchronously
+  public static async receive(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { provider } = req.params;
+
+      const { event, duplicate } = await webhookService.receive(provider, (req as any).rawBody || '', req.headers);
+
+      res.json(new ApiResponse(200, 'Webhook received', { id: event.id, duplicate }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get stored webhook events (admin)
+  public static async getEvents(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = req.query;
+
+      const result = await webhookService.getEvents(filters);
+
+      res.json(
+        new ApiResponse(200, 'Webhook events fetched successfully', {
+          events: result.events,
+          total: result.total,
+          page: parseInt(filters.offset as string) / parseInt(filters.limit as string || '20') + 1 || 1,
+          totalPages: Math.ceil(result.total / parseInt(filters.limit as string || '20'))
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Process a stored webhook event again (admin)
+  public static async replayEvent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { eventId } = req.params;
+
+      const event = await webhookService.replay(eventId);
+
+      res.json(new ApiResponse(200, 'Webhook event replayed', event));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
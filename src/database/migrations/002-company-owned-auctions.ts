@@ -0,0 +1,78 @@
+import { QueryInterface } from 'sequelize';
+import { logger } from '../../utils/logger';
+
+// Keyed by the company's account holder (a user id) until company teams came in
+const COMPANY_KEYED_TABLES = ['auctions', 'fee_schedules'];
+
+interface ForeignKeyReference {
+  constraintName: string;
+  columnName: string;
+  referencedTableName: string;
+}
+
+// database/init.sql names columns in snake_case, while synced tables use the model attribute names
+const findColumn = async (queryInterface: QueryInterface, table: string, names: string[]): Promise<string | undefined> => {
+  const columns = await queryInterface.describeTable(table);
+  return names.find(name => name in columns);
+};
+
+const dropCompanyKey = async (queryInterface: QueryInterface, table: string, column: string, referencedTable: string): Promise<void> => {
+  const references = await queryInterface.getForeignKeyReferencesForTable(table) as ForeignKeyReference[];
+
+  for (const reference of references) {
+    if (reference.columnName === column && reference.referencedTableName === referencedTable) {
+      await queryInterface.removeConstraint(table, reference.constraintName);
+    }
+  }
+};
+
+const rekey = async (queryInterface: QueryInterface, from: 'users' | 'companies'): Promise<void> => {
+  // A new install gets the tables from sync, already keyed by company
+  if (!(await queryInterface.tableExists('companies'))) {
+    return;
+  }
+
+  const holder = await findColumn(queryInterface, 'companies', ['userId', 'user_id']);
+
+  if (!holder) {
+    return;
+  }
+
+  const [oldKey, newKey] = from === 'users' ? [`"${holder}"`, 'id'] : ['id', `"${holder}"`];
+
+  for (const table of COMPANY_KEYED_TABLES) {
+    if (!(await queryInterface.tableExists(table))) {
+      continue;
+    }
+
+    const column = await findColumn(queryInterface, table, ['companyId', 'company_id']);
+
+    if (!column) {
+      continue;
+    }
+
+    await dropCompanyKey(queryInterface, table, column, from);
+
+    await queryInterface.sequelize.query(`
+      UPDATE "${table}" SET "${column}" = companies.${newKey}
+      FROM companies
+      WHERE "${table}"."${column}" = companies.${oldKey}
+    `);
+  }
+};
+
+/**
+ * Move auctions and fee schedules from the account holder's user id to the
+ * company id. Has to run before the models are synced: the alter adds a
+ * foreign key to companies, which fails while rows still hold user ids.
+ * Rows already moved are left alone, so it is safe to run on every start.
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await rekey(queryInterface, 'users');
+
+  logger.debug('Auctions and fee schedules keyed by company');
+}
+
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await rekey(queryInterface, 'companies');
+}
\ No newline at end of file
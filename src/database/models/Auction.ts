@@ -1,13 +1,20 @@
 import { DataTypes, Model } from 'sequelize';
 import sequelize from '../../config/database';
 
+// How bids compete and who wins; the rules live in AuctionFormatService
+export const AUCTION_FORMATS = ['english', 'dutch', 'sealed_first_price', 'vickrey', 'reverse'] as const;
+
+export type AuctionFormat = typeof AUCTION_FORMATS[number];
+
 interface AuctionAttributes {
   id: string;
+  // The selling Company; its members manage the auction
   companyId: string;
   title: string;
   description: string;
   category: 'machinery' | 'vehicles' | 'property' | 'goods' | 'services';
   subcategory: string;
+  format: AuctionFormat;
   itemDetails: any;
   auctionConfig: any;
   timing: any;
@@ -36,6 +43,7 @@ class Auction extends Model<AuctionAttributes> implements AuctionAttributes {
   declare description: string;
   declare category: 'machinery' | 'vehicles' | 'property' | 'goods' | 'services';
   declare subcategory: string;
+  declare format: AuctionFormat;
   declare itemDetails: any;
   declare auctionConfig: any;
   declare timing: any;
@@ -62,10 +70,6 @@ class Auction extends Model<AuctionAttributes> implements AuctionAttributes {
            now >= new Date(this.timing.biddingStartsAt) && 
            now <= new Date(this.timing.biddingEndsAt);
   }
-
-  public getMinNextBid(): number {
-    return this.currentHighestBid + (this.auctionConfig?.bidIncrement || 0);
-  }
 }
 
 Auction.init({
@@ -76,7 +80,11 @@ Auction.init({
   },
   companyId: { 
     type: DataTypes.UUID, 
-    allowNull: false 
+    allowNull: false,
+    references: {
+      model: 'companies',
+      key: 'id'
+    }
   },
   title: { 
     type: DataTypes.STRING, 
@@ -94,6 +102,11 @@ Auction.init({
     type: DataTypes.STRING, 
     allowNull: false 
   },
+  format: {
+    type: DataTypes.ENUM(...AUCTION_FORMATS),
+    allowNull: false,
+    defaultValue: 'english'
+  },
   itemDetails: { 
     type: DataTypes.JSONB, 
     allowNull: false 
@@ -107,8 +120,11 @@ Auction.init({
       reservePrice: null,
       buyNowPrice: null,
       autoExtend: true,
+      extensionMode: 'after_last_bid', // or 'fixed'
       extensionTime: 300, // 5 minutes in seconds
-      maxExtensions: 3
+      maxExtensions: 3,
+      unlimitedExtensions: false,
+      depositRequired: 0 // refundable deposit needed before bidding, 0 for none
     }
   },
   timing: { 
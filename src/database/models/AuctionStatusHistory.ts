@@ -0,0 +1,84 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+type AuctionStatus = 'draft' | 'scheduled' | 'live' | 'paused' | 'ended' | 'cancelled' | 'sold';
+
+interface AuctionStatusHistoryAttributes {
+  id: string;
+  auctionId: string;
+  fromStatus: AuctionStatus | null;
+  toStatus: AuctionStatus;
+  actorId: string | null;
+  actorRole: 'admin' | 'company' | 'bidder' | 'system';
+  reason: string | null;
+  metadata: any;
+  createdAt: Date;
+}
+
+class AuctionStatusHistory extends Model<AuctionStatusHistoryAttributes> implements AuctionStatusHistoryAttributes {
+  declare id: string;
+  declare auctionId: string;
+  declare fromStatus: AuctionStatus | null;
+  declare toStatus: AuctionStatus;
+  declare actorId: string | null;
+  declare actorRole: 'admin' | 'company' | 'bidder' | 'system';
+  declare reason: string | null;
+  declare metadata: any;
+  declare readonly createdAt: Date;
+}
+
+AuctionStatusHistory.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  auctionId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'auctions',
+      key: 'id'
+    }
+  },
+  fromStatus: {
+    type: DataTypes.ENUM('draft', 'scheduled', 'live', 'paused', 'ended', 'cancelled', 'sold'),
+    allowNull: true
+  },
+  toStatus: {
+    type: DataTypes.ENUM('draft', 'scheduled', 'live', 'paused', 'ended', 'cancelled', 'sold'),
+    allowNull: false
+  },
+  actorId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  actorRole: {
+    type: DataTypes.ENUM('admin', 'company', 'bidder', 'system'),
+    allowNull: false,
+    defaultValue: 'system'
+  },
+  reason: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  metadata: {
+    type: DataTypes.JSONB,
+    defaultValue: {}
+  }
+}, {
+  sequelize,
+  tableName: 'auction_status_history',
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    { fields: ['auctionId'] },
+    { fields: ['auctionId', 'createdAt'] }
+  ]
+});
+
+export default AuctionStatusHistory;
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+interface AutoBidAttributes {
+  id: string;
+  auctionId: string;
+  bidderId: string;
+  maxAmount: number;
+  status: 'active' | 'outbid' | 'cancelled';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class AutoBid extends Model<AutoBidAttributes> implements AutoBidAttributes {
+  declare id: string;
+  declare auctionId: string;
+  declare bidderId: string;
+  declare maxAmount: number;
+  declare status: 'active' | 'outbid' | 'cancelled';
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+AutoBid.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  auctionId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'auctions',
+      key: 'id'
+    }
+  },
+  bidderId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  maxAmount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  },
+  status: {
+    type: DataTypes.ENUM('active', 'outbid', 'cancelled'),
+    defaultValue: 'active'
+  }
+}, {
+  sequelize,
+  tableName: 'auto_bids',
+  timestamps: true,
+  indexes: [
+    { fields: ['auctionId'] },
+    { fields: ['bidderId'] },
+    { fields: ['auctionId', 'status'] }
+  ]
+});
+
+export default AutoBid;
\ No newline at end of file
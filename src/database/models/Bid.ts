@@ -4,6 +4,7 @@ import sequelize from '../../config/database';
 interface BidAttributes {
   id: string;
   auctionId: string;
+  lotId: string | null;
   bidderId: string;
   amount: number;
   isAutoBid: boolean;
@@ -17,6 +18,7 @@ interface BidAttributes {
 class Bid extends Model<BidAttributes> implements BidAttributes {
   declare id: string;
   declare auctionId: string;
+  declare lotId: string | null;
   declare bidderId: string;
   declare amount: number;
   declare isAutoBid: boolean;
@@ -41,6 +43,14 @@ Bid.init({
       key: 'id'
     }
   },
+  lotId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'auction_lots',
+      key: 'id'
+    }
+  },
   bidderId: {
     type: DataTypes.UUID,
     allowNull: false,
@@ -81,6 +91,7 @@ Bid.init({
     { fields: ['auctionId'] },
     { fields: ['bidderId'] },
     { fields: ['auctionId', 'bidderId'] },
+    { fields: ['lotId'] },
     { fields: ['status'] },
     { fields: ['createdAt'] }
   ]
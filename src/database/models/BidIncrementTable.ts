@@ -0,0 +1,60 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+type AuctionCategory = 'machinery' | 'vehicles' | 'property' | 'goods' | 'services';
+
+// One rung of an increment ladder: prices below `upTo` rise by `increment` (null = no upper bound)
+export interface IncrementTier {
+  upTo: number | null;
+  increment: number;
+}
+
+interface BidIncrementTableAttributes {
+  id: string;
+  category: AuctionCategory;
+  tiers: IncrementTier[];
+  updatedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class BidIncrementTable extends Model<BidIncrementTableAttributes> implements BidIncrementTableAttributes {
+  declare id: string;
+  declare category: AuctionCategory;
+  declare tiers: IncrementTier[];
+  declare updatedBy: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+BidIncrementTable.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  category: {
+    type: DataTypes.ENUM('machinery', 'vehicles', 'property', 'goods', 'services'),
+    allowNull: false,
+    unique: true
+  },
+  tiers: {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  },
+  updatedBy: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  }
+}, {
+  sequelize,
+  tableName: 'bid_increment_tables',
+  timestamps: true
+});
+
+export default BidIncrementTable;
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+export type RetractionReason = 'amount_typo' | 'wrong_auction' | 'description_changed' | 'duplicate_bid';
+
+export const RETRACTION_REASONS: RetractionReason[] = ['amount_typo', 'wrong_auction', 'description_changed', 'duplicate_bid'];
+
+interface BidRetractionAttributes {
+  id: string;
+  bidId: string;
+  auctionId: string;
+  bidderId: string;
+  reason: RetractionReason;
+  notes: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  autoApproved: boolean;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  reviewNotes: string | null;
+  metadata: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class BidRetraction extends Model<BidRetractionAttributes> implements BidRetractionAttributes {
+  declare id: string;
+  declare bidId: string;
+  declare auctionId: string;
+  declare bidderId: string;
+  declare reason: RetractionReason;
+  declare notes: string | null;
+  declare status: 'pending' | 'approved' | 'rejected';
+  declare autoApproved: boolean;
+  declare reviewedBy: string | null;
+  declare reviewedAt: Date | null;
+  declare reviewNotes: string | null;
+  declare metadata: any;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+BidRetraction.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  bidId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'bids',
+      key: 'id'
+    }
+  },
+  auctionId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'auctions',
+      key: 'id'
+    }
+  },
+  bidderId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  reason: {
+    type: DataTypes.ENUM('amount_typo', 'wrong_auction', 'description_changed', 'duplicate_bid'),
+    allowNull: false
+  },
+  notes: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  status: {
+    type: DataTypes.ENUM('pending', 'approved', 'rejected'),
+    allowNull: false,
+    defaultValue: 'pending'
+  },
+  autoApproved: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false
+  },
+  reviewedBy: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  reviewedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  reviewNotes: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  metadata: {
+    type: DataTypes.JSONB,
+    defaultValue: {}
+  }
+}, {
+  sequelize,
+  tableName: 'bid_retractions',
+  timestamps: true,
+  indexes: [
+    { fields: ['bidId'] },
+    { fields: ['auctionId'] },
+    { fields: ['bidderId'] },
+    { fields: ['status'] }
+  ]
+});
+
+export default BidRetraction;
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+import { PAYMENT_PROVIDERS, PaymentProviderName } from './Payment';
+
+type DepositStatus = 'pending' | 'held' | 'released' | 'applied';
+
+interface BidderDepositAttributes {
+  id: string;
+  auctionId: string;
+  bidderId: string;
+  paymentId: string;
+  amount: number;
+  currency: string;
+  provider: PaymentProviderName;
+  status: DepositStatus;
+  heldAt: Date | null;
+  releasedAt: Date | null;
+  appliedAt: Date | null;
+  metadata: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class BidderDeposit extends Model<BidderDepositAttributes> implements BidderDepositAttributes {
+  declare id: string;
+  declare auctionId: string;
+  declare bidderId: string;
+  declare paymentId: string;
+  declare amount: number;
+  declare currency: string;
+  declare provider: PaymentProviderName;
+  declare status: DepositStatus;
+  declare heldAt: Date | null;
+  declare releasedAt: Date | null;
+  declare appliedAt: Date | null;
+  declare metadata: any;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Counts towards the bidding requirement once the hold or payment has gone through
+  public isActive(): boolean {
+    return this.status === 'held';
+  }
+}
+
+BidderDeposit.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  auctionId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'auctions',
+      key: 'id'
+    }
+  },
+  bidderId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  paymentId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'payments',
+      key: 'id'
+    }
+  },
+  amount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  },
+  currency: {
+    type: DataTypes.STRING(3),
+    allowNull: false
+  },
+  provider: {
+    type: DataTypes.ENUM(...PAYMENT_PROVIDERS),
+    allowNull: false
+  },
+  status: {
+    type: DataTypes.ENUM('pending', 'held', 'released', 'applied'),
+    allowNull: false,
+    defaultValue: 'pending'
+  },
+  heldAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  releasedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  appliedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  metadata: {
+    type: DataTypes.JSONB,
+    defaultValue: {}
+  }
+}, {
+  sequelize,
+  tableName: 'bidder_deposits',
+  timestamps: true,
+  indexes: [
+    { fields: ['auctionId', 'bidderId'] },
+    { fields: ['paymentId'] },
+    { fields: ['status'] }
+  ]
+});
+
+export default BidderDeposit;
\ No newline at end of file
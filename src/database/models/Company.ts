@@ -3,6 +3,7 @@ import sequelize from '../../config/database';
 
 interface CompanyAttributes {
   id: string;
+  // Account holder: always an owner, and the seller of record for settlements and payouts
   userId: string;
   name: string;
   legalName: string;
@@ -0,0 +1,77 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+interface CompanyAuditLogAttributes {
+  id: string;
+  companyId: string;
+  // Member (or admin) who did it
+  actorId: string | null;
+  // e.g. member.invited, auction.updated
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  details: any;
+  createdAt: Date;
+}
+
+class CompanyAuditLog extends Model<CompanyAuditLogAttributes> implements CompanyAuditLogAttributes {
+  declare id: string;
+  declare companyId: string;
+  declare actorId: string | null;
+  declare action: string;
+  declare targetType: string | null;
+  declare targetId: string | null;
+  declare details: any;
+  declare readonly createdAt: Date;
+}
+
+CompanyAuditLog.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  companyId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'companies',
+      key: 'id'
+    }
+  },
+  actorId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  action: {
+    type: DataTypes.STRING(100),
+    allowNull: false
+  },
+  targetType: {
+    type: DataTypes.STRING(50),
+    allowNull: true
+  },
+  targetId: {
+    type: DataTypes.UUID,
+    allowNull: true
+  },
+  details: {
+    type: DataTypes.JSONB,
+    defaultValue: {}
+  }
+}, {
+  sequelize,
+  tableName: 'company_audit_logs',
+  timestamps: true,
+  updatedAt: false,
+  indexes: [
+    { fields: ['companyId', 'createdAt'] },
+    { fields: ['actorId'] }
+  ]
+});
+
+export default CompanyAuditLog;
\ No newline at end of file
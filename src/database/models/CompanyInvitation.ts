@@ -0,0 +1,118 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+import { COMPANY_MEMBER_ROLES, CompanyMemberRole } from './CompanyMember';
+
+interface CompanyInvitationAttributes {
+  id: string;
+  companyId: string;
+  email: string;
+  role: CompanyMemberRole;
+  // SHA-256 of the token mailed to the invitee
+  tokenHash: string;
+  invitedBy: string;
+  expiresAt: Date;
+  acceptedAt: Date | null;
+  acceptedBy: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * An emailed invitation to join a company's team. The invitee may not have
+ * an account yet; they accept once signed in with the invited address.
+ */
+class CompanyInvitation extends Model<CompanyInvitationAttributes> implements CompanyInvitationAttributes {
+  declare id: string;
+  declare companyId: string;
+  declare email: string;
+  declare role: CompanyMemberRole;
+  declare tokenHash: string;
+  declare invitedBy: string;
+  declare expiresAt: Date;
+  declare acceptedAt: Date | null;
+  declare acceptedBy: string | null;
+  declare revokedAt: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  public isPending(): boolean {
+    return !this.acceptedAt && !this.revokedAt && this.expiresAt > new Date();
+  }
+
+  public toJSON(): any {
+    const values = Object.assign({}, this.get());
+    delete values.tokenHash;
+    return values;
+  }
+}
+
+CompanyInvitation.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  companyId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'companies',
+      key: 'id'
+    }
+  },
+  email: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    validate: {
+      isEmail: true
+    }
+  },
+  role: {
+    type: DataTypes.ENUM(...COMPANY_MEMBER_ROLES),
+    allowNull: false
+  },
+  tokenHash: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+    unique: true
+  },
+  invitedBy: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  expiresAt: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  acceptedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  acceptedBy: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  revokedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  }
+}, {
+  sequelize,
+  tableName: 'company_invitations',
+  timestamps: true,
+  indexes: [
+    { fields: ['tokenHash'], unique: true },
+    { fields: ['companyId', 'email'] }
+  ]
+});
+
+export default CompanyInvitation;
\ No newline at end of file
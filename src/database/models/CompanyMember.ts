@@ -0,0 +1,75 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+// Owners run the team, managers run the auctions, listers draft them, viewers only look
+export const COMPANY_MEMBER_ROLES = ['owner', 'manager', 'lister', 'viewer'] as const;
+
+export type CompanyMemberRole = typeof COMPANY_MEMBER_ROLES[number];
+
+interface CompanyMemberAttributes {
+  id: string;
+  companyId: string;
+  // A user belongs to at most one company; User.companyId mirrors it
+  userId: string;
+  role: CompanyMemberRole;
+  invitedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class CompanyMember extends Model<CompanyMemberAttributes> implements CompanyMemberAttributes {
+  declare id: string;
+  declare companyId: string;
+  declare userId: string;
+  declare role: CompanyMemberRole;
+  declare invitedBy: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+CompanyMember.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  companyId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'companies',
+      key: 'id'
+    }
+  },
+  userId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    unique: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  role: {
+    type: DataTypes.ENUM(...COMPANY_MEMBER_ROLES),
+    allowNull: false
+  },
+  invitedBy: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  }
+}, {
+  sequelize,
+  tableName: 'company_members',
+  timestamps: true,
+  indexes: [
+    { fields: ['userId'], unique: true },
+    { fields: ['companyId', 'role'] }
+  ]
+});
+
+export default CompanyMember;
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+type AuctionCategory = 'machinery' | 'vehicles' | 'property' | 'goods' | 'services';
+
+// One band of a marginal rate table: the part of the price below `upTo` is charged `rate` percent (null = no upper bound)
+export interface FeeTier {
+  upTo: number | null;
+  rate: number;
+}
+
+interface FeeScheduleAttributes {
+  id: string;
+  // Null category applies to every category; null companyId is the platform rate rather than a negotiated one
+  category: AuctionCategory | null;
+  companyId: string | null;
+  version: number;
+  buyerPremiumTiers: FeeTier[];
+  buyerPremiumMin: number | null;
+  buyerPremiumMax: number | null;
+  sellerCommissionTiers: FeeTier[];
+  sellerCommissionMin: number | null;
+  sellerCommissionMax: number | null;
+  // GST/VAT percentage charged on the buyer's premium
+  taxRate: number;
+  effectiveFrom: Date;
+  supersededAt: Date | null;
+  createdBy: string | null;
+  notes: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class FeeSchedule extends Model<FeeScheduleAttributes> implements FeeScheduleAttributes {
+  declare id: string;
+  declare category: AuctionCategory | null;
+  declare companyId: string | null;
+  declare version: number;
+  declare buyerPremiumTiers: FeeTier[];
+  declare buyerPremiumMin: number | null;
+  declare buyerPremiumMax: number | null;
+  declare sellerCommissionTiers: FeeTier[];
+  declare sellerCommissionMin: number | null;
+  declare sellerCommissionMax: number | null;
+  declare taxRate: number;
+  declare effectiveFrom: Date;
+  declare supersededAt: Date | null;
+  declare createdBy: string | null;
+  declare notes: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Schedules are never edited; a new version supersedes the old one
+  public isActiveAt(at: Date): boolean {
+    return new Date(this.effectiveFrom) <= at && (!this.supersededAt || new Date(this.supersededAt) > at);
+  }
+}
+
+FeeSchedule.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  category: {
+    type: DataTypes.ENUM('machinery', 'vehicles', 'property', 'goods', 'services'),
+    allowNull: true
+  },
+  companyId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'companies',
+      key: 'id'
+    }
+  },
+  version: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 1
+  },
+  buyerPremiumTiers: {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  },
+  buyerPremiumMin: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: true
+  },
+  buyerPremiumMax: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: true
+  },
+  sellerCommissionTiers: {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  },
+  sellerCommissionMin: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: true
+  },
+  sellerCommissionMax: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: true
+  },
+  taxRate: {
+    type: DataTypes.DECIMAL(5, 2),
+    allowNull: false,
+    defaultValue: 0
+  },
+  effectiveFrom: {
+    type: DataTypes.DATE,
+    allowNull: false,
+    defaultValue: DataTypes.NOW
+  },
+  supersededAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  createdBy: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  notes: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  }
+}, {
+  sequelize,
+  tableName: 'fee_schedules',
+  timestamps: true,
+  indexes: [
+    { fields: ['category', 'companyId', 'version'] },
+    { fields: ['supersededAt'] }
+  ]
+});
+
+export default FeeSchedule;
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+export type InvoiceType = 'invoice' | 'credit_note';
+
+export interface InvoiceLine {
+  code: string;
+  description: string;
+  amount: number;
+}
+
+// Name, tax id and address as they stood when the document was issued
+export interface InvoiceParty {
+  userId: string;
+  name: string;
+  legalName: string | null;
+  taxId: string | null;
+  email: string | null;
+  phone: string | null;
+  address: { street: string; city: string; state: string; zipcode: string; country: string } | null;
+}
+
+interface InvoiceAttributes {
+  id: string;
+  type: InvoiceType;
+  // e.g. INV/2025-26/000042; the sequence never skips within a type and financial year
+  number: string;
+  financialYear: string;
+  sequence: number;
+  paymentId: string | null;
+  auctionId: string;
+  settlementId: string | null;
+  // Credit notes point at the invoice they reverse
+  originalInvoiceId: string | null;
+  buyerId: string;
+  sellerId: string;
+  buyer: InvoiceParty;
+  seller: InvoiceParty;
+  lines: InvoiceLine[];
+  currency: string;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  issuedAt: Date;
+  reason: string | null;
+  metadata: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class Invoice extends Model<InvoiceAttributes> implements InvoiceAttributes {
+  declare id: string;
+  declare type: InvoiceType;
+  declare number: string;
+  declare financialYear: string;
+  declare sequence: number;
+  declare paymentId: string | null;
+  declare auctionId: string;
+  declare settlementId: string | null;
+  declare originalInvoiceId: string | null;
+  declare buyerId: string;
+  declare sellerId: string;
+  declare buyer: InvoiceParty;
+  declare seller: InvoiceParty;
+  declare lines: InvoiceLine[];
+  declare currency: string;
+  declare subtotal: number;
+  declare taxAmount: number;
+  declare totalAmount: number;
+  declare issuedAt: Date;
+  declare reason: string | null;
+  declare metadata: any;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  public isCreditNote(): boolean {
+    return this.type === 'credit_note';
+  }
+}
+
+Invoice.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  type: {
+    type: DataTypes.ENUM('invoice', 'credit_note'),
+    allowNull: false,
+    defaultValue: 'invoice'
+  },
+  number: {
+    type: DataTypes.STRING(50),
+    allowNull: false,
+    unique: true
+  },
+  financialYear: {
+    type: DataTypes.STRING(9),
+    allowNull: false
+  },
+  sequence: {
+    type: DataTypes.INTEGER,
+    allowNull: false
+  },
+  paymentId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'payments',
+      key: 'id'
+    }
+  },
+  auctionId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'auctions',
+      key: 'id'
+    }
+  },
+  settlementId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'settlements',
+      key: 'id'
+    }
+  },
+  originalInvoiceId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'invoices',
+      key: 'id'
+    }
+  },
+  buyerId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  sellerId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  buyer: {
+    type: DataTypes.JSONB,
+    allowNull: false
+  },
+  seller: {
+    type: DataTypes.JSONB,
+    allowNull: false
+  },
+  lines: {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  },
+  currency: {
+    type: DataTypes.STRING(3),
+    allowNull: false,
+    defaultValue: 'INR'
+  },
+  subtotal: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  },
+  taxAmount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false,
+    defaultValue: 0
+  },
+  totalAmount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  },
+  issuedAt: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  reason: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  metadata: {
+    type: DataTypes.JSONB,
+    defaultValue: {}
+  }
+}, {
+  sequelize,
+  tableName: 'invoices',
+  timestamps: true,
+  indexes: [
+    { fields: ['number'], unique: true },
+    { fields: ['type', 'financialYear', 'sequence'], unique: true },
+    { fields: ['paymentId'] },
+    { fields: ['auctionId'] },
+    { fields: ['settlementId'] },
+    { fields: ['buyerId'] },
+    { fields: ['sellerId'] },
+    { fields: ['originalInvoiceId'] }
+  ]
+});
+
+export default Invoice;
\ No newline at end of file
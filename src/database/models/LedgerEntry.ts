@@ -0,0 +1,166 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+/**
+ * cash is what the platform holds at its payment providers (debit-normal).
+ * Every other account is money owed or earned (credit-normal); the seller
+ * accounts are kept per seller through ownerId.
+ */
+export const LEDGER_ACCOUNTS = [
+  'cash',
+  'escrow',
+  'platform_revenue',
+  'tax_payable',
+  'seller_payable',
+  'seller_available',
+  'payouts_in_transit'
+] as const;
+
+export type LedgerAccount = typeof LEDGER_ACCOUNTS[number];
+
+export type LedgerEntryKind =
+  | 'payment_received'
+  | 'sale_allocated'
+  | 'funds_released'
+  | 'refund'
+  | 'sale_reversed'
+  | 'payout_initiated'
+  | 'payout_paid'
+  | 'payout_failed';
+
+interface LedgerEntryAttributes {
+  id: string;
+  // Entries posted together share a transaction id; their debits and credits balance
+  transactionId: string;
+  account: LedgerAccount;
+  ownerId: string | null;
+  direction: 'debit' | 'credit';
+  amount: number;
+  currency: string;
+  kind: LedgerEntryKind;
+  auctionId: string | null;
+  settlementId: string | null;
+  paymentId: string | null;
+  payoutId: string | null;
+  description: string | null;
+  createdAt: Date;
+}
+
+class LedgerEntry extends Model<LedgerEntryAttributes> implements LedgerEntryAttributes {
+  declare id: string;
+  declare transactionId: string;
+  declare account: LedgerAccount;
+  declare ownerId: string | null;
+  declare direction: 'debit' | 'credit';
+  declare amount: number;
+  declare currency: string;
+  declare kind: LedgerEntryKind;
+  declare auctionId: string | null;
+  declare settlementId: string | null;
+  declare paymentId: string | null;
+  declare payoutId: string | null;
+  declare description: string | null;
+  declare readonly createdAt: Date;
+}
+
+LedgerEntry.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  transactionId: {
+    type: DataTypes.UUID,
+    allowNull: false
+  },
+  account: {
+    type: DataTypes.ENUM(...LEDGER_ACCOUNTS),
+    allowNull: false
+  },
+  ownerId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  direction: {
+    type: DataTypes.ENUM('debit', 'credit'),
+    allowNull: false
+  },
+  amount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  },
+  currency: {
+    type: DataTypes.STRING(3),
+    allowNull: false,
+    defaultValue: 'INR'
+  },
+  kind: {
+    type: DataTypes.ENUM(
+      'payment_received',
+      'sale_allocated',
+      'funds_released',
+      'refund',
+      'sale_reversed',
+      'payout_initiated',
+      'payout_paid',
+      'payout_failed'
+    ),
+    allowNull: false
+  },
+  auctionId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'auctions',
+      key: 'id'
+    }
+  },
+  settlementId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'settlements',
+      key: 'id'
+    }
+  },
+  paymentId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'payments',
+      key: 'id'
+    }
+  },
+  payoutId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'payouts',
+      key: 'id'
+    }
+  },
+  description: {
+    type: DataTypes.STRING,
+    allowNull: true
+  }
+}, {
+  sequelize,
+  tableName: 'ledger_entries',
+  timestamps: true,
+  // Entries are never edited; corrections are posted as new entries
+  updatedAt: false,
+  indexes: [
+    { fields: ['transactionId'] },
+    { fields: ['account', 'ownerId'] },
+    { fields: ['ownerId', 'createdAt'] },
+    { fields: ['settlementId'] },
+    { fields: ['paymentId'] },
+    { fields: ['payoutId'] }
+  ]
+});
+
+export default LedgerEntry;
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+import { IncrementTier } from './BidIncrementTable';
+import { incrementService } from '../../services/increment.service';
+
+interface LotAttributes {
+  id: string;
+  auctionId: string;
+  lotNumber: number;
+  title: string;
+  description: string | null;
+  itemDetails: any;
+  startingBid: number;
+  bidIncrement: number | null;
+  reservePrice: number | null;
+  status: 'open' | 'sold' | 'unsold' | 'withdrawn';
+  closesAt: Date | null;
+  currentHighestBid: number;
+  currentHighestBidderId: string | null;
+  totalBids: number;
+  totalBidders: number;
+  winnerId: string | null;
+  winnerAmount: number | null;
+  metadata: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class Lot extends Model<LotAttributes> implements LotAttributes {
+  declare id: string;
+  declare auctionId: string;
+  declare lotNumber: number;
+  declare title: string;
+  declare description: string | null;
+  declare itemDetails: any;
+  declare startingBid: number;
+  declare bidIncrement: number | null;
+  declare reservePrice: number | null;
+  declare status: 'open' | 'sold' | 'unsold' | 'withdrawn';
+  declare closesAt: Date | null;
+  declare currentHighestBid: number;
+  declare currentHighestBidderId: string | null;
+  declare totalBids: number;
+  declare totalBidders: number;
+  declare winnerId: string | null;
+  declare winnerAmount: number | null;
+  declare metadata: any;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  public isOpen(): boolean {
+    return this.status === 'open' && !!this.closesAt && new Date() <= new Date(this.closesAt);
+  }
+
+  // Lots climb the event's increment ladder unless they set a flat increment of their own
+  public getMinNextBid(eventLadder: IncrementTier[] = []): number {
+    const increment = this.bidIncrement !== null && this.bidIncrement !== undefined
+      ? Number(this.bidIncrement)
+      : incrementService.incrementAt(eventLadder, Number(this.currentHighestBid));
+
+    if (!this.currentHighestBidderId) {
+      return Math.max(Number(this.startingBid), increment);
+    }
+
+    return Number(this.currentHighestBid) + increment;
+  }
+}
+
+Lot.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  auctionId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'auctions',
+      key: 'id'
+    }
+  },
+  lotNumber: {
+    type: DataTypes.INTEGER,
+    allowNull: false
+  },
+  title: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  description: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  itemDetails: {
+    type: DataTypes.JSONB,
+    defaultValue: {}
+  },
+  startingBid: {
+    type: DataTypes.DECIMAL(15, 2),
+    defaultValue: 0
+  },
+  bidIncrement: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: true
+  },
+  reservePrice: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: true
+  },
+  status: {
+    type: DataTypes.ENUM('open', 'sold', 'unsold', 'withdrawn'),
+    defaultValue: 'open'
+  },
+  closesAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  currentHighestBid: {
+    type: DataTypes.DECIMAL(15, 2),
+    defaultValue: 0
+  },
+  currentHighestBidderId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  totalBids: {
+    type: DataTypes.INTEGER,
+    defaultValue: 0
+  },
+  totalBidders: {
+    type: DataTypes.INTEGER,
+    defaultValue: 0
+  },
+  winnerId: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  winnerAmount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: true
+  },
+  metadata: {
+    type: DataTypes.JSONB,
+    defaultValue: {}
+  }
+}, {
+  sequelize,
+  tableName: 'auction_lots',
+  timestamps: true,
+  indexes: [
+    { fields: ['auctionId', 'lotNumber'], unique: true },
+    { fields: ['status'] },
+    { fields: ['closesAt'] }
+  ]
+});
+
+export default Lot;
\ No newline at end of file
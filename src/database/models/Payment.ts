@@ -1,16 +1,25 @@
 import { DataTypes, Model } from 'sequelize';
 import sequelize from '../../config/database';
 
+// 'mock' is the in-memory gateway for offline development and tests
+export const PAYMENT_PROVIDERS = ['razorpay', 'stripe', 'mock'] as const;
+
+export type PaymentProviderName = typeof PAYMENT_PROVIDERS[number];
+
+export type PaymentStatus = 'created' | 'pending' | 'completed' | 'failed' | 'partially_refunded' | 'refunded';
+
 interface PaymentAttributes {
   id: string;
   userId: string;
   auctionId?: string;
   amount: number;
   currency: string;
-  provider: 'razorpay' | 'stripe' | 'paypal';
+  provider: PaymentProviderName;
   providerOrderId: string;
   providerPaymentId?: string;
-  status: 'created' | 'pending' | 'completed' | 'failed' | 'refunded';
+  status: PaymentStatus;
+  // Sum of the payment's succeeded refunds
+  refundedAmount: number;
   metadata?: any;
   createdAt: Date;
   updatedAt: Date;
@@ -22,10 +31,11 @@ class Payment extends Model<PaymentAttributes> implements PaymentAttributes {
   declare auctionId?: string;
   declare amount: number;
   declare currency: string;
-  declare provider: 'razorpay' | 'stripe' | 'paypal';
+  declare provider: PaymentProviderName;
   declare providerOrderId: string;
   declare providerPaymentId?: string;
-  declare status: 'created' | 'pending' | 'completed' | 'failed' | 'refunded';
+  declare status: PaymentStatus;
+  declare refundedAmount: number;
   declare metadata?: any;
   declare readonly createdAt: Date;
   declare readonly updatedAt: Date;
@@ -54,7 +64,7 @@ Payment.init({
     defaultValue: 'USD'
   },
   provider: {
-    type: DataTypes.ENUM('razorpay', 'stripe', 'paypal'),
+    type: DataTypes.ENUM(...PAYMENT_PROVIDERS),
     allowNull: false
   },
   providerOrderId: {
@@ -67,9 +77,14 @@ Payment.init({
     allowNull: true
   },
   status: {
-    type: DataTypes.ENUM('created', 'pending', 'completed', 'failed', 'refunded'),
+    type: DataTypes.ENUM('created', 'pending', 'completed', 'failed', 'partially_refunded', 'refunded'),
     defaultValue: 'created'
   },
+  refundedAmount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false,
+    defaultValue: 0
+  },
   metadata: {
     type: DataTypes.JSONB,
     allowNull: true
@@ -0,0 +1,113 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+export type PayoutStatus = 'pending' | 'paid' | 'failed';
+
+interface PayoutAttributes {
+  id: string;
+  // Payouts created in one run share a batch id
+  batchId: string;
+  sellerId: string;
+  amount: number;
+  currency: string;
+  status: PayoutStatus;
+  // Bank or provider transfer reference, recorded when the transfer is confirmed
+  reference: string | null;
+  paidAt: Date | null;
+  failedAt: Date | null;
+  failureReason: string | null;
+  createdBy: string | null;
+  metadata: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class Payout extends Model<PayoutAttributes> implements PayoutAttributes {
+  declare id: string;
+  declare batchId: string;
+  declare sellerId: string;
+  declare amount: number;
+  declare currency: string;
+  declare status: PayoutStatus;
+  declare reference: string | null;
+  declare paidAt: Date | null;
+  declare failedAt: Date | null;
+  declare failureReason: string | null;
+  declare createdBy: string | null;
+  declare metadata: any;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+Payout.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  batchId: {
+    type: DataTypes.UUID,
+    allowNull: false
+  },
+  sellerId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  amount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  },
+  currency: {
+    type: DataTypes.STRING(3),
+    allowNull: false,
+    defaultValue: 'INR'
+  },
+  status: {
+    type: DataTypes.ENUM('pending', 'paid', 'failed'),
+    allowNull: false,
+    defaultValue: 'pending'
+  },
+  reference: {
+    type: DataTypes.STRING,
+    allowNull: true
+  },
+  paidAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  failedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  failureReason: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  createdBy: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  metadata: {
+    type: DataTypes.JSONB,
+    defaultValue: {}
+  }
+}, {
+  sequelize,
+  tableName: 'payouts',
+  timestamps: true,
+  indexes: [
+    { fields: ['batchId'] },
+    { fields: ['sellerId', 'status'] },
+    { fields: ['status'] }
+  ]
+});
+
+export default Payout;
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+import { PAYMENT_PROVIDERS, PaymentProviderName } from './Payment';
+
+export type ReconciliationStatus = 'completed' | 'failed';
+
+export type DiscrepancyType =
+  | 'amount_mismatch'
+  | 'currency_mismatch'
+  | 'status_mismatch'
+  | 'refund_mismatch'
+  | 'missing_at_provider'
+  | 'unknown_at_provider';
+
+// Something an admin has to look at; never corrected automatically
+export interface ReconciliationDiscrepancy {
+  type: DiscrepancyType;
+  paymentId: string | null;
+  providerOrderId: string;
+  ours: any;
+  provider: any;
+}
+
+// A stale status brought in line with the provider
+export interface ReconciliationFix {
+  paymentId: string;
+  providerOrderId: string;
+  from: string;
+  to: string;
+  reason: string;
+}
+
+interface ReconciliationReportAttributes {
+  id: string;
+  provider: PaymentProviderName;
+  // The UTC day whose payments were compared
+  reportDate: string;
+  status: ReconciliationStatus;
+  summary: any;
+  discrepancies: ReconciliationDiscrepancy[];
+  fixes: ReconciliationFix[];
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class ReconciliationReport extends Model<ReconciliationReportAttributes> implements ReconciliationReportAttributes {
+  declare id: string;
+  declare provider: PaymentProviderName;
+  declare reportDate: string;
+  declare status: ReconciliationStatus;
+  declare summary: any;
+  declare discrepancies: ReconciliationDiscrepancy[];
+  declare fixes: ReconciliationFix[];
+  declare error: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+ReconciliationReport.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  provider: {
+    type: DataTypes.ENUM(...PAYMENT_PROVIDERS),
+    allowNull: false
+  },
+  reportDate: {
+    type: DataTypes.DATEONLY,
+    allowNull: false
+  },
+  status: {
+    type: DataTypes.ENUM('completed', 'failed'),
+    allowNull: false
+  },
+  summary: {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: {}
+  },
+  discrepancies: {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  },
+  fixes: {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  },
+  error: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  }
+}, {
+  sequelize,
+  tableName: 'reconciliation_reports',
+  timestamps: true,
+  indexes: [
+    { fields: ['provider', 'reportDate'], unique: true },
+    { fields: ['reportDate'] }
+  ]
+});
+
+export default ReconciliationReport;
\ No newline at end of file
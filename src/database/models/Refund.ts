@@ -0,0 +1,137 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+/**
+ * requested: a buyer asked and it awaits an admin. processing: sent to (or
+ * being sent to) the provider. rejected: an admin turned the request down.
+ */
+export type RefundStatus = 'requested' | 'processing' | 'succeeded' | 'failed' | 'rejected';
+
+interface RefundAttributes {
+  id: string;
+  paymentId: string;
+  amount: number;
+  currency: string;
+  status: RefundStatus;
+  reason: string | null;
+  // Null when the provider reported a refund made outside the platform
+  requestedBy: string | null;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+  providerRefundId: string | null;
+  failureReason: string | null;
+  processedAt: Date | null;
+  metadata: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class Refund extends Model<RefundAttributes> implements RefundAttributes {
+  declare id: string;
+  declare paymentId: string;
+  declare amount: number;
+  declare currency: string;
+  declare status: RefundStatus;
+  declare reason: string | null;
+  declare requestedBy: string | null;
+  declare reviewedBy: string | null;
+  declare reviewedAt: Date | null;
+  declare reviewNote: string | null;
+  declare providerRefundId: string | null;
+  declare failureReason: string | null;
+  declare processedAt: Date | null;
+  declare metadata: any;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Still counts against what is left to refund on the payment
+  public isOpen(): boolean {
+    return this.status === 'requested' || this.status === 'processing';
+  }
+}
+
+Refund.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  paymentId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'payments',
+      key: 'id'
+    }
+  },
+  amount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  },
+  currency: {
+    type: DataTypes.STRING(3),
+    allowNull: false
+  },
+  status: {
+    type: DataTypes.ENUM('requested', 'processing', 'succeeded', 'failed', 'rejected'),
+    allowNull: false,
+    defaultValue: 'requested'
+  },
+  reason: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  requestedBy: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  reviewedBy: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  reviewedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  reviewNote: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  providerRefundId: {
+    type: DataTypes.STRING,
+    allowNull: true,
+    unique: true
+  },
+  failureReason: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  processedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  metadata: {
+    type: DataTypes.JSONB,
+    defaultValue: {}
+  }
+}, {
+  sequelize,
+  tableName: 'refunds',
+  timestamps: true,
+  indexes: [
+    { fields: ['paymentId'] },
+    { fields: ['status'] },
+    { fields: ['requestedBy'] }
+  ]
+});
+
+export default Refund;
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+// Everything a staff role can grant; routes check these with requirePermission()
+export const PERMISSIONS = [
+  'dashboard.view',
+  'user.view',
+  'user.manage',
+  'user.sessions.revoke',
+  'exposure.manage',
+  'auction.view',
+  'auction.moderate',
+  'auction.delete',
+  'bid.retraction.review',
+  'company.view',
+  'company.verify',
+  'kyc.review',
+  'payment.view',
+  'payment.refund',
+  'payment.reconcile',
+  'invoice.view',
+  'invoice.credit',
+  'ledger.view',
+  'payout.manage',
+  'webhook.manage',
+  'dispute.view',
+  'dispute.resolve',
+  'fee.manage',
+  'catalog.manage',
+  'promo.manage',
+  'report.view',
+  'email.broadcast',
+  'log.view',
+  'config.manage',
+  'backup.create',
+  'backup.restore',
+  'system.manage',
+  'role.manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+interface RoleAttributes {
+  id: string;
+  // Stable identifier, e.g. finance
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  // Built-in roles are defined in code and cannot be edited or deleted
+  isSystem: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A named set of permissions that can be given to admin users
+ */
+class Role extends Model<RoleAttributes> implements RoleAttributes {
+  declare id: string;
+  declare name: string;
+  declare description: string | null;
+  declare permissions: Permission[];
+  declare isSystem: boolean;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+Role.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  name: {
+    type: DataTypes.STRING(50),
+    allowNull: false,
+    unique: true
+  },
+  description: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  permissions: {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  },
+  isSystem: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false
+  }
+}, {
+  sequelize,
+  tableName: 'roles',
+  timestamps: true,
+  indexes: [
+    { fields: ['name'], unique: true }
+  ]
+});
+
+export default Role;
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+interface SessionAttributes {
+  id: string;
+  userId: string;
+  // SHA-256 of the current refresh token; replaced on every refresh
+  refreshTokenHash: string;
+  // The login passed two-factor authentication
+  twoFactor: boolean;
+  deviceId: string | null;
+  deviceName: string | null;
+  platform: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * One signed-in device. Each refresh swaps the refresh token for a new
+ * one, so a token presented again after rotation means it was copied.
+ */
+class Session extends Model<SessionAttributes> implements SessionAttributes {
+  declare id: string;
+  declare userId: string;
+  declare refreshTokenHash: string;
+  declare twoFactor: boolean;
+  declare deviceId: string | null;
+  declare deviceName: string | null;
+  declare platform: string | null;
+  declare ipAddress: string | null;
+  declare userAgent: string | null;
+  declare lastUsedAt: Date;
+  declare expiresAt: Date;
+  declare revokedAt: Date | null;
+  declare revokedReason: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  public isActive(): boolean {
+    return !this.revokedAt && this.expiresAt > new Date();
+  }
+
+  public toJSON(): any {
+    const values = Object.assign({}, this.get());
+    delete (values as any).refreshTokenHash;
+    return values;
+  }
+}
+
+Session.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  userId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  refreshTokenHash: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+    unique: true
+  },
+  twoFactor: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false
+  },
+  deviceId: {
+    type: DataTypes.STRING,
+    allowNull: true
+  },
+  deviceName: {
+    type: DataTypes.STRING,
+    allowNull: true
+  },
+  platform: {
+    type: DataTypes.STRING(100),
+    allowNull: true
+  },
+  ipAddress: {
+    type: DataTypes.STRING(100),
+    allowNull: true
+  },
+  userAgent: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  lastUsedAt: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  expiresAt: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  revokedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  revokedReason: {
+    type: DataTypes.STRING,
+    allowNull: true
+  }
+}, {
+  sequelize,
+  tableName: 'sessions',
+  timestamps: true,
+  indexes: [
+    { fields: ['userId', 'revokedAt'] },
+    { fields: ['refreshTokenHash'], unique: true },
+    { fields: ['expiresAt'] }
+  ]
+});
+
+export default Session;
\ No newline at end of file
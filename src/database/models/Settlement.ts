@@ -0,0 +1,196 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+export type SettlementStatus = 'offered' | 'awaiting_payment' | 'paid' | 'defaulted' | 'declined' | 'expired';
+
+// held: the seller's share waits in escrow; released: it is theirs to be paid out; reversed: unwound by a refund
+export type EscrowStatus = 'held' | 'released' | 'reversed';
+
+interface SettlementAttributes {
+  id: string;
+  auctionId: string;
+  bidderId: string;
+  sellerId: string;
+  // winner: the auction's own result; second_chance: an offer to the runner-up after a default
+  kind: 'winner' | 'second_chance';
+  status: SettlementStatus;
+  hammerAmount: number;
+  commissionAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  currency: string;
+  dueAt: Date | null;
+  offerExpiresAt: Date | null;
+  // When the scheduler next looks at this settlement (reminder, default or offer expiry)
+  nextActionAt: Date | null;
+  remindersSent: number;
+  lastReminderAt: Date | null;
+  paidAt: Date | null;
+  defaultedAt: Date | null;
+  escrowStatus: EscrowStatus | null;
+  // End of the buyer's inspection window; the seller's share is released then unless released earlier
+  escrowReleaseAt: Date | null;
+  deliveryConfirmedAt: Date | null;
+  escrowReleasedAt: Date | null;
+  metadata: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class Settlement extends Model<SettlementAttributes> implements SettlementAttributes {
+  declare id: string;
+  declare auctionId: string;
+  declare bidderId: string;
+  declare sellerId: string;
+  declare kind: 'winner' | 'second_chance';
+  declare status: SettlementStatus;
+  declare hammerAmount: number;
+  declare commissionAmount: number;
+  declare taxAmount: number;
+  declare totalAmount: number;
+  declare currency: string;
+  declare dueAt: Date | null;
+  declare offerExpiresAt: Date | null;
+  declare nextActionAt: Date | null;
+  declare remindersSent: number;
+  declare lastReminderAt: Date | null;
+  declare paidAt: Date | null;
+  declare defaultedAt: Date | null;
+  declare escrowStatus: EscrowStatus | null;
+  declare escrowReleaseAt: Date | null;
+  declare deliveryConfirmedAt: Date | null;
+  declare escrowReleasedAt: Date | null;
+  declare metadata: any;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  public isOpen(): boolean {
+    return this.status === 'offered' || this.status === 'awaiting_payment';
+  }
+}
+
+Settlement.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  auctionId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'auctions',
+      key: 'id'
+    }
+  },
+  bidderId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  sellerId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  kind: {
+    type: DataTypes.ENUM('winner', 'second_chance'),
+    allowNull: false,
+    defaultValue: 'winner'
+  },
+  status: {
+    type: DataTypes.ENUM('offered', 'awaiting_payment', 'paid', 'defaulted', 'declined', 'expired'),
+    allowNull: false,
+    defaultValue: 'awaiting_payment'
+  },
+  hammerAmount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  },
+  commissionAmount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false,
+    defaultValue: 0
+  },
+  taxAmount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false,
+    defaultValue: 0
+  },
+  totalAmount: {
+    type: DataTypes.DECIMAL(15, 2),
+    allowNull: false
+  },
+  currency: {
+    type: DataTypes.STRING(3),
+    allowNull: false,
+    defaultValue: 'INR'
+  },
+  dueAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  offerExpiresAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  nextActionAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  remindersSent: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
+  },
+  lastReminderAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  paidAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  defaultedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  escrowStatus: {
+    type: DataTypes.ENUM('held', 'released', 'reversed'),
+    allowNull: true
+  },
+  escrowReleaseAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  deliveryConfirmedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  escrowReleasedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  metadata: {
+    type: DataTypes.JSONB,
+    defaultValue: {}
+  }
+}, {
+  sequelize,
+  tableName: 'settlements',
+  timestamps: true,
+  indexes: [
+    { fields: ['auctionId'] },
+    { fields: ['bidderId', 'status'] },
+    { fields: ['nextActionAt'] },
+    { fields: ['escrowStatus', 'escrowReleaseAt'] }
+  ]
+});
+
+export default Settlement;
\ No newline at end of file
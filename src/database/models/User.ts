@@ -1,9 +1,9 @@
-import { DataTypes, Model, Optional } from 'sequelize';
+import { DataTypes, Model, Optional, Transaction } from 'sequelize';
 import sequelize from '../../config/database';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 
-interface UserAttributes {
+export interface UserAttributes {
   id: string;
   email: string;
   password: string;
@@ -23,10 +23,14 @@ interface UserAttributes {
     country: string;
   } | null;
   kycStatus: 'pending' | 'verified' | 'rejected';
+  creditLimit: number | null;
   lastLogin: Date | null;
   emailVerified: boolean;
   phoneVerified: boolean;
   twoFactorEnabled: boolean;
+  twoFactorSecret: string | null;
+  twoFactorBackupCodes: string[];
+  twoFactorLastStep: number | null;
   loginAttempts: number;
   accountLockedUntil: Date | null;
   settings: {
@@ -46,8 +50,9 @@ interface UserAttributes {
 
 interface UserCreationAttributes extends Optional<UserAttributes, 
   'id' | 'companyId' | 'isVerified' | 'isActive' | 'profilePicture' | 
-  'address' | 'kycStatus' | 'lastLogin' | 'emailVerified' | 
-  'phoneVerified' | 'twoFactorEnabled' | 'loginAttempts' | 
+  'address' | 'kycStatus' | 'creditLimit' | 'lastLogin' | 'emailVerified' | 
+  'phoneVerified' | 'twoFactorEnabled' | 'twoFactorSecret' | 'twoFactorBackupCodes' | 
+  'twoFactorLastStep' | 'loginAttempts' | 
   'accountLockedUntil' | 'settings' | 'createdAt' | 'updatedAt'> {}
 
 class User extends Model<UserAttributes, UserCreationAttributes> implements UserAttributes {
@@ -64,10 +69,18 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
   declare profilePicture: string | null;
   declare address: { street: string; city: string; state: string; zipcode: string; country: string; } | null;
   declare kycStatus: 'pending' | 'verified' | 'rejected';
+  // Admin override; null means the limit follows the KYC tier
+  declare creditLimit: number | null;
   declare lastLogin: Date | null;
   declare emailVerified: boolean;
   declare phoneVerified: boolean;
   declare twoFactorEnabled: boolean;
+  // Encrypted TOTP secret; set before 2FA is confirmed, cleared when it is disabled
+  declare twoFactorSecret: string | null;
+  // SHA-256 hashes of the unused backup codes
+  declare twoFactorBackupCodes: string[];
+  // Last TOTP time step accepted, so a code cannot be replayed
+  declare twoFactorLastStep: number | null;
   declare loginAttempts: number;
   declare accountLockedUntil: Date | null;
   declare settings: { 
@@ -81,24 +94,26 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
     return bcrypt.compare(candidatePassword, this.password);
   }
 
-  public generateAuthToken(): string {
+  // Access tokens belong to a session (see SessionService); twoFactor marks one that passed 2FA at login
+  public generateAuthToken(sessionId: string, twoFactor: boolean = false): string {
     return jwt.sign(
-      { id: this.id, email: this.email, role: this.role, companyId: this.companyId },
+      { id: this.id, email: this.email, role: this.role, companyId: this.companyId, sid: sessionId, twoFactor },
       process.env.JWT_SECRET!,
       { expiresIn: '7d' }
     );
   }
 
-  public generateRefreshToken(): string {
-    return jwt.sign({ id: this.id }, process.env.JWT_REFRESH_SECRET!, { expiresIn: '30d' });
-  }
-
-  public async incrementLoginAttempts(): Promise<void> {
+  // Wrong passwords and wrong second-factor codes both count towards the lockout
+  public async incrementLoginAttempts(transaction: Transaction | null = null): Promise<void> {
     this.loginAttempts += 1;
     if (this.loginAttempts >= 5) {
       this.accountLockedUntil = new Date(Date.now() + 30 * 60 * 1000); // Lock for 30 minutes
     }
-    await this.save();
+    await this.save({ transaction });
+  }
+
+  public isLocked(): boolean {
+    return !!this.accountLockedUntil && this.accountLockedUntil > new Date();
   }
 
   public resetLoginAttempts(): void {
@@ -111,6 +126,9 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
     delete values.password;
     delete values.loginAttempts;
     delete values.accountLockedUntil;
+    delete values.twoFactorSecret;
+    delete values.twoFactorBackupCodes;
+    delete values.twoFactorLastStep;
     return values;
   }
 }
@@ -171,6 +189,10 @@ User.init({
     type: DataTypes.ENUM('pending', 'verified', 'rejected'), 
     defaultValue: 'pending' 
   },
+  creditLimit: { 
+    type: DataTypes.DECIMAL(15, 2), 
+    allowNull: true 
+  },
   lastLogin: { 
     type: DataTypes.DATE, 
     allowNull: true 
@@ -187,6 +209,19 @@ User.init({
     type: DataTypes.BOOLEAN, 
     defaultValue: false 
   },
+  twoFactorSecret: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  twoFactorBackupCodes: {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: []
+  },
+  twoFactorLastStep: {
+    type: DataTypes.INTEGER,
+    allowNull: true
+  },
   loginAttempts: { 
     type: DataTypes.INTEGER, 
     defaultValue: 0 
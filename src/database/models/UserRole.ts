@@ -0,0 +1,63 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+interface UserRoleAttributes {
+  id: string;
+  userId: string;
+  roleId: string;
+  // Admin who gave the role; null for grants made by the system
+  assignedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class UserRole extends Model<UserRoleAttributes> implements UserRoleAttributes {
+  declare id: string;
+  declare userId: string;
+  declare roleId: string;
+  declare assignedBy: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+UserRole.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  userId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  roleId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'roles',
+      key: 'id'
+    }
+  },
+  assignedBy: {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  }
+}, {
+  sequelize,
+  tableName: 'user_roles',
+  timestamps: true,
+  indexes: [
+    { fields: ['userId', 'roleId'], unique: true },
+    { fields: ['roleId'] }
+  ]
+});
+
+export default UserRole;
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+
+export const USER_TOKEN_PURPOSES = ['email_verification', 'password_reset', 'email_change'] as const;
+
+export type UserTokenPurpose = typeof USER_TOKEN_PURPOSES[number];
+
+interface UserTokenAttributes {
+  id: string;
+  userId: string;
+  purpose: UserTokenPurpose;
+  // SHA-256 of the token mailed to the user
+  tokenHash: string;
+  // Whatever the flow needs back on consumption, e.g. the new address for an email change
+  data: any;
+  expiresAt: Date;
+  consumedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class UserToken extends Model<UserTokenAttributes> implements UserTokenAttributes {
+  declare id: string;
+  declare userId: string;
+  declare purpose: UserTokenPurpose;
+  declare tokenHash: string;
+  declare data: any;
+  declare expiresAt: Date;
+  declare consumedAt: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+UserToken.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  userId: {
+    type: DataTypes.UUID,
+    allowNull: false,
+    references: {
+      model: 'users',
+      key: 'id'
+    }
+  },
+  purpose: {
+    type: DataTypes.ENUM(...USER_TOKEN_PURPOSES),
+    allowNull: false
+  },
+  tokenHash: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+    unique: true
+  },
+  data: {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: {}
+  },
+  expiresAt: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  consumedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  }
+}, {
+  sequelize,
+  tableName: 'user_tokens',
+  timestamps: true,
+  indexes: [
+    { fields: ['tokenHash'], unique: true },
+    { fields: ['userId', 'purpose'] }
+  ]
+});
+
+export default UserToken;
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../../config/database';
+import { PAYMENT_PROVIDERS, PaymentProviderName } from './Payment';
+
+export type WebhookProvider = PaymentProviderName;
+
+export type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'ignored';
+
+interface WebhookEventAttributes {
+  id: string;
+  provider: WebhookProvider;
+  // The provider's own event id; a replayed delivery matches an existing row
+  eventId: string;
+  type: string;
+  payload: any;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  // When the next processing attempt is due; null once processed or out of retries
+  nextAttemptAt: Date | null;
+  processedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+class WebhookEvent extends Model<WebhookEventAttributes> implements WebhookEventAttributes {
+  declare id: string;
+  declare provider: WebhookProvider;
+  declare eventId: string;
+  declare type: string;
+  declare payload: any;
+  declare status: WebhookEventStatus;
+  declare attempts: number;
+  declare lastError: string | null;
+  declare nextAttemptAt: Date | null;
+  declare processedAt: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+WebhookEvent.init({
+  id: {
+    type: DataTypes.UUID,
+    defaultValue: DataTypes.UUIDV4,
+    primaryKey: true
+  },
+  provider: {
+    type: DataTypes.ENUM(...PAYMENT_PROVIDERS),
+    allowNull: false
+  },
+  eventId: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  type: {
+    type: DataTypes.STRING(100),
+    allowNull: false
+  },
+  payload: {
+    type: DataTypes.JSONB,
+    allowNull: false
+  },
+  status: {
+    type: DataTypes.ENUM('pending', 'processing', 'processed', 'failed', 'ignored'),
+    allowNull: false,
+    defaultValue: 'pending'
+  },
+  attempts: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
+  },
+  lastError: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  nextAttemptAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  processedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  }
+}, {
+  sequelize,
+  tableName: 'webhook_events',
+  timestamps: true,
+  indexes: [
+    { fields: ['provider', 'eventId'], unique: true },
+    { fields: ['status', 'nextAttemptAt'] },
+    { fields: ['type'] }
+  ]
+});
+
+export default WebhookEvent;
\ No newline at end of file
@@ -4,13 +4,33 @@ import Auction from './Auction';
 import Payment from './Payment';
 import Bid from './Bid';
 import Company from './Company';
+import CompanyAuditLog from './CompanyAuditLog';
+import CompanyInvitation from './CompanyInvitation';
+import CompanyMember from './CompanyMember';
+import AutoBid from './AutoBid';
+import AuctionStatusHistory from './AuctionStatusHistory';
+import Lot from './Lot';
+import BidIncrementTable from './BidIncrementTable';
+import FeeSchedule from './FeeSchedule';
+import BidRetraction from './BidRetraction';
+import BidderDeposit from './BidderDeposit';
+import Settlement from './Settlement';
+import Invoice from './Invoice';
+import LedgerEntry from './LedgerEntry';
+import Payout from './Payout';
+import Refund from './Refund';
+import ReconciliationReport from './ReconciliationReport';
+import Role from './Role';
+import Session from './Session';
+import UserToken from './UserToken';
+import UserRole from './UserRole';
+import WebhookEvent from './WebhookEvent';
 
 // Define associations
-Auction.belongsTo(User, { foreignKey: 'companyId', as: 'company' });
+Auction.belongsTo(Company, { foreignKey: 'companyId', as: 'company' });
 Auction.belongsTo(User, { foreignKey: 'currentHighestBidderId', as: 'highestBidder' });
 Auction.belongsTo(User, { foreignKey: 'winnerId', as: 'winner' });
 
-User.hasMany(Auction, { foreignKey: 'companyId', as: 'auctions' });
 User.hasMany(Auction, { foreignKey: 'currentHighestBidderId', as: 'leadingBids' });
 User.hasMany(Auction, { foreignKey: 'winnerId', as: 'wonAuctions' });
 
@@ -21,9 +41,117 @@ Bid.belongsTo(User, { foreignKey: 'bidderId', as: 'bidder' });
 Auction.hasMany(Bid, { foreignKey: 'auctionId', as: 'bids' });
 User.hasMany(Bid, { foreignKey: 'bidderId', as: 'bids' });
 
+// Auto-bid (proxy) associations
+AutoBid.belongsTo(Auction, { foreignKey: 'auctionId', as: 'auction' });
+AutoBid.belongsTo(User, { foreignKey: 'bidderId', as: 'bidder' });
+
+Auction.hasMany(AutoBid, { foreignKey: 'auctionId', as: 'autoBids' });
+User.hasMany(AutoBid, { foreignKey: 'bidderId', as: 'autoBids' });
+
+// Lot associations
+Lot.belongsTo(Auction, { foreignKey: 'auctionId', as: 'auction' });
+Lot.belongsTo(User, { foreignKey: 'currentHighestBidderId', as: 'highestBidder' });
+Lot.belongsTo(User, { foreignKey: 'winnerId', as: 'winner' });
+
+Auction.hasMany(Lot, { foreignKey: 'auctionId', as: 'lots' });
+Lot.hasMany(Bid, { foreignKey: 'lotId', as: 'bids' });
+Bid.belongsTo(Lot, { foreignKey: 'lotId', as: 'lot' });
+
+// Status history associations
+AuctionStatusHistory.belongsTo(Auction, { foreignKey: 'auctionId', as: 'auction' });
+AuctionStatusHistory.belongsTo(User, { foreignKey: 'actorId', as: 'actor' });
+
+Auction.hasMany(AuctionStatusHistory, { foreignKey: 'auctionId', as: 'statusHistory' });
+
+// Bid retraction associations
+BidRetraction.belongsTo(Bid, { foreignKey: 'bidId', as: 'bid' });
+BidRetraction.belongsTo(Auction, { foreignKey: 'auctionId', as: 'auction' });
+BidRetraction.belongsTo(User, { foreignKey: 'bidderId', as: 'bidder' });
+BidRetraction.belongsTo(User, { foreignKey: 'reviewedBy', as: 'reviewer' });
+
+Bid.hasMany(BidRetraction, { foreignKey: 'bidId', as: 'retractions' });
+
+// Deposit associations
+BidderDeposit.belongsTo(Auction, { foreignKey: 'auctionId', as: 'auction' });
+BidderDeposit.belongsTo(User, { foreignKey: 'bidderId', as: 'bidder' });
+BidderDeposit.belongsTo(Payment, { foreignKey: 'paymentId', as: 'payment' });
+
+Auction.hasMany(BidderDeposit, { foreignKey: 'auctionId', as: 'deposits' });
+User.hasMany(BidderDeposit, { foreignKey: 'bidderId', as: 'deposits' });
+
+// Settlement associations
+Settlement.belongsTo(Auction, { foreignKey: 'auctionId', as: 'auction' });
+Settlement.belongsTo(User, { foreignKey: 'bidderId', as: 'bidder' });
+Settlement.belongsTo(User, { foreignKey: 'sellerId', as: 'seller' });
+
+Auction.hasMany(Settlement, { foreignKey: 'auctionId', as: 'settlements' });
+User.hasMany(Settlement, { foreignKey: 'bidderId', as: 'settlements' });
+
+// Invoice and credit note associations
+Invoice.belongsTo(Auction, { foreignKey: 'auctionId', as: 'auction' });
+Invoice.belongsTo(Payment, { foreignKey: 'paymentId', as: 'payment' });
+Invoice.belongsTo(Settlement, { foreignKey: 'settlementId', as: 'settlement' });
+Invoice.belongsTo(Invoice, { foreignKey: 'originalInvoiceId', as: 'originalInvoice' });
+Invoice.hasMany(Invoice, { foreignKey: 'originalInvoiceId', as: 'creditNotes' });
+
+Auction.hasMany(Invoice, { foreignKey: 'auctionId', as: 'invoices' });
+Payment.hasMany(Invoice, { foreignKey: 'paymentId', as: 'invoices' });
+
+// Ledger and payout associations
+LedgerEntry.belongsTo(User, { foreignKey: 'ownerId', as: 'owner' });
+LedgerEntry.belongsTo(Auction, { foreignKey: 'auctionId', as: 'auction' });
+LedgerEntry.belongsTo(Settlement, { foreignKey: 'settlementId', as: 'settlement' });
+LedgerEntry.belongsTo(Payment, { foreignKey: 'paymentId', as: 'payment' });
+LedgerEntry.belongsTo(Payout, { foreignKey: 'payoutId', as: 'payout' });
+
+Payout.belongsTo(User, { foreignKey: 'sellerId', as: 'seller' });
+Payout.hasMany(LedgerEntry, { foreignKey: 'payoutId', as: 'entries' });
+User.hasMany(Payout, { foreignKey: 'sellerId', as: 'payouts' });
+
+// Refund associations
+Refund.belongsTo(Payment, { foreignKey: 'paymentId', as: 'payment' });
+Refund.belongsTo(User, { foreignKey: 'requestedBy', as: 'requester' });
+Refund.belongsTo(User, { foreignKey: 'reviewedBy', as: 'reviewer' });
+Payment.hasMany(Refund, { foreignKey: 'paymentId', as: 'refunds' });
+
+// Session associations
+Session.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+User.hasMany(Session, { foreignKey: 'userId', as: 'sessions' });
+
+UserToken.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+User.hasMany(UserToken, { foreignKey: 'userId', as: 'tokens' });
+
+// Staff role associations
+User.belongsToMany(Role, { through: UserRole, foreignKey: 'userId', otherKey: 'roleId', as: 'staffRoles' });
+Role.belongsToMany(User, { through: UserRole, foreignKey: 'roleId', otherKey: 'userId', as: 'users' });
+UserRole.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+UserRole.belongsTo(Role, { foreignKey: 'roleId', as: 'role' });
+UserRole.belongsTo(User, { foreignKey: 'assignedBy', as: 'assigner' });
+
+// Increment table associations
+BidIncrementTable.belongsTo(User, { foreignKey: 'updatedBy', as: 'editor' });
+
+// Fee schedule associations
+FeeSchedule.belongsTo(Company, { foreignKey: 'companyId', as: 'company' });
+FeeSchedule.belongsTo(User, { foreignKey: 'createdBy', as: 'creator' });
+
 // Company associations
 Company.belongsTo(User, { foreignKey: 'userId', as: 'user' });
 User.hasOne(Company, { foreignKey: 'userId', as: 'companyProfile' });
+Company.hasMany(Auction, { foreignKey: 'companyId', as: 'auctions' });
+
+// Company team associations
+CompanyMember.belongsTo(Company, { foreignKey: 'companyId', as: 'company' });
+CompanyMember.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+Company.hasMany(CompanyMember, { foreignKey: 'companyId', as: 'members' });
+User.hasOne(CompanyMember, { foreignKey: 'userId', as: 'membership' });
+
+CompanyInvitation.belongsTo(Company, { foreignKey: 'companyId', as: 'company' });
+CompanyInvitation.belongsTo(User, { foreignKey: 'invitedBy', as: 'inviter' });
+Company.hasMany(CompanyInvitation, { foreignKey: 'companyId', as: 'invitations' });
+
+CompanyAuditLog.belongsTo(Company, { foreignKey: 'companyId', as: 'company' });
+CompanyAuditLog.belongsTo(User, { foreignKey: 'actorId', as: 'actor' });
 
 // Payment associations
 Payment.belongsTo(User, { foreignKey: 'userId', as: 'user' });
@@ -38,6 +166,27 @@ const models = {
   Payment,
   Bid,
   Company,
+  CompanyMember,
+  CompanyInvitation,
+  CompanyAuditLog,
+  AutoBid,
+  AuctionStatusHistory,
+  Lot,
+  BidIncrementTable,
+  FeeSchedule,
+  BidRetraction,
+  BidderDeposit,
+  Settlement,
+  Invoice,
+  LedgerEntry,
+  Payout,
+  Refund,
+  ReconciliationReport,
+  Role,
+  Session,
+  UserRole,
+  UserToken,
+  WebhookEvent,
   sequelize
 };
 
@@ -4,15 +4,33 @@ import { ApiResponse } from '../utils/helpers';
 import User, { UserAttributes } from '../database/models/User';
 import { logger } from '../utils/logger';
 import redisClient from '../config/redis';
+import { sessionService } from '../services/session.service';
+import { permissionService } from '../services/permission.service';
+import { companyMemberService } from '../services/companyMember.service';
+import { Permission } from '../database/models/Role';
+import { CompanyMemberRole } from '../database/models/CompanyMember';
+
+// Credentials and lockout state stay on the model and are never copied onto the request
+type RequestUserAttributes = Omit<
+  UserAttributes,
+  'password' | 'creditLimit' | 'twoFactorSecret' | 'twoFactorBackupCodes' | 'twoFactorLastStep' | 'loginAttempts' | 'accountLockedUntil'
+>;
 
 // Extend Express Request type to include user
 declare global {
   namespace Express {
     interface Request {
-      user?: UserAttributes & { 
+      user?: RequestUserAttributes & { 
         id: string;
         role: 'admin' | 'company' | 'bidder';
         companyId?: string | null;
+        sessionId?: string;
+        // The session passed two-factor authentication at login
+        twoFactorVerified?: boolean;
+        // Loaded by requirePermission()
+        permissions?: Permission[];
+        // Loaded by isOwner() and requireCompanyRole()
+        companyRole?: CompanyMemberRole;
       };
       requestId?: string;
     }
@@ -24,6 +42,9 @@ interface DecodedToken extends JwtPayload {
   email: string;
   role: 'admin' | 'company' | 'bidder';
   companyId?: string | null;
+  // Session the token was issued for
+  sid?: string;
+  twoFactor?: boolean;
   iat: number;
   exp: number;
 }
@@ -66,6 +87,13 @@ export const protect = async (req: Request, res: Response, next: NextFunction):
     // Verify token
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as DecodedToken;
 
+    // Tokens live only as long as their session; ones from before sessions existed are refused
+    if (!decoded.sid || await sessionService.isRevoked(decoded.sid)) {
+      logger.warn(`Revoked session attempt: ${decoded.id} - ${req.method} ${req.originalUrl}`);
+      res.status(401).json(new ApiResponse(401, 'Session expired. Please login again.'));
+      return;
+    }
+
     // Get user from database
     const user = await User.findByPk(decoded.id, {
       attributes: { exclude: ['password', 'loginAttempts', 'accountLockedUntil'] }
@@ -121,6 +149,8 @@ export const protect = async (req: Request, res: Response, next: NextFunction):
       emailVerified: user.emailVerified,
       phoneVerified: user.phoneVerified,
       twoFactorEnabled: user.twoFactorEnabled,
+      sessionId: decoded.sid,
+      twoFactorVerified: decoded.twoFactor === true,
       settings: user.settings,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt
@@ -175,9 +205,85 @@ export const authorize = (...allowedRoles: ('admin' | 'company' | 'bidder')[]) =
 };
 
 /**
- * Check if user owns the resource (for company users)
+ * Permission-based authorization for admin features. Every listed
+ * permission must come from the user's staff roles.
+ */
+export const requirePermission = (...required: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        logger.warn('Permission check without authentication');
+        res.status(401).json(new ApiResponse(401, 'Not authenticated'));
+        return;
+      }
+
+      const permissions = await permissionService.getPermissions(req.user);
+      const missing = required.filter(permission => !permissions.includes(permission));
+
+      if (missing.length > 0) {
+        logger.warn(`Missing permissions: ${req.user.id} lacks ${missing.join(', ')} for ${req.method} ${req.originalUrl}`);
+        res.status(403).json(new ApiResponse(403, `Access denied. Required permissions: ${missing.join(', ')}`));
+        return;
+      }
+
+      req.user.permissions = permissions;
+
+      next();
+    } catch (error) {
+      logger.error('Permission check error:', error);
+      res.status(500).json(new ApiResponse(500, 'Server error during permission check'));
+    }
+  };
+};
+
+/**
+ * Company team authorization for company-wide actions (not tied to one
+ * resource). Admins pass; company users need one of the member roles.
+ */
+export const requireCompanyRole = (...roles: CompanyMemberRole[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json(new ApiResponse(401, 'Not authenticated'));
+        return;
+      }
+
+      if (req.user.role === 'admin') {
+        next();
+        return;
+      }
+
+      const membership = req.user.companyId
+        ? await companyMemberService.getMembership(req.user.companyId, req.user.id)
+        : null;
+
+      if (!membership || !roles.includes(membership.role)) {
+        logger.warn(`Company role check failed: ${req.user.id} (${membership?.role || 'no membership'}) - ${req.method} ${req.originalUrl}`);
+        res.status(403).json(new ApiResponse(403, `Access denied. Required company roles: ${roles.join(', ')}`));
+        return;
+      }
+
+      req.user.companyRole = membership.role;
+
+      next();
+    } catch (error) {
+      logger.error('Company role check error:', error);
+      res.status(500).json(new ApiResponse(500, 'Server error during company role check'));
+    }
+  };
+};
+
+/**
+ * Check if user owns the resource (for company users). Resources owned
+ * through companyId belong to a company, and any of its members holding
+ * one of memberRoles may act on them.
  */
-export const isOwner = (resourceOwnerField = 'companyId') => {
+export const isOwner = (
+  resourceOwnerField = 'companyId',
+  ...memberRoles: CompanyMemberRole[]
+) => {
+  const allowedRoles: CompanyMemberRole[] = memberRoles.length > 0 ? memberRoles : ['owner', 'manager'];
+
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       if (!req.user) {
@@ -225,7 +331,19 @@ export const isOwner = (resourceOwnerField = 'companyId') => {
       }
 
       // Check ownership
-      if (resource[resourceOwnerField] !== req.user.id) {
+      if (resourceOwnerField === 'companyId') {
+        const membership = req.user.companyId && resource.companyId === req.user.companyId
+          ? await companyMemberService.getMembership(req.user.companyId, req.user.id)
+          : null;
+
+        if (!membership || !allowedRoles.includes(membership.role)) {
+          logger.warn(`Ownership violation: User ${req.user.id} (${membership?.role || 'not a member'}) tried to access company resource ${resourceId}`);
+          res.status(403).json(new ApiResponse(403, 'Not authorized to access this resource'));
+          return;
+        }
+
+        req.user.companyRole = membership.role;
+      } else if (resource[resourceOwnerField] !== req.user.id) {
         logger.warn(`Ownership violation: User ${req.user.id} tried to access ${resourceOwnerField} ${resourceId}`);
         res.status(403).json(new ApiResponse(403, 'Not authorized to access this resource'));
         return;
@@ -242,7 +360,8 @@ export const isOwner = (resourceOwnerField = 'companyId') => {
 };
 
 /**
- * Two-factor authentication check
+ * Two-factor authentication check. Users with 2FA must have passed it at
+ * login; admins must have it turned on at all.
  */
 export const require2FA = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -251,29 +370,16 @@ export const require2FA = async (req: Request, res: Response, next: NextFunction
       return;
     }
 
-    const user = await User.findByPk(req.user.id);
-    
-    if (!user) {
-      res.status(401).json(new ApiResponse(401, 'User not found'));
-      return;
-    }
-
-    if (user.twoFactorEnabled) {
-      // Check if 2FA token is provided
-      const twoFactorToken = req.headers['x-2fa-token'] || req.body.twoFactorToken;
-      
-      if (!twoFactorToken) {
-        res.status(403).json(new ApiResponse(403, 'Two-factor authentication required'));
-        return;
-      }
-
-      // Verify 2FA token (implementation depends on your 2FA method)
-      const isValid2FA = await verifyTwoFactorToken(user.id, twoFactorToken);
-      
-      if (!isValid2FA) {
-        res.status(403).json(new ApiResponse(403, 'Invalid two-factor authentication token'));
+    if (req.user.twoFactorEnabled) {
+      // Tokens from before 2FA was switched on do not carry the claim
+      if (!req.user.twoFactorVerified) {
+        logger.warn(`Session without 2FA: ${req.user.id} - ${req.method} ${req.originalUrl}`);
+        res.status(403).json(new ApiResponse(403, 'Two-factor authentication required. Please login again.'));
         return;
       }
+    } else if (req.user.role === 'admin') {
+      res.status(403).json(new ApiResponse(403, 'Enable two-factor authentication to use admin features'));
+      return;
     }
 
     next();
@@ -403,6 +509,11 @@ export const socketAuth = async (socket: any, next: (err?: Error) => void): Prom
     }
 
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as DecodedToken;
+
+    if (!decoded.sid || await sessionService.isRevoked(decoded.sid)) {
+      return next(new Error('Authentication error: Session expired'));
+    }
+
     const user = await User.findByPk(decoded.id);
 
     if (!user) {
@@ -438,17 +549,11 @@ export const socketAuth = async (socket: any, next: (err?: Error) => void): Prom
   }
 };
 
-// Helper function for 2FA verification (placeholder)
-async function verifyTwoFactorToken(userId: string, token: string): Promise<boolean> {
-  // Implement your 2FA verification logic here
-  // This could be TOTP, SMS code, email code, etc.
-  const storedToken = await redisClient.get(`2fa:${userId}`);
-  return storedToken === token;
-}
-
 export default {
   protect,
   authorize,
+  requirePermission,
+  requireCompanyRole,
   isOwner,
   require2FA,
   requireKYC,
@@ -1,79 +1,198 @@
 import { Router } from 'express';
 import { AdminController } from '../controllers/admin.controller';
-import { protect, authorize } from '../middleware/auth.middleware';
+import { AuctionController } from '../controllers/auction.controller';
+import { AuthController } from '../controllers/auth.controller';
+import { IncrementController } from '../controllers/increment.controller';
+import { BidController } from '../controllers/BidController';
+import { ExposureController } from '../controllers/exposure.controller';
+import { FeeController } from '../controllers/fee.controller';
+import { InvoiceController } from '../controllers/invoice.controller';
+import { LedgerController } from '../controllers/ledger.controller';
+import { ReconciliationController } from '../controllers/reconciliation.controller';
+import { RefundController } from '../controllers/refund.controller';
+import { RoleController } from '../controllers/role.controller';
+import { WebhookController } from '../controllers/webhook.controller';
+import { protect, require2FA, requirePermission } from '../middleware/auth.middleware';
 import { asyncHandler } from '../utils/helpers';
-import { body } from 'express-validator';
+import { body, param, query } from 'express-validator';
+import { incrementService, AUCTION_CATEGORIES } from '../services/increment.service';
+import { feeService } from '../services/fee.service';
+import { PAYMENT_PROVIDERS } from '../database/models/Payment';
+import { PERMISSIONS } from '../database/models/Role';
 
 const router = Router();
 
-// All admin routes require admin authorization
-router.use(protect, authorize('admin'));
+// Every admin route needs two-factor authentication plus the permission named on it
+router.use(protect, require2FA);
 
 // Dashboard statistics
-router.get('/dashboard/stats', asyncHandler(AdminController.getDashboardStats));
+router.get('/dashboard/stats', requirePermission('dashboard.view'), asyncHandler(AdminController.getDashboardStats));
 
 // User management
-router.get('/users', asyncHandler(AdminController.getUsers));
-router.get('/users/:userId', asyncHandler(AdminController.getUserDetails));
-router.put('/users/:userId/status', [
+router.get('/users', requirePermission('user.view'), asyncHandler(AdminController.getUsers));
+router.get('/users/:userId', requirePermission('user.view'), asyncHandler(AdminController.getUserDetails));
+router.put('/users/:userId/status', requirePermission('user.manage'), [
   body('status').isIn(['active', 'suspended', 'banned'])
 ], asyncHandler(AdminController.updateUserStatus));
-router.put('/users/:userId/role', [
+// Making someone an admin hands them staff roles, so it needs the same permission as giving out roles
+router.put('/users/:userId/role', requirePermission('role.manage'), [
   body('role').isIn(['admin', 'company', 'bidder'])
 ], asyncHandler(AdminController.updateUserRole));
+// Log out everywhere: ends every session of the user
+router.delete('/users/:userId/sessions', requirePermission('user.sessions.revoke'), asyncHandler(AuthController.revokeUserSessions));
+router.get('/users/:userId/exposure', requirePermission('user.view'), asyncHandler(ExposureController.getUserExposure));
+router.put('/users/:userId/credit-limit', requirePermission('exposure.manage'), [
+  body('creditLimit').optional({ nullable: true }).isFloat({ min: 0 })
+], asyncHandler(ExposureController.setCreditLimit));
+
+// Staff roles and permissions
+router.get('/permissions', requirePermission('role.manage'), asyncHandler(RoleController.getPermissions));
+router.get('/roles', requirePermission('role.manage'), asyncHandler(RoleController.getRoles));
+router.post('/roles', requirePermission('role.manage'), [
+  body('name').matches(/^[a-z][a-z0-9_]{1,49}$/).withMessage('Name must be lowercase letters, digits and underscores'),
+  body('description').optional({ nullable: true }).isString(),
+  body('permissions').isArray(),
+  body('permissions.*').isIn(PERMISSIONS)
+], asyncHandler(RoleController.createRole));
+router.put('/roles/:roleId', requirePermission('role.manage'), [
+  param('roleId').isUUID(),
+  body('description').optional({ nullable: true }).isString(),
+  body('permissions').optional().isArray(),
+  body('permissions.*').isIn(PERMISSIONS)
+], asyncHandler(RoleController.updateRole));
+router.delete('/roles/:roleId', requirePermission('role.manage'), [
+  param('roleId').isUUID()
+], asyncHandler(RoleController.deleteRole));
+router.get('/users/:userId/roles', requirePermission('role.manage'), [
+  param('userId').isUUID()
+], asyncHandler(RoleController.getUserRoles));
+router.put('/users/:userId/roles/:roleId', requirePermission('role.manage'), [
+  param('userId').isUUID(),
+  param('roleId').isUUID()
+], asyncHandler(RoleController.assignRole));
+router.delete('/users/:userId/roles/:roleId', requirePermission('role.manage'), [
+  param('userId').isUUID(),
+  param('roleId').isUUID()
+], asyncHandler(RoleController.removeRole));
 
 // Auction management
-router.get('/auctions', asyncHandler(AdminController.getAuctions));
-router.get('/auctions/:auctionId', asyncHandler(AdminController.getAuctionDetails));
-router.put('/auctions/:auctionId/status', [
-  body('status').isIn(['live', 'paused', 'ended', 'cancelled'])
-], asyncHandler(AdminController.updateAuctionStatus));
-router.delete('/auctions/:auctionId', asyncHandler(AdminController.deleteAuction));
+router.get('/auctions', requirePermission('auction.view'), asyncHandler(AdminController.getAuctions));
+router.get('/auctions/:auctionId', requirePermission('auction.view'), asyncHandler(AdminController.getAuctionDetails));
+router.put('/auctions/:auctionId/status', requirePermission('auction.moderate'), [
+  body('status').isIn(['live', 'paused', 'ended', 'cancelled']),
+  body('reason').optional().isString()
+], asyncHandler(AuctionController.updateAuctionStatus));
+router.delete('/auctions/:auctionId', requirePermission('auction.delete'), asyncHandler(AdminController.deleteAuction));
+
+// Bid retraction queue
+router.get('/bid-retractions', requirePermission('bid.retraction.review'), asyncHandler(BidController.getRetractions));
+router.put('/bid-retractions/:retractionId', requirePermission('bid.retraction.review'), [
+  body('approve').isBoolean(),
+  body('notes').optional().isString()
+], asyncHandler(BidController.reviewRetraction));
 
 // Company management
-router.get('/companies', asyncHandler(AdminController.getCompanies));
-router.get('/companies/:companyId', asyncHandler(AdminController.getCompanyDetails));
-router.put('/companies/:companyId/verify', asyncHandler(AdminController.verifyCompany));
-router.put('/companies/:companyId/kyc-status', [
+router.get('/companies', requirePermission('company.view'), asyncHandler(AdminController.getCompanies));
+router.get('/companies/:companyId', requirePermission('company.view'), asyncHandler(AdminController.getCompanyDetails));
+router.put('/companies/:companyId/verify', requirePermission('company.verify'), asyncHandler(AdminController.verifyCompany));
+router.put('/companies/:companyId/kyc-status', requirePermission('kyc.review'), [
   body('status').isIn(['pending', 'verified', 'rejected']),
   body('notes').optional().isString()
 ], asyncHandler(AdminController.updateKYCStatus));
 
 // Payment management
-router.get('/payments', asyncHandler(AdminController.getPayments));
-router.get('/payments/:paymentId', asyncHandler(AdminController.getPaymentDetails));
-router.post('/payments/:paymentId/refund', [
+router.get('/payments', requirePermission('payment.view'), asyncHandler(AdminController.getPayments));
+
+// Daily reconciliation against the payment providers
+router.get('/payments/reconciliation', requirePermission('payment.reconcile'), [
+  query('date').optional().matches(/^\d{4}-\d{2}-\d{2}$/),
+  query('provider').optional().isIn(PAYMENT_PROVIDERS)
+], asyncHandler(ReconciliationController.getReport));
+router.post('/payments/reconciliation/run', requirePermission('payment.reconcile'), [
+  body('date').optional().matches(/^\d{4}-\d{2}-\d{2}$/)
+], asyncHandler(ReconciliationController.runReconciliation));
+
+router.get('/payments/:paymentId', requirePermission('payment.view'), asyncHandler(AdminController.getPaymentDetails));
+router.post('/payments/:paymentId/refund', requirePermission('payment.refund'), [
   body('reason').optional().isString(),
-  body('amount').optional().isFloat({ min: 0 })
-], asyncHandler(AdminController.processRefund));
+  body('amount').optional().isFloat({ min: 0.01 })
+], asyncHandler(RefundController.createRefund));
+
+// Refund requests awaiting review
+router.get('/refunds', requirePermission('payment.view'), asyncHandler(RefundController.getRefunds));
+router.put('/refunds/:refundId/approve', requirePermission('payment.refund'), asyncHandler(RefundController.approveRefund));
+router.put('/refunds/:refundId/reject', requirePermission('payment.refund'), [
+  body('reason').optional().isString()
+], asyncHandler(RefundController.rejectRefund));
+
+// Invoices and credit notes
+router.get('/invoices', requirePermission('invoice.view'), asyncHandler(InvoiceController.getInvoices));
+router.post('/invoices/:invoiceId/credit-note', requirePermission('invoice.credit'), [
+  body('amount').optional({ nullable: true }).isFloat({ min: 0.01 }),
+  body('reason').isString().notEmpty()
+], asyncHandler(InvoiceController.createCreditNote));
+
+// Escrow ledger and seller payouts
+router.get('/ledger/balances', requirePermission('ledger.view'), asyncHandler(LedgerController.getLedgerBalances));
+router.post('/settlements/:settlementId/release', requirePermission('payout.manage'), asyncHandler(LedgerController.releaseEscrow));
+router.get('/payouts', requirePermission('ledger.view'), asyncHandler(LedgerController.getPayouts));
+router.post('/payouts/batches', requirePermission('payout.manage'), [
+  body('minimumAmount').optional().isFloat({ min: 0 })
+], asyncHandler(LedgerController.createPayoutBatch));
+router.put('/payouts/:payoutId', requirePermission('payout.manage'), [
+  body('status').isIn(['paid', 'failed']),
+  body('reference').optional().isString(),
+  body('reason').optional().isString()
+], asyncHandler(LedgerController.updatePayout));
+
+// Payment provider webhooks
+router.get('/webhooks', requirePermission('webhook.manage'), asyncHandler(WebhookController.getEvents));
+router.post('/webhooks/:eventId/replay', requirePermission('webhook.manage'), asyncHandler(WebhookController.replayEvent));
 
 // Dispute resolution
-router.get('/disputes', asyncHandler(AdminController.getDisputes));
-router.get('/disputes/:disputeId', asyncHandler(AdminController.getDisputeDetails));
-router.put('/disputes/:disputeId/resolve', [
+router.get('/disputes', requirePermission('dispute.view'), asyncHandler(AdminController.getDisputes));
+router.get('/disputes/:disputeId', requirePermission('dispute.view'), asyncHandler(AdminController.getDisputeDetails));
+router.put('/disputes/:disputeId/resolve', requirePermission('dispute.resolve'), [
   body('resolution').isString().notEmpty(),
   body('winnerId').optional().isString(),
   body('refundAmount').optional().isFloat({ min: 0 })
 ], asyncHandler(AdminController.resolveDispute));
 
 // System configuration
-router.get('/config', asyncHandler(AdminController.getSystemConfig));
-router.put('/config', [
+router.get('/config', requirePermission('config.manage'), asyncHandler(AdminController.getSystemConfig));
+router.put('/config', requirePermission('config.manage'), [
   body('settings').isObject()
 ], asyncHandler(AdminController.updateSystemConfig));
 
-// Commission management
-router.get('/commissions', asyncHandler(AdminController.getCommissions));
-router.put('/commissions', [
-  body('rate').isFloat({ min: 0, max: 100 }),
-  body('minAmount').optional().isFloat({ min: 0 })
-], asyncHandler(AdminController.updateCommissionRate));
+// Fee schedules: buyer's premium, seller commission and tax
+const feeTiers = (field: string) => body(field).custom(tiers => {
+  const failure = feeService.validateTiers(tiers);
+  if (failure) {
+    throw new Error(failure);
+  }
+  return true;
+});
+
+router.get('/commissions', requirePermission('fee.manage'), asyncHandler(FeeController.getSchedules));
+router.put('/commissions', requirePermission('fee.manage'), [
+  body('category').optional({ nullable: true }).isIn(AUCTION_CATEGORIES),
+  body('companyId').optional({ nullable: true }).isUUID(),
+  feeTiers('buyerPremiumTiers'),
+  body('buyerPremiumMin').optional({ nullable: true }).isFloat({ min: 0 }),
+  body('buyerPremiumMax').optional({ nullable: true }).isFloat({ min: 0 }),
+  feeTiers('sellerCommissionTiers'),
+  body('sellerCommissionMin').optional({ nullable: true }).isFloat({ min: 0 }),
+  body('sellerCommissionMax').optional({ nullable: true }).isFloat({ min: 0 }),
+  body('taxRate').isFloat({ min: 0, max: 100 }),
+  body('notes').optional({ nullable: true }).isString()
+], asyncHandler(FeeController.setSchedule));
+router.delete('/commissions/:scheduleId', requirePermission('fee.manage'), asyncHandler(FeeController.retireSchedule));
 
 // Reports
-router.get('/reports/sales', asyncHandler(AdminController.getSalesReport));
-router.get('/reports/users', asyncHandler(AdminController.getUserReport));
-router.get('/reports/auctions', asyncHandler(AdminController.getAuctionReport));
-router.post('/reports/generate', [
+router.get('/reports/sales', requirePermission('report.view'), asyncHandler(AdminController.getSalesReport));
+router.get('/reports/users', requirePermission('report.view'), asyncHandler(AdminController.getUserReport));
+router.get('/reports/auctions', requirePermission('report.view'), asyncHandler(AdminController.getAuctionReport));
+router.post('/reports/generate', requirePermission('report.view'), [
   body('type').isIn(['sales', 'users', 'auctions', 'payments']),
   body('startDate').isISO8601(),
   body('endDate').isISO8601(),
@@ -81,7 +200,7 @@ router.post('/reports/generate', [
 ], asyncHandler(AdminController.generateReport));
 
 // Email management
-router.post('/email/broadcast', [
+router.post('/email/broadcast', requirePermission('email.broadcast'), [
   body('subject').isString().notEmpty(),
   body('message').isString().notEmpty(),
   body('recipients').optional().isIn(['all', 'bidders', 'companies', 'admins']),
@@ -89,37 +208,56 @@ router.post('/email/broadcast', [
 ], asyncHandler(AdminController.sendBroadcastEmail));
 
 // System logs
-router.get('/logs', asyncHandler(AdminController.getSystemLogs));
-router.get('/logs/error', asyncHandler(AdminController.getErrorLogs));
-router.get('/logs/audit', asyncHandler(AdminController.getAuditLogs));
+router.get('/logs', requirePermission('log.view'), asyncHandler(AdminController.getSystemLogs));
+router.get('/logs/error', requirePermission('log.view'), asyncHandler(AdminController.getErrorLogs));
+router.get('/logs/audit', requirePermission('log.view'), asyncHandler(AdminController.getAuditLogs));
 
 // Backup and restore
-router.post('/backup', asyncHandler(AdminController.createBackup));
-router.get('/backups', asyncHandler(AdminController.getBackups));
-router.post('/restore/:backupId', asyncHandler(AdminController.restoreBackup));
+router.post('/backup', requirePermission('backup.create'), asyncHandler(AdminController.createBackup));
+router.get('/backups', requirePermission('backup.create'), asyncHandler(AdminController.getBackups));
+router.post('/restore/:backupId', requirePermission('backup.restore'), asyncHandler(AdminController.restoreBackup));
 
 // Featured auctions management
-router.get('/featured-auctions', asyncHandler(AdminController.getFeaturedAuctions));
-router.post('/featured-auctions/:auctionId', [
+router.get('/featured-auctions', requirePermission('auction.view'), asyncHandler(AdminController.getFeaturedAuctions));
+router.post('/featured-auctions/:auctionId', requirePermission('auction.moderate'), [
   body('featuredUntil').isISO8601(),
   body('priority').optional().isInt({ min: 1, max: 10 })
 ], asyncHandler(AdminController.featureAuction));
-router.delete('/featured-auctions/:auctionId', asyncHandler(AdminController.unfeatureAuction));
+router.delete('/featured-auctions/:auctionId', requirePermission('auction.moderate'), asyncHandler(AdminController.unfeatureAuction));
 
 // Category management
-router.get('/categories', asyncHandler(AdminController.getCategories));
-router.post('/categories', [
+router.get('/categories', requirePermission('catalog.manage'), asyncHandler(AdminController.getCategories));
+router.post('/categories', requirePermission('catalog.manage'), [
   body('name').isString().notEmpty(),
   body('description').optional().isString(),
   body('icon').optional().isString(),
   body('parentId').optional().isString()
 ], asyncHandler(AdminController.createCategory));
-router.put('/categories/:categoryId', asyncHandler(AdminController.updateCategory));
-router.delete('/categories/:categoryId', asyncHandler(AdminController.deleteCategory));
+router.put('/categories/:categoryId', requirePermission('catalog.manage'), asyncHandler(AdminController.updateCategory));
+router.delete('/categories/:categoryId', requirePermission('catalog.manage'), asyncHandler(AdminController.deleteCategory));
+
+// Bid increment ladders per category
+router.get('/increment-tables', requirePermission('catalog.manage'), asyncHandler(IncrementController.getIncrementTables));
+router.put('/increment-tables/:category', requirePermission('catalog.manage'), [
+  param('category').isIn(AUCTION_CATEGORIES),
+  body('tiers').isArray({ min: 1 }),
+  body('tiers.*.increment').isFloat({ min: 0.01 }),
+  body('tiers.*.upTo').optional({ nullable: true }).isFloat({ min: 0.01 }),
+  body('tiers').custom(tiers => {
+    const failure = incrementService.validateLadder(tiers);
+    if (failure) {
+      throw new Error(failure);
+    }
+    return true;
+  })
+], asyncHandler(IncrementController.updateIncrementTable));
+router.delete('/increment-tables/:category', requirePermission('catalog.manage'), [
+  param('category').isIn(AUCTION_CATEGORIES)
+], asyncHandler(IncrementController.deleteIncrementTable));
 
 // Promo codes management
-router.get('/promo-codes', asyncHandler(AdminController.getPromoCodes));
-router.post('/promo-codes', [
+router.get('/promo-codes', requirePermission('promo.manage'), asyncHandler(AdminController.getPromoCodes));
+router.post('/promo-codes', requirePermission('promo.manage'), [
   body('code').isString().notEmpty(),
   body('discountType').isIn(['percentage', 'fixed']),
   body('discountValue').isFloat({ min: 0 }),
@@ -128,13 +266,13 @@ router.post('/promo-codes', [
   body('validUntil').isISO8601(),
   body('minPurchase').optional().isFloat({ min: 0 })
 ], asyncHandler(AdminController.createPromoCode));
-router.put('/promo-codes/:promoCodeId', asyncHandler(AdminController.updatePromoCode));
-router.delete('/promo-codes/:promoCodeId', asyncHandler(AdminController.deletePromoCode));
+router.put('/promo-codes/:promoCodeId', requirePermission('promo.manage'), asyncHandler(AdminController.updatePromoCode));
+router.delete('/promo-codes/:promoCodeId', requirePermission('promo.manage'), asyncHandler(AdminController.deletePromoCode));
 
 // System health check
-router.get('/health', asyncHandler(AdminController.getSystemHealth));
+router.get('/health', requirePermission('system.manage'), asyncHandler(AdminController.getSystemHealth));
 
 // Cache management
-router.delete('/cache', asyncHandler(AdminController.clearCache));
+router.delete('/cache', requirePermission('system.manage'), asyncHandler(AdminController.clearCache));
 
 export default router;
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { AnalyticsController } from '../controllers/analytics.controller';
+import { FeeController } from '../controllers/fee.controller';
 import { protect, authorize } from '../middleware/auth.middleware';
 import { asyncHandler } from '../utils/helpers';
 
@@ -10,14 +11,14 @@ router.use(protect);
 
 // Platform analytics (admin only)
 router.get('/platform/overview', authorize('admin'), asyncHandler(AnalyticsController.getPlatformOverview));
-router.get('/platform/revenue', authorize('admin'), asyncHandler(AnalyticsController.getPlatformRevenue));
+router.get('/platform/revenue', authorize('admin'), asyncHandler(FeeController.getPlatformRevenue));
 router.get('/platform/users', authorize('admin'), asyncHandler(AnalyticsController.getUserAnalytics));
 router.get('/platform/auctions', authorize('admin'), asyncHandler(AnalyticsController.getAuctionAnalytics));
 
 // Company analytics (company and admin)
 router.get('/company/overview', authorize('company', 'admin'), asyncHandler(AnalyticsController.getCompanyOverview));
 router.get('/company/auctions', authorize('company', 'admin'), asyncHandler(AnalyticsController.getCompanyAuctionsAnalytics));
-router.get('/company/revenue', authorize('company', 'admin'), asyncHandler(AnalyticsController.getCompanyRevenue));
+router.get('/company/revenue', authorize('company', 'admin'), asyncHandler(FeeController.getCompanyRevenue));
 
 // User analytics (all authenticated users)
 router.get('/user/overview', asyncHandler(AnalyticsController.getUserOverview));
@@ -2,10 +2,17 @@ import { Router } from 'express';
 import { body, query, param } from 'express-validator';
 import { AuctionController } from '../controllers/auction.controller';
 import { BidController } from '../controllers/bid.controller';
-import { protect, authorize, isOwner } from '../middleware/auth.middleware';
+import { LotController } from '../controllers/lot.controller';
+import { DepositController } from '../controllers/deposit.controller';
+import { SettlementController } from '../controllers/settlement.controller';
+import { protect, authorize, isOwner, requireCompanyRole } from '../middleware/auth.middleware';
 import { asyncHandler } from '../utils/helpers';
 import { bidLimiter } from '../middleware/rateLimiter.middleware';
 import upload from '../middleware/upload.middleware';
+import { incrementService } from '../services/increment.service';
+import { assertBidOnLadder } from '../services/auctionFormat.service';
+import { AUCTION_FORMATS } from '../database/models/Auction';
+import { PAYMENT_PROVIDERS } from '../database/models/Payment';
 
 const router = Router();
 
@@ -242,6 +249,10 @@ router.get('/:id',
  *               subcategory:
  *                 type: string
  *                 example: generators
+ *               format:
+ *                 type: string
+ *                 enum: [english, dutch, sealed_first_price, vickrey, reverse]
+ *                 default: english
  *               itemDetails:
  *                 type: object
  *                 properties:
@@ -269,6 +280,50 @@ router.get('/:id',
  *                     minimum: 0
  *                   buyNowPrice:
  *                     type: number
+ *                   incrementTiers:
+ *                     type: array
+ *                     description: Increment ladder overriding the category's; prices below upTo rise by increment, the last tier has upTo null
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         upTo:
+ *                           type: number
+ *                           nullable: true
+ *                           example: 10000
+ *                         increment:
+ *                           type: number
+ *                           example: 100
+ *                   autoExtend:
+ *                     type: boolean
+ *                     default: true
+ *                   extensionMode:
+ *                     type: string
+ *                     enum: [fixed, after_last_bid]
+ *                     default: after_last_bid
+ *                     description: fixed pushes the deadline back by extensionTime; after_last_bid moves it to extensionTime after the late bid
+ *                   extensionTime:
+ *                     type: integer
+ *                     default: 300
+ *                     description: Seconds added by each extension
+ *                   extensionTrigger:
+ *                     type: integer
+ *                     description: A bid within this many seconds of the deadline extends it (defaults to extensionTime)
+ *                   maxExtensions:
+ *                     type: integer
+ *                     default: 3
+ *                   unlimitedExtensions:
+ *                     type: boolean
+ *                     default: false
+ *                     description: Ignore maxExtensions and keep extending while late bids arrive
+ *                   lotCloseInterval:
+ *                     type: integer
+ *                     description: Seconds between consecutive lot closing times (multi-lot auctions)
+ *                   depositRequired:
+ *                     type: number
+ *                     description: Refundable deposit bidders must hold before bidding; 0 or absent means none
+ *                   currency:
+ *                     type: string
+ *                     description: Currency deposits are collected in (defaults to the provider's)
  *               timing:
  *                 type: object
  *                 properties:
@@ -298,6 +353,7 @@ router.get('/:id',
 router.post('/',
   protect,
   authorize('company', 'admin'),
+  requireCompanyRole('owner', 'manager', 'lister'),
   upload.array('images', 10), // Maximum 10 images
   [
     body('title')
@@ -325,6 +381,11 @@ router.post('/',
       .isLength({ max: 100 })
       .withMessage('Subcategory cannot exceed 100 characters'),
     
+    body('format')
+      .optional()
+      .isIn(AUCTION_FORMATS)
+      .withMessage('Invalid auction format'),
+    
     body('itemDetails')
       .optional()
       .isObject()
@@ -347,12 +408,93 @@ router.post('/',
       .isFloat({ min: 0 })
       .withMessage('Reserve price must be a positive number'),
     
+    body('auctionConfig.buyNowPrice')
+      .if(body('auctionConfig').exists())
+      .optional({ nullable: true })
+      .isFloat({ min: 0 })
+      .withMessage('Buy-now price must be a positive number')
+      .custom((value, { req }) => {
+        const reservePrice = req.body.auctionConfig?.reservePrice;
+        if (reservePrice && parseFloat(value) < parseFloat(reservePrice)) {
+          throw new Error('Buy-now price cannot be below the reserve price');
+        }
+        return true;
+      }),
+    
     body('auctionConfig.bidIncrement')
       .if(body('auctionConfig').exists())
       .optional()
       .isFloat({ min: 0 })
       .withMessage('Bid increment must be a positive number'),
     
+    body('auctionConfig.incrementTiers')
+      .optional()
+      .custom(tiers => {
+        const failure = incrementService.validateLadder(tiers);
+        if (failure) {
+          throw new Error(failure);
+        }
+        return true;
+      }),
+    
+    body('auctionConfig.autoExtend')
+      .optional()
+      .isBoolean()
+      .withMessage('Auto extend must be a boolean'),
+    
+    body('auctionConfig.extensionMode')
+      .optional()
+      .isIn(['fixed', 'after_last_bid'])
+      .withMessage('Extension mode must be fixed or after_last_bid'),
+    
+    body('auctionConfig.extensionTime')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Extension time must be a whole number of seconds'),
+    
+    body('auctionConfig.extensionTrigger')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Extension trigger must be a whole number of seconds'),
+    
+    body('auctionConfig.maxExtensions')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Max extensions must be a non-negative integer'),
+    
+    body('auctionConfig.unlimitedExtensions')
+      .optional()
+      .isBoolean()
+      .withMessage('Unlimited extensions must be a boolean'),
+    
+    body('auctionConfig.depositRequired')
+      .optional({ nullable: true })
+      .isFloat({ min: 0 })
+      .withMessage('Deposit required must be a positive number'),
+    
+    body('auctionConfig.priceDropAmount')
+      .if(body('format').equals('dutch'))
+      .optional()
+      .isFloat({ min: 0.01 })
+      .withMessage('Price drop amount must be a positive number'),
+    
+    body('auctionConfig.priceDropInterval')
+      .if(body('format').equals('dutch'))
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Price drop interval must be a whole number of seconds'),
+    
+    body('auctionConfig.floorPrice')
+      .if(body('format').isIn(['dutch', 'reverse']))
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Floor price must be a positive number'),
+    
+    body('auctionConfig.lotCloseInterval')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Lot close interval must be a whole number of seconds'),
+    
     body('timing')
       .optional()
       .isObject()
@@ -447,7 +589,7 @@ router.post('/',
 router.put('/:id',
   protect,
   authorize('company', 'admin'),
-  isOwner('companyId'),
+  isOwner('companyId', 'owner', 'manager', 'lister'),
   [
     param('id')
       .isUUID()
@@ -470,6 +612,11 @@ router.put('/:id',
       .isIn(['draft', 'scheduled', 'live', 'paused', 'ended', 'cancelled', 'sold'])
       .withMessage('Invalid status'),
     
+    body('format')
+      .optional()
+      .isIn(AUCTION_FORMATS)
+      .withMessage('Invalid auction format'),
+    
     body('itemDetails')
       .optional()
       .isObject()
@@ -480,6 +627,51 @@ router.put('/:id',
       .isObject()
       .withMessage('Auction config must be an object'),
     
+    body('auctionConfig.incrementTiers')
+      .optional()
+      .custom(tiers => {
+        const failure = incrementService.validateLadder(tiers);
+        if (failure) {
+          throw new Error(failure);
+        }
+        return true;
+      }),
+    
+    body('auctionConfig.autoExtend')
+      .optional()
+      .isBoolean()
+      .withMessage('Auto extend must be a boolean'),
+    
+    body('auctionConfig.extensionMode')
+      .optional()
+      .isIn(['fixed', 'after_last_bid'])
+      .withMessage('Extension mode must be fixed or after_last_bid'),
+    
+    body('auctionConfig.extensionTime')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Extension time must be a whole number of seconds'),
+    
+    body('auctionConfig.extensionTrigger')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Extension trigger must be a whole number of seconds'),
+    
+    body('auctionConfig.maxExtensions')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Max extensions must be a non-negative integer'),
+    
+    body('auctionConfig.unlimitedExtensions')
+      .optional()
+      .isBoolean()
+      .withMessage('Unlimited extensions must be a boolean'),
+    
+    body('auctionConfig.depositRequired')
+      .optional({ nullable: true })
+      .isFloat({ min: 0 })
+      .withMessage('Deposit required must be a positive number'),
+    
     body('timing')
       .optional()
       .isObject()
@@ -559,7 +751,7 @@ router.delete('/:id',
 router.post('/:id/start',
   protect,
   authorize('company', 'admin'),
-  isOwner('companyId'),
+  isOwner('companyId', 'owner', 'manager'),
   [
     param('id')
       .isUUID()
@@ -620,6 +812,8 @@ router.post('/:id/bid',
     body('amount')
       .isFloat({ min: 0.01 })
       .withMessage('Bid amount must be a positive number')
+      .bail()
+      .custom((amount, { req }) => assertBidOnLadder(req.params.id, parseFloat(amount)))
   ],
   asyncHandler(AuctionController.placeBid)
 );
@@ -702,11 +896,15 @@ router.get('/:id/bids',
  *               status:
  *                 type: string
  *                 enum: [draft, scheduled, live, paused, ended, cancelled, sold]
+ *               reason:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Auction status updated
  *       400:
- *         description: Invalid status
+ *         description: Invalid status or transition guard failed
+ *       409:
+ *         description: Transition not allowed from the current status
  *       401:
  *         description: Not authenticated
  *       403:
@@ -717,7 +915,7 @@ router.get('/:id/bids',
 router.put('/:id/status',
   protect,
   authorize('company', 'admin'),
-  isOwner('companyId'),
+  isOwner('companyId', 'owner', 'manager'),
   [
     param('id')
       .isUUID()
@@ -725,11 +923,776 @@ router.put('/:id/status',
     
     body('status')
       .isIn(['draft', 'scheduled', 'live', 'paused', 'ended', 'cancelled', 'sold'])
-      .withMessage('Invalid status')
+      .withMessage('Invalid status'),
+    
+    body('reason')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Reason must be at most 500 characters')
   ],
   asyncHandler(AuctionController.updateAuctionStatus)
 );
 
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/history:
+ *   get:
+ *     summary: Get auction status history
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Status transitions with actor, reason and timestamp
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized (owner or admin only)
+ *       404:
+ *         description: Auction not found
+ */
+router.get('/:id/history',
+  protect,
+  authorize('company', 'admin'),
+  isOwner('companyId', 'owner', 'manager', 'lister', 'viewer'),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format')
+  ],
+  asyncHandler(AuctionController.getAuctionHistory)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/reserve-offer:
+ *   post:
+ *     summary: Offer a reserve-not-met item to the top bidder at their bid
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Offer sent to top bidder
+ *       400:
+ *         description: Auction did not end below reserve or offer already made
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized (owner or admin only)
+ *       404:
+ *         description: Auction not found
+ */
+router.post('/:id/reserve-offer',
+  protect,
+  authorize('company', 'admin'),
+  isOwner('companyId', 'owner', 'manager'),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format')
+  ],
+  asyncHandler(AuctionController.offerToTopBidder)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/reserve-offer/respond:
+ *   post:
+ *     summary: Accept or decline the seller's below-reserve offer
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accept
+ *             properties:
+ *               accept:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Offer accepted or declined
+ *       400:
+ *         description: Offer is no longer open or has expired
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: No offer found
+ */
+router.post('/:id/reserve-offer/respond',
+  protect,
+  authorize('bidder'),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format'),
+    
+    body('accept')
+      .isBoolean()
+      .withMessage('Accept must be a boolean')
+  ],
+  asyncHandler(AuctionController.respondToReserveOffer)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/settlements:
+ *   get:
+ *     summary: Get the payment requests raised for a closed auction
+ *     description: The seller and admins see every settlement; bidders only see their own.
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Settlements with hammer price, commission, tax, total and due date
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Auction not found
+ */
+router.get('/:id/settlements',
+  protect,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format')
+  ],
+  asyncHandler(SettlementController.getAuctionSettlements)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/second-chance:
+ *   post:
+ *     summary: Offer the item to the runner-up after the winning buyer defaulted
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Offer made at the runner-up's highest bid
+ *       400:
+ *         description: No default yet, a settlement is still open, or no other bidder remains
+ *       403:
+ *         description: Not authorized (owner or admin only)
+ *       404:
+ *         description: Auction not found
+ */
+router.post('/:id/second-chance',
+  protect,
+  authorize('company', 'admin'),
+  isOwner('companyId', 'owner', 'manager'),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format')
+  ],
+  asyncHandler(SettlementController.offerSecondChance)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/second-chance/respond:
+ *   post:
+ *     summary: Accept or decline a second-chance offer
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accept
+ *             properties:
+ *               accept:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Offer accepted (a payment request is raised) or declined
+ *       400:
+ *         description: Offer has expired
+ *       404:
+ *         description: No open offer found
+ */
+router.post('/:id/second-chance/respond',
+  protect,
+  authorize('bidder'),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format'),
+    
+    body('accept')
+      .isBoolean()
+      .withMessage('Accept must be a boolean')
+  ],
+  asyncHandler(SettlementController.respondToSecondChance)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/deposit:
+ *   post:
+ *     summary: Start a refundable deposit so the bidder can bid on the auction
+ *     description: Stripe deposits are card holds captured only if the bidder wins; Razorpay deposits are paid up front and refunded on release. The deposit counts once the provider confirms it.
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               provider:
+ *                 type: string
+ *                 enum: [stripe, razorpay, mock]
+ *                 description: Defaults to the provider routed for the auction's currency
+ *     responses:
+ *       201:
+ *         description: Deposit started; returns the Stripe client secret or Razorpay order id
+ *       400:
+ *         description: Auction is closed or does not require a deposit
+ *       401:
+ *         description: Not authenticated
+ *       409:
+ *         description: A deposit is already held
+ */
+router.post('/:id/deposit',
+  protect,
+  authorize('bidder'),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format'),
+    
+    body('provider')
+      .optional()
+      .isIn(PAYMENT_PROVIDERS)
+      .withMessage(`Provider must be one of ${PAYMENT_PROVIDERS.join(', ')}`)
+  ],
+  asyncHandler(DepositController.createDeposit)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/deposit:
+ *   get:
+ *     summary: Get the current bidder's deposit on the auction
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Deposit status, with the amount the auction requires
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/:id/deposit',
+  protect,
+  authorize('bidder'),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format')
+  ],
+  asyncHandler(DepositController.getDeposit)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/lots:
+ *   get:
+ *     summary: Get the lots of a multi-lot auction in catalogue order
+ *     tags: [Auctions]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: List of lots
+ *       404:
+ *         description: Auction not found
+ */
+router.get('/:id/lots',
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format')
+  ],
+  asyncHandler(LotController.getLots)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/lots:
+ *   post:
+ *     summary: Add lots to an auction
+ *     description: Lots are numbered after the existing ones and close one after another, lotCloseInterval seconds apart, starting at the auction's bidding end time.
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lots
+ *             properties:
+ *               lots:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - title
+ *                   properties:
+ *                     title:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *                     itemDetails:
+ *                       type: object
+ *                     startingBid:
+ *                       type: number
+ *                     bidIncrement:
+ *                       type: number
+ *                       description: Defaults to the auction's bid increment
+ *                     reservePrice:
+ *                       type: number
+ *     responses:
+ *       201:
+ *         description: Lots added successfully
+ *       400:
+ *         description: Validation error or auction already live
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized (owner or admin only)
+ *       404:
+ *         description: Auction not found
+ */
+router.post('/:id/lots',
+  protect,
+  authorize('company', 'admin'),
+  isOwner('companyId', 'owner', 'manager', 'lister'),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format'),
+    
+    body('lots')
+      .isArray({ min: 1, max: 500 })
+      .withMessage('Lots must be an array of 1 to 500 items'),
+    
+    body('lots.*.title')
+      .trim()
+      .isLength({ min: 3, max: 200 })
+      .withMessage('Lot title must be between 3 and 200 characters'),
+
+    body('lots.*.startingBid')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Starting bid must be a positive number'),
+    
+    body('lots.*.bidIncrement')
+      .optional({ nullable: true })
+      .isFloat({ min: 0.01 })
+      .withMessage('Bid increment must be a positive number'),
+    
+    body('lots.*.reservePrice')
+      .optional({ nullable: true })
+      .isFloat({ min: 0 })
+      .withMessage('Reserve price must be a positive number')
+  ],
+  asyncHandler(LotController.addLots)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/lots/{lotId}:
+ *   get:
+ *     summary: Get a lot
+ *     tags: [Auctions]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lotId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Lot details
+ *       404:
+ *         description: Lot not found
+ */
+router.get('/:id/lots/:lotId',
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format'),
+    
+    param('lotId')
+      .isUUID()
+      .withMessage('Invalid lot ID format')
+  ],
+  asyncHandler(LotController.getLot)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/lots/{lotId}:
+ *   put:
+ *     summary: Update a lot before the auction goes live
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lotId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               itemDetails:
+ *                 type: object
+ *               startingBid:
+ *                 type: number
+ *               bidIncrement:
+ *                 type: number
+ *               reservePrice:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Lot updated successfully
+ *       400:
+ *         description: Validation error or auction already live
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized (owner or admin only)
+ *       404:
+ *         description: Lot not found
+ */
+router.put('/:id/lots/:lotId',
+  protect,
+  authorize('company', 'admin'),
+  isOwner('companyId', 'owner', 'manager', 'lister'),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format'),
+    
+    param('lotId')
+      .isUUID()
+      .withMessage('Invalid lot ID format'),
+    
+    body('title')
+      .optional()
+      .trim()
+      .isLength({ min: 3, max: 200 })
+      .withMessage('Lot title must be between 3 and 200 characters'),
+    
+    body('startingBid')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Starting bid must be a positive number'),
+    
+    body('bidIncrement')
+      .optional({ nullable: true })
+      .isFloat({ min: 0.01 })
+      .withMessage('Bid increment must be a positive number'),
+    
+    body('reservePrice')
+      .optional({ nullable: true })
+      .isFloat({ min: 0 })
+      .withMessage('Reserve price must be a positive number')
+  ],
+  asyncHandler(LotController.updateLot)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/lots/{lotId}:
+ *   delete:
+ *     summary: Withdraw a lot
+ *     description: Once the auction is live only lots without bids can be withdrawn.
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lotId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Lot withdrawn successfully
+ *       400:
+ *         description: Lot is closed or already has bids
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized (owner or admin only)
+ *       404:
+ *         description: Lot not found
+ */
+router.delete('/:id/lots/:lotId',
+  protect,
+  authorize('company', 'admin'),
+  isOwner('companyId', 'owner', 'manager'),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format'),
+    
+    param('lotId')
+      .isUUID()
+      .withMessage('Invalid lot ID format')
+  ],
+  asyncHandler(LotController.withdrawLot)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/lots/{lotId}/bid:
+ *   post:
+ *     summary: Place a bid on a lot
+ *     tags: [Auctions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lotId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 minimum: 0
+ *                 example: 15000
+ *     responses:
+ *       200:
+ *         description: Bid placed successfully
+ *       400:
+ *         description: Invalid bid amount or lot closed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized (bidder role required)
+ *       404:
+ *         description: Auction or lot not found
+ */
+router.post('/:id/lots/:lotId/bid',
+  protect,
+  authorize('bidder'),
+  bidLimiter,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format'),
+    
+    param('lotId')
+      .isUUID()
+      .withMessage('Invalid lot ID format'),
+    
+    body('amount')
+      .isFloat({ min: 0.01 })
+      .withMessage('Bid amount must be a positive number')
+      .bail()
+      .custom((amount, { req }) => assertBidOnLadder(req.params.id, parseFloat(amount), req.params.lotId))
+  ],
+  asyncHandler(LotController.placeLotBid)
+);
+
+/**
+ * @swagger
+ * /api/v1/auctions/{id}/lots/{lotId}/bids:
+ *   get:
+ *     summary: Get all bids for a lot
+ *     tags: [Auctions]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lotId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: List of bids
+ *       404:
+ *         description: Auction not found
+ */
+router.get('/:id/lots/:lotId/bids',
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid auction ID format'),
+    
+    param('lotId')
+      .isUUID()
+      .withMessage('Invalid lot ID format'),
+    
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100'),
+    
+    query('offset')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Offset must be a non-negative integer')
+  ],
+  asyncHandler(LotController.getLotBids)
+);
+
 /**
  * @swagger
  * /api/v1/auctions/{id}/watch:
@@ -951,7 +1914,7 @@ router.get('/user/my-auctions',
 router.post('/:id/images',
   protect,
   authorize('company', 'admin'),
-  isOwner('companyId'),
+  isOwner('companyId', 'owner', 'manager', 'lister'),
   upload.array('images', 10),
   [
     param('id')
@@ -994,7 +1957,7 @@ router.post('/:id/images',
 router.delete('/:id/images/:imageId',
   protect,
   authorize('company', 'admin'),
-  isOwner('companyId'),
+  isOwner('companyId', 'owner', 'manager', 'lister'),
   [
     param('id').isUUID().withMessage('Invalid auction ID format'),
     param('imageId').isString().notEmpty().withMessage('Image ID is required')
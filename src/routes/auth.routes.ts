@@ -1,7 +1,7 @@
 import { Router } from 'express';
-import { body } from 'express-validator';
+import { body, param } from 'express-validator';
 import { AuthController } from '../controllers/auth.controller';
-import { protect, authorize } from '../middleware/auth.middleware';
+import { protect, require2FA, requirePermission } from '../middleware/auth.middleware';
 import { asyncHandler } from '../utils/helpers';
 import { authLimiter } from '../middleware/rateLimiter.middleware';
 
@@ -150,6 +150,7 @@ router.post('/register',
  * /api/v1/auth/login:
  *   post:
  *     summary: Login user
+ *     description: Users with two-factor authentication get a challengeToken instead of tokens; exchange it at /2fa/verify
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -341,6 +342,7 @@ router.put('/profile',
  * /api/v1/auth/refresh-token:
  *   post:
  *     summary: Refresh access token
+ *     description: Refresh tokens are single use; the response carries the next one. Reusing an old token ends the session.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -388,6 +390,70 @@ router.post('/logout',
   asyncHandler(AuthController.logout)
 );
 
+/**
+ * @swagger
+ * /api/v1/auth/sessions:
+ *   get:
+ *     summary: List the devices signed in to the account
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, with the current one flagged
+ *       401:
+ *         description: Not authenticated
+ *   delete:
+ *     summary: Sign out every other device
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked
+ *       401:
+ *         description: Not authenticated
+ */
+router.get('/sessions',
+  protect,
+  asyncHandler(AuthController.getSessions)
+);
+
+router.delete('/sessions',
+  protect,
+  asyncHandler(AuthController.revokeOtherSessions)
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Sign out one device
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ */
+router.delete('/sessions/:sessionId',
+  protect,
+  [
+    param('sessionId')
+      .isUUID()
+      .withMessage('Invalid session id')
+  ],
+  asyncHandler(AuthController.revokeSession)
+);
+
 /**
  * @swagger
  * /api/v1/auth/forgot-password:
@@ -409,9 +475,7 @@ router.post('/logout',
  *                 example: user@example.com
  *     responses:
  *       200:
- *         description: Password reset email sent
- *       404:
- *         description: User not found
+ *         description: Reset link sent if an account exists for the email
  */
 router.post('/forgot-password',
   authLimiter,
@@ -453,7 +517,7 @@ router.post('/forgot-password',
  *                 example: newpassword123
  *     responses:
  *       200:
- *         description: Password reset successfully
+ *         description: Password reset successfully; every session is signed out
  *       400:
  *         description: Invalid or expired token
  */
@@ -514,6 +578,79 @@ router.post('/resend-verification',
   asyncHandler(AuthController.resendVerificationEmail)
 );
 
+/**
+ * @swagger
+ * /api/v1/auth/change-email:
+ *   post:
+ *     summary: Request an email address change
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newEmail
+ *               - password
+ *             properties:
+ *               newEmail:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Confirmation link sent to the new address
+ *       401:
+ *         description: Password is incorrect
+ *       409:
+ *         description: Email already in use
+ */
+router.post('/change-email',
+  protect,
+  authLimiter,
+  [
+    body('newEmail')
+      .isEmail()
+      .normalizeEmail()
+      .withMessage('Please provide a valid email address'),
+    
+    body('password')
+      .notEmpty()
+      .withMessage('Password is required')
+  ],
+  asyncHandler(AuthController.requestEmailChange)
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/confirm-email/{token}:
+ *   get:
+ *     summary: Confirm an email address change
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Email change token
+ *     responses:
+ *       200:
+ *         description: Email address changed
+ *       400:
+ *         description: Invalid or expired token
+ *       409:
+ *         description: Email already in use
+ */
+router.get('/confirm-email/:token',
+  asyncHandler(AuthController.confirmEmailChange)
+);
+
 /**
  * @swagger
  * /api/v1/auth/change-password:
@@ -575,21 +712,59 @@ router.post('/change-password',
  * @swagger
  * /api/v1/auth/2fa/enable:
  *   post:
- *     summary: Enable two-factor authentication
+ *     summary: Start two-factor authentication setup
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: 2FA enabled successfully
+ *         description: TOTP secret and otpauth URI for an authenticator app
  *       401:
  *         description: Not authenticated
+ *       409:
+ *         description: 2FA already enabled
  */
 router.post('/2fa/enable',
   protect,
   asyncHandler(AuthController.enable2FA)
 );
 
+/**
+ * @swagger
+ * /api/v1/auth/2fa/confirm:
+ *   post:
+ *     summary: Turn on two-factor authentication with a code from the authenticator app
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: 6-digit code from the authenticator app
+ *     responses:
+ *       200:
+ *         description: 2FA enabled; the one-time backup codes are returned once
+ *       401:
+ *         description: Not authenticated or invalid code
+ */
+router.post('/2fa/confirm',
+  protect,
+  [
+    body('code')
+      .matches(/^\d{6}$/)
+      .withMessage('Code must be 6 digits')
+  ],
+  asyncHandler(AuthController.confirm2FA)
+);
+
 /**
  * @swagger
  * /api/v1/auth/2fa/disable:
@@ -609,7 +784,7 @@ router.post('/2fa/enable',
  *             properties:
  *               code:
  *                 type: string
- *                 description: 2FA verification code
+ *                 description: Authenticator code or backup code
  *     responses:
  *       200:
  *         description: 2FA disabled successfully
@@ -622,18 +797,20 @@ router.post('/2fa/disable',
     body('code')
       .notEmpty()
       .withMessage('Verification code is required')
-      .isLength({ min: 6, max: 6 })
-      .withMessage('Code must be 6 digits')
+      .isLength({ min: 6, max: 11 })
+      .withMessage('Code must be an authenticator or backup code')
   ],
   asyncHandler(AuthController.disable2FA)
 );
 
 /**
  * @swagger
- * /api/v1/auth/2fa/verify:
+ * /api/v1/auth/2fa/backup-codes:
  *   post:
- *     summary: Verify two-factor authentication code
+ *     summary: Replace the two-factor backup codes
  *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -641,41 +818,73 @@ router.post('/2fa/disable',
  *           schema:
  *             type: object
  *             required:
- *               - email
- *               - password
  *               - code
  *             properties:
- *               email:
+ *               code:
  *                 type: string
- *                 format: email
- *               password:
+ *                 description: 6-digit code from the authenticator app
+ *     responses:
+ *       200:
+ *         description: New backup codes
+ *       401:
+ *         description: Not authenticated or invalid code
+ */
+router.post('/2fa/backup-codes',
+  protect,
+  [
+    body('code')
+      .matches(/^\d{6}$/)
+      .withMessage('Code must be 6 digits')
+  ],
+  asyncHandler(AuthController.regenerateBackupCodes)
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/verify:
+ *   post:
+ *     summary: Complete a two-factor login
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
  *                 type: string
- *                 format: password
+ *                 description: Challenge returned by /login
  *               code:
  *                 type: string
- *                 description: 2FA verification code
+ *                 description: Authenticator code or backup code
+ *               deviceInfo:
+ *                 type: object
  *     responses:
  *       200:
- *         description: 2FA verified successfully
+ *         description: Login successful
  *       401:
- *         description: Invalid credentials or code
+ *         description: Invalid or expired challenge, or invalid code
  */
 router.post('/2fa/verify',
+  authLimiter,
   [
-    body('email')
-      .isEmail()
-      .normalizeEmail()
-      .withMessage('Please provide a valid email address'),
-    
-    body('password')
+    body('challengeToken')
       .notEmpty()
-      .withMessage('Password is required'),
+      .withMessage('Login challenge is required'),
     
     body('code')
       .notEmpty()
       .withMessage('Verification code is required')
-      .isLength({ min: 6, max: 6 })
-      .withMessage('Code must be 6 digits')
+      .isLength({ min: 6, max: 11 })
+      .withMessage('Code must be an authenticator or backup code'),
+    
+    body('deviceInfo')
+      .optional()
+      .isObject()
   ],
   asyncHandler(AuthController.verify2FA)
 );
@@ -683,19 +892,22 @@ router.post('/2fa/verify',
 // Admin-only routes
 router.get('/admin/users',
   protect,
-  authorize('admin'),
+  require2FA,
+  requirePermission('user.view'),
   asyncHandler(AuthController.getAllUsers)
 );
 
 router.get('/admin/users/:userId',
   protect,
-  authorize('admin'),
+  require2FA,
+  requirePermission('user.view'),
   asyncHandler(AuthController.getUserById)
 );
 
 router.put('/admin/users/:userId/status',
   protect,
-  authorize('admin'),
+  require2FA,
+  requirePermission('user.manage'),
   [
     body('status')
       .isIn(['active', 'suspended', 'banned'])
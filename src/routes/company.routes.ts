@@ -1,8 +1,11 @@
 import { Router } from 'express';
 import { CompanyController } from '../controllers/company.controller';
-import { protect, authorize } from '../middleware/auth.middleware';
+import { CompanyTeamController } from '../controllers/companyTeam.controller';
+import { LedgerController } from '../controllers/ledger.controller';
+import { COMPANY_MEMBER_ROLES } from '../database/models/CompanyMember';
+import { protect, authorize, require2FA, requirePermission, requireCompanyRole } from '../middleware/auth.middleware';
 import { asyncHandler } from '../utils/helpers';
-import { body } from 'express-validator';
+import { body, param } from 'express-validator';
 
 const router = Router();
 
@@ -50,8 +53,44 @@ router.get('/auctions', authorize('company', 'admin'), asyncHandler(CompanyContr
 // Get company stats
 router.get('/stats', authorize('company', 'admin'), asyncHandler(CompanyController.getCompanyStats));
 
-// Get company transactions
-router.get('/transactions', authorize('company', 'admin'), asyncHandler(CompanyController.getTransactions));
+// Get company ledger transactions and balances
+router.get('/transactions', authorize('company', 'admin'), requireCompanyRole('owner', 'manager'), asyncHandler(LedgerController.getCompanyTransactions));
+router.get('/balance', authorize('company', 'admin'), requireCompanyRole('owner', 'manager'), asyncHandler(LedgerController.getCompanyBalance));
+
+// Get the company's members and pending invitations
+router.get('/team', requireCompanyRole(...COMPANY_MEMBER_ROLES), asyncHandler(CompanyTeamController.getTeam));
+
+// Invite a member by email
+router.post('/team/invitations', [
+  requireCompanyRole('owner', 'manager'),
+  body('email').isEmail().normalizeEmail(),
+  body('role').isIn(COMPANY_MEMBER_ROLES)
+], asyncHandler(CompanyTeamController.inviteMember));
+
+// Revoke a pending invitation
+router.delete('/team/invitations/:invitationId', [
+  requireCompanyRole('owner', 'manager'),
+  param('invitationId').isUUID()
+], asyncHandler(CompanyTeamController.revokeInvitation));
+
+// Accept an invitation (any signed-in user holding the invited address)
+router.post('/team/invitations/:token/accept', asyncHandler(CompanyTeamController.acceptInvitation));
+
+// Change a member's role
+router.put('/team/members/:userId', [
+  requireCompanyRole('owner'),
+  param('userId').isUUID(),
+  body('role').isIn(COMPANY_MEMBER_ROLES)
+], asyncHandler(CompanyTeamController.updateMemberRole));
+
+// Remove a member, or leave the company
+router.delete('/team/members/:userId', [
+  requireCompanyRole(...COMPANY_MEMBER_ROLES),
+  param('userId').isUUID()
+], asyncHandler(CompanyTeamController.removeMember));
+
+// Get the team's audit log
+router.get('/team/audit', requireCompanyRole('owner', 'manager'), asyncHandler(CompanyTeamController.getAuditLog));
 
 // Get company bidders
 router.get('/bidders', authorize('company', 'admin'), asyncHandler(CompanyController.getCompanyBidders));
@@ -83,11 +122,12 @@ router.post('/reviews', [
 ], asyncHandler(CompanyController.submitReview));
 
 // Admin routes for company management
-router.get('/admin/all', authorize('admin'), asyncHandler(CompanyController.getAllCompanies));
-router.get('/admin/:companyId', authorize('admin'), asyncHandler(CompanyController.getCompanyDetails));
-router.put('/admin/:companyId/verify', authorize('admin'), asyncHandler(CompanyController.verifyCompany));
+router.get('/admin/all', require2FA, requirePermission('company.view'), asyncHandler(CompanyController.getAllCompanies));
+router.get('/admin/:companyId', require2FA, requirePermission('company.view'), asyncHandler(CompanyController.getCompanyDetails));
+router.put('/admin/:companyId/verify', require2FA, requirePermission('company.verify'), asyncHandler(CompanyController.verifyCompany));
 router.put('/admin/:companyId/status', [
-  authorize('admin'),
+  require2FA,
+  requirePermission('company.verify'),
   body('status').isIn(['active', 'suspended', 'pending'])
 ], asyncHandler(CompanyController.updateCompanyStatus));
 
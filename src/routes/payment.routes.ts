@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import { PaymentController } from '../controllers/payment.controller';
-import { protect, authorize } from '../middleware/auth.middleware';
+import { SettlementController } from '../controllers/settlement.controller';
+import { InvoiceController } from '../controllers/invoice.controller';
+import { LedgerController } from '../controllers/ledger.controller';
+import { RefundController } from '../controllers/refund.controller';
+import { protect, require2FA, requirePermission } from '../middleware/auth.middleware';
 import { asyncHandler } from '../utils/helpers';
 import { body } from 'express-validator';
 import { paymentLimiter } from '../middleware/rateLimiter.middleware';
@@ -10,10 +14,10 @@ const router = Router();
 // Apply rate limiting to payment routes
 router.use(paymentLimiter);
 
-// All payment routes require authentication
-router.use(protect);
+// All payment routes require authentication, with 2FA for users who have it
+router.use(protect, require2FA);
 
-// Create payment order (Razorpay)
+// Create payment order with the provider routed for the currency
 router.post('/create-order', [
   body('amount').isFloat({ min: 1 }),
   body('currency').optional().isString(),
@@ -41,6 +45,15 @@ router.post('/verify/razorpay', [
 // Payment history
 router.get('/history', asyncHandler(PaymentController.getPaymentHistory));
 
+// Payment requests for won auctions
+router.get('/settlements', asyncHandler(SettlementController.getMySettlements));
+router.post('/settlements/:settlementId/confirm-delivery', asyncHandler(LedgerController.confirmDelivery));
+
+// Invoices and credit notes
+router.get('/invoices', asyncHandler(InvoiceController.getInvoices));
+router.get('/invoices/:invoiceId', asyncHandler(InvoiceController.getInvoice));
+router.get('/invoices/:invoiceId/pdf', asyncHandler(InvoiceController.downloadInvoice));
+
 // Get specific payment
 router.get('/:id', asyncHandler(PaymentController.getPayment));
 
@@ -50,28 +63,24 @@ router.post('/:paymentId/invoice', asyncHandler(PaymentController.createInvoice)
 // Check payment status
 router.get('/:paymentId/status', asyncHandler(PaymentController.checkPaymentStatus));
 
-// Request refund (user)
+// Request refund (user); queued for admin approval
 router.post('/:paymentId/refund', [
+  body('amount').optional().isFloat({ min: 0.01 }),
   body('reason').optional().isString()
-], asyncHandler(PaymentController.requestRefund));
+], asyncHandler(RefundController.requestRefund));
+router.get('/:paymentId/refunds', asyncHandler(RefundController.getPaymentRefunds));
 
 // Get payment methods
 router.get('/methods', asyncHandler(PaymentController.getPaymentMethods));
 
-// Webhook endpoints (no authentication required)
-router.post('/webhooks/stripe', 
-  express.raw({ type: 'application/json' }),
-  asyncHandler(PaymentController.handleStripeWebhook)
-);
-
 // Admin only routes
 router.post('/admin/refund/:paymentId', 
-  authorize('admin'),
+  requirePermission('payment.refund'),
   [
     body('reason').optional().isString(),
-    body('amount').optional().isFloat({ min: 0 })
+    body('amount').optional().isFloat({ min: 0.01 })
   ],
-  asyncHandler(PaymentController.requestRefund)
+  asyncHandler(RefundController.createRefund)
 );
 
 export default router;
\ No newline at end of file
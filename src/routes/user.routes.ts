@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/user.controller';
 import { AuthController } from '../controllers/auth.controller';
+import { ExposureController } from '../controllers/exposure.controller';
 import { protect, authorize } from '../middleware/auth.middleware';
 import { asyncHandler } from '../utils/helpers';
 import { body } from 'express-validator';
@@ -42,7 +43,8 @@ router.put('/profile', [
   body('firstName').optional().isString().trim(),
   body('lastName').optional().isString().trim(),
   body('phone').optional().isMobilePhone('any'),
-  body('address').optional().isObject()
+  body('address').optional().isObject(),
+  body('settings').optional().isObject()
 ], asyncHandler(UserController.updateProfile));
 
 // Change password
@@ -60,6 +62,9 @@ router.post('/profile-picture',
 // Get user stats
 router.get('/stats', asyncHandler(UserController.getUserStats));
 
+// Credit limit and current exposure
+router.get('/exposure', asyncHandler(ExposureController.getMyExposure));
+
 // Notification routes
 router.get('/notifications', asyncHandler(UserController.getNotifications));
 router.patch('/notifications/:notificationId/read', asyncHandler(UserController.markNotificationRead));
@@ -82,8 +87,8 @@ router.put('/address', [
 ], asyncHandler(UserController.updateAddress));
 
 // Email verification
-router.get('/verify-email/:token', asyncHandler(UserController.verifyEmail));
-router.post('/resend-verification', asyncHandler(UserController.resendVerificationEmail));
+router.get('/verify-email/:token', asyncHandler(AuthController.verifyEmail));
+router.post('/resend-verification', asyncHandler(AuthController.resendVerificationEmail));
 
 // Account management
 router.post('/request-deletion', asyncHandler(UserController.requestAccountDeletion));
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhook.controller';
+import { asyncHandler } from '../utils/helpers';
+
+const router = Router();
+
+// Provider webhooks (/webhooks/stripe, /webhooks/razorpay, /webhooks/mock)
+// authenticate by signature, not by user token
+router.post('/:provider', asyncHandler(WebhookController.receive));
+
+export default router;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Sequelize } from 'sequelize';
 import { logger } from '../utils/logger';
 import dotenv from 'dotenv';
+import * as companyOwnedAuctions from '../database/migrations/002-company-owned-auctions';
 
 dotenv.config();
 
@@ -20,6 +21,9 @@ async function runMigrations() {
     await sequelize.authenticate();
     logger.info('✅ Database connected for migrations');
 
+    // Auctions and fee schedules move to company ids before the alter adds their foreign key
+    await companyOwnedAuctions.up(sequelize.getQueryInterface());
+
     // Create tables using Sequelize sync (for initial deployment)
     await sequelize.sync({ alter: true });
     logger.info('✅ Database tables synced');
@@ -34,10 +34,17 @@ import bidRoutes from './routes/bid.routes';
 import paymentRoutes from './routes/payment.routes';
 import adminRoutes from './routes/admin.routes';
 import analyticsRoutes from './routes/analytics.routes';
+import webhookRoutes from './routes/webhook.routes';
 
 // Import sockets
 import { setupAuctionSocket } from './sockets/auction.socket';
 
+// Import services
+import { schedulerService } from './services/scheduler.service';
+import { incrementService } from './services/increment.service';
+import { permissionService } from './services/permission.service';
+import { companyMemberService } from './services/companyMember.service';
+
 // Import logger
 import { logger } from './utils/logger';
 
@@ -102,6 +109,15 @@ class App {
         // Seed initial data if needed
         await this.seedInitialData();
       }
+
+      // Built-in staff roles are defined in code
+      await permissionService.syncSystemRoles();
+
+      // Companies from before teams existed get their account holder as owner
+      await companyMemberService.syncAccountHolders();
+
+      // Category increment ladders are read on every bid, so keep them in memory
+      await incrementService.start();
     } catch (error) {
       logger.error('❌ Database connection failed:', error);
       process.exit(1);
@@ -149,6 +165,9 @@ class App {
       await pubClient.set('server:startup', new Date().toISOString());
       const testValue = await pubClient.get('server:startup');
       logger.info(`✅ Redis connection test: ${testValue ? 'SUCCESS' : 'FAILED'}`);
+
+      // Auction lifecycle transitions are coordinated through Redis
+      schedulerService.start();
     } catch (error) {
       logger.error('❌ Redis connection failed:', error);
       
@@ -349,15 +368,8 @@ class App {
     this.app.use('/api/v1/admin', adminRoutes);
     this.app.use('/api/v1/analytics', analyticsRoutes);
 
-    // Webhook endpoints (must be before body parser for raw body)
-    this.app.post('/webhooks/stripe', 
-      express.raw({ type: 'application/json' }),
-      (req: Request, res: Response, next: NextFunction) => {
-        // Import and use PaymentController here to avoid circular dependencies
-        const { PaymentController } = require('./controllers/payment.controller');
-        PaymentController.handleStripeWebhook(req, res, next);
-      }
-    );
+    // Provider webhooks; signatures are checked against the raw body kept by the JSON parser
+    this.app.use('/webhooks', webhookRoutes);
 
     // 404 handler for API routes
     this.app.use('/api/*', (req: Request, res: Response) => {
@@ -449,6 +461,10 @@ class App {
     logger.info('🔄 Cleaning up resources...');
     
     try {
+      // Stop claiming lifecycle jobs before connections go away
+      schedulerService.stop();
+      incrementService.stop();
+      
       // Close database connection
       await models.sequelize.close();
       logger.info('✅ Database connection closed');
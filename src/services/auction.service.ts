@@ -1,8 +1,17 @@
-import { Op } from 'sequelize';
+import { Op, Transaction } from 'sequelize';
 import Auction from '../database/models/Auction';
+import AutoBid from '../database/models/AutoBid';
 import { ApiResponse } from '../utils/helpers';
+import sequelize from '../config/database';
+import { schedulerService } from './scheduler.service';
+import { lotService } from './lot.service';
+import { auctionStateService, AuctionStatus, TransitionActor } from './auctionState.service';
+import { getAuctionFormat, AuctionCloseOutcome } from './auctionFormat.service';
 import { logger } from '../utils/logger';
 
+// How long the top bidder has to accept a below-reserve offer from the seller
+const RESERVE_OFFER_TTL_MS = 48 * 60 * 60 * 1000;
+
 export class AuctionService {
   public static async getAuctions(filters: any): Promise<{ auctions: Auction[]; total: number }> {
     try {
@@ -58,7 +67,7 @@ export class AuctionService {
         include: [
           {
             association: 'company',
-            attributes: ['id', 'firstName', 'lastName', 'email', 'profilePicture']
+            attributes: ['id', 'name', 'logo', 'rating', 'status']
           },
           {
             association: 'highestBidder',
@@ -80,7 +89,7 @@ export class AuctionService {
         include: [
           {
             association: 'company',
-            attributes: ['id', 'firstName', 'lastName', 'email', 'profilePicture', 'phone']
+            attributes: ['id', 'name', 'logo', 'rating', 'status', 'email', 'phone']
           },
           {
             association: 'highestBidder',
@@ -111,7 +120,7 @@ export class AuctionService {
     }
   }
 
-  public static async createAuction(data: any, companyId: string): Promise<Auction> {
+  public static async createAuction(data: any, companyId: string, actor: TransitionActor = {}): Promise<Auction> {
     try {
       const auctionData = {
         ...data,
@@ -120,6 +129,8 @@ export class AuctionService {
       };
 
       const auction = await Auction.create(auctionData);
+      await auctionStateService.record(auction.id, null, 'draft', { actorRole: 'company', ...actor });
+      await schedulerService.scheduleAuction(auction);
       logger.info(`Auction created: ${auction.title} (${auction.id})`);
       
       return auction;
@@ -129,7 +140,7 @@ export class AuctionService {
     }
   }
 
-  public static async updateAuction(id: string, updateData: any, companyId?: string): Promise<Auction> {
+  public static async updateAuction(id: string, updateData: any, companyId?: string, actor: TransitionActor = {}): Promise<Auction> {
     try {
       const auction = await this.getAuctionById(id);
 
@@ -138,6 +149,19 @@ export class AuctionService {
         throw new ApiResponse(403, 'Not authorized to update this auction');
       }
 
+      // Status changes must go through the state machine
+      const { status } = updateData;
+      delete updateData.status;
+
+      // Bids already placed were validated under the current format
+      if (updateData.format && updateData.format !== auction.format && auction.status !== 'draft') {
+        throw new ApiResponse(400, 'Auction format can only be changed while in draft');
+      }
+
+      if (updateData.format && updateData.format !== 'english' && lotService.isLotEvent(auction)) {
+        throw new ApiResponse(400, 'Lots are only supported for english auctions');
+      }
+
       // Don't allow updating certain fields
       delete updateData.id;
       delete updateData.companyId;
@@ -147,8 +171,20 @@ export class AuctionService {
       delete updateData.totalBidders;
 
       await auction.update(updateData);
+
+      if (status && status !== auction.status) {
+        return await this.updateAuctionStatus(id, status, companyId, actor);
+      }
+
       await auction.reload();
 
+      // Lot closing times hang off the event's end time and close interval
+      if (lotService.isLotEvent(auction) && (updateData.timing || updateData.auctionConfig)) {
+        await lotService.restagger(auction);
+      }
+
+      await schedulerService.scheduleAuction(auction);
+
       logger.info(`Auction updated: ${auction.title} (${auction.id})`);
       
       return auction;
@@ -161,9 +197,23 @@ export class AuctionService {
     }
   }
 
-  public static async updateAuctionStatus(id: string, status: string, companyId?: string): Promise<Auction> {
+  public static async updateAuctionStatus(
+    id: string,
+    status: string,
+    companyId?: string,
+    actor: TransitionActor = {}
+  ): Promise<Auction> {
+    const transaction = await sequelize.transaction();
+
     try {
-      const auction = await this.getAuctionById(id);
+      const auction = await Auction.findByPk(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
 
       // Check permission
       if (companyId && auction.companyId !== companyId) {
@@ -176,20 +226,32 @@ export class AuctionService {
         throw new ApiResponse(400, 'Invalid status');
       }
 
-      auction.status = status as any;
-      
-      // If auction is ending, set winner if there's a highest bidder
-      if (status === 'ended' && auction.currentHighestBidderId) {
-        auction.winnerId = auction.currentHighestBidderId;
-        auction.winnerAmount = auction.currentHighestBid;
-        auction.finalAmount = auction.currentHighestBid;
+      const target = status as AuctionStatus;
+
+      // Closing early settles the winner the same way the scheduler does
+      if ((target === 'ended' || target === 'sold') && ['live', 'paused'].includes(auction.status)) {
+        await this.applyCloseOutcome(auction, transaction);
       }
 
-      await auction.save();
+      const pausedMs = auction.status === 'paused' && target === 'live' ? auctionStateService.getPausedMs(auction) : 0;
+
+      await auctionStateService.transition(auction, target, actor, transaction);
+
+      // Open lots lose no time to the pause either
+      if (pausedMs > 0 && lotService.isLotEvent(auction)) {
+        await lotService.shiftOpenLots(auction.id, pausedMs, transaction);
+      }
+
+      await auction.save({ transaction });
+      await transaction.commit();
+
+      await schedulerService.scheduleAuction(auction);
       logger.info(`Auction status updated: ${auction.id} -> ${status}`);
       
       return auction;
     } catch (error) {
+      await transaction.rollback();
+
       if (error instanceof ApiResponse) {
         throw error;
       }
@@ -223,11 +285,11 @@ export class AuctionService {
     }
   }
 
-  public static async startAuction(id: string, companyId: string): Promise<Auction> {
+  public static async startAuction(id: string, companyId?: string, actor: TransitionActor = {}): Promise<Auction> {
     try {
       const auction = await this.getAuctionById(id);
 
-      if (auction.companyId !== companyId) {
+      if (companyId && auction.companyId !== companyId) {
         throw new ApiResponse(403, 'Not authorized to start this auction');
       }
 
@@ -235,14 +297,9 @@ export class AuctionService {
         throw new ApiResponse(400, 'Auction must be scheduled to start');
       }
 
-      // Check if auction timing is valid
-      const now = new Date();
-      if (auction.timing.biddingStartsAt && new Date(auction.timing.biddingStartsAt) > now) {
-        throw new ApiResponse(400, 'Auction start time has not arrived yet');
-      }
-
-      auction.status = 'live';
+      await auctionStateService.transition(auction, 'live', { actorRole: 'company', ...actor });
       await auction.save();
+      await schedulerService.scheduleAuction(auction);
 
       logger.info(`Auction started: ${auction.title} (${auction.id})`);
       
@@ -256,6 +313,336 @@ export class AuctionService {
     }
   }
 
+  /**
+   * Open bidding on a scheduled auction once its start time has arrived. If
+   * the whole bidding window passed before it could open, it ends instead.
+   * Returns null when the auction is not due to open.
+   */
+  public static async openScheduledAuction(id: string): Promise<Auction | null> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const auction = await Auction.findByPk(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      const startsAt = auction?.timing?.biddingStartsAt ? new Date(auction.timing.biddingStartsAt) : null;
+
+      if (!auction || auction.status !== 'scheduled' || !startsAt || startsAt > new Date()) {
+        await transaction.rollback();
+        return null;
+      }
+
+      const endsAt = auction.timing?.biddingEndsAt ? new Date(auction.timing.biddingEndsAt) : null;
+
+      if (endsAt && endsAt <= new Date()) {
+        await this.applyCloseOutcome(auction, transaction);
+        await auctionStateService.transition(auction, 'ended', {
+          reason: 'Bidding window elapsed before the auction opened'
+        }, transaction);
+      } else {
+        await auctionStateService.transition(auction, 'live', {
+          reason: 'Scheduled start time reached'
+        }, transaction);
+      }
+
+      await auction.save({ transaction });
+      await transaction.commit();
+
+      logger.info(`Auction opened by scheduler: ${auction.title} (${auction.id})`);
+
+      return auction;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error opening scheduled auction:', error);
+      throw new ApiResponse(500, 'Failed to open auction');
+    }
+  }
+
+  /**
+   * Record the start or end of the preview window. The metadata markers make
+   * each change happen once however many times the job is delivered.
+   */
+  public static async syncPreviewWindow(id: string, phase: 'start' | 'end'): Promise<Auction | null> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const auction = await Auction.findByPk(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      const boundary = phase === 'start' ? auction?.timing?.previewStartsAt : auction?.timing?.previewEndsAt;
+      const marker = phase === 'start' ? 'previewStartedAt' : 'previewEndedAt';
+
+      if (
+        !auction ||
+        !boundary ||
+        new Date(boundary) > new Date() ||
+        auction.metadata?.[marker] ||
+        ['ended', 'cancelled', 'sold'].includes(auction.status)
+      ) {
+        await transaction.rollback();
+        return null;
+      }
+
+      auction.metadata = {
+        ...auction.metadata,
+        inPreview: phase === 'start',
+        [marker]: new Date()
+      };
+
+      await auction.save({ transaction });
+      await transaction.commit();
+
+      logger.info(`Auction preview ${phase === 'start' ? 'opened' : 'closed'}: ${auction.id}`);
+
+      return auction;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error updating auction preview window:', error);
+      throw new ApiResponse(500, 'Failed to update preview window');
+    }
+  }
+
+  /**
+   * Drop the featured flag once featuredUntil has passed
+   */
+  public static async expireFeatured(id: string): Promise<Auction | null> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const auction = await Auction.findByPk(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      const featuredUntil = auction?.metadata?.featuredUntil;
+
+      if (!auction || !auction.metadata?.featured || !featuredUntil || new Date(featuredUntil) > new Date()) {
+        await transaction.rollback();
+        return null;
+      }
+
+      auction.metadata = {
+        ...auction.metadata,
+        featured: false,
+        featuredUntil: null
+      };
+
+      await auction.save({ transaction });
+      await transaction.commit();
+
+      logger.info(`Auction featuring expired: ${auction.id}`);
+
+      return auction;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error expiring featured auction:', error);
+      throw new ApiResponse(500, 'Failed to expire featured auction');
+    }
+  }
+
+  /**
+   * Close a live auction whose bidding window has elapsed. The top bid only
+   * wins if it meets the reserve; otherwise the auction ends with no winner
+   * and the seller may later offer the item to the top bidder.
+   * Returns null when the auction is not due to close. Lot events are
+   * closed lot by lot through LotService instead.
+   */
+  public static async closeAuction(id: string): Promise<{ auction: Auction; outcome: AuctionCloseOutcome } | null> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const auction = await Auction.findByPk(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!auction || auction.status !== 'live' || auction.isLive() || lotService.isLotEvent(auction)) {
+        await transaction.rollback();
+        return null;
+      }
+
+      const outcome = await this.applyCloseOutcome(auction, transaction);
+
+      await auctionStateService.transition(auction, 'ended', {
+        reason: 'Bidding window closed',
+        metadata: { outcome }
+      }, transaction);
+
+      // Remaining proxy ceilings can no longer bid
+      await AutoBid.update(
+        { status: 'cancelled' },
+        { where: { auctionId: auction.id, status: 'active' }, transaction }
+      );
+
+      await auction.save({ transaction });
+      await transaction.commit();
+
+      logger.info(`Auction closed: ${auction.id} (${outcome})`);
+
+      return { auction, outcome };
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error closing auction:', error);
+      throw new ApiResponse(500, 'Failed to close auction');
+    }
+  }
+
+  /**
+   * Settle the winner for a closing auction using its format's rules (the
+   * top bid usually wins only if it meets the reserve). Does not change the
+   * status.
+   */
+  private static async applyCloseOutcome(auction: Auction, transaction: Transaction): Promise<AuctionCloseOutcome> {
+    const { outcome, winnerId, amount } = await getAuctionFormat(auction.format).determineWinner(auction, transaction);
+
+    if (outcome === 'won') {
+      auction.winnerId = winnerId;
+      auction.winnerAmount = amount;
+      auction.finalAmount = amount;
+    }
+
+    auction.metadata = {
+      ...auction.metadata,
+      endReason: outcome,
+      endedAt: new Date()
+    };
+
+    return outcome;
+  }
+
+  /**
+   * Seller offers a reserve-not-met item to the top bidder at that bidder's price
+   */
+  public static async offerToTopBidder(id: string, companyId?: string): Promise<Auction> {
+    try {
+      const auction = await Auction.findByPk(id);
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
+
+      if (companyId && auction.companyId !== companyId) {
+        throw new ApiResponse(403, 'Not authorized to make offers on this auction');
+      }
+
+      if (auction.status !== 'ended' || auction.metadata?.endReason !== 'reserve_not_met') {
+        throw new ApiResponse(400, 'Only auctions that ended below reserve can be offered to the top bidder');
+      }
+
+      if (!auction.currentHighestBidderId) {
+        throw new ApiResponse(400, 'Auction has no top bidder');
+      }
+
+      const existingOffer = auction.metadata?.reserveOffer;
+      if (existingOffer && existingOffer.status === 'pending' && new Date(existingOffer.expiresAt) > new Date()) {
+        throw new ApiResponse(400, 'An offer to the top bidder is already pending');
+      }
+
+      if (existingOffer && existingOffer.status !== 'pending') {
+        throw new ApiResponse(400, `The top bidder has already ${existingOffer.status} the offer`);
+      }
+
+      const now = new Date();
+
+      auction.metadata = {
+        ...auction.metadata,
+        reserveOffer: {
+          bidderId: auction.currentHighestBidderId,
+          amount: Number(auction.currentHighestBid),
+          status: 'pending',
+          offeredAt: now,
+          expiresAt: new Date(now.getTime() + RESERVE_OFFER_TTL_MS)
+        }
+      };
+
+      await auction.save();
+      logger.info(`Reserve offer made on auction ${auction.id} to ${auction.currentHighestBidderId}`);
+
+      return auction;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error offering auction to top bidder:', error);
+      throw new ApiResponse(500, 'Failed to offer auction to top bidder');
+    }
+  }
+
+  /**
+   * Top bidder accepts or declines the seller's below-reserve offer.
+   * Accepting sells the item at the offered price.
+   */
+  public static async respondToReserveOffer(id: string, bidderId: string, accept: boolean): Promise<Auction> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const auction = await Auction.findByPk(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
+
+      const offer = auction.metadata?.reserveOffer;
+
+      if (!offer || offer.bidderId !== bidderId) {
+        throw new ApiResponse(404, 'No offer found for this auction');
+      }
+
+      if (auction.status !== 'ended' || offer.status !== 'pending') {
+        throw new ApiResponse(400, 'Offer is no longer open');
+      }
+
+      if (new Date(offer.expiresAt) <= new Date()) {
+        throw new ApiResponse(400, 'Offer has expired');
+      }
+
+      if (accept) {
+        auction.winnerId = bidderId;
+        auction.winnerAmount = offer.amount;
+        auction.finalAmount = offer.amount;
+
+        await auctionStateService.transition(auction, 'sold', {
+          actorId: bidderId,
+          actorRole: 'bidder',
+          reason: 'Top bidder accepted the below-reserve offer'
+        }, transaction);
+      }
+
+      auction.metadata = {
+        ...auction.metadata,
+        reserveOffer: {
+          ...offer,
+          status: accept ? 'accepted' : 'declined',
+          respondedAt: new Date()
+        }
+      };
+
+      await auction.save({ transaction });
+      await transaction.commit();
+
+      // An accepted offer is a sale that now needs settling
+      await schedulerService.scheduleAuction(auction);
+      logger.info(`Reserve offer on auction ${auction.id} ${accept ? 'accepted' : 'declined'} by ${bidderId}`);
+
+      return auction;
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error responding to reserve offer:', error);
+      throw new ApiResponse(500, 'Failed to respond to offer');
+    }
+  }
+
   public static async getLiveAuctions(): Promise<Auction[]> {
     try {
       const now = new Date();
@@ -269,7 +656,7 @@ export class AuctionService {
         include: [
           {
             association: 'company',
-            attributes: ['id', 'firstName', 'lastName', 'email', 'profilePicture']
+            attributes: ['id', 'name', 'logo', 'rating', 'status']
           }
         ]
       });
@@ -300,4 +687,6 @@ export class AuctionService {
       throw new ApiResponse(500, 'Failed to fetch company auctions');
     }
   }
-}
\ No newline at end of file
+}
+
+export const auctionService = AuctionService;
\ No newline at end of file
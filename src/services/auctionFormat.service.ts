@@ -0,0 +1,365 @@
+import { Op, Transaction } from 'sequelize';
+import Auction, { AuctionFormat } from '../database/models/Auction';
+import Bid from '../database/models/Bid';
+import Lot from '../database/models/Lot';
+import { incrementService } from './increment.service';
+import { ApiResponse } from '../utils/helpers';
+
+export type AuctionCloseOutcome = 'won' | 'reserve_not_met' | 'no_bids';
+
+export interface WinnerDetermination {
+  outcome: AuctionCloseOutcome;
+  winnerId: string | null;
+  // Price the winner pays, which is not always their bid (e.g. Vickrey)
+  amount: number | null;
+}
+
+/**
+ * Rules for one auction format. BidService asks the strategy whether a bid
+ * is acceptable and what to record; the closing logic asks it who won.
+ */
+export interface AuctionFormatStrategy {
+  readonly format: AuctionFormat;
+  // Bids stay hidden (amounts and leader) until the auction closes
+  readonly sealed: boolean;
+  readonly supportsProxyBidding: boolean;
+  readonly supportsAutoExtend: boolean;
+
+  /**
+   * The next acceptable price: the minimum raise for ascending formats, the
+   * maximum undercut for reverse, the current ask for Dutch
+   */
+  getNextValidPrice(auction: Auction, now?: Date): number;
+
+  /**
+   * Validate a bid against the locked auction and return the amount to
+   * record. Throws ApiResponse when the bid is not acceptable.
+   */
+  validateBid(auction: Auction, bidderId: string, amount: number, transaction: Transaction): Promise<number>;
+
+  // Whether the amount now leading should close the auction immediately
+  closesImmediately(auction: Auction): boolean;
+
+  determineWinner(auction: Auction, transaction: Transaction): Promise<WinnerDetermination>;
+}
+
+const toNumber = (value: any): number => Number(value || 0);
+
+const hasBids = (auction: Auction): boolean => !!auction.currentHighestBidderId;
+
+/**
+ * Winner is whoever leads when bidding closes; the reserve is a floor
+ */
+async function leaderWins(auction: Auction): Promise<WinnerDetermination> {
+  if (!hasBids(auction)) {
+    return { outcome: 'no_bids', winnerId: null, amount: null };
+  }
+
+  const topBid = toNumber(auction.currentHighestBid);
+  const reservePrice = toNumber(auction.auctionConfig?.reservePrice);
+
+  if (reservePrice > 0 && topBid < reservePrice) {
+    return { outcome: 'reserve_not_met', winnerId: null, amount: null };
+  }
+
+  return { outcome: 'won', winnerId: auction.currentHighestBidderId, amount: topBid };
+}
+
+const englishFormat: AuctionFormatStrategy = {
+  format: 'english',
+  sealed: false,
+  supportsProxyBidding: true,
+  supportsAutoExtend: true,
+
+  getNextValidPrice(auction) {
+    const increment = incrementService.getIncrement(auction);
+
+    if (!hasBids(auction)) {
+      return Math.max(toNumber(auction.auctionConfig?.startingBid), toNumber(auction.currentHighestBid) + increment);
+    }
+
+    return toNumber(auction.currentHighestBid) + increment;
+  },
+
+  async validateBid(auction, _bidderId, amount) {
+    const minBid = this.getNextValidPrice(auction);
+
+    if (amount < minBid) {
+      throw new ApiResponse(400, `Minimum bid required is ${minBid}`);
+    }
+
+    return amount;
+  },
+
+  closesImmediately(auction) {
+    const buyNowPrice = toNumber(auction.auctionConfig?.buyNowPrice);
+
+    return buyNowPrice > 0 && toNumber(auction.currentHighestBid) >= buyNowPrice;
+  },
+
+  async determineWinner(auction) {
+    return leaderWins(auction);
+  }
+};
+
+/**
+ * Procurement auction: suppliers undercut each other and the lowest bid
+ * wins. startingBid is the opening ceiling, reservePrice the highest price
+ * the buyer will accept, buyNowPrice a price they will take on the spot and
+ * floorPrice the lowest offer they will treat as credible.
+ *
+ * Soft-close applies as in English auctions: a late undercut reopens the
+ * field just like a late raise. Bids are offers to be paid, not to pay, so
+ * ExposureService leaves them out of the bidder's credit exposure.
+ */
+const reverseFormat: AuctionFormatStrategy = {
+  format: 'reverse',
+  sealed: false,
+  supportsProxyBidding: false,
+  supportsAutoExtend: true,
+
+  getNextValidPrice(auction) {
+    if (!hasBids(auction)) {
+      return toNumber(auction.auctionConfig?.startingBid);
+    }
+
+    return toNumber(auction.currentHighestBid) - incrementService.getIncrement(auction);
+  },
+
+  async validateBid(auction, _bidderId, amount) {
+    const maxBid = this.getNextValidPrice(auction);
+    const floorPrice = toNumber(auction.auctionConfig?.floorPrice);
+
+    if (!(amount > 0)) {
+      throw new ApiResponse(400, 'Bid must be more than 0');
+    }
+
+    if (floorPrice > 0 && amount < floorPrice) {
+      throw new ApiResponse(400, `Minimum bid allowed is ${floorPrice}`);
+    }
+
+    if (maxBid > 0 && amount > maxBid) {
+      throw new ApiResponse(400, `Maximum bid allowed is ${maxBid}`);
+    }
+
+    return amount;
+  },
+
+  closesImmediately(auction) {
+    const buyNowPrice = toNumber(auction.auctionConfig?.buyNowPrice);
+
+    return buyNowPrice > 0 && hasBids(auction) && toNumber(auction.currentHighestBid) <= buyNowPrice;
+  },
+
+  async determineWinner(auction) {
+    if (!hasBids(auction)) {
+      return { outcome: 'no_bids', winnerId: null, amount: null };
+    }
+
+    const bestBid = toNumber(auction.currentHighestBid);
+    const reservePrice = toNumber(auction.auctionConfig?.reservePrice);
+
+    if (reservePrice > 0 && bestBid > reservePrice) {
+      return { outcome: 'reserve_not_met', winnerId: null, amount: null };
+    }
+
+    return { outcome: 'won', winnerId: auction.currentHighestBidderId, amount: bestBid };
+  }
+};
+
+/**
+ * Descending-clock auction: the ask starts at startingBid and drops by
+ * priceDropAmount every priceDropInterval seconds down to floorPrice.
+ * The first bidder to accept the current ask wins at that price.
+ */
+const dutchFormat: AuctionFormatStrategy = {
+  format: 'dutch',
+  sealed: false,
+  supportsProxyBidding: false,
+  supportsAutoExtend: false,
+
+  getNextValidPrice(auction, now = new Date()) {
+    const config = auction.auctionConfig || {};
+    const startingPrice = toNumber(config.startingBid);
+    const floorPrice = toNumber(config.floorPrice ?? config.reservePrice);
+    const dropAmount = toNumber(config.priceDropAmount ?? config.bidIncrement);
+    const dropInterval = toNumber(config.priceDropInterval) || 60;
+    const startsAt = auction.timing?.biddingStartsAt ? new Date(auction.timing.biddingStartsAt) : now;
+
+    const elapsedSeconds = Math.max(0, (now.getTime() - startsAt.getTime()) / 1000);
+    const drops = Math.floor(elapsedSeconds / dropInterval);
+
+    return Math.max(floorPrice, startingPrice - drops * dropAmount);
+  },
+
+  async validateBid(auction, _bidderId, amount) {
+    const askPrice = this.getNextValidPrice(auction);
+
+    if (amount < askPrice) {
+      throw new ApiResponse(400, `Current price is ${askPrice}`);
+    }
+
+    // Accepting the clock buys at the ask, whatever was offered
+    return askPrice;
+  },
+
+  closesImmediately(auction) {
+    return hasBids(auction);
+  },
+
+  async determineWinner(auction) {
+    return leaderWins(auction);
+  }
+};
+
+/**
+ * Sealed-bid tender: one hidden bid per bidder, revealed at close. The
+ * highest bid wins; first-price pays its own bid, Vickrey pays the
+ * runner-up's bid (or the reserve/starting price with a single bidder).
+ */
+function sealedFormat(format: 'sealed_first_price' | 'vickrey'): AuctionFormatStrategy {
+  return {
+    format,
+    sealed: true,
+    supportsProxyBidding: false,
+    supportsAutoExtend: false,
+
+    getNextValidPrice(auction) {
+      return toNumber(auction.auctionConfig?.startingBid);
+    },
+
+    async validateBid(auction, bidderId, amount, transaction) {
+      const minBid = this.getNextValidPrice(auction);
+
+      if (amount < minBid) {
+        throw new ApiResponse(400, `Minimum bid required is ${minBid}`);
+      }
+
+      const existingBid = await Bid.count({
+        where: { auctionId: auction.id, bidderId, status: { [Op.ne]: 'withdrawn' } },
+        transaction
+      });
+
+      if (existingBid > 0) {
+        throw new ApiResponse(400, 'You have already submitted a sealed bid for this auction');
+      }
+
+      return amount;
+    },
+
+    closesImmediately() {
+      return false;
+    },
+
+    async determineWinner(auction, transaction) {
+      const bids = await Bid.findAll({
+        where: { auctionId: auction.id, status: 'active' },
+        order: [['amount', 'DESC'], ['createdAt', 'ASC']],
+        limit: 2,
+        transaction
+      });
+
+      const [top, runnerUp] = bids;
+
+      if (!top) {
+        return { outcome: 'no_bids', winnerId: null, amount: null };
+      }
+
+      // Reveal the top bid so reserve offers and listings see it
+      auction.currentHighestBid = toNumber(top.amount);
+      auction.currentHighestBidderId = top.bidderId;
+
+      await Bid.update(
+        { status: 'outbid' },
+        { where: { auctionId: auction.id, status: 'active', id: { [Op.ne]: top.id } }, transaction }
+      );
+      top.status = 'winning';
+      await top.save({ transaction });
+
+      const topAmount = toNumber(top.amount);
+      const reservePrice = toNumber(auction.auctionConfig?.reservePrice);
+
+      if (reservePrice > 0 && topAmount < reservePrice) {
+        return { outcome: 'reserve_not_met', winnerId: null, amount: null };
+      }
+
+      const price = format === 'vickrey'
+        ? Math.max(
+            runnerUp ? toNumber(runnerUp.amount) : toNumber(auction.auctionConfig?.startingBid),
+            reservePrice
+          )
+        : topAmount;
+
+      return { outcome: 'won', winnerId: top.bidderId, amount: price };
+    }
+  };
+}
+
+const formats = new Map<AuctionFormat, AuctionFormatStrategy>();
+
+export function registerAuctionFormat(strategy: AuctionFormatStrategy): void {
+  formats.set(strategy.format, strategy);
+}
+
+export function getAuctionFormat(format?: string | null): AuctionFormatStrategy {
+  const strategy = formats.get((format || 'english') as AuctionFormat);
+
+  if (!strategy) {
+    throw new ApiResponse(400, `Unsupported auction format: ${format}`);
+  }
+
+  return strategy;
+}
+
+// Next acceptable bid under the auction's format (a ceiling for reverse auctions)
+export function getMinNextBid(auction: Auction): number {
+  return getAuctionFormat(auction.format).getNextValidPrice(auction);
+}
+
+/**
+ * Pre-check a bid amount against the auction's ladder so clients get the
+ * applicable increment back as a validation error. BidService repeats the
+ * check under the row lock; formats priced by the clock or by sealed bids
+ * are left to it.
+ */
+export async function assertBidOnLadder(auctionId: string, amount: number, lotId?: string): Promise<void> {
+  const auction = await Auction.findByPk(auctionId);
+
+  if (!auction) {
+    return;
+  }
+
+  if (lotId) {
+    const lot = await Lot.findOne({ where: { id: lotId, auctionId } });
+
+    if (lot) {
+      const minBid = lot.getMinNextBid(incrementService.getLadder(auction));
+      if (amount < minBid) {
+        throw new Error(`Minimum bid required is ${minBid}`);
+      }
+    }
+    return;
+  }
+
+  const format = auction.format || 'english';
+  if (!['english', 'reverse'].includes(format)) {
+    return;
+  }
+
+  const price = getMinNextBid(auction);
+  const increment = incrementService.getIncrement(auction);
+
+  if (format === 'english' && amount < price) {
+    throw new Error(`Minimum bid required is ${price} (increment ${increment} at the current price)`);
+  }
+
+  if (format === 'reverse' && price > 0 && amount > price) {
+    throw new Error(`Maximum bid allowed is ${price} (decrement ${increment} at the current price)`);
+  }
+}
+
+registerAuctionFormat(englishFormat);
+registerAuctionFormat(reverseFormat);
+registerAuctionFormat(dutchFormat);
+registerAuctionFormat(sealedFormat('sealed_first_price'));
+registerAuctionFormat(sealedFormat('vickrey'));
\ No newline at end of file
@@ -0,0 +1,221 @@
+import { Transaction } from 'sequelize';
+import Auction from '../database/models/Auction';
+import AuctionStatusHistory from '../database/models/AuctionStatusHistory';
+import { ApiResponse } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export type AuctionStatus = Auction['status'];
+
+export interface TransitionActor {
+  actorId?: string | null;
+  actorRole?: 'admin' | 'company' | 'bidder' | 'system';
+  reason?: string | null;
+  metadata?: any;
+}
+
+type TransitionGuard = (auction: Auction) => string | null;
+
+// Pausing this close to the deadline would freeze the auction in its final seconds
+const MIN_SECONDS_LEFT_TO_PAUSE = parseInt(process.env.AUCTION_MIN_PAUSE_SECONDS || '60');
+
+/**
+ * Allowed next statuses for each auction status. Terminal statuses have no
+ * way out; `ended -> sold` covers post-close sales such as reserve offers and
+ * `scheduled -> ended` covers a bidding window that passed without opening.
+ */
+export const AUCTION_TRANSITIONS: Record<AuctionStatus, AuctionStatus[]> = {
+  draft: ['scheduled', 'cancelled'],
+  scheduled: ['draft', 'live', 'ended', 'cancelled'],
+  live: ['paused', 'ended', 'sold', 'cancelled'],
+  paused: ['live', 'ended', 'cancelled'],
+  ended: ['sold'],
+  cancelled: [],
+  sold: []
+};
+
+const secondsUntil = (date: any): number =>
+  date ? (new Date(date).getTime() - Date.now()) / 1000 : 0;
+
+/**
+ * Guard conditions checked on entering a status, keyed `from->to` for a
+ * specific edge or by target status for every edge into it. A guard returns
+ * the reason the transition is refused, or null to allow it.
+ */
+const TRANSITION_GUARDS: Record<string, TransitionGuard> = {
+  scheduled: auction => {
+    const { biddingStartsAt, biddingEndsAt } = auction.timing || {};
+    if (!biddingStartsAt || !biddingEndsAt) {
+      return 'Bidding start and end times must be set before scheduling';
+    }
+    if (new Date(biddingEndsAt) <= new Date(biddingStartsAt)) {
+      return 'Bidding must end after it starts';
+    }
+    return null;
+  },
+  'scheduled->live': auction => {
+    if (secondsUntil(auction.timing?.biddingStartsAt) > 0) {
+      return 'Auction start time has not arrived yet';
+    }
+    return null;
+  },
+  'scheduled->ended': auction => {
+    if (secondsUntil(auction.timing?.biddingEndsAt) > 0) {
+      return 'A scheduled auction can only end once its bidding window has passed';
+    }
+    return null;
+  },
+  live: auction => {
+    if (secondsUntil(auction.timing?.biddingEndsAt) <= 0) {
+      return 'Bidding end time has already passed';
+    }
+    return null;
+  },
+  paused: auction => {
+    if (secondsUntil(auction.timing?.biddingEndsAt) < MIN_SECONDS_LEFT_TO_PAUSE) {
+      return `Cannot pause with less than ${MIN_SECONDS_LEFT_TO_PAUSE} seconds left`;
+    }
+    return null;
+  },
+  sold: auction => {
+    if (!auction.winnerId) {
+      return 'Auction must have a winner to be marked as sold';
+    }
+    return null;
+  }
+};
+
+export class AuctionStateService {
+  public static canTransition(from: AuctionStatus, to: AuctionStatus): boolean {
+    return AUCTION_TRANSITIONS[from]?.includes(to) || false;
+  }
+
+  /**
+   * Throw if the auction cannot move to `to` from its current status.
+   * Guards see the auction as it will be saved, so set any fields the
+   * target status depends on (e.g. winnerId) before calling.
+   */
+  public static assertTransition(auction: Auction, from: AuctionStatus, to: AuctionStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw new ApiResponse(409, `Cannot change auction status from ${from} to ${to}`);
+    }
+
+    const guards = [TRANSITION_GUARDS[`${from}->${to}`], TRANSITION_GUARDS[to]];
+
+    for (const guard of guards) {
+      const failure = guard ? guard(auction) : null;
+      if (failure) {
+        throw new ApiResponse(400, failure);
+      }
+    }
+  }
+
+  /**
+   * Validate and apply a status change, recording it in the history table.
+   * Does not save the auction; callers save it in the same transaction.
+   * Pausing stops the clock: the time left is kept in timing and resuming
+   * moves biddingEndsAt that far past the moment bidding reopens.
+   */
+  public static async transition(
+    auction: Auction,
+    to: AuctionStatus,
+    actor: TransitionActor = {},
+    transaction: Transaction | null = null
+  ): Promise<void> {
+    const from = auction.status;
+    const timing = auction.timing;
+
+    if (from === 'paused' && to === 'live') {
+      auction.timing = this.getResumedTiming(auction);
+    }
+
+    try {
+      this.assertTransition(auction, from, to);
+    } catch (error) {
+      auction.timing = timing;
+      throw error;
+    }
+
+    if (to === 'paused') {
+      auction.timing = {
+        ...auction.timing,
+        pausedAt: new Date(),
+        pausedRemainingMs: Math.max(0, secondsUntil(auction.timing?.biddingEndsAt) * 1000)
+      };
+    }
+
+    auction.status = to;
+
+    await this.record(auction.id, from, to, actor, transaction);
+  }
+
+  // How long a paused auction has been paused, in ms
+  public static getPausedMs(auction: Auction): number {
+    const pausedAt = auction.timing?.pausedAt;
+    return pausedAt ? Math.max(0, Date.now() - new Date(pausedAt).getTime()) : 0;
+  }
+
+  public static async record(
+    auctionId: string,
+    from: AuctionStatus | null,
+    to: AuctionStatus,
+    actor: TransitionActor = {},
+    transaction: Transaction | null = null
+  ): Promise<AuctionStatusHistory> {
+    const entry = await AuctionStatusHistory.create({
+      auctionId,
+      fromStatus: from,
+      toStatus: to,
+      actorId: actor.actorId || null,
+      actorRole: actor.actorRole || 'system',
+      reason: actor.reason || null,
+      metadata: actor.metadata || {}
+    } as any, { transaction });
+
+    logger.info(`Auction ${auctionId} status ${from || 'new'} -> ${to} by ${actor.actorId || 'system'}`);
+
+    return entry;
+  }
+
+  public static async getHistory(auctionId: string): Promise<AuctionStatusHistory[]> {
+    try {
+      const auction = await Auction.findByPk(auctionId, { attributes: ['id'] });
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
+
+      return await AuctionStatusHistory.findAll({
+        where: { auctionId },
+        order: [['createdAt', 'ASC']],
+        include: [
+          {
+            association: 'actor',
+            attributes: ['id', 'firstName', 'lastName', 'role']
+          }
+        ]
+      });
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error getting auction status history:', error);
+      throw new ApiResponse(500, 'Failed to fetch auction status history');
+    }
+  }
+
+  // Auctions paused before the time left was kept resume on their old deadline
+  private static getResumedTiming(auction: Auction): any {
+    const { pausedAt, pausedRemainingMs, ...timing } = auction.timing || {};
+
+    if (pausedRemainingMs === undefined || pausedRemainingMs === null) {
+      return auction.timing;
+    }
+
+    return {
+      ...timing,
+      biddingEndsAt: new Date(Date.now() + Number(pausedRemainingMs))
+    };
+  }
+}
+
+export const auctionStateService = AuctionStateService;
\ No newline at end of file
@@ -1,8 +1,20 @@
 import bcrypt from 'bcryptjs';
-import User from '../database/models/User';
+import User, { UserAttributes } from '../database/models/User';
+import { userTokenService, USER_TOKEN_TTL_MS } from './userToken.service';
+import { sessionService } from './session.service';
+import { mailService } from './mail.service';
 import { ApiResponse } from '../utils/helpers';
 import { logger } from '../utils/logger';
 
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:3000';
+
+// The only fields users may change on their own profile. Everything else
+// (role, credit limit, two-factor state, verification flags) goes through
+// its own checked flow.
+const PROFILE_FIELDS = ['firstName', 'lastName', 'phone', 'address', 'settings'] as const;
+
+type ProfileUpdate = Partial<Pick<UserAttributes, (typeof PROFILE_FIELDS)[number]>>;
+
 interface RegisterData {
   email: string;
   password: string;
@@ -93,9 +105,12 @@ export class AuthService {
         }
       }
 
-      // Reset login attempts on successful login
-      user.resetLoginAttempts();
-      await user.save();
+      // Reset login attempts on successful login. With 2FA the password is
+      // only half of it, so the count is kept until a code checks out.
+      if (!user.twoFactorEnabled) {
+        user.resetLoginAttempts();
+        await user.save();
+      }
 
       return user;
     } catch (error) {
@@ -107,7 +122,7 @@ export class AuthService {
     }
   }
 
-  public static async updateUser(userId: string, updateData: Partial<User>): Promise<User> {
+  public static async updateUser(userId: string, updateData: ProfileUpdate): Promise<User> {
     try {
       const user = await this.findUserById(userId);
       
@@ -115,7 +130,15 @@ export class AuthService {
         throw new ApiResponse(404, 'User not found');
       }
 
-      await user.update(updateData);
+      const updates: ProfileUpdate = {};
+      const copy = <K extends keyof ProfileUpdate>(field: K): void => {
+        if (updateData[field] !== undefined) {
+          updates[field] = updateData[field];
+        }
+      };
+      PROFILE_FIELDS.forEach(copy);
+
+      await user.update(updates);
       await user.reload();
 
       return user;
@@ -125,37 +148,182 @@ export class AuthService {
     }
   }
 
-  public static async verifyEmail(userId: string): Promise<void> {
+  public static async sendVerificationEmail(user: User): Promise<void> {
+    if (user.emailVerified) {
+      throw new ApiResponse(400, 'Email already verified');
+    }
+
+    const { token } = await userTokenService.issue(user.id, 'email_verification', { email: user.email });
+
+    await mailService.send('email_verification', user.email, {
+      firstName: user.firstName,
+      url: `${CLIENT_URL}/verify-email/${token}`,
+      expiresInHours: USER_TOKEN_TTL_MS.email_verification / 3600000
+    });
+  }
+
+  public static async verifyEmail(token: string): Promise<User> {
     try {
-      const user = await this.findUserById(userId);
-      
-      if (!user) {
-        throw new ApiResponse(404, 'User not found');
+      const userToken = await userTokenService.consume(token, 'email_verification');
+      const user = await this.findUserById(userToken.userId);
+
+      // A link sent to an address the account no longer uses proves nothing
+      if (!user || user.email !== userToken.data?.email) {
+        throw new ApiResponse(400, 'Invalid or expired token');
       }
 
       user.emailVerified = true;
       await user.save();
+
+      logger.info(`Email verified for user: ${user.id}`);
+
+      return user;
     } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
       logger.error('Error verifying email:', error);
-      throw error;
+      throw new ApiResponse(500, 'Email verification failed');
     }
   }
 
-  public static async resetPassword(email: string, newPassword: string): Promise<void> {
+  /**
+   * Mail a reset link. Says nothing about whether the address has an
+   * account, so callers should answer the same either way.
+   */
+  public static async requestPasswordReset(email: string): Promise<void> {
     try {
       const user = await this.findUserByEmail(email);
-      
+
+      if (!user || !user.isActive) {
+        logger.info(`Password reset requested for unknown or inactive email: ${email}`);
+        return;
+      }
+
+      // Only logged: failing here and not for unknown addresses would give the account away
+      try {
+        const { token } = await userTokenService.issue(user.id, 'password_reset');
+
+        await mailService.send('password_reset', user.email, {
+          firstName: user.firstName,
+          url: `${CLIENT_URL}/reset-password/${token}`,
+          expiresInMinutes: USER_TOKEN_TTL_MS.password_reset / 60000
+        });
+      } catch (error) {
+        logger.error(`Error sending password reset to user ${user.id}:`, error);
+      }
+    } catch (error) {
+      logger.error('Error requesting password reset:', error);
+      throw new ApiResponse(500, 'Failed to send password reset email');
+    }
+  }
+
+  /**
+   * Set a new password with a mailed reset token. Every session is ended,
+   * since whoever prompted the reset may have been signed in.
+   */
+  public static async resetPassword(token: string, newPassword: string): Promise<void> {
+    try {
+      const userToken = await userTokenService.consume(token, 'password_reset');
+      const user = await this.findUserById(userToken.userId);
+
       if (!user) {
-        throw new ApiResponse(404, 'User not found');
+        throw new ApiResponse(400, 'Invalid or expired token');
       }
 
       user.password = newPassword;
+      user.resetLoginAttempts();
       await user.save();
-      
+
+      await sessionService.revokeAll(user.id, 'Password reset');
+
       logger.info(`Password reset for user: ${user.email}`);
+
+      try {
+        await mailService.send('password_changed', user.email, { firstName: user.firstName });
+      } catch (error) {
+        logger.error('Error sending password changed notice:', error);
+      }
     } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
       logger.error('Error resetting password:', error);
-      throw error;
+      throw new ApiResponse(500, 'Password reset failed');
+    }
+  }
+
+  /**
+   * Start moving the account to a new address. Nothing changes until the
+   * link mailed to the new address is followed; the old one gets a notice.
+   */
+  public static async requestEmailChange(userId: string, newEmail: string, password: string): Promise<void> {
+    try {
+      const user = await this.findUserById(userId);
+
+      if (!user) {
+        throw new ApiResponse(404, 'User not found');
+      }
+
+      if (!(await user.comparePassword(password))) {
+        throw new ApiResponse(401, 'Password is incorrect');
+      }
+
+      if (newEmail === user.email) {
+        throw new ApiResponse(400, 'That is already your email address');
+      }
+
+      if (await this.findUserByEmail(newEmail)) {
+        throw new ApiResponse(409, 'Email is already in use');
+      }
+
+      const { token } = await userTokenService.issue(user.id, 'email_change', { email: newEmail });
+
+      await mailService.send('email_change', newEmail, {
+        firstName: user.firstName,
+        url: `${CLIENT_URL}/confirm-email/${token}`,
+        expiresInHours: USER_TOKEN_TTL_MS.email_change / 3600000
+      });
+
+      await mailService.send('email_change_notice', user.email, { firstName: user.firstName, newEmail });
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error requesting email change:', error);
+      throw new ApiResponse(500, 'Failed to start email change');
+    }
+  }
+
+  public static async confirmEmailChange(token: string): Promise<User> {
+    try {
+      const userToken = await userTokenService.consume(token, 'email_change');
+      const user = await this.findUserById(userToken.userId);
+      const newEmail = userToken.data?.email;
+
+      if (!user || !newEmail) {
+        throw new ApiResponse(400, 'Invalid or expired token');
+      }
+
+      // Someone may have registered the address since the link was sent
+      if (await this.findUserByEmail(newEmail)) {
+        throw new ApiResponse(409, 'Email is already in use');
+      }
+
+      const oldEmail = user.email;
+
+      // Following the link proves the new address is theirs
+      await user.update({ email: newEmail, emailVerified: true });
+
+      logger.info(`Email changed for user ${user.id}: ${oldEmail} -> ${newEmail}`);
+
+      return user;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error confirming email change:', error);
+      throw new ApiResponse(500, 'Email change failed');
     }
   }
 }
@@ -1,20 +1,85 @@
+import { Op, Transaction } from 'sequelize';
 import Auction from '../database/models/Auction';
+import AutoBid from '../database/models/AutoBid';
+import Bid from '../database/models/Bid';
+import Lot from '../database/models/Lot';
 import User from '../database/models/User';
+import { auctionStateService } from './auctionState.service';
+import { getAuctionFormat, getMinNextBid } from './auctionFormat.service';
+import { lotService } from './lot.service';
+import { incrementService } from './increment.service';
+import { depositService } from './deposit.service';
+import { exposureService } from './exposure.service';
+import { schedulerService } from './scheduler.service';
 import { ApiResponse } from '../utils/helpers';
 import sequelize from '../config/database';
 import { logger } from '../utils/logger';
 
+export interface BidStep {
+  bidId: string;
+  bidderId: string;
+  bidderName: string;
+  amount: number;
+  isAutoBid: boolean;
+  isWinning: boolean;
+  timestamp: Date;
+}
+
+// A soft-close extension triggered by a late bid
+export interface AuctionExtension {
+  previousEndsAt: Date;
+  biddingEndsAt: Date;
+  extensions: number;
+  triggeredBy: string;
+  bidId: string | null;
+  lotId: string | null;
+}
+
+export interface BidPlacementResult {
+  bidId: string | null;
+  auctionId: string;
+  amount: number;
+  bidderId: string;
+  isWinning: boolean;
+  currentHighestBid: number;
+  currentHighestBidderId: string | null;
+  previousHighestBidderId: string | null;
+  auctionTotalBids: number;
+  auctionStatus: Auction['status'];
+  soldImmediately: boolean;
+  sealed: boolean;
+  extension: AuctionExtension | null;
+  steps: BidStep[];
+}
+
+export interface LotBidPlacementResult extends BidPlacementResult {
+  lotId: string;
+  lotNumber: number;
+  lotClosesAt: Date | null;
+  lotTotalBids: number;
+}
+
+// Who is asking to see an auction's bids
+interface BidViewer {
+  id: string;
+  role: string;
+  companyId?: string | null;
+}
+
+interface ProxyContender {
+  bidderId: string;
+  ceiling: number;
+  priorityAt: Date;
+  isLeader: boolean;
+}
+
 export class BidService {
   public static async placeBid(
     auctionId: string, 
     bidderId: string, 
-    amount: number
-  ): Promise<{
-    amount: number;
-    bidderId: string;
-    previousHighestBidderId: string | null;
-    auctionTotalBids: number;
-  }> {
+    amount: number,
+    metadata: any = {}
+  ): Promise<BidPlacementResult> {
     const transaction = await sequelize.transaction();
     
     try {
@@ -28,96 +93,848 @@ export class BidService {
         throw new ApiResponse(404, 'Auction not found');
       }
 
-      // Check auction status
-      if (!auction.isLive()) {
-        throw new ApiResponse(400, 'Auction is not live');
+      const bidder = await this.assertCanBid(auction, bidderId, transaction);
+      const format = getAuctionFormat(auction.format);
+
+      // The format decides what is acceptable and what gets recorded (a Dutch accept is taken at the ask)
+      const acceptedAmount = await format.validateBid(auction, bidderId, amount, transaction);
+      // Reverse bids are offers to be paid, so this passes them without counting them
+      await exposureService.assertWithinLimit(bidder, auction, acceptedAmount, transaction);
+
+      const previousHighestBidderId = auction.currentHighestBidderId;
+
+      const bid = await this.recordBid(auction, bidderId, acceptedAmount, {
+        isAutoBid: false,
+        maxAutoBidAmount: null,
+        leading: !format.sealed,
+        sealed: format.sealed,
+        metadata
+      }, transaction);
+
+      // A bid that closes the auction takes the item outright, so proxies get no answer
+      const proxySteps = format.supportsProxyBidding && !format.closesImmediately(auction)
+        ? await this.resolveProxyBids(auction, transaction)
+        : [];
+      const steps: BidStep[] = [
+        {
+          bidId: bid.id,
+          bidderId,
+          bidderName: `${bidder.firstName} ${bidder.lastName}`,
+          amount: acceptedAmount,
+          isAutoBid: false,
+          isWinning: !format.sealed && proxySteps.length === 0,
+          timestamp: bid.createdAt
+        },
+        ...proxySteps
+      ];
+
+      let extension: AuctionExtension | null = null;
+
+      if (format.closesImmediately(auction)) {
+        await this.closeImmediately(auction, transaction);
+      } else if (format.supportsAutoExtend) {
+        extension = await this.applyAutoExtend(auction, bidderId, bid.id, transaction);
       }
 
-      // Check if bidder is the auction owner
-      if (auction.companyId === bidderId) {
-        throw new ApiResponse(400, 'Cannot bid on your own auction');
+      await auction.save({ transaction });
+
+      logger.info(`Bid placed: ${acceptedAmount} on auction ${auctionId} by ${bidder.email} (${bid.id})`);
+
+      await transaction.commit();
+
+      // A buy-now sale also needs its deposits settled
+      if (extension || auction.status === 'sold') {
+        await schedulerService.scheduleAuction(auction);
       }
 
-      // Get bidder
-      const bidder = await User.findByPk(bidderId, { transaction });
-      if (!bidder) {
-        throw new ApiResponse(404, 'Bidder not found');
+      return this.buildResult(auction, bidderId, acceptedAmount, bid.id, previousHighestBidderId, steps, extension);
+    } catch (error) {
+      await transaction.rollback();
+      
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      
+      logger.error('Error placing bid:', error);
+      throw new ApiResponse(500, 'Failed to place bid');
+    }
+  }
+
+  public static async setAutoBid(
+    auctionId: string,
+    bidderId: string,
+    maxAmount: number
+  ): Promise<BidPlacementResult & { autoBidId: string; maxAmount: number }> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const auction = await Auction.findByPk(auctionId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
       }
 
-      // Check if bidder is verified
-      if (!bidder.isVerified) {
-        throw new ApiResponse(403, 'Please verify your account before bidding');
+      const bidder = await this.assertCanBid(auction, bidderId, transaction);
+      const format = getAuctionFormat(auction.format);
+
+      if (!format.supportsProxyBidding) {
+        throw new ApiResponse(400, `Auto-bidding is not available for ${auction.format} auctions`);
       }
 
-      const minBid = auction.getMinNextBid();
-      
-      if (amount < minBid) {
-        throw new ApiResponse(400, `Minimum bid required is ${minBid}`);
+      const isLeader = auction.currentHighestBidderId === bidderId;
+      const minCeiling = isLeader
+        ? Number(auction.currentHighestBid)
+        : format.getNextValidPrice(auction);
+
+      if (isLeader ? maxAmount <= minCeiling : maxAmount < minCeiling) {
+        throw new ApiResponse(400, `Maximum bid must be ${isLeader ? 'greater than' : 'at least'} ${minCeiling}`);
       }
 
+      // The ceiling is what the proxy may end up committing the bidder to
+      await exposureService.assertWithinLimit(bidder, auction, maxAmount, transaction);
+
       const previousHighestBidderId = auction.currentHighestBidderId;
 
-      // Update auction with new bid
-      auction.currentHighestBid = amount;
-      auction.currentHighestBidderId = bidderId;
-      auction.totalBids += 1;
+      // A new ceiling replaces the old one and takes a fresh priority timestamp
+      await AutoBid.update(
+        { status: 'cancelled' },
+        { where: { auctionId, bidderId, status: 'active' }, transaction }
+      );
 
-      // Update total bidders count if this is a new bidder
-      if (previousHighestBidderId !== bidderId) {
-        auction.totalBidders += 1;
+      const autoBid = await AutoBid.create({
+        auctionId,
+        bidderId,
+        maxAmount,
+        status: 'active'
+      } as any, { transaction });
+
+      const steps = await this.resolveProxyBids(auction, transaction);
+
+      let extension: AuctionExtension | null = null;
+      const lastStep = steps[steps.length - 1];
+
+      if (format.closesImmediately(auction)) {
+        await this.closeImmediately(auction, transaction);
+      } else if (lastStep) {
+        extension = await this.applyAutoExtend(auction, lastStep.bidderId, lastStep.bidId, transaction);
       }
 
-      // Check if auction should be extended (if auto-extend is enabled)
-      if (auction.auctionConfig?.autoExtend) {
-        const biddingEndsAt = new Date(auction.timing.biddingEndsAt);
-        const now = new Date();
-        const timeLeft = biddingEndsAt.getTime() - now.getTime();
-        
-        // If less than extension time left, extend the auction
-        if (timeLeft < (auction.auctionConfig.extensionTime * 1000)) {
-          const extensions = auction.metadata?.extensions || 0;
-          
-          if (extensions < (auction.auctionConfig.maxExtensions || 3)) {
-            const newEndTime = new Date(now.getTime() + (auction.auctionConfig.extensionTime * 1000));
-            auction.timing.biddingEndsAt = newEndTime;
-            auction.metadata = {
-              ...auction.metadata,
-              extensions: extensions + 1,
-              lastExtendedAt: now
-            };
-            
-            logger.info(`Auction ${auctionId} extended to ${newEndTime}`);
-          }
+      await auction.save({ transaction });
+
+      logger.info(`Auto-bid set: max ${maxAmount} on auction ${auctionId} by ${bidder.email}`);
+
+      await transaction.commit();
+
+      // A buy-now sale also needs its deposits settled
+      if (extension || auction.status === 'sold') {
+        await schedulerService.scheduleAuction(auction);
+      }
+
+      const ownStep = [...steps].reverse().find(step => step.bidderId === bidderId);
+
+      return {
+        ...this.buildResult(
+          auction,
+          bidderId,
+          ownStep ? ownStep.amount : Number(auction.currentHighestBid),
+          ownStep ? ownStep.bidId : null,
+          previousHighestBidderId,
+          steps,
+          extension
+        ),
+        autoBidId: autoBid.id,
+        maxAmount
+      };
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+
+      logger.error('Error setting auto-bid:', error);
+      throw new ApiResponse(500, 'Failed to set auto-bid');
+    }
+  }
+
+  /**
+   * Bid on a single lot of a multi-lot event. Lots are plain ascending
+   * auctions without proxies; each bid rolls up into the event's counters.
+   */
+  public static async placeLotBid(
+    auctionId: string,
+    lotId: string,
+    bidderId: string,
+    amount: number,
+    metadata: any = {}
+  ): Promise<LotBidPlacementResult> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      // Lock the event before the lot, the same order lots are closed in
+      const auction = await Auction.findByPk(auctionId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
+
+      const lot = await Lot.findOne({
+        where: { id: lotId, auctionId },
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!lot) {
+        throw new ApiResponse(404, 'Lot not found');
+      }
+
+      const bidder = await this.assertCanBid(auction, bidderId, transaction, lot);
+
+      const minBid = lot.getMinNextBid(incrementService.getLadder(auction));
+      if (amount < minBid) {
+        throw new ApiResponse(400, `Minimum bid required is ${minBid}`);
+      }
+
+      await exposureService.assertWithinLimit(bidder, auction, amount, transaction, lot);
+
+      const previousHighestBidderId = lot.currentHighestBidderId;
+      const previousHighestBid = previousHighestBidderId ? Number(lot.currentHighestBid) : 0;
+
+      const previousBidsOnLot = await Bid.count({ where: { lotId, bidderId }, transaction });
+      const previousBidsOnEvent = await Bid.count({ where: { auctionId, bidderId }, transaction });
+
+      await Bid.update(
+        { status: 'outbid' },
+        { where: { lotId, status: { [Op.in]: ['winning', 'active'] } }, transaction }
+      );
+
+      const bid = await Bid.create({
+        auctionId,
+        lotId,
+        bidderId,
+        amount,
+        isAutoBid: false,
+        maxAutoBidAmount: null,
+        status: 'winning',
+        metadata: {
+          ipAddress: metadata.ipAddress || null,
+          userAgent: metadata.userAgent || null,
+          deviceInfo: metadata.deviceInfo || null
         }
+      } as any, { transaction });
+
+      lot.currentHighestBid = amount;
+      lot.currentHighestBidderId = bidderId;
+      lot.totalBids += 1;
+      if (previousBidsOnLot === 0) {
+        lot.totalBidders += 1;
       }
+      const extension = await this.applyLotAutoExtend(auction, lot, bidderId, bid.id, transaction);
+      await lot.save({ transaction });
 
+      // The event's highest bid is the running total of every lot's leading bid
+      auction.currentHighestBid = Number(auction.currentHighestBid) + amount - previousHighestBid;
+      auction.totalBids += 1;
+      if (previousBidsOnEvent === 0) {
+        auction.totalBidders += 1;
+      }
       await auction.save({ transaction });
 
-      // Record the bid (you might want to create a Bid model for this)
-      // For now, we'll just log it
-      logger.info(`Bid placed: ${amount} on auction ${auctionId} by ${bidder.email}`);
+      logger.info(`Bid placed: ${amount} on lot ${lot.lotNumber} of auction ${auctionId} by ${bidder.email} (${bid.id})`);
 
       await transaction.commit();
 
+      if (extension) {
+        await schedulerService.scheduleAuction(auction);
+      }
+
       return {
+        bidId: bid.id,
+        auctionId,
         amount,
         bidderId,
+        isWinning: true,
+        currentHighestBid: amount,
+        currentHighestBidderId: bidderId,
         previousHighestBidderId,
-        auctionTotalBids: auction.totalBids
+        auctionTotalBids: auction.totalBids,
+        auctionStatus: auction.status,
+        soldImmediately: false,
+        sealed: false,
+        extension,
+        steps: [
+          {
+            bidId: bid.id,
+            bidderId,
+            bidderName: `${bidder.firstName} ${bidder.lastName}`,
+            amount,
+            isAutoBid: false,
+            isWinning: true,
+            timestamp: bid.createdAt
+          }
+        ],
+        lotId: lot.id,
+        lotNumber: lot.lotNumber,
+        lotClosesAt: lot.closesAt,
+        lotTotalBids: lot.totalBids
       };
     } catch (error) {
       await transaction.rollback();
-      
+
       if (error instanceof ApiResponse) {
         throw error;
       }
-      
-      logger.error('Error placing bid:', error);
+
+      logger.error('Error placing lot bid:', error);
       throw new ApiResponse(500, 'Failed to place bid');
     }
   }
 
-  public static async getAuctionBids(auctionId: string, filters: any = {}): Promise<any[]> {
+  /**
+   * Shared eligibility checks for anything that places a bid on the bidder's behalf
+   */
+  private static async assertCanBid(
+    auction: Auction,
+    bidderId: string,
+    transaction: Transaction,
+    lot: Lot | null = null
+  ): Promise<User> {
+    if (lot) {
+      // A lot event stays live past biddingEndsAt while its later lots are still open
+      if (auction.status !== 'live' || new Date() < new Date(auction.timing.biddingStartsAt)) {
+        throw new ApiResponse(400, 'Auction is not live');
+      }
+
+      if (!lot.isOpen()) {
+        throw new ApiResponse(400, 'Lot is closed for bidding');
+      }
+    } else if (lotService.isLotEvent(auction)) {
+      throw new ApiResponse(400, 'Bids on this auction must be placed on one of its lots');
+    } else if (!auction.isLive()) {
+      throw new ApiResponse(400, 'Auction is not live');
+    }
+
+    // Get bidder
+    const bidder = await User.findByPk(bidderId, { transaction });
+    if (!bidder) {
+      throw new ApiResponse(404, 'Bidder not found');
+    }
+
+    // Members of the selling company cannot bid on its auctions
+    if (bidder.companyId && bidder.companyId === auction.companyId) {
+      throw new ApiResponse(400, 'Cannot bid on your own auction');
+    }
+
+    // Check if bidder is verified
+    if (!bidder.isVerified) {
+      throw new ApiResponse(403, 'Please verify your account before bidding');
+    }
+
+    await this.assertDepositHeld(auction, bidderId, transaction);
+
+    return bidder;
+  }
+
+  private static async assertDepositHeld(auction: Auction, bidderId: string, transaction: Transaction): Promise<void> {
+    const depositRequired = depositService.getRequiredDeposit(auction);
+    if (depositRequired > 0 && !(await depositService.hasActiveDeposit(auction.id, bidderId, transaction))) {
+      throw new ApiResponse(402, `A deposit of ${depositRequired} is required before bidding on this auction`);
+    }
+  }
+
+  /**
+   * A proxy may have been set long before it bids, so its deposit and
+   * credit are checked again at the price it is about to lead with.
+   * Returns false (and cancels the proxy) when it no longer qualifies.
+   */
+  private static async proxyMayLead(
+    auction: Auction,
+    bidderId: string,
+    amount: number,
+    transaction: Transaction
+  ): Promise<boolean> {
+    try {
+      const bidder = await User.findByPk(bidderId, { transaction });
+
+      if (!bidder) {
+        throw new ApiResponse(404, 'Bidder not found');
+      }
+
+      await this.assertDepositHeld(auction, bidderId, transaction);
+      await exposureService.assertWithinLimit(bidder, auction, amount, transaction);
+
+      return true;
+    } catch (error) {
+      if (!(error instanceof ApiResponse)) {
+        throw error;
+      }
+
+      await AutoBid.update(
+        { status: 'cancelled' },
+        { where: { auctionId: auction.id, bidderId, status: 'active' }, transaction }
+      );
+
+      logger.info(`Auto-bid by ${bidderId} on auction ${auction.id} cancelled: ${error.message}`);
+
+      return false;
+    }
+  }
+
+  /**
+   * Write a row to the bid ledger and apply it to the (locked) auction.
+   * A leading bid flips the previous leader to outbid; a non-leading bid is
+   * recorded as already outbid (a proxy pushed to its ceiling and beaten),
+   * except sealed bids, which stay active and unranked until close.
+   */
+  private static async recordBid(
+    auction: Auction,
+    bidderId: string,
+    amount: number,
+    options: {
+      isAutoBid: boolean;
+      maxAutoBidAmount: number | null;
+      leading: boolean;
+      sealed?: boolean;
+      metadata?: any;
+    },
+    transaction: Transaction
+  ): Promise<Bid> {
+    const metadata = options.metadata || {};
+
+    // Count distinct bidders from the ledger rather than leader changes
+    const previousBidsByBidder = await Bid.count({
+      where: { auctionId: auction.id, bidderId },
+      transaction
+    });
+
+    if (options.leading) {
+      // Flip the previous leader(s) to outbid before recording the new leader
+      await Bid.update(
+        { status: 'outbid' },
+        {
+          where: { auctionId: auction.id, status: { [Op.in]: ['winning', 'active'] } },
+          transaction
+        }
+      );
+    }
+
+    const bid = await Bid.create({
+      auctionId: auction.id,
+      bidderId,
+      amount,
+      isAutoBid: options.isAutoBid,
+      maxAutoBidAmount: options.maxAutoBidAmount,
+      status: options.leading ? 'winning' : options.sealed ? 'active' : 'outbid',
+      metadata: {
+        ipAddress: metadata.ipAddress || null,
+        userAgent: metadata.userAgent || null,
+        deviceInfo: metadata.deviceInfo || null
+      }
+    } as any, { transaction });
+
+    if (options.leading) {
+      auction.currentHighestBid = amount;
+      auction.currentHighestBidderId = bidderId;
+    }
+
+    auction.totalBids += 1;
+
+    // Update total bidders count if this is a new bidder
+    if (previousBidsByBidder === 0) {
+      auction.totalBidders += 1;
+    }
+
+    return bid;
+  }
+
+  /**
+   * Proxy bidding engine. Competing ceilings are settled in a single pass:
+   * the highest ceiling wins (ties go to the earlier registration) at one
+   * increment above the runner-up's ceiling, capped at its own ceiling.
+   * A proxy that no longer passes the deposit or credit checks is cancelled
+   * and the contest is settled again without it. Also re-run after a
+   * retraction rolls the price back.
+   * Must be called with the auction row locked.
+   */
+  public static async resolveProxyBids(
+    auction: Auction,
+    transaction: Transaction
+  ): Promise<BidStep[]> {
+    const currentPrice = Number(auction.currentHighestBid);
+    const leaderId = auction.currentHighestBidderId;
+
+    const proxies = await AutoBid.findAll({
+      where: { auctionId: auction.id, status: 'active' },
+      order: [['createdAt', 'ASC']],
+      transaction
+    });
+
+    if (proxies.length === 0) {
+      return [];
+    }
+
+    const contenders: ProxyContender[] = [];
+    let leadingBidAt: Date | null = null;
+
+    if (leaderId) {
+      const leaderProxy = proxies.find(proxy => proxy.bidderId === leaderId);
+      const leadingBid = await Bid.findOne({
+        where: { auctionId: auction.id, bidderId: leaderId, status: 'winning' },
+        order: [['createdAt', 'DESC']],
+        transaction
+      });
+      const leaderCeiling = Math.max(currentPrice, Number(leaderProxy?.maxAmount || 0));
+      leadingBidAt = leadingBid?.createdAt || new Date();
+
+      contenders.push({
+        bidderId: leaderId,
+        ceiling: leaderCeiling,
+        priorityAt: leaderProxy && Number(leaderProxy.maxAmount) >= currentPrice
+          ? leaderProxy.createdAt
+          : leadingBidAt,
+        isLeader: true
+      });
+    }
+
+    const leaderPriority = contenders[0]?.priorityAt;
+
+    for (const proxy of proxies) {
+      if (proxy.bidderId === leaderId) continue;
+
+      const ceiling = Number(proxy.maxAmount);
+      const beatsPrice = leaderId ? ceiling > currentPrice : ceiling >= getMinNextBid(auction);
+      const winsTie = !!leaderPriority && ceiling === currentPrice && proxy.createdAt < leaderPriority;
+
+      if (beatsPrice || winsTie) {
+        contenders.push({
+          bidderId: proxy.bidderId,
+          ceiling,
+          priorityAt: proxy.createdAt,
+          isLeader: false
+        });
+      }
+    }
+
+    let top: ProxyContender | undefined;
+    let runnerUp: ProxyContender | undefined;
+    let finalPrice = currentPrice;
+
+    for (;;) {
+      contenders.sort((a, b) =>
+        b.ceiling - a.ceiling || a.priorityAt.getTime() - b.priorityAt.getTime()
+      );
+
+      [top, runnerUp] = contenders;
+
+      if (!top || (top.isLeader && !runnerUp)) {
+        return [];
+      }
+
+      // The winning proxy clears the runner-up by the ladder's step at that price
+      finalPrice = runnerUp
+        ? Math.min(top.ceiling, runnerUp.ceiling + incrementService.getIncrement(auction, runnerUp.ceiling))
+        : Math.min(top.ceiling, getMinNextBid(auction));
+
+      if ((top.isLeader && finalPrice <= currentPrice) || await this.proxyMayLead(auction, top.bidderId, finalPrice, transaction)) {
+        break;
+      }
+
+      if (top.isLeader) {
+        // The leader keeps their standing bid, just not the proxy behind it
+        top.ceiling = currentPrice;
+        top.priorityAt = leadingBidAt || new Date();
+      } else {
+        contenders.splice(contenders.indexOf(top), 1);
+      }
+    }
+
+    const ledger: Array<{ bid: Bid; leading: boolean }> = [];
+
+    // The runner-up's proxy is pushed to its ceiling before being beaten
+    if (runnerUp && (!runnerUp.isLeader || runnerUp.ceiling > currentPrice)) {
+      const bid = await this.recordBid(auction, runnerUp.bidderId, runnerUp.ceiling, {
+        isAutoBid: true,
+        maxAutoBidAmount: runnerUp.ceiling,
+        leading: false
+      }, transaction);
+      ledger.push({ bid, leading: false });
+    }
+
+    const winningBid = await this.recordBid(auction, top.bidderId, finalPrice, {
+      isAutoBid: true,
+      maxAutoBidAmount: top.ceiling,
+      leading: true
+    }, transaction);
+    ledger.push({ bid: winningBid, leading: true });
+
+    // Every other ceiling is now at or below the price and can never lead again
+    await AutoBid.update(
+      { status: 'outbid' },
+      {
+        where: {
+          auctionId: auction.id,
+          status: 'active',
+          bidderId: { [Op.ne]: top.bidderId }
+        },
+        transaction
+      }
+    );
+
+    logger.info(`Proxy bidding resolved on auction ${auction.id}: ${top.bidderId} leads at ${finalPrice}`);
+
+    const bidders = await User.findAll({
+      where: { id: ledger.map(entry => entry.bid.bidderId) },
+      attributes: ['id', 'firstName', 'lastName'],
+      transaction
+    });
+
+    return ledger.map(({ bid, leading }) => {
+      const bidder = bidders.find(user => user.id === bid.bidderId);
+
+      return {
+        bidId: bid.id,
+        bidderId: bid.bidderId,
+        bidderName: bidder ? `${bidder.firstName} ${bidder.lastName}` : 'Unknown bidder',
+        amount: Number(bid.amount),
+        isAutoBid: true,
+        isWinning: leading,
+        timestamp: bid.createdAt
+      };
+    });
+  }
+
+  /**
+   * Soft close: work out the new deadline when a bid lands within the final
+   * `extensionTrigger` seconds (defaults to extensionTime). In 'fixed' mode
+   * the deadline moves back by extensionTime; in 'after_last_bid' mode it
+   * becomes extensionTime after the bid. Returns null when no extension applies.
+   */
+  private static getExtendedDeadline(config: any, deadline: Date, extensions: number, now: Date): Date | null {
+    if (!config?.autoExtend) {
+      return null;
+    }
+
+    const extensionMs = Number(config.extensionTime || 0) * 1000;
+    const triggerMs = Number(config.extensionTrigger ?? config.extensionTime ?? 0) * 1000;
+
+    if (extensionMs <= 0 || deadline.getTime() - now.getTime() >= triggerMs) {
+      return null;
+    }
+
+    if (!config.unlimitedExtensions && extensions >= (config.maxExtensions ?? 3)) {
+      return null;
+    }
+
+    const extendedTo = config.extensionMode === 'fixed'
+      ? new Date(deadline.getTime() + extensionMs)
+      : new Date(now.getTime() + extensionMs);
+
+    return extendedTo > deadline ? extendedTo : null;
+  }
+
+  /**
+   * Extend the auction's closing time for a late bid and log the extension
+   * in the auction's history
+   */
+  private static async applyAutoExtend(
+    auction: Auction,
+    bidderId: string,
+    bidId: string | null,
+    transaction: Transaction
+  ): Promise<AuctionExtension | null> {
+    const now = new Date();
+    const previousEndsAt = new Date(auction.timing.biddingEndsAt);
+    const extensions = auction.metadata?.extensions || 0;
+    const biddingEndsAt = this.getExtendedDeadline(auction.auctionConfig, previousEndsAt, extensions, now);
+
+    if (!biddingEndsAt) {
+      return null;
+    }
+
+    auction.timing = { ...auction.timing, biddingEndsAt };
+    auction.metadata = {
+      ...auction.metadata,
+      extensions: extensions + 1,
+      lastExtendedAt: now
+    };
+
+    const extension: AuctionExtension = {
+      previousEndsAt,
+      biddingEndsAt,
+      extensions: extensions + 1,
+      triggeredBy: bidderId,
+      bidId,
+      lotId: null
+    };
+
+    await this.recordExtension(auction, extension, transaction);
+
+    logger.info(`Auction ${auction.id} extended to ${biddingEndsAt}`);
+
+    return extension;
+  }
+
+  /**
+   * Per-lot soft close: a late bid pushes back only that lot's close, so
+   * the staggered lots behind it keep their own schedule
+   */
+  private static async applyLotAutoExtend(
+    auction: Auction,
+    lot: Lot,
+    bidderId: string,
+    bidId: string,
+    transaction: Transaction
+  ): Promise<AuctionExtension | null> {
+    if (!lot.closesAt) {
+      return null;
+    }
+
+    const now = new Date();
+    const previousEndsAt = new Date(lot.closesAt);
+    const extensions = lot.metadata?.extensions || 0;
+    const closesAt = this.getExtendedDeadline(auction.auctionConfig, previousEndsAt, extensions, now);
+
+    if (!closesAt) {
+      return null;
+    }
+
+    lot.closesAt = closesAt;
+    lot.metadata = {
+      ...lot.metadata,
+      extensions: extensions + 1,
+      lastExtendedAt: now
+    };
+
+    const extension: AuctionExtension = {
+      previousEndsAt,
+      biddingEndsAt: closesAt,
+      extensions: extensions + 1,
+      triggeredBy: bidderId,
+      bidId,
+      lotId: lot.id
+    };
+
+    await this.recordExtension(auction, extension, transaction);
+
+    logger.info(`Lot ${lot.id} of auction ${auction.id} extended to ${closesAt}`);
+
+    return extension;
+  }
+
+  // Extensions go in the status history (status unchanged) so they show up in the auction's timeline
+  private static async recordExtension(
+    auction: Auction,
+    extension: AuctionExtension,
+    transaction: Transaction
+  ): Promise<void> {
+    await auctionStateService.record(auction.id, auction.status, auction.status, {
+      actorId: extension.triggeredBy,
+      actorRole: 'bidder',
+      reason: extension.lotId ? 'Lot bidding extended by a late bid' : 'Bidding extended by a late bid',
+      metadata: {
+        event: 'extension',
+        bidId: extension.bidId,
+        lotId: extension.lotId,
+        previousEndsAt: extension.previousEndsAt,
+        biddingEndsAt: extension.biddingEndsAt,
+        extensions: extension.extensions,
+        mode: auction.auctionConfig?.extensionMode || 'after_last_bid'
+      }
+    }, transaction);
+  }
+
+  /**
+   * Sell to the current leader immediately, when the buy-now price is
+   * reached or a Dutch auction's ask is accepted
+   */
+  private static async closeImmediately(auction: Auction, transaction: Transaction): Promise<void> {
+    const now = new Date();
+    const endReason = auction.format === 'dutch' ? 'dutch_accept' : 'buy_now';
+
+    auction.winnerId = auction.currentHighestBidderId;
+    auction.winnerAmount = Number(auction.currentHighestBid);
+    auction.finalAmount = Number(auction.currentHighestBid);
+
+    await auctionStateService.transition(auction, 'sold', {
+      actorId: auction.winnerId,
+      actorRole: 'bidder',
+      reason: endReason === 'dutch_accept' ? 'Dutch auction price accepted' : 'Buy-now price reached',
+      metadata: { amount: auction.winnerAmount }
+    }, transaction);
+
+    auction.timing = { ...auction.timing, biddingEndsAt: now };
+    auction.metadata = {
+      ...auction.metadata,
+      endReason,
+      endedAt: now
+    };
+
+    // Remaining proxy ceilings can no longer bid
+    await AutoBid.update(
+      { status: 'cancelled' },
+      { where: { auctionId: auction.id, status: 'active' }, transaction }
+    );
+
+    logger.info(`Auction ${auction.id} sold (${endReason}) to ${auction.winnerId} at ${auction.winnerAmount}`);
+  }
+
+  private static buildResult(
+    auction: Auction,
+    bidderId: string,
+    amount: number,
+    bidId: string | null,
+    previousHighestBidderId: string | null,
+    steps: BidStep[],
+    extension: AuctionExtension | null = null
+  ): BidPlacementResult {
+    return {
+      bidId,
+      auctionId: auction.id,
+      amount,
+      bidderId,
+      isWinning: auction.currentHighestBidderId === bidderId,
+      currentHighestBid: Number(auction.currentHighestBid),
+      currentHighestBidderId: auction.currentHighestBidderId,
+      previousHighestBidderId,
+      auctionTotalBids: auction.totalBids,
+      auctionStatus: auction.status,
+      soldImmediately: auction.status === 'sold',
+      sealed: getAuctionFormat(auction.format).sealed,
+      extension,
+      steps
+    };
+  }
+
+  /**
+   * Sealed bids are only visible to their own bidder (and admins) until the
+   * auction closes. Returns the bidder the listing must be narrowed to, if any.
+   */
+  public static assertBidsVisible(auction: Auction, viewer?: BidViewer | null): string | null {
+    const format = getAuctionFormat(auction.format);
+    const revealed = ['ended', 'sold', 'cancelled'].includes(auction.status);
+
+    if (!format.sealed || revealed || viewer?.role === 'admin') {
+      return null;
+    }
+
+    if (!viewer || (viewer.companyId && viewer.companyId === auction.companyId)) {
+      throw new ApiResponse(403, 'Bids are sealed until the auction closes');
+    }
+
+    return viewer.id;
+  }
+
+  public static async getAuctionBids(
+    auctionId: string,
+    filters: any = {},
+    viewer: BidViewer | null = null
+  ): Promise<{ bids: Bid[]; total: number }> {
     try {
       const auction = await Auction.findByPk(auctionId);
       
@@ -125,16 +942,62 @@ export class BidService {
         throw new ApiResponse(404, 'Auction not found');
       }
 
-      // In a real implementation, you would query a Bid model
-      // For now, return mock data or implement with a Bid model
-      return [
-        {
-          id: 'bid_1',
-          amount: auction.currentHighestBid,
-          bidderId: auction.currentHighestBidderId,
-          timestamp: new Date()
-        }
-      ];
+      const sealedBidderId = this.assertBidsVisible(auction, viewer);
+
+      const {
+        status,
+        bidderId,
+        lotId,
+        minAmount,
+        maxAmount,
+        limit = 20,
+        offset = 0,
+        sortBy = 'createdAt',
+        sortOrder = 'DESC'
+      } = filters;
+
+      const query: any = { auctionId };
+
+      if (status && status !== 'all') {
+        query.status = status;
+      }
+
+      if (bidderId) {
+        query.bidderId = bidderId;
+      }
+
+      if (lotId) {
+        query.lotId = lotId;
+      }
+
+      if (sealedBidderId) {
+        query.bidderId = sealedBidderId;
+      }
+
+      if (minAmount || maxAmount) {
+        query.amount = {};
+        if (minAmount) query.amount[Op.gte] = parseFloat(minAmount);
+        if (maxAmount) query.amount[Op.lte] = parseFloat(maxAmount);
+      }
+
+      const validSortFields = ['createdAt', 'amount'];
+      const sortField = validSortFields.includes(sortBy) ? sortBy : 'createdAt';
+      const order = sortOrder.toString().toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
+
+      const { rows, count } = await Bid.findAndCountAll({
+        where: query,
+        limit: parseInt(limit.toString()),
+        offset: parseInt(offset.toString()),
+        order: [[sortField, order]],
+        include: [
+          {
+            association: 'bidder',
+            attributes: ['id', 'firstName', 'lastName', 'profilePicture']
+          }
+        ]
+      });
+
+      return { bids: rows, total: count };
     } catch (error) {
       if (error instanceof ApiResponse) {
         throw error;
@@ -144,7 +1007,10 @@ export class BidService {
     }
   }
 
-  public static async getUserBids(userId: string, filters: any = {}): Promise<any[]> {
+  public static async getUserBids(
+    userId: string,
+    filters: any = {}
+  ): Promise<{ bids: Bid[]; total: number }> {
     try {
       const user = await User.findByPk(userId);
       
@@ -152,28 +1018,38 @@ export class BidService {
         throw new ApiResponse(404, 'User not found');
       }
 
-      // Find auctions where user is the highest bidder
-      const auctions = await Auction.findAll({
-        where: {
-          currentHighestBidderId: userId
-        },
+      const { status, auctionId, limit = 20, offset = 0 } = filters;
+
+      const query: any = { bidderId: userId };
+
+      if (status && status !== 'all') {
+        query.status = status;
+      }
+
+      if (auctionId) {
+        query.auctionId = auctionId;
+      }
+
+      const { rows, count } = await Bid.findAndCountAll({
+        where: query,
+        limit: parseInt(limit.toString()),
+        offset: parseInt(offset.toString()),
+        order: [['createdAt', 'DESC']],
         include: [
           {
-            association: 'company',
-            attributes: ['id', 'firstName', 'lastName', 'email']
+            association: 'auction',
+            attributes: ['id', 'title', 'category', 'status', 'currentHighestBid', 'timing'],
+            include: [
+              {
+                association: 'company',
+                attributes: ['id', 'name', 'email']
+              }
+            ]
           }
-        ],
-        order: [['updatedAt', 'DESC']]
+        ]
       });
 
-      return auctions.map(auction => ({
-        auctionId: auction.id,
-        auctionTitle: auction.title,
-        amount: auction.currentHighestBid,
-        status: auction.status,
-        bidPlacedAt: auction.updatedAt,
-        auction: auction.toJSON()
-      }));
+      return { bids: rows, total: count };
     } catch (error) {
       if (error instanceof ApiResponse) {
         throw error;
@@ -0,0 +1,68 @@
+import { Transaction } from 'sequelize';
+import CompanyAuditLog from '../database/models/CompanyAuditLog';
+import { ApiResponse } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export interface AuditTarget {
+  type: string;
+  id: string;
+}
+
+/**
+ * Who in a company's team did what: membership changes and the auctions
+ * they manage. Recording never fails the action being recorded.
+ */
+export class CompanyAuditService {
+  public static async record(
+    companyId: string,
+    actorId: string | null,
+    action: string,
+    target: AuditTarget | null = null,
+    details: any = {},
+    transaction: Transaction | null = null
+  ): Promise<void> {
+    try {
+      await CompanyAuditLog.create({
+        companyId,
+        actorId,
+        action,
+        targetType: target?.type || null,
+        targetId: target?.id || null,
+        details
+      } as any, { transaction });
+    } catch (error) {
+      logger.error(`Error recording company audit entry ${action} for ${companyId}:`, error);
+    }
+  }
+
+  public static async getLog(companyId: string, filters: any = {}): Promise<{ entries: CompanyAuditLog[]; total: number }> {
+    try {
+      const { actorId, action, targetId, limit = 50, offset = 0 } = filters;
+      const where: any = { companyId };
+
+      if (actorId) where.actorId = actorId;
+      if (action) where.action = action;
+      if (targetId) where.targetId = targetId;
+
+      const { rows, count } = await CompanyAuditLog.findAndCountAll({
+        where,
+        limit: parseInt(limit),
+        offset: parseInt(offset),
+        order: [['createdAt', 'DESC']],
+        include: [
+          {
+            association: 'actor',
+            attributes: ['id', 'firstName', 'lastName', 'email']
+          }
+        ]
+      });
+
+      return { entries: rows, total: count };
+    } catch (error) {
+      logger.error('Error getting company audit log:', error);
+      throw new ApiResponse(500, 'Failed to fetch audit log');
+    }
+  }
+}
+
+export const companyAuditService = CompanyAuditService;
\ No newline at end of file
@@ -0,0 +1,364 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import Company from '../database/models/Company';
+import CompanyInvitation from '../database/models/CompanyInvitation';
+import CompanyMember, { CompanyMemberRole } from '../database/models/CompanyMember';
+import User from '../database/models/User';
+import { companyAuditService } from './companyAudit.service';
+import { mailService } from './mail.service';
+import { ApiResponse, generateToken, hashToken } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:3000';
+const INVITATION_TTL_MS = parseInt(process.env.COMPANY_INVITATION_TTL_DAYS || '7') * 24 * 60 * 60 * 1000;
+
+interface Actor {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface CompanyTeam {
+  members: CompanyMember[];
+  invitations: CompanyInvitation[];
+}
+
+/**
+ * Company teams. Every company has its account holder (Company.userId) as
+ * an owner; further members join through emailed invitations and hold one
+ * role each. A user belongs to at most one company, mirrored on
+ * User.companyId, and joining makes them a company user.
+ */
+export class CompanyMemberService {
+  public static async getMembership(companyId: string, userId: string): Promise<CompanyMember | null> {
+    return CompanyMember.findOne({ where: { companyId, userId } });
+  }
+
+  // The member who settlements, invoices and payouts are made out to
+  public static async getAccountHolderId(companyId: string, transaction: Transaction | null = null): Promise<string> {
+    const company = await Company.findByPk(companyId, { attributes: ['id', 'userId'], transaction });
+
+    if (!company) {
+      throw new ApiResponse(404, 'Company not found');
+    }
+
+    return company.userId;
+  }
+
+  public static async getTeam(companyId: string): Promise<CompanyTeam> {
+    try {
+      const [members, invitations] = await Promise.all([
+        CompanyMember.findAll({
+          where: { companyId },
+          order: [['createdAt', 'ASC']],
+          include: [
+            {
+              association: 'user',
+              attributes: ['id', 'firstName', 'lastName', 'email', 'profilePicture', 'lastLogin']
+            }
+          ]
+        }),
+        CompanyInvitation.findAll({
+          where: { companyId, acceptedAt: null, revokedAt: null, expiresAt: { [Op.gt]: new Date() } },
+          order: [['createdAt', 'DESC']]
+        })
+      ]);
+
+      return { members, invitations };
+    } catch (error) {
+      logger.error('Error getting company team:', error);
+      throw new ApiResponse(500, 'Failed to fetch team');
+    }
+  }
+
+  /**
+   * Email an invitation. Managers may invite anyone but another owner.
+   * A new invitation to the same address replaces any pending one.
+   */
+  public static async invite(
+    companyId: string,
+    email: string,
+    role: CompanyMemberRole,
+    actor: Actor,
+    actorRole: CompanyMemberRole | 'admin'
+  ): Promise<CompanyInvitation> {
+    try {
+      if (role === 'owner' && !['owner', 'admin'].includes(actorRole)) {
+        throw new ApiResponse(403, 'Only owners can invite owners');
+      }
+
+      const company = await Company.findByPk(companyId);
+
+      if (!company) {
+        throw new ApiResponse(404, 'Company not found');
+      }
+
+      const existing = await User.findOne({ where: { email }, attributes: ['id', 'companyId'] });
+
+      if (existing?.companyId === companyId) {
+        throw new ApiResponse(409, 'That user is already a member');
+      }
+
+      const token = generateToken(32);
+
+      await CompanyInvitation.update(
+        { revokedAt: new Date() },
+        { where: { companyId, email, acceptedAt: null, revokedAt: null } }
+      );
+
+      const invitation = await CompanyInvitation.create({
+        companyId,
+        email,
+        role,
+        tokenHash: hashToken(token),
+        invitedBy: actor.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS)
+      } as any);
+
+      await mailService.send('company_invitation', email, {
+        firstName: 'there',
+        inviterName: `${actor.firstName || ''} ${actor.lastName || ''}`.trim() || 'A colleague',
+        companyName: company.name,
+        role,
+        url: `${CLIENT_URL}/company-invitations/${token}`,
+        expiresInDays: INVITATION_TTL_MS / 86400000
+      });
+
+      await companyAuditService.record(companyId, actor.id, 'member.invited', { type: 'invitation', id: invitation.id }, { email, role });
+
+      return invitation;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error inviting company member:', error);
+      throw new ApiResponse(500, 'Failed to send invitation');
+    }
+  }
+
+  public static async revokeInvitation(companyId: string, invitationId: string, actor: Actor): Promise<CompanyInvitation> {
+    try {
+      const invitation = await CompanyInvitation.findOne({ where: { id: invitationId, companyId } });
+
+      if (!invitation || !invitation.isPending()) {
+        throw new ApiResponse(404, 'Invitation not found');
+      }
+
+      await invitation.update({ revokedAt: new Date() });
+
+      await companyAuditService.record(companyId, actor.id, 'invitation.revoked', { type: 'invitation', id: invitation.id }, {
+        email: invitation.email,
+        role: invitation.role
+      });
+
+      return invitation;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error revoking invitation:', error);
+      throw new ApiResponse(500, 'Failed to revoke invitation');
+    }
+  }
+
+  /**
+   * Join a company with a mailed invitation. The signed-in account must
+   * use the invited address and must not already belong to a company.
+   */
+  public static async acceptInvitation(token: string, userId: string): Promise<CompanyMember> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const invitation = await CompanyInvitation.findOne({
+        where: { tokenHash: hashToken(token || '') },
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!invitation || !invitation.isPending()) {
+        throw new ApiResponse(400, 'Invalid or expired invitation');
+      }
+
+      const user = await User.findByPk(userId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!user) {
+        throw new ApiResponse(404, 'User not found');
+      }
+
+      if (user.email.toLowerCase() !== invitation.email.toLowerCase()) {
+        throw new ApiResponse(403, 'This invitation was sent to a different email address');
+      }
+
+      if (user.role === 'admin') {
+        throw new ApiResponse(400, 'Admin accounts cannot join a company');
+      }
+
+      if (user.companyId) {
+        throw new ApiResponse(409, 'Leave your current company before joining another');
+      }
+
+      const member = await CompanyMember.create({
+        companyId: invitation.companyId,
+        userId: user.id,
+        role: invitation.role,
+        invitedBy: invitation.invitedBy
+      } as any, { transaction });
+
+      await user.update({ companyId: invitation.companyId, role: 'company' }, { transaction });
+      await invitation.update({ acceptedAt: new Date(), acceptedBy: user.id }, { transaction });
+
+      await companyAuditService.record(invitation.companyId, user.id, 'member.joined', { type: 'user', id: user.id }, {
+        role: invitation.role,
+        invitationId: invitation.id
+      }, transaction);
+
+      await transaction.commit();
+
+      logger.info(`User ${user.id} joined company ${invitation.companyId} as ${invitation.role}`);
+
+      return member;
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error accepting invitation:', error);
+      throw new ApiResponse(500, 'Failed to accept invitation');
+    }
+  }
+
+  public static async updateMemberRole(
+    companyId: string,
+    userId: string,
+    role: CompanyMemberRole,
+    actor: Actor
+  ): Promise<CompanyMember> {
+    try {
+      const member = await this.findChangeableMember(companyId, userId);
+      const from = member.role;
+
+      await member.update({ role });
+
+      await companyAuditService.record(companyId, actor.id, 'member.role_changed', { type: 'user', id: userId }, { from, to: role });
+
+      return member;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error updating member role:', error);
+      throw new ApiResponse(500, 'Failed to update member role');
+    }
+  }
+
+  // Remove a member, or leave when userId is the actor's own
+  public static async removeMember(companyId: string, userId: string, actor: Actor): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const member = await this.findChangeableMember(companyId, userId, transaction);
+      const user = await User.findByPk(userId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      await member.destroy({ transaction });
+
+      if (user) {
+        await user.update({
+          companyId: null,
+          role: user.role === 'company' ? 'bidder' : user.role
+        }, { transaction });
+      }
+
+      await companyAuditService.record(
+        companyId,
+        actor.id,
+        actor.id === userId ? 'member.left' : 'member.removed',
+        { type: 'user', id: userId },
+        { role: member.role },
+        transaction
+      );
+
+      await transaction.commit();
+
+      logger.info(`User ${userId} removed from company ${companyId} by ${actor.id}`);
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error removing member:', error);
+      throw new ApiResponse(500, 'Failed to remove member');
+    }
+  }
+
+  /**
+   * Make a company's account holder its first owner. Safe to call again.
+   */
+  public static async addAccountHolder(company: Company, transaction: Transaction | null = null): Promise<CompanyMember> {
+    const [member] = await CompanyMember.findOrCreate({
+      where: { userId: company.userId },
+      defaults: { companyId: company.id, userId: company.userId, role: 'owner', invitedBy: null } as any,
+      transaction
+    });
+
+    if (member.companyId !== company.id) {
+      throw new ApiResponse(409, 'The account holder already belongs to another company');
+    }
+
+    await User.update({ companyId: company.id }, { where: { id: company.userId }, transaction });
+
+    return member;
+  }
+
+  /**
+   * Bring companies from before teams existed over: their account holder
+   * becomes an owner. Their auctions and fee schedules are moved to the
+   * company by a migration, before the models are synced.
+   */
+  public static async syncAccountHolders(): Promise<void> {
+    try {
+      const companies = await Company.findAll({ attributes: ['id', 'userId', 'name'] });
+      const owners = await CompanyMember.findAll({ where: { role: 'owner' }, attributes: ['companyId', 'userId'] });
+      const synced = new Set(owners.map(owner => `${owner.companyId}:${owner.userId}`));
+
+      for (const company of companies) {
+        if (synced.has(`${company.id}:${company.userId}`)) {
+          continue;
+        }
+
+        const transaction = await sequelize.transaction();
+
+        try {
+          await this.addAccountHolder(company, transaction);
+
+          await transaction.commit();
+
+          logger.info(`Company ${company.id} moved to teams: account holder ${company.userId} is owner`);
+        } catch (error) {
+          await transaction.rollback();
+          logger.error(`Error moving company ${company.id} to teams:`, error);
+        }
+      }
+    } catch (error) {
+      logger.error('Error syncing company account holders:', error);
+    }
+  }
+
+  // The account holder receives payouts, so cannot be demoted or removed
+  private static async findChangeableMember(companyId: string, userId: string, transaction: Transaction | null = null): Promise<CompanyMember> {
+    const member = await CompanyMember.findOne({ where: { companyId, userId }, transaction });
+
+    if (!member) {
+      throw new ApiResponse(404, 'Member not found');
+    }
+
+    if (userId === await this.getAccountHolderId(companyId, transaction)) {
+      throw new ApiResponse(400, 'The account holder cannot be demoted or removed');
+    }
+
+    return member;
+  }
+}
+
+export const companyMemberService = CompanyMemberService;
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { Op, Transaction } from 'sequelize';
+import Auction from '../database/models/Auction';
+import BidderDeposit from '../database/models/BidderDeposit';
+import Lot from '../database/models/Lot';
+import Payment, { PaymentProviderName } from '../database/models/Payment';
+import User from '../database/models/User';
+import { paymentService, DepositHold } from './payment.service';
+import { ApiResponse } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+const CLOSED_STATUSES = ['ended', 'sold', 'cancelled'];
+
+export interface DepositRequest {
+  deposit: BidderDeposit;
+  clientSecret: string | null;
+  orderId: string;
+}
+
+/**
+ * Earnest-money deposits. Auctions with `auctionConfig.depositRequired`
+ * only accept bids from bidders holding a deposit; once the auction closes
+ * the winner's deposit is captured towards their invoice and every other
+ * deposit is given back.
+ */
+export class DepositService {
+  public static getRequiredDeposit(auction: Auction): number {
+    return Number(auction.auctionConfig?.depositRequired || 0);
+  }
+
+  /**
+   * Start a deposit for a bidder. The deposit counts once the provider
+   * confirms the hold (Stripe webhook) or payment (Razorpay verification).
+   * Without a provider, the one routed for the auction's currency is used.
+   */
+  public static async createDeposit(
+    auctionId: string,
+    bidderId: string,
+    provider?: PaymentProviderName | null
+  ): Promise<DepositRequest> {
+    try {
+      const auction = await Auction.findByPk(auctionId);
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
+
+      const amount = this.getRequiredDeposit(auction);
+
+      if (amount <= 0) {
+        throw new ApiResponse(400, 'This auction does not require a deposit');
+      }
+
+      if (CLOSED_STATUSES.includes(auction.status)) {
+        throw new ApiResponse(400, 'Auction is closed');
+      }
+
+      const bidder = await User.findByPk(bidderId, { attributes: ['id', 'companyId'] });
+
+      if (bidder?.companyId && bidder.companyId === auction.companyId) {
+        throw new ApiResponse(400, 'Cannot place a deposit on your own auction');
+      }
+
+      const existing = await BidderDeposit.findOne({
+        where: { auctionId, bidderId, status: 'held' }
+      });
+
+      if (existing) {
+        throw new ApiResponse(409, 'You already hold a deposit for this auction');
+      }
+
+      const hold: DepositHold = await paymentService.createDepositHold({
+        amount,
+        ...(auction.auctionConfig?.currency ? { currency: auction.auctionConfig.currency } : {}),
+        userId: bidderId,
+        auctionId,
+        description: `Deposit for ${auction.title}`,
+        metadata: { auctionId }
+      }, provider);
+
+      // A fresh request supersedes any earlier one the bidder never completed
+      await BidderDeposit.update(
+        { status: 'released', releasedAt: new Date() },
+        { where: { auctionId, bidderId, status: 'pending' } }
+      );
+
+      const deposit = await BidderDeposit.create({
+        auctionId,
+        bidderId,
+        paymentId: hold.payment.id,
+        amount,
+        currency: hold.payment.currency,
+        provider: hold.payment.provider,
+        status: 'pending'
+      } as any);
+
+      logger.info(`Deposit requested: ${amount} on auction ${auctionId} by ${bidderId} via ${hold.payment.provider}`);
+
+      return { deposit, clientSecret: hold.clientSecret || null, orderId: hold.orderId };
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error creating deposit:', error);
+      throw new ApiResponse(500, 'Failed to create deposit');
+    }
+  }
+
+  /**
+   * The bidder's most recent deposit on an auction, if any
+   */
+  public static async getDeposit(auctionId: string, bidderId: string): Promise<BidderDeposit | null> {
+    try {
+      return await BidderDeposit.findOne({
+        where: { auctionId, bidderId },
+        order: [['createdAt', 'DESC']],
+        include: [
+          {
+            association: 'payment',
+            attributes: ['id', 'provider', 'providerOrderId', 'status']
+          }
+        ]
+      });
+    } catch (error) {
+      logger.error('Error getting deposit:', error);
+      throw new ApiResponse(500, 'Failed to fetch deposit');
+    }
+  }
+
+  public static async hasActiveDeposit(auctionId: string, bidderId: string, transaction: Transaction | null = null): Promise<boolean> {
+    const count = await BidderDeposit.count({
+      where: { auctionId, bidderId, status: 'held' },
+      transaction
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Capture the winners' deposits and release everyone else's once the
+   * auction has closed. Each deposit is settled on its own, so a provider
+   * failure leaves the rest done; the error is rethrown so the scheduler
+   * retries whatever is left. Returns false if the auction is not ready.
+   */
+  public static async settleDeposits(auctionId: string): Promise<boolean> {
+    const auction = await Auction.findByPk(auctionId);
+
+    if (!auction || !CLOSED_STATUSES.includes(auction.status) || auction.metadata?.depositsSettledAt) {
+      return false;
+    }
+
+    const winners = await this.getWinners(auction);
+    const deposits = await BidderDeposit.findAll({
+      where: { auctionId, status: { [Op.in]: ['pending', 'held'] } }
+    });
+
+    let failures = 0;
+
+    for (const deposit of deposits) {
+      try {
+        const payment = await Payment.findByPk(deposit.paymentId);
+
+        if (!payment) {
+          throw new Error(`Payment ${deposit.paymentId} not found`);
+        }
+
+        if (deposit.status === 'held' && winners.has(deposit.bidderId)) {
+          await paymentService.captureDepositHold(payment);
+          deposit.status = 'applied';
+          deposit.appliedAt = new Date();
+        } else {
+          await paymentService.releaseDepositHold(payment);
+          deposit.status = 'released';
+          deposit.releasedAt = new Date();
+        }
+
+        await deposit.save();
+      } catch (error) {
+        failures++;
+        logger.error(`Error settling deposit ${deposit.id} on auction ${auctionId}:`, error);
+      }
+    }
+
+    if (failures > 0) {
+      throw new Error(`${failures} deposits on auction ${auctionId} could not be settled`);
+    }
+
+    auction.metadata = { ...auction.metadata, depositsSettledAt: new Date() };
+    await auction.save();
+
+    logger.info(`Deposits settled on auction ${auctionId}: ${deposits.length} processed`);
+
+    return true;
+  }
+
+  /**
+   * Bidders who won the auction, or at least one lot of a lot event
+   */
+  private static async getWinners(auction: Auction): Promise<Set<string>> {
+    const winners = new Set<string>();
+
+    if (auction.status === 'cancelled') {
+      return winners;
+    }
+
+    if (auction.winnerId) {
+      winners.add(auction.winnerId);
+    }
+
+    const soldLots = await Lot.findAll({
+      where: { auctionId: auction.id, status: 'sold' },
+      attributes: ['winnerId']
+    });
+
+    soldLots.forEach(lot => {
+      if (lot.winnerId) winners.add(lot.winnerId);
+    });
+
+    return winners;
+  }
+}
+
+export const depositService = DepositService;
\ No newline at end of file
@@ -0,0 +1,210 @@
+import { Op, Transaction } from 'sequelize';
+import Auction from '../database/models/Auction';
+import Lot from '../database/models/Lot';
+import Payment from '../database/models/Payment';
+import User from '../database/models/User';
+import { ApiResponse } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+// Limits for bidders without an admin-set credit limit, by KYC status
+const KYC_CREDIT_LIMITS: Record<User['kycStatus'], number> = {
+  pending: parseFloat(process.env.CREDIT_LIMIT_KYC_PENDING || '100000'),
+  verified: parseFloat(process.env.CREDIT_LIMIT_KYC_VERIFIED || '1000000'),
+  rejected: parseFloat(process.env.CREDIT_LIMIT_KYC_REJECTED || '0')
+};
+
+export interface ExposureSummary {
+  userId: string;
+  creditLimit: number;
+  // Admin-set limits override the KYC tier
+  limitSource: 'admin' | 'kyc';
+  leading: number;
+  unpaid: number;
+  exposure: number;
+  available: number;
+}
+
+/**
+ * A bidder's exposure is what they would owe if every auction they lead
+ * closed now, plus what they already owe on auctions they won and have
+ * not paid for. Reverse auctions pay the bidder, so they never count.
+ */
+export class ExposureService {
+  public static getCreditLimit(user: User): number {
+    if (user.creditLimit !== null && user.creditLimit !== undefined) {
+      return Number(user.creditLimit);
+    }
+
+    return KYC_CREDIT_LIMITS[user.kycStatus] ?? 0;
+  }
+
+  public static async getLeadingTotal(userId: string, transaction: Transaction | null = null): Promise<number> {
+    const auctions = await Auction.findAll({
+      where: {
+        currentHighestBidderId: userId,
+        status: { [Op.in]: ['live', 'paused'] },
+        format: { [Op.ne]: 'reverse' }
+      },
+      attributes: ['currentHighestBid'],
+      transaction
+    });
+
+    const lots = await Lot.findAll({
+      where: { currentHighestBidderId: userId, status: 'open' },
+      attributes: ['currentHighestBid'],
+      transaction
+    });
+
+    return [...auctions, ...lots].reduce((sum, item) => sum + Number(item.currentHighestBid), 0);
+  }
+
+  /**
+   * What the user still owes on what they won: winning amounts less
+   * completed payments (applied deposits included) on the same auction
+   */
+  public static async getUnpaidTotal(userId: string, transaction: Transaction | null = null): Promise<number> {
+    const owed = new Map<string, number>();
+
+    const auctions = await Auction.findAll({
+      where: {
+        winnerId: userId,
+        status: { [Op.in]: ['ended', 'sold'] },
+        format: { [Op.ne]: 'reverse' }
+      },
+      attributes: ['id', 'finalAmount'],
+      transaction
+    });
+
+    auctions.forEach(auction => {
+      owed.set(auction.id, Number(auction.finalAmount || 0));
+    });
+
+    const lots = await Lot.findAll({
+      where: { winnerId: userId, status: 'sold' },
+      attributes: ['auctionId', 'winnerAmount'],
+      transaction
+    });
+
+    lots.forEach(lot => {
+      owed.set(lot.auctionId, (owed.get(lot.auctionId) || 0) + Number(lot.winnerAmount || 0));
+    });
+
+    if (owed.size === 0) {
+      return 0;
+    }
+
+    const payments = await Payment.findAll({
+      where: {
+        userId,
+        auctionId: { [Op.in]: Array.from(owed.keys()) },
+        // A partial refund does not undo the sale
+        status: { [Op.in]: ['completed', 'partially_refunded'] }
+      },
+      attributes: ['auctionId', 'amount'],
+      transaction
+    });
+
+    payments.forEach(payment => {
+      const auctionId = payment.auctionId as string;
+      owed.set(auctionId, (owed.get(auctionId) || 0) - Number(payment.amount));
+    });
+
+    return Array.from(owed.values()).reduce((sum, amount) => sum + Math.max(0, amount), 0);
+  }
+
+  public static async getSummary(userId: string, transaction: Transaction | null = null): Promise<ExposureSummary> {
+    try {
+      const user = await User.findByPk(userId, { transaction });
+
+      if (!user) {
+        throw new ApiResponse(404, 'User not found');
+      }
+
+      return await this.summarise(user, transaction);
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error getting bidder exposure:', error);
+      throw new ApiResponse(500, 'Failed to fetch exposure');
+    }
+  }
+
+  /**
+   * Reject a bid that would take the bidder past their credit limit. A
+   * bidder raising their own leading bid is only charged the difference.
+   */
+  public static async assertWithinLimit(
+    bidder: User,
+    auction: Auction,
+    amount: number,
+    transaction: Transaction,
+    lot: Lot | null = null
+  ): Promise<void> {
+    if (auction.format === 'reverse') {
+      return;
+    }
+
+    const summary = await this.summarise(bidder, transaction);
+    const target = lot || auction;
+    const alreadyLeading = target.currentHighestBidderId === bidder.id ? Number(target.currentHighestBid) : 0;
+    const projected = summary.exposure - alreadyLeading + amount;
+
+    if (projected > summary.creditLimit) {
+      throw new ApiResponse(
+        402,
+        `This bid would raise your exposure to ${projected}, above your credit limit of ${summary.creditLimit}`,
+        { ...summary, projected }
+      );
+    }
+  }
+
+  /**
+   * Set or clear (null) an admin override of the user's credit limit
+   */
+  public static async setCreditLimit(userId: string, creditLimit: number | null, adminId: string): Promise<ExposureSummary> {
+    try {
+      const user = await User.findByPk(userId);
+
+      if (!user) {
+        throw new ApiResponse(404, 'User not found');
+      }
+
+      if (creditLimit !== null && !(creditLimit >= 0)) {
+        throw new ApiResponse(400, 'Credit limit must be zero or more');
+      }
+
+      user.creditLimit = creditLimit;
+      await user.save();
+
+      logger.info(`Credit limit for ${userId} set to ${creditLimit === null ? 'KYC default' : creditLimit} by ${adminId}`);
+
+      return await this.summarise(user);
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error setting credit limit:', error);
+      throw new ApiResponse(500, 'Failed to set credit limit');
+    }
+  }
+
+  private static async summarise(user: User, transaction: Transaction | null = null): Promise<ExposureSummary> {
+    const creditLimit = this.getCreditLimit(user);
+    const leading = await this.getLeadingTotal(user.id, transaction);
+    const unpaid = await this.getUnpaidTotal(user.id, transaction);
+    const exposure = leading + unpaid;
+
+    return {
+      userId: user.id,
+      creditLimit,
+      limitSource: user.creditLimit !== null && user.creditLimit !== undefined ? 'admin' : 'kyc',
+      leading,
+      unpaid,
+      exposure,
+      available: Math.max(0, creditLimit - exposure)
+    };
+  }
+}
+
+export const exposureService = ExposureService;
\ No newline at end of file
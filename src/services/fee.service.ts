@@ -0,0 +1,472 @@
+import { Op, Transaction } from 'sequelize';
+import Auction from '../database/models/Auction';
+import FeeSchedule, { FeeTier } from '../database/models/FeeSchedule';
+import { AUCTION_CATEGORIES } from './increment.service';
+import { ApiResponse } from '../utils/helpers';
+import sequelize from '../config/database';
+import { logger } from '../utils/logger';
+
+// Used when no fee schedule has been configured at all (fractions, not percentages)
+const FALLBACK_PREMIUM_RATE = parseFloat(process.env.SETTLEMENT_COMMISSION_RATE || '0.05');
+const FALLBACK_TAX_RATE = parseFloat(process.env.SETTLEMENT_TAX_RATE || '0.18');
+
+export type FeeScope = 'company_category' | 'company' | 'category' | 'default' | 'fallback';
+
+export interface FeeLine {
+  code: 'hammer' | 'buyer_premium' | 'buyer_premium_tax' | 'seller_commission';
+  description: string;
+  amount: number;
+  // Who the line is charged to
+  party: 'buyer' | 'seller';
+}
+
+/**
+ * Itemised fees for one sale, stored with the settlement and auction so
+ * the figures never change after the fact
+ */
+export interface FeeBreakdown {
+  scheduleId: string | null;
+  version: number | null;
+  scope: FeeScope;
+  calculatedAt: Date;
+  hammerAmount: number;
+  buyerPremium: number;
+  buyerPremiumTax: number;
+  taxRate: number;
+  sellerCommission: number;
+  // What the buyer pays, and what the seller is left with
+  buyerTotal: number;
+  sellerPayout: number;
+  lines: FeeLine[];
+}
+
+export interface FeeScheduleInput {
+  category?: string | null;
+  companyId?: string | null;
+  buyerPremiumTiers: FeeTier[];
+  buyerPremiumMin?: number | null;
+  buyerPremiumMax?: number | null;
+  sellerCommissionTiers: FeeTier[];
+  sellerCommissionMin?: number | null;
+  sellerCommissionMax?: number | null;
+  taxRate: number;
+  notes?: string | null;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const optionalNumber = (value: any): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+/**
+ * Buyer's premium, seller commission and tax. Schedules are scoped to a
+ * category and/or a company (a negotiated rate) and the most specific one
+ * wins. Rates are never edited in place: each change adds a new version
+ * and retires the old one, so a sale is always priced by the schedule that
+ * was active when it closed.
+ */
+export class FeeService {
+  /**
+   * Marginal rate tables like income tax: each band's rate applies only to
+   * the part of the price inside that band
+   */
+  public static applyTiers(tiers: FeeTier[], amount: number, min: number | null = null, max: number | null = null): number {
+    let fee = 0;
+    let lower = 0;
+
+    for (const tier of this.normalizeTiers(tiers)) {
+      const upper = tier.upTo ?? Infinity;
+      const portion = Math.max(0, Math.min(amount, upper) - lower);
+
+      fee += portion * tier.rate / 100;
+      lower = upper;
+
+      if (amount <= upper) break;
+    }
+
+    if (min !== null) fee = Math.max(fee, Number(min));
+    if (max !== null) fee = Math.min(fee, Number(max));
+
+    return roundMoney(fee);
+  }
+
+  public static normalizeTiers(tiers: FeeTier[]): FeeTier[] {
+    return tiers
+      .map(tier => ({
+        upTo: tier.upTo === null || tier.upTo === undefined ? null : Number(tier.upTo),
+        rate: Number(tier.rate)
+      }))
+      .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  }
+
+  /**
+   * Returns why a rate table is invalid, or null if it can be used
+   */
+  public static validateTiers(tiers: any): string | null {
+    if (!Array.isArray(tiers) || tiers.length === 0) {
+      return 'Fee tiers must be a non-empty array';
+    }
+
+    for (const tier of tiers) {
+      const rate = Number(tier?.rate);
+      if (isNaN(rate) || rate < 0 || rate > 100) {
+        return 'Every tier needs a rate between 0 and 100 percent';
+      }
+      if (tier.upTo !== null && tier.upTo !== undefined && !(Number(tier.upTo) > 0)) {
+        return 'Tier upper bounds must be positive numbers';
+      }
+    }
+
+    const bounds = this.normalizeTiers(tiers).map(tier => tier.upTo);
+
+    if (new Set(bounds).size !== bounds.length) {
+      return 'Tier upper bounds must be unique';
+    }
+
+    if (bounds[bounds.length - 1] !== null) {
+      return 'The last tier must have no upper bound (upTo: null)';
+    }
+
+    return null;
+  }
+
+  /**
+   * The most specific schedule active for the auction at the given time
+   */
+  public static async resolveSchedule(
+    auction: Auction,
+    at: Date = new Date(),
+    transaction: Transaction | null = null
+  ): Promise<FeeSchedule | null> {
+    const candidates = await FeeSchedule.findAll({
+      where: {
+        category: { [Op.or]: [auction.category, null] },
+        companyId: { [Op.or]: [auction.companyId, null] },
+        effectiveFrom: { [Op.lte]: at },
+        supersededAt: { [Op.or]: [null, { [Op.gt]: at }] }
+      } as any,
+      transaction
+    });
+
+    const rank = (schedule: FeeSchedule): number =>
+      (schedule.companyId ? 2 : 0) + (schedule.category ? 1 : 0);
+
+    return candidates.sort((a, b) => rank(b) - rank(a))[0] || null;
+  }
+
+  /**
+   * Price a sale on an auction. Once an auction's fees have been worked out
+   * the same schedule version is reused (e.g. for a second-chance buyer);
+   * otherwise the schedule active when bidding closed applies.
+   */
+  public static async calculateForAuction(
+    auction: Auction,
+    hammerAmount: number,
+    transaction: Transaction | null = null
+  ): Promise<FeeBreakdown> {
+    const recorded = auction.metadata?.fees;
+
+    if (recorded?.scheduleId) {
+      const schedule = await FeeSchedule.findByPk(recorded.scheduleId, { transaction });
+      if (schedule) {
+        return this.calculate(schedule, hammerAmount, recorded.scope);
+      }
+    }
+
+    const closedAt = auction.metadata?.endedAt ? new Date(auction.metadata.endedAt) : new Date();
+    const schedule = await this.resolveSchedule(auction, closedAt, transaction);
+
+    return this.calculate(schedule, hammerAmount, schedule ? this.getScope(schedule) : 'fallback');
+  }
+
+  public static calculate(schedule: FeeSchedule | null, hammerAmount: number, scope: FeeScope): FeeBreakdown {
+    const hammer = roundMoney(hammerAmount);
+    let buyerPremium: number;
+    let sellerCommission: number;
+    let taxRate: number;
+
+    if (schedule) {
+      buyerPremium = this.applyTiers(
+        schedule.buyerPremiumTiers,
+        hammer,
+        optionalNumber(schedule.buyerPremiumMin),
+        optionalNumber(schedule.buyerPremiumMax)
+      );
+      sellerCommission = this.applyTiers(
+        schedule.sellerCommissionTiers,
+        hammer,
+        optionalNumber(schedule.sellerCommissionMin),
+        optionalNumber(schedule.sellerCommissionMax)
+      );
+      taxRate = Number(schedule.taxRate);
+    } else {
+      buyerPremium = roundMoney(hammer * FALLBACK_PREMIUM_RATE);
+      sellerCommission = 0;
+      taxRate = roundMoney(FALLBACK_TAX_RATE * 100);
+    }
+
+    const buyerPremiumTax = roundMoney(buyerPremium * taxRate / 100);
+
+    return {
+      scheduleId: schedule ? schedule.id : null,
+      version: schedule ? schedule.version : null,
+      scope,
+      calculatedAt: new Date(),
+      hammerAmount: hammer,
+      buyerPremium,
+      buyerPremiumTax,
+      taxRate,
+      sellerCommission,
+      buyerTotal: roundMoney(hammer + buyerPremium + buyerPremiumTax),
+      sellerPayout: roundMoney(hammer - sellerCommission),
+      lines: [
+        { code: 'hammer', description: 'Hammer price', amount: hammer, party: 'buyer' },
+        { code: 'buyer_premium', description: "Buyer's premium", amount: buyerPremium, party: 'buyer' },
+        { code: 'buyer_premium_tax', description: `Tax on buyer's premium (${taxRate}%)`, amount: buyerPremiumTax, party: 'buyer' },
+        { code: 'seller_commission', description: 'Seller commission', amount: sellerCommission, party: 'seller' }
+      ]
+    };
+  }
+
+  /**
+   * Add breakdowns together, e.g. the buyers of a multi-lot event
+   */
+  public static combine(breakdowns: FeeBreakdown[]): FeeBreakdown | null {
+    const [first] = breakdowns;
+    if (!first) return null;
+
+    const sum = (pick: (breakdown: FeeBreakdown) => number): number =>
+      roundMoney(breakdowns.reduce((total, breakdown) => total + pick(breakdown), 0));
+
+    return {
+      ...first,
+      calculatedAt: new Date(),
+      hammerAmount: sum(breakdown => breakdown.hammerAmount),
+      buyerPremium: sum(breakdown => breakdown.buyerPremium),
+      buyerPremiumTax: sum(breakdown => breakdown.buyerPremiumTax),
+      sellerCommission: sum(breakdown => breakdown.sellerCommission),
+      buyerTotal: sum(breakdown => breakdown.buyerTotal),
+      sellerPayout: sum(breakdown => breakdown.sellerPayout),
+      lines: first.lines.map(line => ({
+        ...line,
+        amount: sum(breakdown => breakdown.lines.find(other => other.code === line.code)?.amount || 0)
+      }))
+    };
+  }
+
+  /**
+   * Store the itemised fees on the auction and fill its financial fields.
+   * commissionAmount is everything the platform earns (premium and seller
+   * commission); finalAmount is what the buyers pay.
+   */
+  public static applyToAuction(auction: Auction, breakdown: FeeBreakdown): void {
+    auction.commissionAmount = roundMoney(breakdown.buyerPremium + breakdown.sellerCommission);
+    auction.taxAmount = breakdown.buyerPremiumTax;
+    auction.finalAmount = breakdown.buyerTotal;
+    auction.metadata = { ...auction.metadata, fees: breakdown };
+  }
+
+  /**
+   * Active schedules, or every version when `history` is set
+   */
+  public static async getSchedules(filters: any = {}): Promise<FeeSchedule[]> {
+    try {
+      const where: any = {};
+
+      if (filters.history !== 'true' && filters.history !== true) {
+        where.supersededAt = null;
+      }
+
+      if (filters.category) {
+        where.category = filters.category === 'default' ? null : filters.category;
+      }
+
+      if (filters.companyId) {
+        where.companyId = filters.companyId;
+      }
+
+      return await FeeSchedule.findAll({
+        where,
+        order: [['category', 'ASC'], ['companyId', 'ASC'], ['version', 'DESC']],
+        include: [
+          {
+            association: 'company',
+            attributes: ['id', 'name', 'email']
+          }
+        ]
+      });
+    } catch (error) {
+      logger.error('Error getting fee schedules:', error);
+      throw new ApiResponse(500, 'Failed to fetch fee schedules');
+    }
+  }
+
+  /**
+   * Publish a new version of the schedule for a scope, retiring the current one
+   */
+  public static async setSchedule(input: FeeScheduleInput, createdBy: string): Promise<FeeSchedule> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const category = input.category || null;
+      const companyId = input.companyId || null;
+
+      if (category && !AUCTION_CATEGORIES.includes(category)) {
+        throw new ApiResponse(400, 'Invalid category');
+      }
+
+      for (const tiers of [input.buyerPremiumTiers, input.sellerCommissionTiers]) {
+        const failure = this.validateTiers(tiers);
+        if (failure) {
+          throw new ApiResponse(400, failure);
+        }
+      }
+
+      // Versions count up per scope, including retired ones
+      const latestVersion = Number(await FeeSchedule.max('version', {
+        where: { category, companyId } as any,
+        transaction
+      })) || 0;
+
+      await this.retire({ category, companyId }, transaction);
+
+      const schedule = await FeeSchedule.create({
+        category,
+        companyId,
+        version: latestVersion + 1,
+        buyerPremiumTiers: this.normalizeTiers(input.buyerPremiumTiers),
+        buyerPremiumMin: optionalNumber(input.buyerPremiumMin),
+        buyerPremiumMax: optionalNumber(input.buyerPremiumMax),
+        sellerCommissionTiers: this.normalizeTiers(input.sellerCommissionTiers),
+        sellerCommissionMin: optionalNumber(input.sellerCommissionMin),
+        sellerCommissionMax: optionalNumber(input.sellerCommissionMax),
+        taxRate: Number(input.taxRate),
+        effectiveFrom: new Date(),
+        createdBy,
+        notes: input.notes || null
+      } as any, { transaction });
+
+      await transaction.commit();
+
+      logger.info(`Fee schedule v${schedule.version} published for ${category || 'all categories'}${companyId ? ` (company ${companyId})` : ''} by ${createdBy}`);
+
+      return schedule;
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error setting fee schedule:', error);
+      throw new ApiResponse(500, 'Failed to set fee schedule');
+    }
+  }
+
+  /**
+   * Retire a schedule without a replacement, so the next less specific one applies
+   */
+  public static async retireSchedule(scheduleId: string): Promise<FeeSchedule> {
+    try {
+      const schedule = await FeeSchedule.findByPk(scheduleId);
+
+      if (!schedule) {
+        throw new ApiResponse(404, 'Fee schedule not found');
+      }
+
+      if (schedule.supersededAt) {
+        throw new ApiResponse(400, 'Fee schedule has already been retired');
+      }
+
+      schedule.supersededAt = new Date();
+      await schedule.save();
+
+      logger.info(`Fee schedule ${schedule.id} (v${schedule.version}) retired`);
+
+      return schedule;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error retiring fee schedule:', error);
+      throw new ApiResponse(500, 'Failed to retire fee schedule');
+    }
+  }
+
+  /**
+   * Fee totals from the breakdowns stored on closed auctions, by category
+   */
+  public static async getRevenueReport(filters: any = {}): Promise<any> {
+    try {
+      const where: any = {
+        status: { [Op.in]: ['ended', 'sold'] },
+        'metadata.fees.calculatedAt': { [Op.ne]: null }
+      };
+
+      if (filters.companyId) {
+        where.companyId = filters.companyId;
+      }
+
+      if (filters.from || filters.to) {
+        where['metadata.fees.calculatedAt'] = {
+          ...(filters.from && { [Op.gte]: new Date(filters.from).toISOString() }),
+          ...(filters.to && { [Op.lte]: new Date(filters.to).toISOString() })
+        };
+      }
+
+      const auctions = await Auction.findAll({
+        where,
+        attributes: ['id', 'category', 'metadata']
+      });
+
+      const empty = () => ({
+        auctions: 0,
+        hammerAmount: 0,
+        buyerPremium: 0,
+        buyerPremiumTax: 0,
+        sellerCommission: 0,
+        platformRevenue: 0
+      });
+
+      const totals = empty();
+      const byCategory: Record<string, ReturnType<typeof empty>> = {};
+
+      auctions.forEach(auction => {
+        const fees: FeeBreakdown = auction.metadata.fees;
+        const bucket = byCategory[auction.category] || (byCategory[auction.category] = empty());
+
+        [totals, bucket].forEach(total => {
+          total.auctions += 1;
+          total.hammerAmount = roundMoney(total.hammerAmount + fees.hammerAmount);
+          total.buyerPremium = roundMoney(total.buyerPremium + fees.buyerPremium);
+          total.buyerPremiumTax = roundMoney(total.buyerPremiumTax + fees.buyerPremiumTax);
+          total.sellerCommission = roundMoney(total.sellerCommission + fees.sellerCommission);
+          total.platformRevenue = roundMoney(total.platformRevenue + fees.buyerPremium + fees.sellerCommission);
+        });
+      });
+
+      return { totals, byCategory };
+    } catch (error) {
+      logger.error('Error building fee revenue report:', error);
+      throw new ApiResponse(500, 'Failed to build revenue report');
+    }
+  }
+
+  private static getScope(schedule: FeeSchedule): FeeScope {
+    if (schedule.companyId) {
+      return schedule.category ? 'company_category' : 'company';
+    }
+    return schedule.category ? 'category' : 'default';
+  }
+
+  private static async retire(
+    scope: { category: string | null; companyId: string | null },
+    transaction: Transaction
+  ): Promise<void> {
+    await FeeSchedule.update(
+      { supersededAt: new Date() },
+      { where: { ...scope, supersededAt: null } as any, transaction }
+    );
+  }
+}
+
+export const feeService = FeeService;
\ No newline at end of file
@@ -0,0 +1,185 @@
+import Auction from '../database/models/Auction';
+import BidIncrementTable, { IncrementTier } from '../database/models/BidIncrementTable';
+import { ApiResponse } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export const AUCTION_CATEGORIES = ['machinery', 'vehicles', 'property', 'goods', 'services'];
+
+// Category ladders change rarely; each instance re-reads them on this interval
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const categoryLadders = new Map<string, IncrementTier[]>();
+let refreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Bid increment ladders. An auction's ladder is its own
+ * `auctionConfig.incrementTiers` if set, otherwise its category's ladder,
+ * otherwise the flat `auctionConfig.bidIncrement`. Category ladders are
+ * cached in memory so price checks stay synchronous.
+ */
+export class IncrementService {
+  public static async start(): Promise<void> {
+    if (refreshTimer) return;
+
+    await this.refresh();
+
+    refreshTimer = setInterval(() => {
+      this.refresh();
+    }, REFRESH_INTERVAL_MS);
+  }
+
+  public static stop(): void {
+    if (refreshTimer) clearInterval(refreshTimer);
+    refreshTimer = null;
+  }
+
+  public static async refresh(): Promise<void> {
+    try {
+      const tables = await BidIncrementTable.findAll();
+
+      categoryLadders.clear();
+      tables.forEach(table => {
+        categoryLadders.set(table.category, this.normalizeLadder(table.tiers));
+      });
+    } catch (error) {
+      logger.error('Error loading bid increment tables:', error);
+    }
+  }
+
+  /**
+   * Sort tiers by their upper bound, with the unbounded tier last
+   */
+  public static normalizeLadder(tiers: IncrementTier[]): IncrementTier[] {
+    return tiers
+      .map(tier => ({
+        upTo: tier.upTo === null || tier.upTo === undefined ? null : Number(tier.upTo),
+        increment: Number(tier.increment)
+      }))
+      .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  }
+
+  /**
+   * Returns why a ladder is invalid, or null if it can be used
+   */
+  public static validateLadder(tiers: any): string | null {
+    if (!Array.isArray(tiers) || tiers.length === 0) {
+      return 'Increment tiers must be a non-empty array';
+    }
+
+    for (const tier of tiers) {
+      if (!(Number(tier?.increment) > 0)) {
+        return 'Every tier needs an increment greater than zero';
+      }
+      if (tier.upTo !== null && tier.upTo !== undefined && !(Number(tier.upTo) > 0)) {
+        return 'Tier upper bounds must be positive numbers';
+      }
+    }
+
+    const ladder = this.normalizeLadder(tiers);
+    const bounds = ladder.map(tier => tier.upTo);
+
+    if (new Set(bounds).size !== bounds.length) {
+      return 'Tier upper bounds must be unique';
+    }
+
+    if (bounds[bounds.length - 1] !== null) {
+      return 'The last tier must have no upper bound (upTo: null)';
+    }
+
+    return null;
+  }
+
+  public static getLadder(auction: Auction): IncrementTier[] {
+    const config = auction.auctionConfig || {};
+
+    if (Array.isArray(config.incrementTiers) && config.incrementTiers.length > 0) {
+      return this.normalizeLadder(config.incrementTiers);
+    }
+
+    return categoryLadders.get(auction.category) || [
+      { upTo: null, increment: Number(config.bidIncrement || 0) }
+    ];
+  }
+
+  /**
+   * The increment that applies when the current price is `price`
+   */
+  public static incrementAt(ladder: IncrementTier[], price: number): number {
+    const tier = ladder.find(step => step.upTo === null || price < step.upTo);
+
+    return tier ? tier.increment : 0;
+  }
+
+  public static getIncrement(auction: Auction, price: number = Number(auction.currentHighestBid)): number {
+    return this.incrementAt(this.getLadder(auction), price);
+  }
+
+  public static async getCategoryTables(): Promise<BidIncrementTable[]> {
+    try {
+      return await BidIncrementTable.findAll({
+        order: [['category', 'ASC']],
+        include: [
+          {
+            association: 'editor',
+            attributes: ['id', 'firstName', 'lastName']
+          }
+        ]
+      });
+    } catch (error) {
+      logger.error('Error getting bid increment tables:', error);
+      throw new ApiResponse(500, 'Failed to fetch bid increment tables');
+    }
+  }
+
+  public static async setCategoryLadder(category: string, tiers: IncrementTier[], updatedBy: string): Promise<BidIncrementTable> {
+    try {
+      if (!AUCTION_CATEGORIES.includes(category)) {
+        throw new ApiResponse(400, 'Invalid category');
+      }
+
+      const failure = this.validateLadder(tiers);
+      if (failure) {
+        throw new ApiResponse(400, failure);
+      }
+
+      const ladder = this.normalizeLadder(tiers);
+      const [table] = await BidIncrementTable.upsert({
+        category,
+        tiers: ladder,
+        updatedBy
+      } as any, { returning: true });
+
+      categoryLadders.set(category, ladder);
+      logger.info(`Bid increment ladder for ${category} updated by ${updatedBy}`);
+
+      return table;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error updating bid increment table:', error);
+      throw new ApiResponse(500, 'Failed to update bid increment table');
+    }
+  }
+
+  public static async removeCategoryLadder(category: string): Promise<void> {
+    try {
+      const removed = await BidIncrementTable.destroy({ where: { category } });
+
+      if (removed === 0) {
+        throw new ApiResponse(404, 'No increment table for this category');
+      }
+
+      categoryLadders.delete(category);
+      logger.info(`Bid increment ladder for ${category} removed`);
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error removing bid increment table:', error);
+      throw new ApiResponse(500, 'Failed to remove bid increment table');
+    }
+  }
+}
+
+export const incrementService = IncrementService;
\ No newline at end of file
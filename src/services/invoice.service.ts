@@ -0,0 +1,558 @@
+import { Op, Transaction } from 'sequelize';
+import Auction from '../database/models/Auction';
+import Company from '../database/models/Company';
+import Invoice, { InvoiceLine, InvoiceParty, InvoiceType } from '../database/models/Invoice';
+import Payment from '../database/models/Payment';
+import Settlement from '../database/models/Settlement';
+import User from '../database/models/User';
+import { companyMemberService } from './companyMember.service';
+import { FeeBreakdown } from './fee.service';
+import { PdfDocument } from '../utils/pdf';
+import { ApiResponse } from '../utils/helpers';
+import sequelize from '../config/database';
+import { logger } from '../utils/logger';
+
+// Month (1-12) the financial year starts in; April for India
+const FY_START_MONTH = parseInt(process.env.INVOICE_FY_START_MONTH || '4');
+
+const NUMBER_PREFIXES: Record<InvoiceType, string> = {
+  invoice: process.env.INVOICE_NUMBER_PREFIX || 'INV',
+  credit_note: process.env.CREDIT_NOTE_NUMBER_PREFIX || 'CN'
+};
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const formatMoney = (amount: number, currency: string): string =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    currencyDisplay: 'code',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount);
+
+type InvoiceViewer = { id: string; role: string; companyId?: string | null };
+
+interface InvoiceDraft {
+  type: InvoiceType;
+  paymentId: string | null;
+  auctionId: string;
+  settlementId: string | null;
+  originalInvoiceId: string | null;
+  buyerId: string;
+  sellerId: string;
+  buyer: InvoiceParty;
+  seller: InvoiceParty;
+  lines: InvoiceLine[];
+  currency: string;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  reason: string | null;
+  metadata: any;
+}
+
+/**
+ * Tax invoices for paid sales and credit notes against them. Numbers run
+ * per document type and financial year without gaps: the next number is
+ * taken under a transaction-scoped lock in the same transaction that
+ * stores the document, so a rollback never burns a number.
+ */
+export class InvoiceService {
+  /**
+   * Financial year label for a date, e.g. 2025-26 (or 2025 when the year starts in January)
+   */
+  public static getFinancialYear(date: Date): string {
+    const month = date.getMonth() + 1;
+    const startYear = month >= FY_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+
+    if (FY_START_MONTH === 1) {
+      return String(startYear);
+    }
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+
+  /**
+   * Invoice for the sale a payment went towards. The sale must be paid in
+   * full; asking again returns the invoice already issued.
+   */
+  public static async createForPayment(paymentId: string, viewer: InvoiceViewer): Promise<Invoice> {
+    try {
+      const payment = await Payment.findByPk(paymentId);
+
+      if (!payment) {
+        throw new ApiResponse(404, 'Payment not found');
+      }
+
+      if (viewer.role !== 'admin' && payment.userId !== viewer.id) {
+        throw new ApiResponse(403, 'Not authorized to invoice this payment');
+      }
+
+      if (!payment.auctionId || !['completed', 'partially_refunded'].includes(payment.status)) {
+        throw new ApiResponse(400, 'Invoices can only be issued for completed auction payments');
+      }
+
+      const settlement = await Settlement.findOne({
+        where: { auctionId: payment.auctionId, bidderId: payment.userId, status: 'paid' }
+      });
+
+      if (!settlement) {
+        throw new ApiResponse(400, 'An invoice is issued once the auction has been paid in full');
+      }
+
+      return await this.issueForSettlement(settlement.id, payment.id);
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error creating invoice for payment:', error);
+      throw new ApiResponse(500, 'Failed to create invoice');
+    }
+  }
+
+  /**
+   * Issue the invoice for a paid settlement, itemised from its fee
+   * breakdown. paymentId is the payment that completed it.
+   */
+  public static async issueForSettlement(settlementId: string, paymentId: string | null = null): Promise<Invoice> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const settlement = await Settlement.findByPk(settlementId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!settlement) {
+        throw new ApiResponse(404, 'Settlement not found');
+      }
+
+      const existing = await Invoice.findOne({
+        where: { settlementId, type: 'invoice' },
+        transaction
+      });
+
+      if (existing) {
+        await transaction.commit();
+        return existing;
+      }
+
+      if (settlement.status !== 'paid') {
+        throw new ApiResponse(400, 'Only paid settlements can be invoiced');
+      }
+
+      const auction = await Auction.findByPk(settlement.auctionId, { transaction });
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
+
+      if (!paymentId) {
+        const lastPayment = await Payment.findOne({
+          where: {
+            auctionId: settlement.auctionId,
+            userId: settlement.bidderId,
+            status: { [Op.in]: ['completed', 'partially_refunded'] }
+          },
+          order: [['createdAt', 'DESC']],
+          transaction
+        });
+        paymentId = lastPayment ? lastPayment.id : null;
+      }
+
+      const lines = this.getSaleLines(settlement, auction);
+      const taxAmount = Number(settlement.taxAmount);
+      const totalAmount = Number(settlement.totalAmount);
+
+      const invoice = await this.create({
+        type: 'invoice',
+        paymentId,
+        auctionId: auction.id,
+        settlementId: settlement.id,
+        originalInvoiceId: null,
+        buyerId: settlement.bidderId,
+        sellerId: settlement.sellerId,
+        buyer: await this.getParty(settlement.bidderId, transaction),
+        seller: await this.getParty(settlement.sellerId, transaction),
+        lines,
+        currency: settlement.currency,
+        subtotal: roundMoney(totalAmount - taxAmount),
+        taxAmount,
+        totalAmount,
+        reason: null,
+        metadata: { auctionTitle: auction.title, feeScheduleId: settlement.metadata?.fees?.scheduleId ?? null }
+      }, transaction);
+
+      await transaction.commit();
+
+      logger.info(`Invoice ${invoice.number} issued for settlement ${settlement.id}`);
+
+      return invoice;
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error issuing invoice:', error);
+      throw new ApiResponse(500, 'Failed to issue invoice');
+    }
+  }
+
+  /**
+   * Credit note against an invoice, for the whole of what is still
+   * uncredited or a part of it. A partial credit splits the amount between
+   * the taxable value and tax in the invoice's own proportion.
+   */
+  public static async issueCreditNote(invoiceId: string, amount: number | null, reason: string): Promise<Invoice> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const invoice = await Invoice.findByPk(invoiceId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!invoice) {
+        throw new ApiResponse(404, 'Invoice not found');
+      }
+
+      if (invoice.isCreditNote()) {
+        throw new ApiResponse(400, 'Credit notes can only be issued against invoices');
+      }
+
+      const credited = Number(await Invoice.sum('totalAmount', {
+        where: { originalInvoiceId: invoice.id, type: 'credit_note' },
+        transaction
+      })) || 0;
+
+      const remaining = roundMoney(Number(invoice.totalAmount) - credited);
+      const creditAmount = amount === null ? remaining : roundMoney(amount);
+
+      if (creditAmount <= 0 || creditAmount > remaining) {
+        throw new ApiResponse(400, `Credit amount must be between 0 and the uncredited ${remaining}`);
+      }
+
+      let lines: InvoiceLine[];
+      let taxAmount: number;
+
+      if (creditAmount === Number(invoice.totalAmount)) {
+        lines = invoice.lines;
+        taxAmount = Number(invoice.taxAmount);
+      } else {
+        taxAmount = roundMoney(Number(invoice.taxAmount) * creditAmount / Number(invoice.totalAmount));
+        lines = [
+          { code: 'credit', description: `Credit against invoice ${invoice.number}`, amount: roundMoney(creditAmount - taxAmount) },
+          { code: 'credit_tax', description: 'Tax on credited amount', amount: taxAmount }
+        ];
+      }
+
+      const creditNote = await this.create({
+        type: 'credit_note',
+        paymentId: invoice.paymentId,
+        auctionId: invoice.auctionId,
+        settlementId: invoice.settlementId,
+        originalInvoiceId: invoice.id,
+        buyerId: invoice.buyerId,
+        sellerId: invoice.sellerId,
+        buyer: invoice.buyer,
+        seller: invoice.seller,
+        lines,
+        currency: invoice.currency,
+        subtotal: roundMoney(creditAmount - taxAmount),
+        taxAmount,
+        totalAmount: creditAmount,
+        reason,
+        metadata: { originalNumber: invoice.number }
+      }, transaction);
+
+      await transaction.commit();
+
+      logger.info(`Credit note ${creditNote.number} issued against ${invoice.number} for ${creditAmount}`);
+
+      return creditNote;
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error issuing credit note:', error);
+      throw new ApiResponse(500, 'Failed to issue credit note');
+    }
+  }
+
+  /**
+   * Credit a refunded payment's sale, if it has been invoiced
+   */
+  public static async creditRefund(paymentId: string, amount: number, reason: string): Promise<Invoice | null> {
+    const payment = await Payment.findByPk(paymentId);
+
+    if (!payment || !payment.auctionId) {
+      return null;
+    }
+
+    const invoice = await Invoice.findOne({
+      where: { auctionId: payment.auctionId, buyerId: payment.userId, type: 'invoice' },
+      order: [['issuedAt', 'DESC']]
+    });
+
+    if (!invoice) {
+      return null;
+    }
+
+    return this.issueCreditNote(invoice.id, amount, reason);
+  }
+
+  public static async getInvoice(invoiceId: string, viewer: InvoiceViewer): Promise<Invoice> {
+    try {
+      const invoice = await Invoice.findByPk(invoiceId);
+
+      if (!invoice) {
+        throw new ApiResponse(404, 'Invoice not found');
+      }
+
+      if (
+        viewer.role !== 'admin' &&
+        invoice.buyerId !== viewer.id &&
+        invoice.sellerId !== await this.getSellerId(viewer)
+      ) {
+        throw new ApiResponse(403, 'Not authorized to view this invoice');
+      }
+
+      return invoice;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error getting invoice:', error);
+      throw new ApiResponse(500, 'Failed to fetch invoice');
+    }
+  }
+
+  /**
+   * Buyers see their invoices, sellers the ones for their auctions, admins all of them
+   */
+  public static async getInvoices(viewer: InvoiceViewer, filters: any = {}): Promise<{ invoices: Invoice[]; total: number }> {
+    try {
+      const { type, auctionId, financialYear, buyerId, sellerId, limit = 10, offset = 0 } = filters;
+      const where: any = {};
+
+      if (viewer.role === 'admin') {
+        if (buyerId) where.buyerId = buyerId;
+        if (sellerId) where.sellerId = sellerId;
+      } else if (viewer.role === 'company') {
+        where.sellerId = await this.getSellerId(viewer);
+      } else {
+        where.buyerId = viewer.id;
+      }
+
+      if (type) {
+        where.type = type;
+      }
+
+      if (auctionId) {
+        where.auctionId = auctionId;
+      }
+
+      if (financialYear) {
+        where.financialYear = financialYear;
+      }
+
+      const { rows, count } = await Invoice.findAndCountAll({
+        where,
+        limit: parseInt(limit.toString()),
+        offset: parseInt(offset.toString()),
+        order: [['issuedAt', 'DESC']]
+      });
+
+      return { invoices: rows, total: count };
+    } catch (error) {
+      logger.error('Error getting invoices:', error);
+      throw new ApiResponse(500, 'Failed to fetch invoices');
+    }
+  }
+
+  public static renderPdf(invoice: Invoice): Buffer {
+    const pdf = new PdfDocument();
+    const right = pdf.width - 50;
+    const title = invoice.isCreditNote() ? 'CREDIT NOTE' : 'TAX INVOICE';
+    let y = 60;
+
+    pdf.text(50, y, title, { size: 18, bold: true });
+    pdf.text(right, y, invoice.number, { size: 12, bold: true, alignRight: true });
+    y += 18;
+    pdf.text(right, y, `Issued ${new Date(invoice.issuedAt).toISOString().slice(0, 10)}`, { alignRight: true });
+
+    if (invoice.isCreditNote() && invoice.metadata?.originalNumber) {
+      y += 14;
+      pdf.text(right, y, `Against invoice ${invoice.metadata.originalNumber}`, { alignRight: true });
+    }
+
+    y += 36;
+    const partyTop = y;
+    y = this.drawParty(pdf, 50, partyTop, 'Seller', invoice.seller);
+    y = Math.max(y, this.drawParty(pdf, 310, partyTop, 'Buyer', invoice.buyer));
+
+    if (invoice.metadata?.auctionTitle) {
+      y += 16;
+      pdf.text(50, y, `Auction: ${invoice.metadata.auctionTitle}`);
+    }
+
+    y += 28;
+    pdf.text(50, y, 'Description', { bold: true });
+    pdf.text(right, y, `Amount (${invoice.currency})`, { bold: true, alignRight: true });
+    y += 6;
+    pdf.line(50, y, right, y);
+
+    invoice.lines.forEach(line => {
+      y += 18;
+      if (y > pdf.height - 80) {
+        pdf.addPage();
+        y = 60;
+      }
+      pdf.text(50, y, line.description);
+      pdf.text(right, y, formatMoney(Number(line.amount), invoice.currency), { alignRight: true });
+    });
+
+    y += 10;
+    pdf.line(50, y, right, y);
+
+    const totals: Array<[string, number]> = [
+      ['Taxable value', Number(invoice.subtotal)],
+      ['Tax', Number(invoice.taxAmount)],
+      [invoice.isCreditNote() ? 'Total credited' : 'Total', Number(invoice.totalAmount)]
+    ];
+
+    totals.forEach(([label, amount], index) => {
+      const last = index === totals.length - 1;
+      y += 18;
+      pdf.text(right - 160, y, label, { bold: last, alignRight: true });
+      pdf.text(right, y, formatMoney(amount, invoice.currency), { bold: last, alignRight: true });
+    });
+
+    if (invoice.reason) {
+      y += 32;
+      pdf.text(50, y, `Reason: ${invoice.reason}`);
+    }
+
+    pdf.text(50, pdf.height - 40, 'This is a computer generated document and does not require a signature.', { size: 8 });
+
+    return pdf.toBuffer();
+  }
+
+  // Sale invoices are made out to the company's account holder, so every member sees theirs
+  private static async getSellerId(viewer: InvoiceViewer): Promise<string | null> {
+    return viewer.companyId ? companyMemberService.getAccountHolderId(viewer.companyId) : null;
+  }
+
+  private static drawParty(pdf: PdfDocument, x: number, y: number, label: string, party: InvoiceParty): number {
+    const address = party.address;
+    const rows = [
+      party.legalName || party.name,
+      ...(address ? [address.street, [address.city, address.state, address.zipcode].filter(Boolean).join(', '), address.country] : []),
+      party.taxId ? `Tax ID: ${party.taxId}` : '',
+      party.email || ''
+    ].filter(Boolean);
+
+    pdf.text(x, y, label, { bold: true });
+
+    rows.forEach(row => {
+      y += 14;
+      pdf.text(x, y, row, { size: 9 });
+    });
+
+    return y;
+  }
+
+  /**
+   * Store a document under the next number in its series
+   */
+  private static async create(draft: InvoiceDraft, transaction: Transaction): Promise<Invoice> {
+    const issuedAt = new Date();
+    const financialYear = this.getFinancialYear(issuedAt);
+
+    // Serialises numbering per series until this transaction ends
+    await sequelize.query('SELECT pg_advisory_xact_lock(hashtext(:series))', {
+      replacements: { series: `${draft.type}:${financialYear}` },
+      transaction
+    });
+
+    const sequence = (Number(await Invoice.max('sequence', {
+      where: { type: draft.type, financialYear },
+      transaction
+    })) || 0) + 1;
+
+    return Invoice.create({
+      ...draft,
+      number: `${NUMBER_PREFIXES[draft.type]}/${financialYear}/${String(sequence).padStart(6, '0')}`,
+      financialYear,
+      sequence,
+      issuedAt
+    } as any, { transaction });
+  }
+
+  /**
+   * Buyer-side lines of the sale's fee breakdown, or the settlement's own
+   * totals for sales settled before fee breakdowns were recorded
+   */
+  private static getSaleLines(settlement: Settlement, auction: Auction): InvoiceLine[] {
+    const fees: FeeBreakdown | undefined = settlement.metadata?.fees;
+
+    if (fees) {
+      return fees.lines
+        .filter(line => line.party === 'buyer')
+        .map(line => ({
+          code: line.code,
+          description: line.code === 'hammer' ? `Hammer price - ${auction.title}` : line.description,
+          amount: line.amount
+        }));
+    }
+
+    return [
+      { code: 'hammer', description: `Hammer price - ${auction.title}`, amount: Number(settlement.hammerAmount) },
+      { code: 'buyer_premium', description: "Buyer's premium", amount: Number(settlement.commissionAmount) },
+      { code: 'buyer_premium_tax', description: "Tax on buyer's premium", amount: Number(settlement.taxAmount) }
+    ];
+  }
+
+  /**
+   * Snapshot of a party; sellers are described by their company record when they have one
+   */
+  private static async getParty(userId: string, transaction: Transaction): Promise<InvoiceParty> {
+    const user = await User.findByPk(userId, { transaction });
+
+    if (!user) {
+      throw new ApiResponse(404, 'User not found');
+    }
+
+    const company = await Company.findOne({
+      where: { userId },
+      transaction
+    });
+
+    if (company) {
+      return {
+        userId,
+        name: company.name,
+        legalName: company.legalName,
+        taxId: company.taxId,
+        email: company.email,
+        phone: company.phone,
+        address: company.address
+      };
+    }
+
+    return {
+      userId,
+      name: `${user.firstName} ${user.lastName}`,
+      legalName: null,
+      taxId: null,
+      email: user.email,
+      phone: user.phone || null,
+      address: user.address
+    };
+  }
+}
+
+export const invoiceService = InvoiceService;
\ No newline at end of file
@@ -0,0 +1,667 @@
+import { Op, Transaction } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import LedgerEntry, { LedgerAccount, LedgerEntryKind } from '../database/models/LedgerEntry';
+import Payment from '../database/models/Payment';
+import Payout from '../database/models/Payout';
+import Settlement from '../database/models/Settlement';
+import { FeeBreakdown } from './fee.service';
+import { schedulerService } from './scheduler.service';
+import { ApiResponse } from '../utils/helpers';
+import sequelize from '../config/database';
+import { logger } from '../utils/logger';
+
+// How long the buyer has to inspect the item before the seller's share is released
+const INSPECTION_DAYS = parseFloat(process.env.ESCROW_INSPECTION_DAYS || '7');
+// Smallest available balance worth paying out in a batch
+const PAYOUT_MINIMUM = parseFloat(process.env.PAYOUT_MINIMUM_AMOUNT || '0');
+
+const SELLER_ACCOUNTS: LedgerAccount[] = ['seller_payable', 'seller_available', 'payouts_in_transit'];
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+interface Posting {
+  account: LedgerAccount;
+  ownerId?: string | null;
+  direction: 'debit' | 'credit';
+  amount: number;
+}
+
+interface PostingContext {
+  kind: LedgerEntryKind;
+  currency: string;
+  auctionId?: string | null;
+  settlementId?: string | null;
+  paymentId?: string | null;
+  payoutId?: string | null;
+  description?: string | null;
+}
+
+export interface SellerBalance {
+  currency: string;
+  // Sold but still in escrow
+  payable: number;
+  // Released and waiting for the next payout batch
+  available: number;
+  inTransit: number;
+  paidOut: number;
+}
+
+/**
+ * Double-entry ledger for money moving through the platform. A buyer's
+ * payment lands in escrow; once the sale is paid in full, escrow is split
+ * into platform revenue, tax payable and the seller's payable. The payable
+ * becomes available when the buyer confirms delivery or the inspection
+ * window lapses, and leaves the platform through payout batches.
+ * Entries are only ever added, and each posting balances.
+ */
+export class LedgerService {
+  /**
+   * Book a completed auction payment into the buyer's escrow. Safe to call
+   * more than once for the same payment.
+   */
+  public static async recordPaymentReceived(payment: Payment): Promise<void> {
+    if (!payment.auctionId || payment.status !== 'completed') {
+      return;
+    }
+
+    const transaction = await sequelize.transaction();
+
+    try {
+      await this.lock(`payment:${payment.id}`, transaction);
+
+      if (await this.hasEntries({ paymentId: payment.id, kind: 'payment_received' }, transaction)) {
+        await transaction.commit();
+        return;
+      }
+
+      await this.post({
+        kind: 'payment_received',
+        currency: payment.currency,
+        auctionId: payment.auctionId,
+        paymentId: payment.id,
+        description: `Payment ${payment.providerOrderId} received`
+      }, [
+        { account: 'cash', direction: 'debit', amount: Number(payment.amount) },
+        { account: 'escrow', ownerId: payment.userId, direction: 'credit', amount: Number(payment.amount) }
+      ], transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error(`Error recording payment ${payment.id} in the ledger:`, error);
+      throw new ApiResponse(500, 'Failed to record payment in the ledger');
+    }
+  }
+
+  /**
+   * Split a paid sale's escrow into the platform's fees, the tax on them
+   * and the seller's payable, and start the inspection window
+   */
+  public static async allocateSettlement(settlementId: string): Promise<Settlement | null> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const settlement = await Settlement.findByPk(settlementId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!settlement || settlement.status !== 'paid' || settlement.escrowStatus) {
+        await transaction.rollback();
+        return null;
+      }
+
+      const fees: FeeBreakdown | undefined = settlement.metadata?.fees;
+      const buyerPremium = fees ? fees.buyerPremium : Number(settlement.commissionAmount);
+      const sellerCommission = fees ? fees.sellerCommission : 0;
+      const tax = Number(settlement.taxAmount);
+      const sellerShare = roundMoney(Number(settlement.hammerAmount) - sellerCommission);
+
+      await this.post({
+        kind: 'sale_allocated',
+        currency: settlement.currency,
+        auctionId: settlement.auctionId,
+        settlementId: settlement.id,
+        description: 'Sale paid in full'
+      }, [
+        { account: 'escrow', ownerId: settlement.bidderId, direction: 'debit', amount: Number(settlement.totalAmount) },
+        { account: 'platform_revenue', direction: 'credit', amount: roundMoney(buyerPremium + sellerCommission) },
+        { account: 'tax_payable', direction: 'credit', amount: tax },
+        { account: 'seller_payable', ownerId: settlement.sellerId, direction: 'credit', amount: sellerShare }
+      ], transaction);
+
+      const paidAt = settlement.paidAt ? new Date(settlement.paidAt) : new Date();
+
+      settlement.escrowStatus = 'held';
+      settlement.escrowReleaseAt = new Date(paidAt.getTime() + INSPECTION_DAYS * 24 * 60 * 60 * 1000);
+      await settlement.save({ transaction });
+
+      await transaction.commit();
+
+      await schedulerService.scheduleEscrowRelease(settlement);
+
+      logger.info(`Settlement ${settlement.id} allocated; seller share ${sellerShare} held until ${settlement.escrowReleaseAt.toISOString()}`);
+
+      return settlement;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error allocating settlement in the ledger:', error);
+      throw new ApiResponse(500, 'Failed to allocate settlement');
+    }
+  }
+
+  /**
+   * The buyer has the item; the seller need not wait out the inspection window
+   */
+  public static async confirmDelivery(settlementId: string, buyerId: string): Promise<Settlement> {
+    try {
+      const settlement = await Settlement.findByPk(settlementId);
+
+      if (!settlement) {
+        throw new ApiResponse(404, 'Settlement not found');
+      }
+
+      if (settlement.bidderId !== buyerId) {
+        throw new ApiResponse(403, 'Only the buyer can confirm delivery');
+      }
+
+      if (settlement.escrowStatus !== 'held') {
+        throw new ApiResponse(400, 'There are no funds held in escrow for this settlement');
+      }
+
+      settlement.deliveryConfirmedAt = new Date();
+      await settlement.save();
+
+      return (await this.releaseSettlement(settlement.id, true)) || settlement;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error confirming delivery:', error);
+      throw new ApiResponse(500, 'Failed to confirm delivery');
+    }
+  }
+
+  /**
+   * Move the seller's share from payable to available. Without `force` this
+   * waits for delivery confirmation or the end of the inspection window.
+   */
+  public static async releaseSettlement(settlementId: string, force: boolean = false): Promise<Settlement | null> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const settlement = await Settlement.findByPk(settlementId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!settlement || settlement.escrowStatus !== 'held') {
+        await transaction.rollback();
+        return null;
+      }
+
+      const due = settlement.deliveryConfirmedAt ||
+        (settlement.escrowReleaseAt && new Date(settlement.escrowReleaseAt) <= new Date());
+
+      if (!force && !due) {
+        await transaction.rollback();
+        return null;
+      }
+
+      const sellerShare = Number(await LedgerEntry.sum('amount', {
+        where: { settlementId: settlement.id, account: 'seller_payable', kind: 'sale_allocated' },
+        transaction
+      })) || 0;
+
+      await this.post({
+        kind: 'funds_released',
+        currency: settlement.currency,
+        auctionId: settlement.auctionId,
+        settlementId: settlement.id,
+        description: settlement.deliveryConfirmedAt ? 'Delivery confirmed by buyer' : 'Inspection window ended'
+      }, [
+        { account: 'seller_payable', ownerId: settlement.sellerId, direction: 'debit', amount: sellerShare },
+        { account: 'seller_available', ownerId: settlement.sellerId, direction: 'credit', amount: sellerShare }
+      ], transaction);
+
+      settlement.escrowStatus = 'released';
+      settlement.escrowReleasedAt = new Date();
+      await settlement.save({ transaction });
+
+      await transaction.commit();
+
+      await schedulerService.scheduleEscrowRelease(settlement);
+
+      logger.info(`Escrow released for settlement ${settlement.id}: ${sellerShare} to seller ${settlement.sellerId}`);
+
+      return settlement;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error releasing escrow:', error);
+      throw new ApiResponse(500, 'Failed to release escrow');
+    }
+  }
+
+  /**
+   * Book money returned to a buyer. Refunds come out of the buyer's escrow;
+   * when their sale has already been allocated a full refund unwinds it
+   * first, taking back the fees and the seller's share (even if already
+   * released, which may leave the seller owing the platform). A partial
+   * refund leaves the sale standing and is charged to the seller's share.
+   */
+  public static async recordRefund(payment: Payment, amount: number, reason: string, partial: boolean = false): Promise<void> {
+    if (!payment.auctionId) {
+      return;
+    }
+
+    const transaction = await sequelize.transaction();
+
+    try {
+      await this.lock(`payment:${payment.id}`, transaction);
+
+      // Money that never reached the ledger (e.g. a cancelled card hold) has nothing to reverse
+      if (!(await this.hasEntries({ paymentId: payment.id, kind: 'payment_received' }, transaction))) {
+        await transaction.commit();
+        return;
+      }
+
+      const settlement = await Settlement.findOne({
+        where: {
+          auctionId: payment.auctionId,
+          bidderId: payment.userId,
+          escrowStatus: { [Op.in]: ['held', 'released'] }
+        },
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      let source: Posting = { account: 'escrow', ownerId: payment.userId, direction: 'debit', amount };
+
+      if (settlement && partial) {
+        source = {
+          account: settlement.escrowStatus === 'held' ? 'seller_payable' : 'seller_available',
+          ownerId: settlement.sellerId,
+          direction: 'debit',
+          amount
+        };
+      } else if (settlement) {
+        await this.reverseSettlement(settlement, reason, transaction);
+      }
+
+      await this.post({
+        kind: 'refund',
+        currency: payment.currency,
+        auctionId: payment.auctionId,
+        settlementId: settlement ? settlement.id : null,
+        paymentId: payment.id,
+        description: reason
+      }, [
+        source,
+        { account: 'cash', direction: 'credit', amount }
+      ], transaction);
+
+      await transaction.commit();
+
+      logger.info(`Refund of ${amount} on payment ${payment.id} recorded in the ledger`);
+    } catch (error) {
+      await transaction.rollback();
+      logger.error(`Error recording refund for payment ${payment.id} in the ledger:`, error);
+      throw new ApiResponse(500, 'Failed to record refund in the ledger');
+    }
+  }
+
+  /**
+   * Pay out every seller's available balance (at least the minimum) in one batch
+   */
+  public static async createPayoutBatch(createdBy: string, minimum: number = PAYOUT_MINIMUM): Promise<{ batchId: string; payouts: Payout[] }> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      // One batch at a time, so a balance is never paid out twice
+      await this.lock('payout_batch', transaction);
+
+      const balances = await LedgerEntry.findAll({
+        attributes: [
+          'ownerId',
+          'currency',
+          [sequelize.literal("SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END)"), 'balance']
+        ],
+        where: { account: 'seller_available' },
+        group: ['ownerId', 'currency'],
+        raw: true,
+        transaction
+      }) as any[];
+
+      const batchId = uuidv4();
+      const payouts: Payout[] = [];
+
+      for (const row of balances) {
+        const amount = roundMoney(Number(row.balance));
+
+        if (amount <= 0 || amount < minimum) {
+          continue;
+        }
+
+        const payout = await Payout.create({
+          batchId,
+          sellerId: row.ownerId,
+          amount,
+          currency: row.currency,
+          status: 'pending',
+          createdBy
+        } as any, { transaction });
+
+        await this.post({
+          kind: 'payout_initiated',
+          currency: row.currency,
+          payoutId: payout.id,
+          description: `Payout batch ${batchId}`
+        }, [
+          { account: 'seller_available', ownerId: row.ownerId, direction: 'debit', amount },
+          { account: 'payouts_in_transit', ownerId: row.ownerId, direction: 'credit', amount }
+        ], transaction);
+
+        payouts.push(payout);
+      }
+
+      await transaction.commit();
+
+      logger.info(`Payout batch ${batchId} created with ${payouts.length} payouts by ${createdBy}`);
+
+      return { batchId, payouts };
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error creating payout batch:', error);
+      throw new ApiResponse(500, 'Failed to create payout batch');
+    }
+  }
+
+  /**
+   * Record the outcome of a payout transfer. A failed payout goes back to
+   * the seller's available balance for the next batch.
+   */
+  public static async completePayout(
+    payoutId: string,
+    status: 'paid' | 'failed',
+    details: { reference?: string; reason?: string } = {}
+  ): Promise<Payout> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const payout = await Payout.findByPk(payoutId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!payout) {
+        throw new ApiResponse(404, 'Payout not found');
+      }
+
+      if (payout.status !== 'pending') {
+        throw new ApiResponse(400, `Payout is already ${payout.status}`);
+      }
+
+      const amount = Number(payout.amount);
+
+      if (status === 'paid') {
+        await this.post({
+          kind: 'payout_paid',
+          currency: payout.currency,
+          payoutId: payout.id,
+          description: details.reference ? `Transfer ${details.reference}` : 'Payout transferred'
+        }, [
+          { account: 'payouts_in_transit', ownerId: payout.sellerId, direction: 'debit', amount },
+          { account: 'cash', direction: 'credit', amount }
+        ], transaction);
+
+        payout.status = 'paid';
+        payout.paidAt = new Date();
+        payout.reference = details.reference || null;
+      } else {
+        await this.post({
+          kind: 'payout_failed',
+          currency: payout.currency,
+          payoutId: payout.id,
+          description: details.reason || 'Payout failed'
+        }, [
+          { account: 'payouts_in_transit', ownerId: payout.sellerId, direction: 'debit', amount },
+          { account: 'seller_available', ownerId: payout.sellerId, direction: 'credit', amount }
+        ], transaction);
+
+        payout.status = 'failed';
+        payout.failedAt = new Date();
+        payout.failureReason = details.reason || null;
+      }
+
+      await payout.save({ transaction });
+      await transaction.commit();
+
+      logger.info(`Payout ${payout.id} ${payout.status}`);
+
+      return payout;
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error completing payout:', error);
+      throw new ApiResponse(500, 'Failed to update payout');
+    }
+  }
+
+  public static async getPayouts(filters: any = {}): Promise<{ payouts: Payout[]; total: number }> {
+    try {
+      const { status, batchId, sellerId, limit = 20, offset = 0 } = filters;
+      const where: any = {};
+
+      if (status) where.status = status;
+      if (batchId) where.batchId = batchId;
+      if (sellerId) where.sellerId = sellerId;
+
+      const { rows, count } = await Payout.findAndCountAll({
+        where,
+        limit: parseInt(limit.toString()),
+        offset: parseInt(offset.toString()),
+        order: [['createdAt', 'DESC']],
+        include: [
+          {
+            association: 'seller',
+            attributes: ['id', 'firstName', 'lastName', 'email']
+          }
+        ]
+      });
+
+      return { payouts: rows, total: count };
+    } catch (error) {
+      logger.error('Error getting payouts:', error);
+      throw new ApiResponse(500, 'Failed to fetch payouts');
+    }
+  }
+
+  /**
+   * A seller's ledger entries, newest first
+   */
+  public static async getTransactions(sellerId: string, filters: any = {}): Promise<{ entries: LedgerEntry[]; total: number }> {
+    try {
+      const { account, kind, from, to, limit = 20, offset = 0 } = filters;
+      const where: any = {
+        ownerId: sellerId,
+        account: account && SELLER_ACCOUNTS.includes(account) ? account : { [Op.in]: SELLER_ACCOUNTS }
+      };
+
+      if (kind) {
+        where.kind = kind;
+      }
+
+      if (from || to) {
+        where.createdAt = {
+          ...(from && { [Op.gte]: new Date(from) }),
+          ...(to && { [Op.lte]: new Date(to) })
+        };
+      }
+
+      const { rows, count } = await LedgerEntry.findAndCountAll({
+        where,
+        limit: parseInt(limit.toString()),
+        offset: parseInt(offset.toString()),
+        order: [['createdAt', 'DESC']],
+        include: [
+          {
+            association: 'auction',
+            attributes: ['id', 'title']
+          },
+          {
+            association: 'payout',
+            attributes: ['id', 'batchId', 'status', 'reference']
+          }
+        ]
+      });
+
+      return { entries: rows, total: count };
+    } catch (error) {
+      logger.error('Error getting ledger transactions:', error);
+      throw new ApiResponse(500, 'Failed to fetch transactions');
+    }
+  }
+
+  public static async getSellerBalances(sellerId: string): Promise<SellerBalance[]> {
+    try {
+      const totals = await this.getAccountTotals({ ownerId: sellerId, account: { [Op.in]: SELLER_ACCOUNTS } });
+
+      const paidOut = await Payout.findAll({
+        attributes: ['currency', [sequelize.fn('SUM', sequelize.col('amount')), 'total']],
+        where: { sellerId, status: 'paid' },
+        group: ['currency'],
+        raw: true
+      }) as any[];
+
+      const currencies = new Set([...Object.keys(totals), ...paidOut.map(row => row.currency)]);
+
+      return [...currencies].map(currency => ({
+        currency,
+        payable: totals[currency]?.seller_payable || 0,
+        available: totals[currency]?.seller_available || 0,
+        inTransit: totals[currency]?.payouts_in_transit || 0,
+        paidOut: roundMoney(Number(paidOut.find(row => row.currency === currency)?.total || 0))
+      }));
+    } catch (error) {
+      logger.error('Error getting seller balances:', error);
+      throw new ApiResponse(500, 'Failed to fetch balances');
+    }
+  }
+
+  /**
+   * Balance of every account across all owners, by currency
+   */
+  public static async getPlatformBalances(): Promise<Record<string, Partial<Record<LedgerAccount, number>>>> {
+    try {
+      return await this.getAccountTotals({});
+    } catch (error) {
+      logger.error('Error getting ledger balances:', error);
+      throw new ApiResponse(500, 'Failed to fetch ledger balances');
+    }
+  }
+
+  /**
+   * Balances by currency and account. cash is an asset, so its balance is
+   * debits less credits; every other account is credits less debits.
+   */
+  private static async getAccountTotals(where: any): Promise<Record<string, Partial<Record<LedgerAccount, number>>>> {
+    const rows = await LedgerEntry.findAll({
+      attributes: [
+        'currency',
+        'account',
+        [sequelize.literal("SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END)"), 'balance']
+      ],
+      where,
+      group: ['currency', 'account'],
+      raw: true
+    }) as any[];
+
+    const totals: Record<string, Partial<Record<LedgerAccount, number>>> = {};
+
+    rows.forEach(row => {
+      const balance = roundMoney(Number(row.balance));
+      const byAccount = totals[row.currency] || (totals[row.currency] = {});
+      byAccount[row.account as LedgerAccount] = row.account === 'cash' ? -balance : balance;
+    });
+
+    return totals;
+  }
+
+  /**
+   * Post the opposite of a sale's allocation and release
+   */
+  private static async reverseSettlement(settlement: Settlement, reason: string, transaction: Transaction): Promise<void> {
+    const entries = await LedgerEntry.findAll({
+      where: {
+        settlementId: settlement.id,
+        kind: { [Op.in]: ['sale_allocated', 'funds_released'] }
+      },
+      transaction
+    });
+
+    await this.post({
+      kind: 'sale_reversed',
+      currency: settlement.currency,
+      auctionId: settlement.auctionId,
+      settlementId: settlement.id,
+      description: reason
+    }, entries.map(entry => ({
+      account: entry.account,
+      ownerId: entry.ownerId,
+      direction: entry.direction === 'debit' ? 'credit' : 'debit',
+      amount: Number(entry.amount)
+    })), transaction);
+
+    settlement.escrowStatus = 'reversed';
+    await settlement.save({ transaction });
+
+    await schedulerService.scheduleEscrowRelease(settlement);
+  }
+
+  private static async post(context: PostingContext, postings: Posting[], transaction: Transaction): Promise<LedgerEntry[]> {
+    const lines = postings
+      .map(posting => ({ ...posting, amount: roundMoney(posting.amount) }))
+      .filter(posting => posting.amount > 0);
+
+    const debits = roundMoney(lines.filter(line => line.direction === 'debit').reduce((sum, line) => sum + line.amount, 0));
+    const credits = roundMoney(lines.filter(line => line.direction === 'credit').reduce((sum, line) => sum + line.amount, 0));
+
+    if (debits !== credits) {
+      throw new Error(`Unbalanced ${context.kind} posting: debits ${debits}, credits ${credits}`);
+    }
+
+    const transactionId = uuidv4();
+
+    return LedgerEntry.bulkCreate(lines.map(line => ({
+      transactionId,
+      account: line.account,
+      ownerId: line.ownerId || null,
+      direction: line.direction,
+      amount: line.amount,
+      currency: context.currency,
+      kind: context.kind,
+      auctionId: context.auctionId || null,
+      settlementId: context.settlementId || null,
+      paymentId: context.paymentId || null,
+      payoutId: context.payoutId || null,
+      description: context.description || null
+    })) as any[], { transaction });
+  }
+
+  private static async hasEntries(where: any, transaction: Transaction): Promise<boolean> {
+    return (await LedgerEntry.count({ where, transaction })) > 0;
+  }
+
+  // Serialise postings on the same key until the transaction ends
+  private static async lock(key: string, transaction: Transaction): Promise<void> {
+    await sequelize.query('SELECT pg_advisory_xact_lock(hashtext(:key))', {
+      replacements: { key: `ledger:${key}` },
+      transaction
+    });
+  }
+}
+
+export const ledgerService = LedgerService;
\ No newline at end of file
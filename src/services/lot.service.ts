@@ -0,0 +1,444 @@
+import { Op, Transaction } from 'sequelize';
+import Auction from '../database/models/Auction';
+import Lot from '../database/models/Lot';
+import { auctionStateService } from './auctionState.service';
+import { AuctionCloseOutcome } from './auctionFormat.service';
+import { schedulerService } from './scheduler.service';
+import { ApiResponse } from '../utils/helpers';
+import sequelize from '../config/database';
+import { logger } from '../utils/logger';
+
+// Default gap between consecutive lot closing times
+const DEFAULT_LOT_CLOSE_INTERVAL_SECONDS = 60;
+
+const EDITABLE_LOT_FIELDS = ['title', 'description', 'itemDetails', 'startingBid', 'bidIncrement', 'reservePrice'];
+
+export interface LotCloseResult {
+  lot: Lot;
+  auction: Auction;
+  outcome: AuctionCloseOutcome;
+  // Set when this was the last open lot and the whole event has now ended
+  eventOutcome: AuctionCloseOutcome | null;
+}
+
+export class LotService {
+  public static async getLots(auctionId: string): Promise<Lot[]> {
+    try {
+      const auction = await Auction.findByPk(auctionId, { attributes: ['id'] });
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
+
+      return await Lot.findAll({
+        where: { auctionId },
+        order: [['lotNumber', 'ASC']],
+        include: [
+          {
+            association: 'highestBidder',
+            attributes: ['id', 'firstName', 'lastName']
+          },
+          {
+            association: 'winner',
+            attributes: ['id', 'firstName', 'lastName']
+          }
+        ]
+      });
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error getting auction lots:', error);
+      throw new ApiResponse(500, 'Failed to fetch lots');
+    }
+  }
+
+  public static async getLot(auctionId: string, lotId: string): Promise<Lot> {
+    try {
+      const lot = await Lot.findOne({
+        where: { id: lotId, auctionId },
+        include: [
+          {
+            association: 'highestBidder',
+            attributes: ['id', 'firstName', 'lastName']
+          },
+          {
+            association: 'winner',
+            attributes: ['id', 'firstName', 'lastName']
+          }
+        ]
+      });
+
+      if (!lot) {
+        throw new ApiResponse(404, 'Lot not found');
+      }
+
+      return lot;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error getting lot:', error);
+      throw new ApiResponse(500, 'Failed to fetch lot');
+    }
+  }
+
+  /**
+   * Append lots to an event's catalogue, numbered after the existing ones
+   */
+  public static async addLots(auctionId: string, lots: any[], companyId?: string): Promise<Lot[]> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const auction = await this.getEditableAuction(auctionId, companyId, transaction);
+
+      if ((auction.format || 'english') !== 'english') {
+        throw new ApiResponse(400, 'Lots are only supported for english auctions');
+      }
+
+      const lastLotNumber: number = await Lot.max('lotNumber', { where: { auctionId }, transaction }) || 0;
+
+      const created = await Lot.bulkCreate(
+        lots.map((lot, index) => ({
+          auctionId,
+          lotNumber: lastLotNumber + index + 1,
+          title: lot.title,
+          description: lot.description || null,
+          itemDetails: lot.itemDetails || {},
+          startingBid: lot.startingBid || 0,
+          bidIncrement: lot.bidIncrement ?? null,
+          reservePrice: lot.reservePrice ?? null,
+          status: 'open'
+        })) as any[],
+        { transaction, returning: true }
+      );
+
+      await this.syncCatalogue(auction, transaction);
+
+      await transaction.commit();
+      logger.info(`${created.length} lots added to auction ${auctionId}`);
+
+      return await this.getLots(auctionId);
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error adding lots:', error);
+      throw new ApiResponse(500, 'Failed to add lots');
+    }
+  }
+
+  public static async updateLot(auctionId: string, lotId: string, data: any, companyId?: string): Promise<Lot> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      await this.getEditableAuction(auctionId, companyId, transaction);
+
+      const lot = await Lot.findOne({ where: { id: lotId, auctionId }, transaction });
+
+      if (!lot) {
+        throw new ApiResponse(404, 'Lot not found');
+      }
+
+      const updates: any = {};
+      EDITABLE_LOT_FIELDS.forEach(field => {
+        if (data[field] !== undefined) {
+          updates[field] = data[field];
+        }
+      });
+
+      await lot.update(updates, { transaction });
+      await transaction.commit();
+
+      logger.info(`Lot updated: ${lot.id} on auction ${auctionId}`);
+
+      return lot;
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error updating lot:', error);
+      throw new ApiResponse(500, 'Failed to update lot');
+    }
+  }
+
+  /**
+   * Pull a lot from the catalogue. Once the event is live only lots
+   * without bids can be withdrawn.
+   */
+  public static async withdrawLot(auctionId: string, lotId: string, companyId?: string): Promise<LotCloseResult> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const auction = await Auction.findByPk(auctionId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
+
+      if (companyId && auction.companyId !== companyId) {
+        throw new ApiResponse(403, 'Not authorized to manage lots on this auction');
+      }
+
+      const lot = await Lot.findOne({
+        where: { id: lotId, auctionId },
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!lot) {
+        throw new ApiResponse(404, 'Lot not found');
+      }
+
+      if (lot.status !== 'open') {
+        throw new ApiResponse(400, 'Only open lots can be withdrawn');
+      }
+
+      if (lot.totalBids > 0) {
+        throw new ApiResponse(400, 'Cannot withdraw a lot that has bids');
+      }
+
+      lot.status = 'withdrawn';
+      lot.metadata = { ...lot.metadata, withdrawnAt: new Date() };
+      await lot.save({ transaction });
+
+      await this.syncCatalogue(auction, transaction);
+
+      // Withdrawing the last open lot of a live event ends the event
+      const eventOutcome = auction.status === 'live'
+        ? await this.finishEventIfComplete(auction, transaction)
+        : null;
+
+      await auction.save({ transaction });
+      await transaction.commit();
+
+      if (eventOutcome) {
+        await schedulerService.scheduleAuction(auction);
+      }
+
+      logger.info(`Lot withdrawn: ${lot.id} from auction ${auctionId}`);
+
+      return { lot, auction, outcome: 'no_bids', eventOutcome };
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error withdrawing lot:', error);
+      throw new ApiResponse(500, 'Failed to withdraw lot');
+    }
+  }
+
+  /**
+   * Close a lot whose closing time has passed. The top bid wins the lot if
+   * it meets the lot's reserve. Closing the last open lot ends the event.
+   * Returns null when the lot is not due to close (or the event is paused).
+   */
+  public static async closeLot(lotId: string): Promise<LotCloseResult | null> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const pending = await Lot.findByPk(lotId, { attributes: ['id', 'auctionId'], transaction });
+
+      if (!pending) {
+        await transaction.rollback();
+        return null;
+      }
+
+      // Lock order matches bidding: event first, then the lot
+      const auction = await Auction.findByPk(pending.auctionId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+      const lot = await Lot.findByPk(lotId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (
+        !auction ||
+        !lot ||
+        auction.status !== 'live' ||
+        lot.status !== 'open' ||
+        !lot.closesAt ||
+        new Date(lot.closesAt) > new Date()
+      ) {
+        await transaction.rollback();
+        return null;
+      }
+
+      const topBid = Number(lot.currentHighestBid);
+      const reservePrice = Number(lot.reservePrice || 0);
+
+      let outcome: AuctionCloseOutcome;
+
+      if (!lot.currentHighestBidderId) {
+        outcome = 'no_bids';
+      } else if (reservePrice > 0 && topBid < reservePrice) {
+        outcome = 'reserve_not_met';
+      } else {
+        outcome = 'won';
+        lot.winnerId = lot.currentHighestBidderId;
+        lot.winnerAmount = topBid;
+      }
+
+      lot.status = outcome === 'won' ? 'sold' : 'unsold';
+      lot.metadata = {
+        ...lot.metadata,
+        endReason: outcome,
+        endedAt: new Date()
+      };
+      await lot.save({ transaction });
+
+      const eventOutcome = await this.finishEventIfComplete(auction, transaction);
+
+      await auction.save({ transaction });
+      await transaction.commit();
+
+      logger.info(`Lot closed: ${lot.id} (${outcome}) on auction ${auction.id}`);
+
+      return { lot, auction, outcome, eventOutcome };
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error closing lot:', error);
+      throw new ApiResponse(500, 'Failed to close lot');
+    }
+  }
+
+  /**
+   * Recompute the staggered closing times: the first lot closes at the
+   * event's biddingEndsAt and each following lot lotCloseInterval seconds
+   * later. Only done before bidding opens so live closing times never move.
+   */
+  public static async restagger(auction: Auction, transaction: Transaction | null = null): Promise<void> {
+    if (!['draft', 'scheduled'].includes(auction.status) || !auction.timing?.biddingEndsAt) {
+      return;
+    }
+
+    const interval = Number(auction.auctionConfig?.lotCloseInterval || DEFAULT_LOT_CLOSE_INTERVAL_SECONDS);
+    const firstCloseAt = new Date(auction.timing.biddingEndsAt).getTime();
+
+    const lots = await Lot.findAll({
+      where: { auctionId: auction.id, status: { [Op.ne]: 'withdrawn' } },
+      order: [['lotNumber', 'ASC']],
+      transaction
+    });
+
+    for (const [index, lot] of lots.entries()) {
+      lot.closesAt = new Date(firstCloseAt + index * interval * 1000);
+      await lot.save({ transaction });
+    }
+  }
+
+  // Push back the closing times of lots still open, e.g. by the length of a pause
+  public static async shiftOpenLots(auctionId: string, ms: number, transaction: Transaction | null = null): Promise<void> {
+    const lots = await Lot.findAll({
+      where: { auctionId, status: 'open', closesAt: { [Op.ne]: null } },
+      transaction
+    });
+
+    for (const lot of lots) {
+      lot.closesAt = new Date(new Date(lot.closesAt!).getTime() + ms);
+      await lot.save({ transaction });
+    }
+  }
+
+  public static isLotEvent(auction: Auction): boolean {
+    return Number(auction.metadata?.lotCount || 0) > 0;
+  }
+
+  private static async getEditableAuction(
+    auctionId: string,
+    companyId: string | undefined,
+    transaction: Transaction
+  ): Promise<Auction> {
+    const auction = await Auction.findByPk(auctionId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE
+    });
+
+    if (!auction) {
+      throw new ApiResponse(404, 'Auction not found');
+    }
+
+    if (companyId && auction.companyId !== companyId) {
+      throw new ApiResponse(403, 'Not authorized to manage lots on this auction');
+    }
+
+    if (!['draft', 'scheduled'].includes(auction.status)) {
+      throw new ApiResponse(400, 'Lots can only be changed before the auction goes live');
+    }
+
+    return auction;
+  }
+
+  /**
+   * Keep the event's lot count and closing schedule in step with its lots
+   */
+  private static async syncCatalogue(auction: Auction, transaction: Transaction): Promise<void> {
+    const lotCount = await Lot.count({
+      where: { auctionId: auction.id, status: { [Op.ne]: 'withdrawn' } },
+      transaction
+    });
+
+    auction.metadata = { ...auction.metadata, lotCount };
+    await auction.save({ transaction });
+
+    await this.restagger(auction, transaction);
+  }
+
+  /**
+   * End the event once no lot is left open. Sold lots roll up into the
+   * event's final amount; lot events have no single winner.
+   */
+  private static async finishEventIfComplete(
+    auction: Auction,
+    transaction: Transaction
+  ): Promise<AuctionCloseOutcome | null> {
+    const openLots = await Lot.count({
+      where: { auctionId: auction.id, status: 'open' },
+      transaction
+    });
+
+    if (openLots > 0) {
+      return null;
+    }
+
+    const lots = await Lot.findAll({
+      where: { auctionId: auction.id, status: { [Op.in]: ['sold', 'unsold'] } },
+      attributes: ['status', 'winnerAmount', 'currentHighestBidderId'],
+      transaction
+    });
+
+    const soldLots = lots.filter(lot => lot.status === 'sold');
+    const outcome: AuctionCloseOutcome = soldLots.length > 0
+      ? 'won'
+      : lots.some(lot => lot.currentHighestBidderId) ? 'reserve_not_met' : 'no_bids';
+
+    auction.finalAmount = soldLots.reduce((sum, lot) => sum + Number(lot.winnerAmount || 0), 0);
+    auction.metadata = {
+      ...auction.metadata,
+      endReason: outcome,
+      endedAt: new Date(),
+      lotsSold: soldLots.length,
+      lotsUnsold: lots.length - soldLots.length
+    };
+
+    await auctionStateService.transition(auction, 'ended', {
+      reason: 'All lots closed',
+      metadata: { outcome, lotsSold: soldLots.length }
+    }, transaction);
+
+    return outcome;
+  }
+}
+
+export const lotService = LotService;
\ No newline at end of file
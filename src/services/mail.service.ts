@@ -0,0 +1,34 @@
+import { createTransport, MailTemplateName, MailTransport, templates } from './mail';
+import { logger } from '../utils/logger';
+
+const FROM = process.env.EMAIL_FROM || 'noreply@bidmaster.com';
+
+/**
+ * Renders templated messages and hands them to the configured transport.
+ * Tests swap in a MemoryTransport with useTransport().
+ */
+export class MailService {
+  private static transport: MailTransport | null = null;
+
+  public static useTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  public static getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = createTransport();
+    }
+    return this.transport;
+  }
+
+  public static async send(template: MailTemplateName, to: string, vars: Record<string, any>): Promise<void> {
+    const transport = this.getTransport();
+    const rendered = templates[template](vars);
+
+    await transport.send(FROM, { to, template, ...rendered });
+
+    logger.info(`Mail ${template} sent to ${to} via ${transport.name}`);
+  }
+}
+
+export const mailService = MailService;
\ No newline at end of file
@@ -0,0 +1,24 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { MailMessage, MailTransport } from './mailTransport';
+
+/**
+ * Writes each message to MAIL_FILE_DIR as JSON instead of sending it, so
+ * links in development mail can be opened straight from disk
+ */
+export class FileTransport implements MailTransport {
+  public readonly name = 'file';
+  private counter = 0;
+
+  constructor(private readonly directory: string = process.env.MAIL_FILE_DIR || 'tmp/mail') {}
+
+  public async send(from: string, message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    this.counter += 1;
+    const recipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+    const file = path.join(this.directory, `${Date.now()}-${this.counter}-${recipient}.json`);
+
+    await fs.writeFile(file, JSON.stringify({ from, sentAt: new Date(), ...message }, null, 2));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { MailTransport } from './mailTransport';
+import { SmtpTransport } from './smtp.transport';
+import { FileTransport } from './file.transport';
+import { MemoryTransport } from './memory.transport';
+
+export * from './mailTransport';
+export * from './templates';
+export { SmtpTransport, FileTransport, MemoryTransport };
+export { SentMail } from './memory.transport';
+
+/**
+ * MAIL_TRANSPORT picks where mail goes: "smtp", "file" or "memory".
+ * Outside production it defaults to the file drop.
+ */
+export const createTransport = (name: string | undefined = process.env.MAIL_TRANSPORT): MailTransport => {
+  switch (name || (process.env.NODE_ENV === 'production' ? 'smtp' : 'file')) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport();
+    case 'memory':
+      return new MemoryTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${name}`);
+  }
+};
\ No newline at end of file
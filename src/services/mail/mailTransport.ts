@@ -0,0 +1,17 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  // Which template produced it, for logs and test assertions
+  template?: string;
+}
+
+/**
+ * Delivers rendered messages. SMTP in production; a local file drop or an
+ * in-memory outbox anywhere mail must not leave the machine.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(from: string, message: MailMessage): Promise<void>;
+}
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { MailMessage, MailTransport } from './mailTransport';
+
+export interface SentMail extends MailMessage {
+  from: string;
+  sentAt: Date;
+}
+
+// Keeps every message in an outbox; for tests
+export class MemoryTransport implements MailTransport {
+  public readonly name = 'memory';
+  public readonly outbox: SentMail[] = [];
+
+  public async send(from: string, message: MailMessage): Promise<void> {
+    this.outbox.push({ from, sentAt: new Date(), ...message });
+  }
+
+  // The most recent message to an address
+  public last(to: string): SentMail | null {
+    return [...this.outbox].reverse().find(message => message.to === to) || null;
+  }
+
+  public reset(): void {
+    this.outbox.length = 0;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { MailMessage, MailTransport } from './mailTransport';
+
+export class SmtpTransport implements MailTransport {
+  public readonly name = 'smtp';
+  private transporter: any = null;
+
+  // Created on first send so a missing SMTP config only fails when mail is actually sent
+  private get client(): any {
+    if (!this.transporter) {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP is not configured');
+      }
+
+      // Required here rather than imported, so only deployments sending over SMTP need nodemailer
+      const nodemailer = require('nodemailer');
+      const port = parseInt(process.env.SMTP_PORT || '587');
+
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        ...(process.env.SMTP_USER ? { auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } } : {})
+      });
+    }
+
+    return this.transporter;
+  }
+
+  public async send(from: string, message: MailMessage): Promise<void> {
+    await this.client.sendMail({
+      from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+  }
+}
\ No newline at end of file
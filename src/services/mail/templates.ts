@@ -0,0 +1,84 @@
+export type MailTemplateName =
+  | 'email_verification'
+  | 'password_reset'
+  | 'password_changed'
+  | 'email_change'
+  | 'email_change_notice'
+  | 'company_invitation';
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Every message is a greeting, a few paragraphs and optionally one button
+const layout = (
+  subject: string,
+  firstName: string,
+  paragraphs: string[],
+  action?: { label: string; url: string }
+): RenderedMail => {
+  const text = [
+    `Hi ${firstName},`,
+    '',
+    ...paragraphs.flatMap(paragraph => [paragraph, '']),
+    ...(action ? [`${action.label}: ${action.url}`, ''] : []),
+    'The BidMaster team'
+  ].join('\n');
+
+  const html = [
+    `<p>Hi ${escapeHtml(firstName)},</p>`,
+    ...paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`),
+    ...(action ? [`<p><a href="${escapeHtml(action.url)}">${escapeHtml(action.label)}</a></p>`] : []),
+    '<p>The BidMaster team</p>'
+  ].join('\n');
+
+  return { subject, text, html };
+};
+
+export const templates: Record<MailTemplateName, (vars: Record<string, any>) => RenderedMail> = {
+  email_verification: ({ firstName, url, expiresInHours }) =>
+    layout('Verify your email address', firstName, [
+      'Please confirm this is your email address to finish setting up your account.',
+      `The link expires in ${expiresInHours} hours.`
+    ], { label: 'Verify email', url }),
+
+  password_reset: ({ firstName, url, expiresInMinutes }) =>
+    layout('Reset your password', firstName, [
+      'We received a request to reset your password.',
+      `The link expires in ${expiresInMinutes} minutes. If you did not ask for this, you can ignore this email.`
+    ], { label: 'Reset password', url }),
+
+  password_changed: ({ firstName }) =>
+    layout('Your password was changed', firstName, [
+      'Your password was just changed and every device was signed out.',
+      'If this was not you, reset your password straight away and contact support.'
+    ]),
+
+  email_change: ({ firstName, url, expiresInHours }) =>
+    layout('Confirm your new email address', firstName, [
+      'Confirm this address to make it the email on your account.',
+      `The link expires in ${expiresInHours} hours.`
+    ], { label: 'Confirm email', url }),
+
+  email_change_notice: ({ firstName, newEmail }) =>
+    layout('Your email address is being changed', firstName, [
+      `Someone asked to change the email on your account to ${newEmail}.`,
+      'If this was not you, change your password and contact support.'
+    ]),
+
+  company_invitation: ({ firstName, inviterName, companyName, role, url, expiresInDays }) =>
+    layout(`Join ${companyName} on BidMaster`, firstName, [
+      `${inviterName} invited you to join ${companyName} as ${role === 'owner' ? 'an' : 'a'} ${role}.`,
+      `Sign in or create an account with this email address to accept. The invitation expires in ${expiresInDays} days.`
+    ], { label: 'Accept invitation', url })
+};
\ No newline at end of file
@@ -1,74 +1,54 @@
-import Razorpay from 'razorpay';
-import Stripe from 'stripe';
 import { v4 as uuidv4 } from 'uuid';
-import Payment from '../database/models/Payment';
+import Payment, { PaymentProviderName } from '../database/models/Payment';
+import BidderDeposit from '../database/models/BidderDeposit';
+import { settlementService } from './settlement.service';
+import { ledgerService } from './ledger.service';
+import { refundService } from './refund.service';
+import { paymentProviders, PaymentProvider, ProviderOrder, ProviderPaymentRef } from './providers';
 import { logger } from '../utils/logger';
 import { ApiResponse } from '../utils/helpers';
 
 interface PaymentData {
   amount: number;
-  currency: string;
+  // Defaults to the provider's own currency
+  currency?: string;
   userId: string;
   auctionId?: string;
   description?: string;
   metadata?: any;
 }
 
-export class PaymentService {
-  private razorpay: Razorpay;
-  private stripe: Stripe;
-
-  constructor() {
-    if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
-      throw new Error('Razorpay credentials not configured');
-    }
-
-    if (!process.env.STRIPE_SECRET_KEY) {
-      throw new Error('Stripe secret key not configured');
-    }
-
-    this.razorpay = new Razorpay({
-      key_id: process.env.RAZORPAY_KEY_ID,
-      key_secret: process.env.RAZORPAY_KEY_SECRET,
-    });
+// What the client needs to complete a deposit with its provider
+export interface DepositHold {
+  payment: Payment;
+  clientSecret?: string | null;
+  orderId: string;
+}
 
-    this.stripe = new Stripe(process.env.STRIPE_SECRET_KEY, { 
-      apiVersion: '2023-10-16' 
-    });
-  }
+const FINAL_STATUSES = ['completed', 'failed', 'partially_refunded', 'refunded'];
+const REFUNDED_STATUSES = ['partially_refunded', 'refunded'];
 
+export class PaymentService {
+  /**
+   * Start a payment with the provider picked for its currency. Returns
+   * whatever the client needs to open that provider's checkout.
+   */
   public async createPaymentOrder(paymentData: PaymentData): Promise<any> {
     try {
-      const receipt = `receipt_${uuidv4().replace(/-/g, '').substring(0, 20)}`;
-      
-      const order = await this.razorpay.orders.create({
-        amount: paymentData.amount * 100, // Convert to paise
-        currency: paymentData.currency || 'INR',
-        receipt,
-        notes: {
-          userId: paymentData.userId,
-          auctionId: paymentData.auctionId,
-          ...paymentData.metadata
-        }
-      });
-
-      // Save payment record
-      await Payment.create({
-        id: uuidv4(),
-        userId: paymentData.userId,
-        auctionId: paymentData.auctionId,
-        amount: paymentData.amount,
-        currency: paymentData.currency || 'INR',
-        provider: 'razorpay',
-        providerOrderId: order.id,
-        status: 'created',
-        metadata: paymentData.metadata
-      });
+      const provider = paymentProviders.resolve(paymentData.currency);
+      const { payment, order } = await this.createOrder(provider, paymentData, paymentData.metadata, false);
 
-      logger.info(`Payment order created: ${order.id} for user ${paymentData.userId}`);
-      
-      return order;
+      return {
+        paymentId: payment.id,
+        provider: provider.name,
+        orderId: order.orderId,
+        clientSecret: order.clientSecret,
+        ...order.clientData
+      };
     } catch (error: any) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
       logger.error('Error creating payment order:', error);
       throw new ApiResponse(500, 'Failed to create payment order', { error: error.message });
     }
@@ -76,95 +56,272 @@ export class PaymentService {
 
   public async createStripePaymentIntent(paymentData: PaymentData): Promise<any> {
     try {
-      const paymentIntent = await this.stripe.paymentIntents.create({
-        amount: paymentData.amount * 100, // Convert to cents
-        currency: paymentData.currency || 'usd',
-        metadata: {
-          userId: paymentData.userId,
-          auctionId: paymentData.auctionId,
-          ...paymentData.metadata
-        },
-        description: paymentData.description || 'Auction Payment'
-      });
-
-      // Save payment record
-      await Payment.create({
-        id: uuidv4(),
-        userId: paymentData.userId,
-        auctionId: paymentData.auctionId,
-        amount: paymentData.amount,
-        currency: paymentData.currency || 'usd',
-        provider: 'stripe',
-        providerOrderId: paymentIntent.id,
-        status: 'created',
-        metadata: paymentData.metadata
-      });
+      const provider = paymentProviders.resolve(paymentData.currency, 'stripe');
+      const { order } = await this.createOrder(provider, paymentData, paymentData.metadata, false);
 
-      logger.info(`Stripe payment intent created: ${paymentIntent.id} for user ${paymentData.userId}`);
-      
       return {
-        clientSecret: paymentIntent.client_secret,
-        paymentIntentId: paymentIntent.id
+        clientSecret: order.clientSecret,
+        paymentIntentId: order.orderId
       };
     } catch (error: any) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
       logger.error('Error creating Stripe payment intent:', error);
       throw new ApiResponse(500, 'Failed to create payment intent', { error: error.message });
     }
   }
 
-  public async verifyRazorpayPayment(paymentId: string, orderId: string, signature: string): Promise<boolean> {
+  /**
+   * Collect an auction deposit. Providers that can hold a card authorise it
+   * with manual capture so nothing is charged unless the bidder wins; the
+   * others (Razorpay) take the deposit up front and refund it on release.
+   */
+  public async createDepositHold(paymentData: PaymentData, providerName?: PaymentProviderName | null): Promise<DepositHold> {
     try {
-      const crypto = require('crypto');
-      const generatedSignature = crypto
-        .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET!)
-        .update(orderId + '|' + paymentId)
-        .digest('hex');
-
-      if (generatedSignature === signature) {
-        // Update payment status
-        await Payment.update(
-          { status: 'completed' },
-          { where: { providerOrderId: orderId } }
-        );
-        
-        logger.info(`Razorpay payment verified: ${paymentId}`);
-        return true;
+      const provider = paymentProviders.resolve(paymentData.currency, providerName);
+      const metadata = { ...paymentData.metadata, type: 'deposit' };
+
+      const { payment, order } = await this.createOrder(
+        provider,
+        { ...paymentData, description: paymentData.description || 'Auction Deposit' },
+        metadata,
+        provider.supportsManualCapture
+      );
+
+      return { payment, clientSecret: order.clientSecret, orderId: order.orderId };
+    } catch (error: any) {
+      if (error instanceof ApiResponse) {
+        throw error;
       }
-      
-      return false;
+      logger.error('Error creating deposit hold:', error);
+      throw new ApiResponse(500, 'Failed to create deposit', { error: error.message });
+    }
+  }
+
+  /**
+   * Give a deposit back: cancel a hold that was never captured, or refund
+   * a deposit that was paid up front
+   */
+  public async releaseDepositHold(payment: Payment): Promise<void> {
+    if (payment.status === 'refunded' || payment.status === 'failed') {
+      return;
+    }
+
+    const provider = paymentProviders.get(payment.provider);
+
+    if (payment.status === 'completed' || payment.status === 'partially_refunded') {
+      // Tracked as a refund, which books it in the ledger once the provider confirms it
+      await refundService.refundRemaining(payment, 'Auction deposit released');
+      await payment.reload();
+      await payment.update({ metadata: { ...payment.metadata, releasedAt: new Date() } });
+    } else if (provider.supportsManualCapture) {
+      // An uncaptured hold never reached escrow, so there is no refund to book
+      await provider.cancel(this.toProviderRef(payment));
+      await payment.update({
+        status: 'refunded',
+        metadata: { ...payment.metadata, releasedAt: new Date() }
+      });
+    } else {
+      // An order the bidder never paid has nothing to refund
+      await payment.update({ status: 'failed', metadata: { ...payment.metadata, releasedAt: new Date() } });
+      return;
+    }
+
+    logger.info(`Deposit released: ${payment.providerOrderId}`);
+  }
+
+  /**
+   * Take the deposit towards the winning bid. Deposits paid up front are
+   * already completed; only holds need capturing.
+   */
+  public async captureDepositHold(payment: Payment): Promise<void> {
+    if (payment.status !== 'completed') {
+      const provider = paymentProviders.get(payment.provider);
+
+      if (provider.supportsManualCapture) {
+        await provider.capture(this.toProviderRef(payment));
+      }
+
+      await payment.update({
+        status: 'completed',
+        metadata: { ...payment.metadata, capturedAt: new Date() }
+      });
+
+      logger.info(`Deposit captured: ${payment.providerOrderId}`);
+    }
+
+    // Idempotent, so a retry after a ledger failure still books the deposit into escrow
+    await ledgerService.recordPaymentReceived(payment);
+  }
+
+  /**
+   * Check the signature a provider's checkout hands back to the client
+   * (Razorpay, the mock gateway) and complete the payment
+   */
+  public async verifyCheckout(
+    providerName: PaymentProviderName,
+    paymentId: string,
+    orderId: string,
+    signature: string
+  ): Promise<boolean> {
+    try {
+      if (!paymentProviders.get(providerName).verifyCheckout(orderId, paymentId, signature)) {
+        return false;
+      }
+
+      // A signature from one provider says nothing about another provider's order
+      if (!(await Payment.findOne({ where: { providerOrderId: orderId, provider: providerName }, attributes: ['id'] }))) {
+        throw new ApiResponse(404, 'Payment not found');
+      }
+
+      await this.markCompleted(orderId, paymentId);
+
+      logger.info(`${providerName} payment verified: ${paymentId}`);
+      return true;
     } catch (error) {
-      logger.error('Error verifying Razorpay payment:', error);
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error verifying payment:', error);
       throw new ApiResponse(500, 'Payment verification failed');
     }
   }
 
-  public async handleStripeWebhook(event: any): Promise<void> {
+  /**
+   * Ask the provider where a payment stands and catch up on anything a
+   * missed webhook would have told us
+   */
+  public async getPaymentStatus(paymentId: string, user: { id: string; role: string }): Promise<Payment> {
     try {
-      switch (event.type) {
-        case 'payment_intent.succeeded':
-          const paymentIntent = event.data.object;
-          await Payment.update(
-            { status: 'completed' },
-            { where: { providerOrderId: paymentIntent.id } }
-          );
-          logger.info(`Stripe payment succeeded: ${paymentIntent.id}`);
-          break;
-
-        case 'payment_intent.payment_failed':
-          const failedIntent = event.data.object;
-          await Payment.update(
-            { status: 'failed', metadata: { failureReason: failedIntent.last_payment_error } },
-            { where: { providerOrderId: failedIntent.id } }
-          );
-          logger.error(`Stripe payment failed: ${failedIntent.id}`);
-          break;
-
-        default:
-          logger.info(`Unhandled Stripe event type: ${event.type}`);
+      const payment = await Payment.findByPk(paymentId);
+
+      if (!payment || (payment.userId !== user.id && user.role !== 'admin')) {
+        throw new ApiResponse(404, 'Payment not found');
+      }
+
+      if (FINAL_STATUSES.includes(payment.status)) {
+        return payment;
       }
+
+      const status = await paymentProviders.get(payment.provider).getStatus(this.toProviderRef(payment));
+
+      if (status.status === 'completed') {
+        await this.markCompleted(payment.providerOrderId, status.paymentId);
+      } else if (status.status === 'pending') {
+        await this.markAuthorised(payment.providerOrderId);
+      } else if (status.status === 'failed') {
+        await this.markFailed(payment.providerOrderId, 'Reported failed by provider');
+      }
+
+      return await payment.reload();
     } catch (error) {
-      logger.error('Error handling Stripe webhook:', error);
-      throw error;
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error checking payment status:', error);
+      throw new ApiResponse(500, 'Failed to check payment status');
+    }
+  }
+
+  /**
+   * The provider has the money. Safe to repeat: a redelivered webhook or a
+   * client verify racing the webhook only books the payment once.
+   */
+  public async markCompleted(providerOrderId: string, providerPaymentId?: string | null): Promise<Payment | null> {
+    const payment = await Payment.findOne({ where: { providerOrderId } });
+
+    if (!payment || REFUNDED_STATUSES.includes(payment.status)) {
+      return payment;
+    }
+
+    if (payment.status !== 'completed') {
+      await payment.update({
+        status: 'completed',
+        ...(providerPaymentId ? { providerPaymentId } : {})
+      });
+    } else if (providerPaymentId && !payment.providerPaymentId) {
+      await payment.update({ providerPaymentId });
+    }
+
+    await this.markDepositHeld(providerOrderId);
+    await this.recordSettlementPayment(providerOrderId);
+
+    return payment;
+  }
+
+  // A manual-capture deposit has been authorised
+  public async markAuthorised(providerOrderId: string): Promise<void> {
+    await Payment.update(
+      { status: 'pending' },
+      { where: { providerOrderId, status: 'created' } }
+    );
+    await this.markDepositHeld(providerOrderId);
+  }
+
+  public async markFailed(providerOrderId: string, failureReason: any): Promise<void> {
+    const payment = await Payment.findOne({ where: { providerOrderId } });
+
+    // A late failure for an attempt that was retried successfully changes nothing
+    if (!payment || ['completed', ...REFUNDED_STATUSES].includes(payment.status)) {
+      return;
+    }
+
+    await payment.update({
+      status: 'failed',
+      metadata: { ...payment.metadata, failureReason }
+    });
+  }
+
+  /**
+   * Track a chargeback on the payment; a lost dispute is money returned to the payer
+   */
+  public async recordDispute(
+    payment: Payment,
+    dispute: { id: string; status: string; reason?: string | null; amount: number }
+  ): Promise<void> {
+    await payment.update({
+      metadata: {
+        ...payment.metadata,
+        dispute: {
+          ...payment.metadata?.dispute,
+          ...dispute,
+          updatedAt: new Date()
+        }
+      }
+    });
+
+    logger.warn(`Payment ${payment.id} dispute ${dispute.id}: ${dispute.status}`);
+
+    if (dispute.status === 'lost') {
+      await refundService.recordProviderRefund(payment, {
+        providerRefundId: dispute.id,
+        amount: dispute.amount,
+        reason: `Dispute lost${dispute.reason ? ` (${dispute.reason})` : ''}`
+      });
+    }
+  }
+
+  private async markDepositHeld(providerOrderId: string): Promise<void> {
+    const payment = await Payment.findOne({ where: { providerOrderId } });
+
+    if (!payment) {
+      return;
+    }
+
+    await BidderDeposit.update(
+      { status: 'held', heldAt: new Date() },
+      { where: { paymentId: payment.id, status: 'pending' } }
+    );
+  }
+
+  // A completed payment lands in escrow and may finish paying off a won auction
+  private async recordSettlementPayment(providerOrderId: string): Promise<void> {
+    const payment = await Payment.findOne({ where: { providerOrderId } });
+
+    if (payment && payment.auctionId) {
+      await ledgerService.recordPaymentReceived(payment);
+      await settlementService.recordPayment(payment.auctionId, payment.userId, payment.id);
     }
   }
 
@@ -194,55 +351,51 @@ export class PaymentService {
     }
   }
 
-  public async refundPayment(paymentId: string, reason?: string): Promise<boolean> {
-    try {
-      const payment = await Payment.findByPk(paymentId);
-      
-      if (!payment) {
-        throw new ApiResponse(404, 'Payment not found');
-      }
+  private async createOrder(
+    provider: PaymentProvider,
+    paymentData: PaymentData,
+    metadata: any,
+    manualCapture: boolean
+  ): Promise<{ payment: Payment; order: ProviderOrder }> {
+    const currency = paymentData.currency || provider.defaultCurrency;
 
-      if (payment.status !== 'completed') {
-        throw new ApiResponse(400, 'Only completed payments can be refunded');
-      }
+    const order = await provider.createOrder({
+      amount: paymentData.amount,
+      currency,
+      receipt: `receipt_${uuidv4().replace(/-/g, '').substring(0, 20)}`,
+      manualCapture,
+      metadata: {
+        userId: paymentData.userId,
+        auctionId: paymentData.auctionId,
+        ...metadata
+      },
+      ...(paymentData.description ? { description: paymentData.description } : {})
+    });
 
-      let refundResult;
-      
-      if (payment.provider === 'stripe') {
-        refundResult = await this.stripe.refunds.create({
-          payment_intent: payment.providerOrderId,
-          reason: reason || 'requested_by_customer'
-        });
-      } else if (payment.provider === 'razorpay') {
-        refundResult = await this.razorpay.payments.refund(payment.providerOrderId, {
-          amount: payment.amount * 100,
-          notes: { reason }
-        });
-      } else {
-        throw new ApiResponse(400, 'Unsupported payment provider');
-      }
+    const payment = await Payment.create({
+      id: uuidv4(),
+      userId: paymentData.userId,
+      auctionId: paymentData.auctionId,
+      amount: paymentData.amount,
+      currency,
+      provider: provider.name,
+      providerOrderId: order.orderId,
+      status: 'created',
+      metadata
+    } as any);
 
-      // Update payment status
-      await payment.update({ 
-        status: 'refunded',
-        metadata: { 
-          ...payment.metadata,
-          refundId: refundResult.id,
-          refundReason: reason,
-          refundedAt: new Date()
-        }
-      });
+    logger.info(`${provider.name} order created: ${order.orderId} for user ${paymentData.userId}`);
 
-      logger.info(`Payment refunded: ${paymentId} (${refundResult.id})`);
-      
-      return true;
-    } catch (error) {
-      if (error instanceof ApiResponse) {
-        throw error;
-      }
-      logger.error('Error refunding payment:', error);
-      throw new ApiResponse(500, 'Failed to process refund');
-    }
+    return { payment, order };
+  }
+
+  private toProviderRef(payment: Payment): ProviderPaymentRef {
+    return {
+      orderId: payment.providerOrderId,
+      paymentId: payment.providerPaymentId || null,
+      amount: Number(payment.amount),
+      currency: payment.currency
+    };
   }
 }
 
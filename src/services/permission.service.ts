@@ -0,0 +1,358 @@
+import { UniqueConstraintError } from 'sequelize';
+import Role, { Permission, PERMISSIONS } from '../database/models/Role';
+import UserRole from '../database/models/UserRole';
+import User from '../database/models/User';
+import redisClient from '../config/redis';
+import { ApiResponse } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+// Checked on every admin request, so each user's permissions are cached briefly
+const CACHE_TTL_SECONDS = 300;
+
+export const SUPER_ADMIN_ROLE = 'super_admin';
+
+interface SystemRole {
+  name: string;
+  description: string;
+  permissions: readonly Permission[];
+}
+
+export const SYSTEM_ROLES: SystemRole[] = [
+  {
+    name: SUPER_ADMIN_ROLE,
+    description: 'Full access, including backups and role management',
+    permissions: PERMISSIONS
+  },
+  {
+    name: 'support_agent',
+    description: 'Looks into user issues and disputes',
+    permissions: [
+      'dashboard.view', 'user.view', 'user.sessions.revoke', 'auction.view', 'company.view',
+      'payment.view', 'invoice.view', 'dispute.view', 'dispute.resolve'
+    ]
+  },
+  {
+    name: 'finance',
+    description: 'Payments, refunds, invoices, payouts and fees',
+    permissions: [
+      'dashboard.view', 'user.view', 'exposure.manage', 'payment.view', 'payment.refund',
+      'payment.reconcile', 'invoice.view', 'invoice.credit', 'ledger.view', 'payout.manage',
+      'webhook.manage', 'fee.manage', 'report.view'
+    ]
+  },
+  {
+    name: 'moderator',
+    description: 'Auction, bid and seller moderation',
+    permissions: [
+      'dashboard.view', 'user.view', 'user.manage', 'auction.view', 'auction.moderate',
+      'auction.delete', 'bid.retraction.review', 'company.view', 'company.verify', 'kyc.review',
+      'catalog.manage'
+    ]
+  }
+];
+
+export interface RoleData {
+  name?: string;
+  description?: string | null;
+  permissions?: Permission[];
+}
+
+interface Actor {
+  id: string;
+  role: string;
+}
+
+const cacheKey = (userId: string): string => `permissions:${userId}`;
+
+/**
+ * Fine-grained admin permissions. Admin users hold one or more roles,
+ * each a named set of permissions; everyone else holds none. The built-in
+ * roles live in code and are written to the database on startup, while
+ * admins with role.manage can define their own.
+ */
+export class PermissionService {
+  /**
+   * Write the built-in roles. If nobody holds super_admin (a new install,
+   * or the upgrade that introduced roles), every admin is given it so the
+   * platform is never left without someone able to hand out roles.
+   */
+  public static async syncSystemRoles(): Promise<void> {
+    try {
+      for (const definition of SYSTEM_ROLES) {
+        const [role] = await Role.findOrCreate({
+          where: { name: definition.name },
+          defaults: { ...definition, permissions: [...definition.permissions], isSystem: true } as any
+        });
+
+        await role.update({
+          description: definition.description,
+          permissions: [...definition.permissions],
+          isSystem: true
+        });
+      }
+
+      const superAdmin = await Role.findOne({ where: { name: SUPER_ADMIN_ROLE } });
+
+      if (superAdmin && (await UserRole.count({ where: { roleId: superAdmin.id } })) === 0) {
+        const admins = await User.findAll({ where: { role: 'admin' }, attributes: ['id'] });
+
+        for (const admin of admins) {
+          await UserRole.create({ userId: admin.id, roleId: superAdmin.id, assignedBy: null } as any);
+          await this.clearCache(admin.id);
+        }
+
+        logger.warn(`No ${SUPER_ADMIN_ROLE} holders found; granted the role to ${admins.length} admins`);
+      }
+    } catch (error) {
+      logger.error('Error syncing system roles:', error);
+    }
+  }
+
+  public static async getPermissions(user: Actor): Promise<Permission[]> {
+    // Staff roles only count while the account is an admin
+    if (user.role !== 'admin') {
+      return [];
+    }
+
+    if (redisClient.isReady) {
+      const cached = await redisClient.get(cacheKey(user.id));
+      if (cached) {
+        return JSON.parse(cached);
+      }
+    }
+
+    const roles = await this.getUserRoles(user.id);
+    const permissions = [...new Set(roles.flatMap(role => role.permissions))];
+
+    if (redisClient.isReady) {
+      await redisClient.setEx(cacheKey(user.id), CACHE_TTL_SECONDS, JSON.stringify(permissions));
+    }
+
+    return permissions;
+  }
+
+  public static async hasPermissions(user: Actor, required: Permission[]): Promise<boolean> {
+    const granted = await this.getPermissions(user);
+    return required.every(permission => granted.includes(permission));
+  }
+
+  public static async getRoles(): Promise<Role[]> {
+    return Role.findAll({ order: [['isSystem', 'DESC'], ['name', 'ASC']] });
+  }
+
+  public static async getUserRoles(userId: string): Promise<Role[]> {
+    const links = await UserRole.findAll({
+      where: { userId },
+      include: [{ model: Role, as: 'role' }]
+    });
+
+    return links.map(link => (link as any).role as Role).filter(Boolean);
+  }
+
+  public static async createRole(data: RoleData, actor: Actor): Promise<Role> {
+    try {
+      const permissions = this.normalizePermissions(data.permissions);
+
+      await this.assertCanGrant(actor, permissions);
+
+      const role = await Role.create({
+        name: data.name,
+        description: data.description ?? null,
+        permissions,
+        isSystem: false
+      } as any);
+
+      logger.info(`Role ${role.name} created by ${actor.id}`);
+
+      return role;
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        throw new ApiResponse(409, 'A role with that name already exists');
+      }
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error creating role:', error);
+      throw new ApiResponse(500, 'Failed to create role');
+    }
+  }
+
+  public static async updateRole(roleId: string, data: RoleData, actor: Actor): Promise<Role> {
+    try {
+      const role = await this.findCustomRole(roleId);
+      const updates: any = {};
+
+      if (data.description !== undefined) {
+        updates.description = data.description;
+      }
+
+      if (data.permissions !== undefined) {
+        updates.permissions = this.normalizePermissions(data.permissions);
+        await this.assertCanGrant(actor, updates.permissions);
+        await this.assertCanGrant(actor, role.permissions);
+      }
+
+      await role.update(updates);
+      await this.clearRoleHolders(role.id);
+
+      logger.info(`Role ${role.name} updated by ${actor.id}`);
+
+      return role;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error updating role:', error);
+      throw new ApiResponse(500, 'Failed to update role');
+    }
+  }
+
+  public static async deleteRole(roleId: string, actor: Actor): Promise<void> {
+    try {
+      const role = await this.findCustomRole(roleId);
+
+      await this.assertCanGrant(actor, role.permissions);
+
+      const holders = await UserRole.findAll({ where: { roleId: role.id }, attributes: ['userId'] });
+
+      await UserRole.destroy({ where: { roleId: role.id } });
+      await role.destroy();
+
+      for (const holder of holders) {
+        await this.clearCache(holder.userId);
+      }
+
+      logger.info(`Role ${role.name} deleted by ${actor.id}`);
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error deleting role:', error);
+      throw new ApiResponse(500, 'Failed to delete role');
+    }
+  }
+
+  /**
+   * Give a role to an admin. Nobody can hand out a permission they do
+   * not hold themselves.
+   */
+  public static async assignRole(userId: string, roleId: string, actor: Actor): Promise<Role[]> {
+    try {
+      const [user, role] = await Promise.all([User.findByPk(userId), Role.findByPk(roleId)]);
+
+      if (!user) {
+        throw new ApiResponse(404, 'User not found');
+      }
+
+      if (!role) {
+        throw new ApiResponse(404, 'Role not found');
+      }
+
+      if (user.role !== 'admin') {
+        throw new ApiResponse(400, 'Roles can only be given to admin users');
+      }
+
+      await this.assertCanGrant(actor, role.permissions);
+
+      await UserRole.findOrCreate({
+        where: { userId: user.id, roleId: role.id },
+        defaults: { userId: user.id, roleId: role.id, assignedBy: actor.id } as any
+      });
+
+      await this.clearCache(user.id);
+
+      logger.info(`Role ${role.name} given to ${user.id} by ${actor.id}`);
+
+      return this.getUserRoles(user.id);
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error assigning role:', error);
+      throw new ApiResponse(500, 'Failed to assign role');
+    }
+  }
+
+  public static async removeRole(userId: string, roleId: string, actor: Actor): Promise<Role[]> {
+    try {
+      const link = await UserRole.findOne({
+        where: { userId, roleId },
+        include: [{ model: Role, as: 'role' }]
+      });
+
+      if (!link) {
+        throw new ApiResponse(404, 'User does not hold that role');
+      }
+
+      const role: Role = (link as any).role;
+
+      await this.assertCanGrant(actor, role.permissions);
+
+      if (role.name === SUPER_ADMIN_ROLE && (await UserRole.count({ where: { roleId } })) <= 1) {
+        throw new ApiResponse(400, `Cannot remove the last ${SUPER_ADMIN_ROLE}`);
+      }
+
+      await link.destroy();
+      await this.clearCache(userId);
+
+      logger.info(`Role ${role.name} removed from ${userId} by ${actor.id}`);
+
+      return this.getUserRoles(userId);
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error removing role:', error);
+      throw new ApiResponse(500, 'Failed to remove role');
+    }
+  }
+
+  public static async clearCache(userId: string): Promise<void> {
+    if (redisClient.isReady) {
+      await redisClient.del(cacheKey(userId));
+    }
+  }
+
+  private static async clearRoleHolders(roleId: string): Promise<void> {
+    const holders = await UserRole.findAll({ where: { roleId }, attributes: ['userId'] });
+
+    for (const holder of holders) {
+      await this.clearCache(holder.userId);
+    }
+  }
+
+  private static async findCustomRole(roleId: string): Promise<Role> {
+    const role = await Role.findByPk(roleId);
+
+    if (!role) {
+      throw new ApiResponse(404, 'Role not found');
+    }
+
+    if (role.isSystem) {
+      throw new ApiResponse(400, 'Built-in roles cannot be changed');
+    }
+
+    return role;
+  }
+
+  private static normalizePermissions(permissions: Permission[] = []): Permission[] {
+    const unknown = permissions.filter(permission => !PERMISSIONS.includes(permission));
+
+    if (unknown.length > 0) {
+      throw new ApiResponse(400, `Unknown permissions: ${unknown.join(', ')}`);
+    }
+
+    return [...new Set(permissions)];
+  }
+
+  private static async assertCanGrant(actor: Actor, permissions: Permission[]): Promise<void> {
+    const granted = await this.getPermissions(actor);
+    const missing = permissions.filter(permission => !granted.includes(permission));
+
+    if (missing.length > 0) {
+      throw new ApiResponse(403, `You cannot grant permissions you do not hold: ${missing.join(', ')}`);
+    }
+  }
+}
+
+export const permissionService = PermissionService;
\ No newline at end of file
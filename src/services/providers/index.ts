@@ -0,0 +1,73 @@
+import { PAYMENT_PROVIDERS, PaymentProviderName } from '../../database/models/Payment';
+import { PaymentProvider } from './paymentProvider';
+import { RazorpayProvider } from './razorpay.provider';
+import { StripeProvider } from './stripe.provider';
+import { MockProvider } from './mock.provider';
+import { ApiResponse } from '../../utils/helpers';
+
+export * from './paymentProvider';
+export { MockProvider, MockCheckout, MockWebhook } from './mock.provider';
+
+export const mockProvider = new MockProvider();
+
+const providers: Record<PaymentProviderName, PaymentProvider> = {
+  razorpay: new RazorpayProvider(),
+  stripe: new StripeProvider(),
+  mock: mockProvider
+};
+
+/**
+ * PAYMENT_PROVIDER_ROUTES maps currencies to providers, e.g.
+ * "INR:razorpay,*:stripe"; "*" catches every other currency
+ */
+const getRoutes = (): Record<string, string> => {
+  const routes: Record<string, string> = {};
+
+  for (const route of (process.env.PAYMENT_PROVIDER_ROUTES || 'INR:razorpay,*:stripe').split(',')) {
+    const [currency, provider] = route.split(':').map(part => part.trim());
+    if (currency && provider) {
+      routes[currency.toUpperCase()] = provider;
+    }
+  }
+
+  return routes;
+};
+
+/**
+ * Picks the gateway for a payment. An explicit choice wins, then
+ * PAYMENT_PROVIDER (set it to "mock" to run offline), then the currency
+ * routes. Providers without credentials are never handed out, so their
+ * webhooks and checkouts are refused too.
+ */
+export class PaymentProviderRegistry {
+  public static get(name: string): PaymentProvider {
+    if (!(PAYMENT_PROVIDERS as readonly string[]).includes(name)) {
+      throw new ApiResponse(400, `Unsupported payment provider: ${name}`);
+    }
+
+    const provider = providers[name as PaymentProviderName];
+
+    if (!provider.isConfigured()) {
+      throw new ApiResponse(503, `Payments through ${name} are not available`);
+    }
+
+    return provider;
+  }
+
+  public static resolve(currency?: string | null, preferred?: string | null): PaymentProvider {
+    const routes = getRoutes();
+    const name = preferred
+      || process.env.PAYMENT_PROVIDER
+      || (currency && routes[currency.toUpperCase()])
+      || routes['*']
+      || 'razorpay';
+
+    return this.get(name);
+  }
+
+  public static getAvailable(): PaymentProvider[] {
+    return Object.values(providers).filter(provider => provider.isConfigured());
+  }
+}
+
+export const paymentProviders = PaymentProviderRegistry;
\ No newline at end of file
@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import {
+  CreateOrderParams,
+  PaymentProvider,
+  ProviderOrder,
+  ProviderPaymentRef,
+  ProviderRefund,
+  ProviderSettlement,
+  ProviderStatus,
+  ProviderTransaction,
+  VerifiedWebhook,
+  WebhookAction,
+  parseWebhookBody,
+  safeEqual
+} from './paymentProvider';
+import { ApiResponse } from '../../utils/helpers';
+
+interface MockOrder {
+  orderId: string;
+  amount: number;
+  currency: string;
+  manualCapture: boolean;
+  status: ProviderStatus['status'];
+  paymentId: string | null;
+  amountRefunded: number;
+  createdAt: Date;
+}
+
+// A signed webhook delivery, ready to hand to the webhook service
+export interface MockWebhook {
+  rawBody: string;
+  headers: Record<string, string>;
+}
+
+export interface MockCheckout {
+  paymentId: string;
+  // What a checkout page would return, for verifyCheckout
+  signature: string;
+  webhook: MockWebhook;
+}
+
+// Anyone holding the secret can sign webhooks, so there is deliberately no default
+const secret = (): string => {
+  if (!process.env.MOCK_PAYMENT_SECRET) {
+    throw new ApiResponse(503, 'Mock payments are not configured');
+  }
+
+  return process.env.MOCK_PAYMENT_SECRET;
+};
+
+const sign = (value: string): string => crypto.createHmac('sha256', secret()).update(value).digest('hex');
+
+/**
+ * An in-memory gateway for running the pay, capture and refund flows
+ * without network access. Ids come from a counter, so a run is fully
+ * deterministic; pay() and signWebhook() stand in for the payer and the
+ * provider's webhook calls. Never available in production, and only
+ * elsewhere once MOCK_PAYMENT_SECRET is set.
+ */
+export class MockProvider implements PaymentProvider {
+  public readonly name = 'mock' as const;
+  public readonly defaultCurrency = 'INR';
+  public readonly supportsManualCapture = true;
+
+  private orders = new Map<string, MockOrder>();
+  private sequence = 0;
+
+  public isConfigured(): boolean {
+    return process.env.NODE_ENV !== 'production' && !!process.env.MOCK_PAYMENT_SECRET;
+  }
+
+  public async createOrder(params: CreateOrderParams): Promise<ProviderOrder> {
+    const orderId = this.nextId('order');
+
+    this.orders.set(orderId, {
+      orderId,
+      amount: Number(params.amount),
+      currency: params.currency,
+      manualCapture: !!params.manualCapture,
+      status: 'created',
+      paymentId: null,
+      amountRefunded: 0,
+      createdAt: new Date()
+    });
+
+    return {
+      orderId,
+      clientSecret: `${orderId}_secret`,
+      clientData: { amount: Number(params.amount), currency: params.currency }
+    };
+  }
+
+  public async capture(payment: ProviderPaymentRef): Promise<void> {
+    const order = this.getOrder(payment.orderId);
+
+    if (order.status !== 'pending') {
+      throw new ApiResponse(400, `Mock order ${order.orderId} is not awaiting capture`);
+    }
+
+    order.status = 'completed';
+  }
+
+  public async cancel(payment: ProviderPaymentRef): Promise<void> {
+    const order = this.getOrder(payment.orderId);
+
+    if (['completed', 'refunded'].includes(order.status)) {
+      throw new ApiResponse(400, `Mock order ${order.orderId} has already been captured`);
+    }
+
+    order.status = 'failed';
+  }
+
+  public async refund(payment: ProviderPaymentRef, amount: number, _reason: string | null): Promise<ProviderRefund> {
+    const order = this.getOrder(payment.orderId);
+    const refundable = order.amount - order.amountRefunded;
+
+    if (order.status !== 'completed') {
+      throw new ApiResponse(400, `Mock order ${order.orderId} has not been paid`);
+    }
+
+    if (amount <= 0 || amount > refundable) {
+      throw new ApiResponse(400, `Mock order ${order.orderId} has only ${refundable} left to refund`);
+    }
+
+    order.amountRefunded += amount;
+
+    if (order.amountRefunded >= order.amount) {
+      order.status = 'refunded';
+    }
+
+    return { refundId: this.nextId('refund'), amount, status: 'processed' };
+  }
+
+  public async getStatus(payment: ProviderPaymentRef): Promise<ProviderStatus> {
+    const order = this.getOrder(payment.orderId);
+
+    return { status: order.status, paymentId: order.paymentId, amountRefunded: order.amountRefunded };
+  }
+
+  public async listTransactions(from: Date, to: Date): Promise<ProviderTransaction[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.createdAt >= from && order.createdAt < to)
+      .map(order => ({
+        orderId: order.orderId,
+        paymentId: order.paymentId,
+        status: order.status,
+        amount: order.amount,
+        currency: order.currency,
+        amountRefunded: order.amountRefunded,
+        createdAt: order.createdAt
+      }));
+  }
+
+  // The mock gateway never pays anything out
+  public async listSettlements(_from: Date, _to: Date): Promise<ProviderSettlement[]> {
+    return [];
+  }
+
+  public verifyCheckout(orderId: string, paymentId: string, signature: string): boolean {
+    return safeEqual(sign(`${orderId}|${paymentId}`), signature || '');
+  }
+
+  public verifyWebhook(rawBody: string, headers: Record<string, any>): VerifiedWebhook {
+    if (!this.isConfigured()) {
+      throw new ApiResponse(404, 'Mock payments are disabled');
+    }
+
+    const signature = headers['x-mock-signature'];
+
+    if (!signature || !safeEqual(sign(rawBody), signature)) {
+      throw new ApiResponse(400, 'Invalid webhook signature');
+    }
+
+    const payload = parseWebhookBody(rawBody);
+
+    return { eventId: payload.id, type: payload.type, payload };
+  }
+
+  public parseWebhook(type: string, payload: any): WebhookAction | null {
+    const data = payload?.data || {};
+
+    switch (type) {
+      case 'payment.completed':
+        return { type: 'completed', orderId: data.orderId, paymentId: data.paymentId || null };
+
+      case 'payment.authorised':
+        return { type: 'authorised', orderId: data.orderId };
+
+      case 'payment.failed':
+        return { type: 'failed', orderId: data.orderId, reason: data.reason || null };
+
+      case 'refund.processed':
+        return {
+          type: 'refunded',
+          match: { providerOrderId: data.orderId },
+          refundId: data.refundId,
+          amount: Number(data.amount),
+          reason: data.reason || null
+        };
+
+      case 'refund.failed':
+        return { type: 'refund_failed', refundId: data.refundId, reason: data.reason || null };
+
+      case 'dispute.updated':
+        return {
+          type: 'dispute',
+          match: { providerOrderId: data.orderId },
+          dispute: {
+            id: data.disputeId,
+            status: data.status,
+            reason: data.reason || null,
+            amount: Number(data.amount)
+          }
+        };
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Act as the payer completing checkout. Manual-capture orders are only
+   * authorised; pass fail to simulate a declined payment.
+   */
+  public pay(orderId: string, options: { fail?: boolean } = {}): MockCheckout {
+    const order = this.getOrder(orderId);
+    const paymentId = this.nextId('pay');
+
+    if (order.status !== 'created') {
+      throw new ApiResponse(400, `Mock order ${orderId} has already been paid`);
+    }
+
+    let type: string;
+
+    if (options.fail) {
+      order.status = 'failed';
+      type = 'payment.failed';
+    } else {
+      order.status = order.manualCapture ? 'pending' : 'completed';
+      order.paymentId = paymentId;
+      type = order.manualCapture ? 'payment.authorised' : 'payment.completed';
+    }
+
+    return {
+      paymentId,
+      signature: sign(`${orderId}|${paymentId}`),
+      webhook: this.signWebhook(type, { orderId, paymentId, reason: options.fail ? 'Card declined' : null })
+    };
+  }
+
+  // Build a signed delivery of any event type, as the provider would send it
+  public signWebhook(type: string, data: Record<string, any>): MockWebhook {
+    const rawBody = JSON.stringify({ id: this.nextId('evt'), type, data });
+
+    return {
+      rawBody,
+      headers: { 'x-mock-signature': sign(rawBody) }
+    };
+  }
+
+  // Forget every order, and restart the id counter
+  public reset(): void {
+    this.orders.clear();
+    this.sequence = 0;
+  }
+
+  private getOrder(orderId: string): MockOrder {
+    const order = this.orders.get(orderId);
+
+    if (!order) {
+      throw new ApiResponse(404, `Mock order ${orderId} not found`);
+    }
+
+    return order;
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `mock_${prefix}_${this.sequence.toString().padStart(6, '0')}`;
+  }
+}
\ No newline at end of file
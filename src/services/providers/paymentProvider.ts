@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { PaymentProviderName, PaymentStatus } from '../../database/models/Payment';
+import { ApiResponse } from '../../utils/helpers';
+
+export interface CreateOrderParams {
+  // In major units (rupees, dollars); providers convert to their minor unit
+  amount: number;
+  currency: string;
+  receipt: string;
+  description?: string;
+  // Authorise now and capture later; only honoured where supportsManualCapture
+  manualCapture?: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface ProviderOrder {
+  orderId: string;
+  // Stripe-style client secret for confirming on the client, when the provider has one
+  clientSecret: string | null;
+  // Provider-specific data the client needs to open checkout
+  clientData: Record<string, any>;
+}
+
+export interface ProviderPaymentRef {
+  orderId: string;
+  // The provider's id for the charge itself, once the payer has paid
+  paymentId?: string | null;
+  amount: number;
+  currency: string;
+}
+
+export interface ProviderRefund {
+  refundId: string;
+  amount: number;
+  // Some providers settle refunds asynchronously and confirm by webhook
+  status: 'pending' | 'processed';
+}
+
+export interface ProviderStatus {
+  status: PaymentStatus;
+  paymentId: string | null;
+  amountRefunded: number;
+}
+
+// One order as the provider sees it, for reconciliation
+export interface ProviderTransaction {
+  orderId: string;
+  paymentId: string | null;
+  status: PaymentStatus;
+  amount: number;
+  currency: string;
+  amountRefunded: number;
+  createdAt: Date;
+}
+
+// Money the provider paid out to the platform's bank account
+export interface ProviderSettlement {
+  id: string;
+  amount: number;
+  fees: number;
+  currency: string;
+  status: string;
+  settledAt: Date;
+}
+
+// A verified webhook delivery, before it is acted on
+export interface VerifiedWebhook {
+  eventId: string;
+  type: string;
+  payload: any;
+}
+
+export type PaymentMatch = { providerOrderId: string } | { providerPaymentId: string };
+
+/**
+ * What a webhook event means for our payment records, independent of how
+ * the provider phrased it
+ */
+export type WebhookAction =
+  | { type: 'completed'; orderId: string; paymentId: string | null }
+  | { type: 'authorised'; orderId: string }
+  | { type: 'failed'; orderId: string; reason: string | null }
+  | { type: 'refunded'; match: PaymentMatch; refundId: string; amount: number; reason: string | null }
+  | { type: 'refund_failed'; refundId: string; reason: string | null }
+  | { type: 'dispute'; match: PaymentMatch; dispute: { id: string; status: string; reason: string | null; amount: number } };
+
+/**
+ * A payment gateway. Implementations create their client lazily, so a
+ * provider without credentials only fails when it is actually used.
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  readonly defaultCurrency: string;
+  // Can authorise a card and capture later (deposit holds)
+  readonly supportsManualCapture: boolean;
+
+  isConfigured(): boolean;
+  createOrder(params: CreateOrderParams): Promise<ProviderOrder>;
+  capture(payment: ProviderPaymentRef): Promise<void>;
+  // Drop an uncaptured authorisation
+  cancel(payment: ProviderPaymentRef): Promise<void>;
+  refund(payment: ProviderPaymentRef, amount: number, reason: string | null): Promise<ProviderRefund>;
+  getStatus(payment: ProviderPaymentRef): Promise<ProviderStatus>;
+  // Orders created in [from, to), one entry per order
+  listTransactions(from: Date, to: Date): Promise<ProviderTransaction[]>;
+  // Settlements (payouts to the platform) made in [from, to)
+  listSettlements(from: Date, to: Date): Promise<ProviderSettlement[]>;
+  // Check the signature the client returns after checkout, where the provider uses one
+  verifyCheckout(orderId: string, paymentId: string, signature: string): boolean;
+  // Throws a 400 ApiResponse if the signature does not match
+  verifyWebhook(rawBody: string, headers: Record<string, any>): VerifiedWebhook;
+  // Null for event types we do not act on
+  parseWebhook(type: string, payload: any): WebhookAction | null;
+}
+
+// Amounts go to providers in the currency's smallest unit
+export const toMinorUnits = (amount: number): number => Math.round(Number(amount) * 100);
+
+export const fromMinorUnits = (amount: number): number => Number(amount || 0) / 100;
+
+export const toUnixSeconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+// Upper bound on pages fetched from a listing API in one call
+export const MAX_LIST_PAGES = 50;
+
+// Constant-time comparison for signatures
+export const safeEqual = (expected: string, actual: string): boolean => {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+export const parseWebhookBody = (rawBody: string): any => {
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    throw new ApiResponse(400, 'Webhook body is not valid JSON');
+  }
+};
\ No newline at end of file
@@ -0,0 +1,268 @@
+import crypto from 'crypto';
+import Razorpay from 'razorpay';
+import {
+  CreateOrderParams,
+  PaymentProvider,
+  ProviderOrder,
+  ProviderPaymentRef,
+  ProviderRefund,
+  ProviderSettlement,
+  ProviderStatus,
+  ProviderTransaction,
+  VerifiedWebhook,
+  WebhookAction,
+  MAX_LIST_PAGES,
+  fromMinorUnits,
+  parseWebhookBody,
+  safeEqual,
+  toMinorUnits,
+  toUnixSeconds
+} from './paymentProvider';
+import { ApiResponse } from '../../utils/helpers';
+
+const PAGE_SIZE = 100;
+
+const STATUSES: Record<string, ProviderStatus['status']> = {
+  created: 'created',
+  authorized: 'pending',
+  captured: 'completed',
+  refunded: 'refunded',
+  failed: 'failed'
+};
+
+// An order can collect several payment attempts; a captured one wins over failures
+const pickPayment = (payments: any[]): any =>
+  payments.find(item => ['captured', 'refunded'].includes(item.status)) || payments[payments.length - 1];
+
+/**
+ * Razorpay has no authorise-and-hold, so payments are taken up front
+ * (auto-capture) and handed back by refund
+ */
+export class RazorpayProvider implements PaymentProvider {
+  public readonly name = 'razorpay' as const;
+  public readonly defaultCurrency = 'INR';
+  public readonly supportsManualCapture = false;
+
+  private instance: Razorpay | null = null;
+
+  public isConfigured(): boolean {
+    return !!(process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET);
+  }
+
+  private get client(): Razorpay {
+    if (!this.instance) {
+      if (!this.isConfigured()) {
+        throw new ApiResponse(503, 'Razorpay credentials not configured');
+      }
+
+      this.instance = new Razorpay({
+        key_id: process.env.RAZORPAY_KEY_ID,
+        key_secret: process.env.RAZORPAY_KEY_SECRET
+      });
+    }
+
+    return this.instance;
+  }
+
+  public async createOrder(params: CreateOrderParams): Promise<ProviderOrder> {
+    const order = await this.client.orders.create({
+      amount: toMinorUnits(params.amount), // Convert to paise
+      currency: params.currency,
+      receipt: params.receipt,
+      notes: params.metadata || {}
+    } as any);
+
+    return {
+      orderId: order.id,
+      clientSecret: null,
+      clientData: {
+        keyId: process.env.RAZORPAY_KEY_ID,
+        amount: order.amount,
+        currency: order.currency,
+        receipt: order.receipt
+      }
+    };
+  }
+
+  // Payments are auto-captured; there is nothing left to capture
+  public async capture(_payment: ProviderPaymentRef): Promise<void> {}
+
+  // An order the payer never paid simply lapses
+  public async cancel(_payment: ProviderPaymentRef): Promise<void> {}
+
+  public async refund(payment: ProviderPaymentRef, amount: number, reason: string | null): Promise<ProviderRefund> {
+    if (!payment.paymentId) {
+      throw new ApiResponse(400, 'Payment has not been paid at Razorpay');
+    }
+
+    const refund = await this.client.payments.refund(payment.paymentId, {
+      amount: toMinorUnits(amount),
+      notes: { reason: reason || '' }
+    } as any);
+
+    return {
+      refundId: refund.id,
+      amount: fromMinorUnits(refund.amount),
+      status: refund.status === 'processed' ? 'processed' : 'pending'
+    };
+  }
+
+  public async getStatus(payment: ProviderPaymentRef): Promise<ProviderStatus> {
+    const { items } = await this.client.orders.fetchPayments(payment.orderId);
+    const latest = pickPayment(items || []);
+
+    if (!latest) {
+      return { status: 'created', paymentId: null, amountRefunded: 0 };
+    }
+
+    return {
+      status: STATUSES[latest.status] || 'pending',
+      paymentId: latest.id,
+      amountRefunded: fromMinorUnits(latest.amount_refunded)
+    };
+  }
+
+  public async listTransactions(from: Date, to: Date): Promise<ProviderTransaction[]> {
+    const range = { from: toUnixSeconds(from), to: toUnixSeconds(to) - 1 };
+    const orders = await this.listAll((options) => this.client.orders.all({ ...range, ...options }));
+    const payments = await this.listAll((options) => this.client.payments.all({ ...range, ...options }));
+
+    const paymentsByOrder = new Map<string, any[]>();
+
+    for (const item of payments) {
+      paymentsByOrder.set(item.order_id, [...(paymentsByOrder.get(item.order_id) || []), item]);
+    }
+
+    return orders.map((order: any): ProviderTransaction => {
+      const latest = pickPayment(paymentsByOrder.get(order.id) || []);
+
+      return {
+        orderId: order.id,
+        paymentId: latest ? latest.id : null,
+        status: latest ? STATUSES[latest.status] || 'pending' : 'created',
+        amount: fromMinorUnits(order.amount),
+        currency: order.currency,
+        amountRefunded: latest ? fromMinorUnits(latest.amount_refunded) : 0,
+        createdAt: new Date(order.created_at * 1000)
+      };
+    });
+  }
+
+  public async listSettlements(from: Date, to: Date): Promise<ProviderSettlement[]> {
+    const range = { from: toUnixSeconds(from), to: toUnixSeconds(to) - 1 };
+    const settlements = await this.listAll((options) => this.client.settlements.all({ ...range, ...options }));
+
+    return settlements.map((settlement: any): ProviderSettlement => ({
+      id: settlement.id,
+      amount: fromMinorUnits(settlement.amount),
+      fees: fromMinorUnits(Number(settlement.fees || 0) + Number(settlement.tax || 0)),
+      currency: 'INR',
+      status: settlement.status,
+      settledAt: new Date(settlement.created_at * 1000)
+    }));
+  }
+
+  // Razorpay pages with count and skip
+  private async listAll(fetch: (options: { count: number; skip: number }) => Promise<any>): Promise<any[]> {
+    const items: any[] = [];
+
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const result = await fetch({ count: PAGE_SIZE, skip: page * PAGE_SIZE });
+      items.push(...(result.items || []));
+
+      if ((result.items || []).length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return items;
+  }
+
+  // Checkout returns the HMAC of "<order id>|<payment id>" with the key secret
+  public verifyCheckout(orderId: string, paymentId: string, signature: string): boolean {
+    const expected = crypto
+      .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET || '')
+      .update(`${orderId}|${paymentId}`)
+      .digest('hex');
+
+    return !!process.env.RAZORPAY_KEY_SECRET && safeEqual(expected, signature || '');
+  }
+
+  // X-Razorpay-Signature is the hex HMAC of the body with the webhook secret
+  public verifyWebhook(rawBody: string, headers: Record<string, any>): VerifiedWebhook {
+    const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+    if (!secret) {
+      throw new ApiResponse(500, 'Razorpay webhook secret not configured');
+    }
+
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+    const signature = headers['x-razorpay-signature'];
+
+    if (!signature || !safeEqual(expected, signature)) {
+      throw new ApiResponse(400, 'Invalid webhook signature');
+    }
+
+    const payload = parseWebhookBody(rawBody);
+
+    return {
+      eventId: headers['x-razorpay-event-id'] || crypto.createHash('sha256').update(rawBody).digest('hex'),
+      type: payload.event,
+      payload
+    };
+  }
+
+  public parseWebhook(type: string, body: any): WebhookAction | null {
+    const payload = body?.payload || {};
+
+    switch (type) {
+      case 'payment.captured': {
+        const entity = payload.payment?.entity || {};
+        return { type: 'completed', orderId: entity.order_id, paymentId: entity.id };
+      }
+
+      case 'payment.failed': {
+        const entity = payload.payment?.entity || {};
+        return { type: 'failed', orderId: entity.order_id, reason: entity.error_description || null };
+      }
+
+      case 'refund.processed': {
+        const entity = payload.refund?.entity || {};
+        return {
+          type: 'refunded',
+          match: { providerPaymentId: entity.payment_id },
+          refundId: entity.id,
+          amount: fromMinorUnits(entity.amount),
+          reason: entity.notes?.reason || 'Refunded at Razorpay'
+        };
+      }
+
+      case 'refund.failed': {
+        const entity = payload.refund?.entity || {};
+        return { type: 'refund_failed', refundId: entity.id, reason: entity.notes?.reason || 'Refund failed at Razorpay' };
+      }
+
+      case 'payment.dispute.created':
+      case 'payment.dispute.under_review':
+      case 'payment.dispute.action_required':
+      case 'payment.dispute.won':
+      case 'payment.dispute.lost':
+      case 'payment.dispute.closed': {
+        const entity = payload.dispute?.entity || {};
+        return {
+          type: 'dispute',
+          match: { providerPaymentId: entity.payment_id },
+          dispute: {
+            id: entity.id,
+            status: entity.status,
+            reason: entity.reason_code || null,
+            amount: fromMinorUnits(entity.amount)
+          }
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import Stripe from 'stripe';
+import {
+  CreateOrderParams,
+  PaymentProvider,
+  ProviderOrder,
+  ProviderPaymentRef,
+  ProviderRefund,
+  ProviderSettlement,
+  ProviderStatus,
+  ProviderTransaction,
+  VerifiedWebhook,
+  WebhookAction,
+  MAX_LIST_PAGES,
+  fromMinorUnits,
+  parseWebhookBody,
+  safeEqual,
+  toMinorUnits,
+  toUnixSeconds
+} from './paymentProvider';
+import { ApiResponse } from '../../utils/helpers';
+
+// Stripe signs the delivery time too; older deliveries are rejected as replays
+const TOLERANCE_SECONDS = parseInt(process.env.STRIPE_WEBHOOK_TOLERANCE_SECONDS || '300');
+
+const toStatus = (paymentIntent: any): ProviderStatus['status'] => {
+  const statuses: Record<string, ProviderStatus['status']> = {
+    requires_payment_method: 'created',
+    requires_confirmation: 'created',
+    requires_action: 'pending',
+    processing: 'pending',
+    requires_capture: 'pending',
+    succeeded: paymentIntent.latest_charge?.refunded ? 'refunded' : 'completed',
+    canceled: 'failed'
+  };
+
+  return statuses[paymentIntent.status] || 'pending';
+};
+
+/**
+ * Stripe payment intents. Deposits use manual capture, so the card is only
+ * charged if the bidder wins.
+ */
+export class StripeProvider implements PaymentProvider {
+  public readonly name = 'stripe' as const;
+  public readonly defaultCurrency = 'usd';
+  public readonly supportsManualCapture = true;
+
+  private instance: Stripe | null = null;
+
+  public isConfigured(): boolean {
+    return !!process.env.STRIPE_SECRET_KEY;
+  }
+
+  private get client(): Stripe {
+    if (!this.instance) {
+      if (!process.env.STRIPE_SECRET_KEY) {
+        throw new ApiResponse(503, 'Stripe secret key not configured');
+      }
+
+      this.instance = new Stripe(process.env.STRIPE_SECRET_KEY, {
+        apiVersion: '2023-10-16'
+      });
+    }
+
+    return this.instance;
+  }
+
+  public async createOrder(params: CreateOrderParams): Promise<ProviderOrder> {
+    const paymentIntent = await this.client.paymentIntents.create({
+      amount: toMinorUnits(params.amount), // Convert to cents
+      currency: params.currency,
+      ...(params.manualCapture ? { capture_method: 'manual' } : {}),
+      metadata: { receipt: params.receipt, ...params.metadata },
+      description: params.description || 'Auction Payment'
+    } as any);
+
+    return {
+      orderId: paymentIntent.id,
+      clientSecret: paymentIntent.client_secret,
+      clientData: { paymentIntentId: paymentIntent.id }
+    };
+  }
+
+  public async capture(payment: ProviderPaymentRef): Promise<void> {
+    await this.client.paymentIntents.capture(payment.orderId);
+  }
+
+  public async cancel(payment: ProviderPaymentRef): Promise<void> {
+    await this.client.paymentIntents.cancel(payment.orderId);
+  }
+
+  public async refund(payment: ProviderPaymentRef, amount: number, reason: string | null): Promise<ProviderRefund> {
+    // Stripe only accepts its own reason codes; ours goes in the metadata
+    const refund = await this.client.refunds.create({
+      payment_intent: payment.orderId,
+      amount: toMinorUnits(amount),
+      reason: 'requested_by_customer',
+      metadata: { reason: reason || '' }
+    });
+
+    return {
+      refundId: refund.id,
+      amount: fromMinorUnits(refund.amount),
+      status: refund.status === 'succeeded' ? 'processed' : 'pending'
+    };
+  }
+
+  public async getStatus(payment: ProviderPaymentRef): Promise<ProviderStatus> {
+    const paymentIntent: any = await this.client.paymentIntents.retrieve(payment.orderId, {
+      expand: ['latest_charge']
+    });
+    const charge = paymentIntent.latest_charge;
+
+    return {
+      status: toStatus(paymentIntent),
+      paymentId: charge?.id || null,
+      amountRefunded: fromMinorUnits(charge?.amount_refunded)
+    };
+  }
+
+  public async listTransactions(from: Date, to: Date): Promise<ProviderTransaction[]> {
+    const paymentIntents = await this.listAll((startingAfter) => this.client.paymentIntents.list({
+      created: { gte: toUnixSeconds(from), lt: toUnixSeconds(to) },
+      limit: 100,
+      expand: ['data.latest_charge'],
+      ...(startingAfter ? { starting_after: startingAfter } : {})
+    } as any));
+
+    return paymentIntents.map((paymentIntent: any): ProviderTransaction => ({
+      orderId: paymentIntent.id,
+      paymentId: paymentIntent.latest_charge?.id || null,
+      status: toStatus(paymentIntent),
+      amount: fromMinorUnits(paymentIntent.amount),
+      currency: paymentIntent.currency,
+      amountRefunded: fromMinorUnits(paymentIntent.latest_charge?.amount_refunded),
+      createdAt: new Date(paymentIntent.created * 1000)
+    }));
+  }
+
+  // Stripe settles to the bank as payouts
+  public async listSettlements(from: Date, to: Date): Promise<ProviderSettlement[]> {
+    const payouts = await this.listAll((startingAfter) => this.client.payouts.list({
+      created: { gte: toUnixSeconds(from), lt: toUnixSeconds(to) },
+      limit: 100,
+      ...(startingAfter ? { starting_after: startingAfter } : {})
+    } as any));
+
+    return payouts.map((payout: any): ProviderSettlement => ({
+      id: payout.id,
+      amount: fromMinorUnits(payout.amount),
+      fees: 0,
+      currency: payout.currency,
+      status: payout.status,
+      settledAt: new Date(payout.arrival_date * 1000)
+    }));
+  }
+
+  // Stripe pages with a cursor on the last id seen
+  private async listAll(fetch: (startingAfter: string | null) => Promise<any>): Promise<any[]> {
+    const items: any[] = [];
+    let startingAfter: string | null = null;
+
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const result = await fetch(startingAfter);
+      items.push(...result.data);
+
+      if (!result.has_more || result.data.length === 0) {
+        break;
+      }
+      startingAfter = result.data[result.data.length - 1].id;
+    }
+
+    return items;
+  }
+
+  // Stripe confirms on the client with the client secret; there is no checkout signature
+  public verifyCheckout(_orderId: string, _paymentId: string, _signature: string): boolean {
+    return false;
+  }
+
+  /**
+   * Stripe-Signature is "t=<unix time>,v1=<hex hmac>[,v1=...]", signed over "<t>.<body>"
+   */
+  public verifyWebhook(rawBody: string, headers: Record<string, any>): VerifiedWebhook {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+    if (!secret) {
+      throw new ApiResponse(500, 'Stripe webhook secret not configured');
+    }
+
+    const parts = String(headers['stripe-signature'] || '').split(',').map(part => part.split('='));
+    const timestamp = parts.find(([key]) => key === 't')?.[1];
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value || '');
+
+    if (!timestamp || signatures.length === 0) {
+      throw new ApiResponse(400, 'Invalid webhook signature');
+    }
+
+    const expected = crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+
+    if (!signatures.some(signature => safeEqual(expected, signature))) {
+      throw new ApiResponse(400, 'Invalid webhook signature');
+    }
+
+    if (Math.abs(Date.now() / 1000 - parseInt(timestamp)) > TOLERANCE_SECONDS) {
+      throw new ApiResponse(400, 'Webhook timestamp outside the tolerance window');
+    }
+
+    const payload = parseWebhookBody(rawBody);
+
+    return { eventId: payload.id, type: payload.type, payload };
+  }
+
+  public parseWebhook(type: string, payload: any): WebhookAction | null {
+    const object = payload?.data?.object || {};
+
+    switch (type) {
+      case 'payment_intent.succeeded':
+        return { type: 'completed', orderId: object.id, paymentId: object.latest_charge || null };
+
+      case 'payment_intent.amount_capturable_updated':
+        return { type: 'authorised', orderId: object.id };
+
+      case 'payment_intent.payment_failed':
+        return {
+          type: 'failed',
+          orderId: object.id,
+          reason: object.last_payment_error?.message || null
+        };
+
+      case 'charge.refunded': {
+        // The newest refund comes first; without the list, refund.updated carries it instead
+        const refund = object.refunds?.data?.[0];
+
+        if (!refund) {
+          return null;
+        }
+
+        return {
+          type: 'refunded',
+          match: { providerOrderId: object.payment_intent },
+          refundId: refund.id,
+          amount: fromMinorUnits(refund.amount),
+          reason: refund.metadata?.reason || 'Refunded at Stripe'
+        };
+      }
+
+      case 'refund.created':
+      case 'refund.updated':
+      case 'charge.refund.updated':
+        if (object.status === 'succeeded') {
+          return {
+            type: 'refunded',
+            match: { providerOrderId: object.payment_intent },
+            refundId: object.id,
+            amount: fromMinorUnits(object.amount),
+            reason: object.metadata?.reason || 'Refunded at Stripe'
+          };
+        }
+
+        if (['failed', 'canceled'].includes(object.status)) {
+          return { type: 'refund_failed', refundId: object.id, reason: object.failure_reason || object.status };
+        }
+
+        return null;
+
+      case 'charge.dispute.created':
+      case 'charge.dispute.updated':
+      case 'charge.dispute.closed':
+        return {
+          type: 'dispute',
+          match: { providerOrderId: object.payment_intent },
+          dispute: {
+            id: object.id,
+            status: object.status,
+            reason: object.reason || null,
+            amount: fromMinorUnits(object.amount)
+          }
+        };
+
+      default:
+        return null;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,322 @@
+import { Op } from 'sequelize';
+import Payment, { PaymentProviderName } from '../database/models/Payment';
+import ReconciliationReport, {
+  ReconciliationDiscrepancy,
+  ReconciliationFix
+} from '../database/models/ReconciliationReport';
+import { paymentService } from './payment.service';
+import { paymentProviders, PaymentProvider, ProviderTransaction } from './providers';
+import { ApiResponse } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A checkout still unpaid after this long has been abandoned
+const STALE_MS = parseInt(process.env.PAYMENT_STALE_HOURS || '24') * 60 * 60 * 1000;
+
+const PAID_STATUSES = ['completed', 'partially_refunded', 'refunded'];
+const OPEN_STATUSES = ['created', 'pending'];
+
+interface Comparison {
+  summary: any;
+  discrepancies: ReconciliationDiscrepancy[];
+  fixes: ReconciliationFix[];
+}
+
+// The provider's view of one order; listings carry the amount, a status lookup does not
+type RemoteState = Pick<ProviderTransaction, 'status' | 'paymentId' | 'amountRefunded'> &
+  Partial<Pick<ProviderTransaction, 'amount' | 'currency'>>;
+
+const addTotal = (totals: Record<string, number>, currency: string, amount: number): void => {
+  const key = currency.toUpperCase();
+  totals[key] = Math.round(((totals[key] || 0) + amount) * 100) / 100;
+};
+
+const differs = (a: number, b: number): boolean => Math.abs(a - b) >= 0.01;
+
+/**
+ * Compares our payments with what each provider actually recorded. Run
+ * daily by the scheduler for the previous UTC day: statuses left behind
+ * by a missed verify call or webhook are corrected, anything else that
+ * disagrees is written to the report for an admin to look at.
+ */
+export class ReconciliationService {
+  // The UTC day before the given instant, as YYYY-MM-DD
+  public static previousDay(now: Date = new Date()): string {
+    return new Date(now.getTime() - DAY_MS).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Reconcile every configured provider for one UTC day. Running a day
+   * again replaces its reports.
+   */
+  public static async run(date: string): Promise<ReconciliationReport[]> {
+    const periodStart = new Date(`${date}T00:00:00.000Z`);
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(periodStart.getTime())) {
+      throw new ApiResponse(400, 'Reconciliation date must be YYYY-MM-DD');
+    }
+
+    if (periodStart.getTime() > Date.now()) {
+      throw new ApiResponse(400, 'Cannot reconcile a day that has not started');
+    }
+
+    const reports: ReconciliationReport[] = [];
+
+    for (const provider of paymentProviders.getAvailable()) {
+      reports.push(await this.reconcileProvider(provider, date, periodStart));
+    }
+
+    return reports;
+  }
+
+  /**
+   * The reports for a day, defaulting to the most recent day reconciled
+   */
+  public static async getReports(filters: any = {}): Promise<{ date: string | null; reports: ReconciliationReport[] }> {
+    try {
+      let date: string | null = filters.date || null;
+
+      if (!date) {
+        const latest = await ReconciliationReport.findOne({ order: [['reportDate', 'DESC']] });
+        date = latest ? latest.reportDate : null;
+      }
+
+      if (!date) {
+        return { date: null, reports: [] };
+      }
+
+      const where: any = { reportDate: date };
+
+      if (filters.provider) {
+        where.provider = filters.provider;
+      }
+
+      const reports = await ReconciliationReport.findAll({
+        where,
+        order: [['provider', 'ASC']]
+      });
+
+      return { date, reports };
+    } catch (error) {
+      logger.error('Error getting reconciliation reports:', error);
+      throw new ApiResponse(500, 'Failed to fetch reconciliation reports');
+    }
+  }
+
+  private static async reconcileProvider(
+    provider: PaymentProvider,
+    date: string,
+    periodStart: Date
+  ): Promise<ReconciliationReport> {
+    const periodEnd = new Date(periodStart.getTime() + DAY_MS);
+
+    try {
+      const { summary, discrepancies, fixes } = await this.compare(provider, periodStart, periodEnd);
+
+      logger.info(
+        `Reconciled ${provider.name} for ${date}: ${fixes.length} fixed, ${discrepancies.length} discrepancies`
+      );
+
+      return await this.saveReport(provider.name, date, {
+        status: 'completed',
+        summary,
+        discrepancies,
+        fixes,
+        error: null
+      });
+    } catch (error: any) {
+      // One provider being down should not cost the others their report
+      logger.error(`Error reconciling ${provider.name} for ${date}:`, error);
+
+      return await this.saveReport(provider.name, date, {
+        status: 'failed',
+        summary: { periodStart, periodEnd },
+        discrepancies: [],
+        fixes: [],
+        error: error?.message || String(error)
+      });
+    }
+  }
+
+  private static async compare(provider: PaymentProvider, periodStart: Date, periodEnd: Date): Promise<Comparison> {
+    const transactions = await provider.listTransactions(periodStart, periodEnd);
+    const settlements = await provider.listSettlements(periodStart, periodEnd);
+    const staleBefore = new Date(Date.now() - STALE_MS);
+
+    const remaining = new Map(transactions.map(transaction => [transaction.orderId, transaction]));
+
+    // The day's payments, any the provider listed (a row can straddle midnight)
+    // and older checkouts still waiting on a payment
+    const payments = await Payment.findAll({
+      where: {
+        provider: provider.name,
+        [Op.or]: [
+          { createdAt: { [Op.gte]: periodStart, [Op.lt]: periodEnd } },
+          { providerOrderId: { [Op.in]: Array.from(remaining.keys()) } },
+          { status: 'created', createdAt: { [Op.lt]: staleBefore } }
+        ]
+      },
+      order: [['createdAt', 'ASC']]
+    });
+
+    const discrepancies: ReconciliationDiscrepancy[] = [];
+    const fixes: ReconciliationFix[] = [];
+
+    for (const payment of payments) {
+      let remote: RemoteState | undefined = remaining.get(payment.providerOrderId);
+      remaining.delete(payment.providerOrderId);
+
+      if (!remote) {
+        try {
+          remote = await provider.getStatus({
+            orderId: payment.providerOrderId,
+            paymentId: payment.providerPaymentId || null,
+            amount: Number(payment.amount),
+            currency: payment.currency
+          });
+        } catch (error: any) {
+          discrepancies.push({
+            type: 'missing_at_provider',
+            paymentId: payment.id,
+            providerOrderId: payment.providerOrderId,
+            ours: { status: payment.status, amount: Number(payment.amount), currency: payment.currency },
+            provider: { error: error?.message || String(error) }
+          });
+          continue;
+        }
+      }
+
+      await this.comparePayment(payment, remote, staleBefore, discrepancies, fixes);
+    }
+
+    // Orders the provider has that we never stored a payment for
+    for (const transaction of remaining.values()) {
+      discrepancies.push({
+        type: 'unknown_at_provider',
+        paymentId: null,
+        providerOrderId: transaction.orderId,
+        ours: null,
+        provider: transaction
+      });
+    }
+
+    const collected: Record<string, number> = {};
+    const refunded: Record<string, number> = {};
+    const settled: Record<string, number> = {};
+    const settlementFees: Record<string, number> = {};
+
+    for (const transaction of transactions) {
+      if (transaction.status === 'completed' || transaction.status === 'refunded') {
+        addTotal(collected, transaction.currency, transaction.amount);
+        addTotal(refunded, transaction.currency, transaction.amountRefunded);
+      }
+    }
+
+    for (const settlement of settlements) {
+      addTotal(settled, settlement.currency, settlement.amount);
+      addTotal(settlementFees, settlement.currency, settlement.fees);
+    }
+
+    return {
+      summary: {
+        periodStart,
+        periodEnd,
+        payments: payments.length,
+        providerTransactions: transactions.length,
+        fixed: fixes.length,
+        discrepancies: discrepancies.length,
+        collected,
+        refunded,
+        settlements: {
+          count: settlements.length,
+          amount: settled,
+          fees: settlementFees,
+          items: settlements
+        }
+      },
+      discrepancies,
+      fixes
+    };
+  }
+
+  /**
+   * Bring a stale status in line with the provider, or flag the payment
+   * when the two disagree in a way we should not settle on our own
+   */
+  private static async comparePayment(
+    payment: Payment,
+    remote: RemoteState,
+    staleBefore: Date,
+    discrepancies: ReconciliationDiscrepancy[],
+    fixes: ReconciliationFix[]
+  ): Promise<void> {
+    const flag = (type: ReconciliationDiscrepancy['type'], ours: any, provider: any): void => {
+      discrepancies.push({ type, paymentId: payment.id, providerOrderId: payment.providerOrderId, ours, provider });
+    };
+
+    if (remote.amount !== undefined && differs(Number(payment.amount), remote.amount)) {
+      flag('amount_mismatch', Number(payment.amount), remote.amount);
+    }
+
+    if (remote.currency && remote.currency.toUpperCase() !== payment.currency.toUpperCase()) {
+      flag('currency_mismatch', payment.currency, remote.currency);
+    }
+
+    const from = payment.status;
+    let reason: string | null = null;
+
+    if (OPEN_STATUSES.includes(from)) {
+      if (remote.status === 'completed' || remote.status === 'refunded') {
+        await paymentService.markCompleted(payment.providerOrderId, remote.paymentId);
+        reason = 'Paid at provider';
+      } else if (remote.status === 'failed') {
+        await paymentService.markFailed(payment.providerOrderId, 'Reported failed by provider at reconciliation');
+        reason = 'Failed at provider';
+      } else if (remote.status === 'pending' && from === 'created') {
+        await paymentService.markAuthorised(payment.providerOrderId);
+        reason = 'Authorised at provider';
+      } else if (remote.status === 'created' && from === 'created' && payment.createdAt < staleBefore) {
+        await paymentService.markFailed(payment.providerOrderId, 'Checkout abandoned');
+        reason = 'Checkout abandoned';
+      }
+    } else if (from === 'failed' && (remote.status === 'completed' || remote.status === 'refunded')) {
+      // Money was taken for a payment we gave up on
+      flag('status_mismatch', from, remote.status);
+    } else if (from === 'refunded') {
+      // A released hold is cancelled at the provider rather than refunded
+      if (OPEN_STATUSES.includes(remote.status)) {
+        flag('status_mismatch', from, remote.status);
+      }
+    } else if (PAID_STATUSES.includes(from) && remote.status !== 'completed' && remote.status !== 'refunded') {
+      flag('status_mismatch', from, remote.status);
+    }
+
+    if (reason) {
+      await payment.reload();
+
+      if (payment.status !== from) {
+        fixes.push({ paymentId: payment.id, providerOrderId: payment.providerOrderId, from, to: payment.status, reason });
+      }
+    }
+
+    if (differs(Number(payment.refundedAmount || 0), remote.amountRefunded)) {
+      flag('refund_mismatch', Number(payment.refundedAmount || 0), remote.amountRefunded);
+    }
+  }
+
+  private static async saveReport(
+    provider: PaymentProviderName,
+    reportDate: string,
+    values: Pick<ReconciliationReport, 'status' | 'summary' | 'discrepancies' | 'fixes' | 'error'>
+  ): Promise<ReconciliationReport> {
+    const existing = await ReconciliationReport.findOne({ where: { provider, reportDate } });
+
+    if (existing) {
+      return await existing.update(values);
+    }
+
+    return await ReconciliationReport.create({ provider, reportDate, ...values } as any);
+  }
+}
+
+export const reconciliationService = ReconciliationService;
\ No newline at end of file
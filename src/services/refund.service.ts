@@ -0,0 +1,425 @@
+import { Op, Transaction } from 'sequelize';
+import Payment, { PaymentProviderName } from '../database/models/Payment';
+import Refund, { RefundStatus } from '../database/models/Refund';
+import { paymentProviders, ProviderRefund } from './providers';
+import { ledgerService } from './ledger.service';
+import { invoiceService } from './invoice.service';
+import { ApiResponse } from '../utils/helpers';
+import sequelize from '../config/database';
+import { logger } from '../utils/logger';
+
+const REFUNDABLE_STATUSES = ['completed', 'partially_refunded'];
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export interface RefundViewer {
+  id: string;
+  role: string;
+}
+
+/**
+ * Refunds, one row each, so a payment can be refunded in several parts.
+ * Buyer requests wait in a queue for an admin; admin refunds go straight
+ * to the provider. A refund succeeds when the provider confirms it, either
+ * in its response or later by webhook, and only then moves the payment to
+ * partially_refunded or refunded.
+ */
+export class RefundService {
+  /**
+   * A buyer asks for money back. Without an amount, everything still
+   * refundable is requested.
+   */
+  public static async requestRefund(paymentId: string, userId: string, amount: number | null, reason: string | null): Promise<Refund> {
+    try {
+      const refund = await this.reserve(paymentId, amount, reason, userId, 'requested', (payment) => {
+        if (payment.userId !== userId) {
+          throw new ApiResponse(404, 'Payment not found');
+        }
+      });
+
+      logger.info(`Refund ${refund.id} of ${refund.amount} requested on payment ${paymentId} by ${userId}`);
+
+      return refund;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error requesting refund:', error);
+      throw new ApiResponse(500, 'Failed to request refund');
+    }
+  }
+
+  // An admin refunds a payment (in full or in part) without a request
+  public static async createRefund(paymentId: string, adminId: string, amount: number | null, reason: string | null): Promise<Refund> {
+    try {
+      const refund = await this.reserve(paymentId, amount, reason, adminId, 'processing');
+
+      await refund.update({ reviewedBy: adminId, reviewedAt: new Date() });
+
+      return await this.execute(refund);
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error creating refund:', error);
+      throw new ApiResponse(500, 'Failed to process refund');
+    }
+  }
+
+  /**
+   * Refund whatever is left on a payment straight away, for money the
+   * platform gives back on its own account (a released deposit)
+   */
+  public static async refundRemaining(payment: Payment, reason: string): Promise<Refund> {
+    const refund = await this.reserve(payment.id, null, reason, null, 'processing');
+
+    return this.execute(refund);
+  }
+
+  public static async approveRefund(refundId: string, adminId: string): Promise<Refund> {
+    try {
+      // Claim the request so a double-click cannot refund it twice
+      const [claimed] = await Refund.update(
+        { status: 'processing', reviewedBy: adminId, reviewedAt: new Date() },
+        { where: { id: refundId, status: 'requested' } }
+      );
+
+      const refund = await Refund.findByPk(refundId);
+
+      if (!refund) {
+        throw new ApiResponse(404, 'Refund not found');
+      }
+
+      if (claimed === 0) {
+        throw new ApiResponse(400, `Refund is already ${refund.status}`);
+      }
+
+      logger.info(`Refund ${refund.id} approved by ${adminId}`);
+
+      return await this.execute(refund);
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error approving refund:', error);
+      throw new ApiResponse(500, 'Failed to approve refund');
+    }
+  }
+
+  public static async rejectRefund(refundId: string, adminId: string, note: string | null): Promise<Refund> {
+    try {
+      const refund = await Refund.findByPk(refundId);
+
+      if (!refund) {
+        throw new ApiResponse(404, 'Refund not found');
+      }
+
+      if (refund.status !== 'requested') {
+        throw new ApiResponse(400, `Refund is already ${refund.status}`);
+      }
+
+      await refund.update({
+        status: 'rejected',
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+        reviewNote: note
+      });
+
+      logger.info(`Refund ${refund.id} rejected by ${adminId}`);
+
+      return refund;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error rejecting refund:', error);
+      throw new ApiResponse(500, 'Failed to reject refund');
+    }
+  }
+
+  // The admin queue; pass status=requested for refunds awaiting review
+  public static async getRefunds(filters: any = {}): Promise<{ refunds: Refund[]; total: number }> {
+    try {
+      const { status, paymentId, requestedBy, limit = 20, offset = 0 } = filters;
+      const where: any = {};
+
+      if (status) where.status = status;
+      if (paymentId) where.paymentId = paymentId;
+      if (requestedBy) where.requestedBy = requestedBy;
+
+      const { rows, count } = await Refund.findAndCountAll({
+        where,
+        include: [{ model: Payment, as: 'payment' }],
+        limit: parseInt(limit.toString()),
+        offset: parseInt(offset.toString()),
+        order: [['createdAt', 'ASC']]
+      });
+
+      return { refunds: rows, total: count };
+    } catch (error) {
+      logger.error('Error getting refunds:', error);
+      throw new ApiResponse(500, 'Failed to fetch refunds');
+    }
+  }
+
+  public static async getPaymentRefunds(paymentId: string, viewer: RefundViewer): Promise<Refund[]> {
+    try {
+      const payment = await Payment.findByPk(paymentId);
+
+      if (!payment || (viewer.role !== 'admin' && payment.userId !== viewer.id)) {
+        throw new ApiResponse(404, 'Payment not found');
+      }
+
+      return await Refund.findAll({
+        where: { paymentId },
+        order: [['createdAt', 'DESC']]
+      });
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error getting payment refunds:', error);
+      throw new ApiResponse(500, 'Failed to fetch refunds');
+    }
+  }
+
+  /**
+   * The provider reports money returned: confirmation of one of our
+   * refunds, or one made outside the platform (a dashboard refund, a lost
+   * dispute), which gets a row of its own. Safe to repeat.
+   */
+  public static async recordProviderRefund(
+    payment: Payment,
+    providerRefund: { providerRefundId: string; amount: number; reason: string | null }
+  ): Promise<Refund | null> {
+    let refund = await Refund.findOne({ where: { providerRefundId: providerRefund.providerRefundId } });
+
+    if (!refund) {
+      // Our own refund whose provider id was not saved before the webhook arrived
+      refund = await Refund.findOne({
+        where: {
+          paymentId: payment.id,
+          status: 'processing',
+          providerRefundId: null,
+          amount: providerRefund.amount
+        }
+      });
+
+      if (refund) {
+        await refund.update({ providerRefundId: providerRefund.providerRefundId });
+      }
+    }
+
+    if (!refund) {
+      if (providerRefund.amount <= 0) {
+        return null;
+      }
+
+      refund = await Refund.create({
+        paymentId: payment.id,
+        amount: providerRefund.amount,
+        currency: payment.currency,
+        status: 'processing',
+        reason: providerRefund.reason,
+        requestedBy: null,
+        providerRefundId: providerRefund.providerRefundId
+      } as any);
+    }
+
+    return this.complete(refund);
+  }
+
+  // The provider could not return the money
+  public static async recordProviderRefundFailure(
+    provider: PaymentProviderName,
+    providerRefundId: string,
+    reason: string | null
+  ): Promise<Refund | null> {
+    const refund = await Refund.findOne({
+      where: { providerRefundId },
+      include: [{ model: Payment, as: 'payment', where: { provider }, attributes: ['id'] }]
+    });
+
+    if (!refund) {
+      return null;
+    }
+
+    if (refund.status === 'succeeded') {
+      logger.warn(`Refund ${refund.id} failed at the provider after it had succeeded; needs manual review`);
+      await refund.update({ metadata: { ...refund.metadata, failedAfterSuccess: true, failureReason: reason } });
+      return refund;
+    }
+
+    if (refund.status === 'processing') {
+      await refund.update({ status: 'failed', failureReason: reason || 'Refund failed at the provider' });
+      logger.warn(`Refund ${refund.id} failed: ${reason}`);
+    }
+
+    return refund;
+  }
+
+  /**
+   * Create a refund row for a payment, checking the amount against what is
+   * left once succeeded and still-open refunds are counted. The payment row
+   * is locked so two requests cannot both claim the same money.
+   */
+  private static async reserve(
+    paymentId: string,
+    amount: number | null,
+    reason: string | null,
+    requestedBy: string | null,
+    status: RefundStatus,
+    check?: (payment: Payment) => void
+  ): Promise<Refund> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const payment = await Payment.findByPk(paymentId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!payment) {
+        throw new ApiResponse(404, 'Payment not found');
+      }
+
+      if (check) {
+        check(payment);
+      }
+
+      if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+        throw new ApiResponse(400, 'Only completed payments can be refunded');
+      }
+
+      const refundable = await this.getRefundable(payment, transaction);
+      const refundAmount = roundMoney(amount === null || amount === undefined ? refundable : Number(amount));
+
+      if (refundAmount <= 0 || refundAmount > refundable) {
+        throw new ApiResponse(400, `Refund amount must be between 0.01 and ${refundable}`, { refundable });
+      }
+
+      const refund = await Refund.create({
+        paymentId: payment.id,
+        amount: refundAmount,
+        currency: payment.currency,
+        status,
+        reason,
+        requestedBy
+      } as any, { transaction });
+
+      await transaction.commit();
+
+      return refund;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  // What is left once succeeded refunds and ones still in flight are taken off
+  private static async getRefundable(payment: Payment, transaction?: Transaction): Promise<number> {
+    const open = await Refund.sum('amount', {
+      where: { paymentId: payment.id, status: { [Op.in]: ['requested', 'processing'] } },
+      ...(transaction ? { transaction } : {})
+    });
+
+    return roundMoney(Number(payment.amount) - Number(payment.refundedAmount || 0) - Number(open || 0));
+  }
+
+  /**
+   * Send a processing refund to the provider. Providers that settle later
+   * leave it processing until their webhook arrives.
+   */
+  private static async execute(refund: Refund): Promise<Refund> {
+    const payment = await Payment.findByPk(refund.paymentId);
+
+    if (!payment) {
+      throw new ApiResponse(404, 'Payment not found');
+    }
+
+    let result: ProviderRefund;
+
+    // Only a refused provider call fails the refund; a retry must never send the money twice
+    try {
+      result = await paymentProviders.get(payment.provider).refund({
+        orderId: payment.providerOrderId,
+        paymentId: payment.providerPaymentId || null,
+        amount: Number(payment.amount),
+        currency: payment.currency
+      }, Number(refund.amount), refund.reason);
+    } catch (error: any) {
+      await refund.update({ status: 'failed', failureReason: error?.message || String(error) });
+      logger.error(`Refund ${refund.id} failed at ${payment.provider}:`, error);
+      throw new ApiResponse(502, 'Refund failed at the payment provider', { refundId: refund.id });
+    }
+
+    logger.info(`Refund ${refund.id} of ${refund.amount} sent to ${payment.provider}: ${result.status}`);
+
+    // The provider has the refund now. If recording it fails, the refund stays
+    // processing and the provider's webhook (matched by amount when the id
+    // was not saved) completes it.
+    try {
+      await refund.update({ providerRefundId: result.refundId });
+
+      if (result.status === 'processed') {
+        await this.complete(refund);
+      }
+    } catch (error) {
+      logger.error(`Error recording refund ${refund.id} after ${payment.provider} accepted it:`, error);
+    }
+
+    return refund;
+  }
+
+  /**
+   * Mark a refund succeeded and apply it to its payment, once. The ledger
+   * and the invoice's credit note follow; the money has already gone back,
+   * so their failures are logged rather than undoing the refund.
+   */
+  private static async complete(refund: Refund): Promise<Refund> {
+    const transaction = await sequelize.transaction();
+    let payment: Payment | null;
+
+    try {
+      payment = await Payment.findByPk(refund.paymentId, { transaction, lock: transaction.LOCK.UPDATE });
+      await refund.reload({ transaction });
+
+      if (!payment || refund.status === 'succeeded') {
+        await transaction.commit();
+        return refund;
+      }
+
+      const refundedAmount = roundMoney(Number(payment.refundedAmount || 0) + Number(refund.amount));
+
+      await refund.update({ status: 'succeeded', processedAt: new Date(), failureReason: null }, { transaction });
+      await payment.update({
+        refundedAmount,
+        status: refundedAmount >= Number(payment.amount) ? 'refunded' : 'partially_refunded'
+      }, { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    const amount = Number(refund.amount);
+    const reason = refund.reason || 'Payment refunded';
+
+    logger.info(`Refund ${refund.id} of ${amount} succeeded; payment ${payment.id} is ${payment.status}`);
+
+    try {
+      await ledgerService.recordRefund(payment, amount, reason, amount < Number(payment.amount));
+    } catch (error) {
+      logger.error(`Error recording refund ${refund.id} in the ledger:`, error);
+    }
+
+    // Reverse the refunded amount on the sale's invoice, if one was issued
+    try {
+      await invoiceService.creditRefund(payment.id, amount, reason);
+    } catch (error) {
+      logger.error(`Error issuing credit note for refund ${refund.id}:`, error);
+    }
+
+    return refund;
+  }
+}
+
+export const refundService = RefundService;
\ No newline at end of file
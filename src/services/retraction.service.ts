@@ -0,0 +1,366 @@
+import { Op, Transaction } from 'sequelize';
+import Auction from '../database/models/Auction';
+import AutoBid from '../database/models/AutoBid';
+import Bid from '../database/models/Bid';
+import BidRetraction, { RetractionReason, RETRACTION_REASONS } from '../database/models/BidRetraction';
+import Lot from '../database/models/Lot';
+import { auctionStateService } from './auctionState.service';
+import { getAuctionFormat } from './auctionFormat.service';
+import { bidService } from './bid.service';
+import { ApiResponse } from '../utils/helpers';
+import sequelize from '../config/database';
+import { logger } from '../utils/logger';
+
+// Retractions requested this soon after the bid apply without review
+const GRACE_SECONDS = parseInt(process.env.BID_RETRACTION_GRACE_SECONDS || '300');
+
+// How the auction (or lot) looked before and after a retraction was applied
+export interface RetractionOutcome {
+  auctionId: string;
+  lotId: string | null;
+  bidId: string;
+  bidderId: string;
+  previousLeaderId: string | null;
+  leaderId: string | null;
+  previousHighestBid: number;
+  currentHighestBid: number;
+}
+
+export interface RetractionResult {
+  retraction: BidRetraction;
+  // Set when the retraction was applied, null while it waits for review or was rejected
+  outcome: RetractionOutcome | null;
+}
+
+interface LockedBid {
+  auction: Auction;
+  lot: Lot | null;
+  bid: Bid;
+}
+
+export class RetractionService {
+  /**
+   * Ask to retract a bid. Inside the grace window it applies straight away,
+   * otherwise it waits in the admin queue.
+   */
+  public static async requestRetraction(
+    bidId: string,
+    bidderId: string,
+    reason: RetractionReason,
+    notes: string | null = null
+  ): Promise<RetractionResult> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      if (!RETRACTION_REASONS.includes(reason)) {
+        throw new ApiResponse(400, 'Invalid retraction reason');
+      }
+
+      const { auction, lot, bid } = await this.lockBid(bidId, transaction);
+
+      if (bid.bidderId !== bidderId) {
+        throw new ApiResponse(403, 'Not authorized to retract this bid');
+      }
+
+      this.assertRetractable(auction, lot, bid);
+
+      const pending = await BidRetraction.count({
+        where: { bidId, status: 'pending' },
+        transaction
+      });
+
+      if (pending > 0) {
+        throw new ApiResponse(409, 'A retraction request for this bid is already pending');
+      }
+
+      const withinGrace = (Date.now() - new Date(bid.createdAt).getTime()) / 1000 <= GRACE_SECONDS;
+
+      const retraction = await BidRetraction.create({
+        bidId,
+        auctionId: auction.id,
+        bidderId,
+        reason,
+        notes,
+        status: withinGrace ? 'approved' : 'pending',
+        autoApproved: withinGrace,
+        reviewedAt: withinGrace ? new Date() : null
+      } as any, { transaction });
+
+      const outcome = withinGrace
+        ? await this.applyRetraction(retraction, auction, lot, bid, transaction)
+        : null;
+
+      await transaction.commit();
+
+      logger.info(`Bid retraction ${withinGrace ? 'applied' : 'requested'}: bid ${bidId} by ${bidderId} (${reason})`);
+
+      return { retraction, outcome };
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error requesting bid retraction:', error);
+      throw new ApiResponse(500, 'Failed to retract bid');
+    }
+  }
+
+  /**
+   * Admin decision on a queued retraction
+   */
+  public static async reviewRetraction(
+    retractionId: string,
+    reviewerId: string,
+    approve: boolean,
+    reviewNotes: string | null = null
+  ): Promise<RetractionResult> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const queued = await BidRetraction.findByPk(retractionId, { transaction });
+
+      if (!queued) {
+        throw new ApiResponse(404, 'Retraction request not found');
+      }
+
+      const { auction, lot, bid } = await this.lockBid(queued.bidId, transaction);
+
+      const retraction = await BidRetraction.findByPk(retractionId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!retraction || retraction.status !== 'pending') {
+        throw new ApiResponse(400, 'Retraction request has already been reviewed');
+      }
+
+      if (approve) {
+        this.assertRetractable(auction, lot, bid);
+      }
+
+      retraction.status = approve ? 'approved' : 'rejected';
+      retraction.reviewedBy = reviewerId;
+      retraction.reviewedAt = new Date();
+      retraction.reviewNotes = reviewNotes;
+
+      const outcome = approve
+        ? await this.applyRetraction(retraction, auction, lot, bid, transaction)
+        : null;
+
+      await retraction.save({ transaction });
+      await transaction.commit();
+
+      logger.info(`Bid retraction ${retraction.status}: ${retraction.id} by ${reviewerId}`);
+
+      return { retraction, outcome };
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error reviewing bid retraction:', error);
+      throw new ApiResponse(500, 'Failed to review bid retraction');
+    }
+  }
+
+  public static async getRetractions(filters: any = {}): Promise<{ retractions: BidRetraction[]; total: number }> {
+    try {
+      const { status = 'pending', auctionId, bidderId, limit = 20, offset = 0 } = filters;
+
+      const query: any = {};
+
+      if (status && status !== 'all') {
+        query.status = status;
+      }
+
+      if (auctionId) {
+        query.auctionId = auctionId;
+      }
+
+      if (bidderId) {
+        query.bidderId = bidderId;
+      }
+
+      const { rows, count } = await BidRetraction.findAndCountAll({
+        where: query,
+        limit: parseInt(limit.toString()),
+        offset: parseInt(offset.toString()),
+        // Oldest requests first so the queue is worked in order
+        order: [['createdAt', 'ASC']],
+        include: [
+          {
+            association: 'bid',
+            attributes: ['id', 'amount', 'status', 'lotId', 'isAutoBid', 'createdAt']
+          },
+          {
+            association: 'auction',
+            attributes: ['id', 'title', 'status', 'currentHighestBid', 'timing']
+          },
+          {
+            association: 'bidder',
+            attributes: ['id', 'firstName', 'lastName', 'email']
+          }
+        ]
+      });
+
+      return { retractions: rows, total: count };
+    } catch (error) {
+      logger.error('Error getting bid retractions:', error);
+      throw new ApiResponse(500, 'Failed to fetch bid retractions');
+    }
+  }
+
+  /**
+   * Lock the bid's auction, lot and the bid itself, in the same order bids are placed
+   */
+  private static async lockBid(bidId: string, transaction: Transaction): Promise<LockedBid> {
+    const found = await Bid.findByPk(bidId, { attributes: ['id', 'auctionId', 'lotId'], transaction });
+
+    if (!found) {
+      throw new ApiResponse(404, 'Bid not found');
+    }
+
+    const auction = await Auction.findByPk(found.auctionId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE
+    });
+
+    if (!auction) {
+      throw new ApiResponse(404, 'Auction not found');
+    }
+
+    const lot = found.lotId
+      ? await Lot.findByPk(found.lotId, { transaction, lock: transaction.LOCK.UPDATE })
+      : null;
+
+    const bid = await Bid.findByPk(bidId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE
+    });
+
+    if (!bid) {
+      throw new ApiResponse(404, 'Bid not found');
+    }
+
+    return { auction, lot, bid };
+  }
+
+  private static assertRetractable(auction: Auction, lot: Lot | null, bid: Bid): void {
+    if (['withdrawn', 'invalid'].includes(bid.status)) {
+      throw new ApiResponse(400, 'Bid has already been withdrawn');
+    }
+
+    if (!['live', 'paused'].includes(auction.status)) {
+      throw new ApiResponse(400, 'Bids can only be retracted while the auction is running');
+    }
+
+    if (lot && lot.status !== 'open') {
+      throw new ApiResponse(400, 'Bids can only be retracted while the lot is open');
+    }
+  }
+
+  /**
+   * Withdraw the bid and hand the lead to the best remaining bid in the
+   * ledger. The retracting bidder's proxy ceilings are cancelled too, so
+   * they cannot immediately bid again on the same mistake, but their other
+   * bids stand: only the one bid is retracted. Proxy ceilings still active
+   * then answer the rolled-back price as they would a new bid.
+   */
+  private static async applyRetraction(
+    retraction: BidRetraction,
+    auction: Auction,
+    lot: Lot | null,
+    bid: Bid,
+    transaction: Transaction
+  ): Promise<RetractionOutcome> {
+    const target = lot || auction;
+    const format = getAuctionFormat(auction.format);
+    const previousLeaderId = target.currentHighestBidderId;
+    const previousHighestBid = Number(target.currentHighestBid);
+
+    bid.status = 'withdrawn';
+    bid.metadata = { ...bid.metadata, retractionId: retraction.id };
+    await bid.save({ transaction });
+
+    await AutoBid.update(
+      { status: 'cancelled' },
+      { where: { auctionId: auction.id, bidderId: bid.bidderId, status: 'active' }, transaction }
+    );
+
+    // Sealed bids have no leader until they are revealed
+    if (!format.sealed) {
+      const leader = await this.recomputeLeader(auction, lot, transaction);
+
+      target.currentHighestBid = leader ? Number(leader.amount) : 0;
+      target.currentHighestBidderId = leader ? leader.bidderId : null;
+
+      // Lots take no proxies
+      if (!lot && format.supportsProxyBidding) {
+        await bidService.resolveProxyBids(auction, transaction);
+      }
+
+      if (lot) {
+        await lot.save({ transaction });
+
+        // The event's highest bid is the running total of its lots' leading bids
+        auction.currentHighestBid = Number(auction.currentHighestBid) - previousHighestBid + Number(lot.currentHighestBid);
+      }
+    }
+
+    await auction.save({ transaction });
+
+    const outcome: RetractionOutcome = {
+      auctionId: auction.id,
+      lotId: lot ? lot.id : null,
+      bidId: bid.id,
+      bidderId: bid.bidderId,
+      previousLeaderId,
+      leaderId: target.currentHighestBidderId,
+      previousHighestBid,
+      currentHighestBid: Number(target.currentHighestBid)
+    };
+
+    retraction.metadata = { ...retraction.metadata, ...outcome };
+    await retraction.save({ transaction });
+
+    await auctionStateService.record(auction.id, auction.status, auction.status, {
+      actorId: bid.bidderId,
+      actorRole: 'bidder',
+      reason: `Bid retracted (${retraction.reason})`,
+      metadata: { event: 'bid_retraction', retractionId: retraction.id, ...outcome }
+    }, transaction);
+
+    return outcome;
+  }
+
+  /**
+   * The best bid still standing leads, whoever placed it; ties go to the
+   * earlier bid
+   */
+  private static async recomputeLeader(auction: Auction, lot: Lot | null, transaction: Transaction): Promise<Bid | null> {
+    const scope = lot ? { lotId: lot.id } : { auctionId: auction.id };
+    const lowestWins = auction.format === 'reverse';
+
+    await Bid.update(
+      { status: 'outbid' },
+      { where: { ...scope, status: 'winning' }, transaction }
+    );
+
+    const leader = await Bid.findOne({
+      where: { ...scope, status: { [Op.notIn]: ['withdrawn', 'invalid'] } },
+      order: [['amount', lowestWins ? 'ASC' : 'DESC'], ['createdAt', 'ASC']],
+      transaction
+    });
+
+    if (leader) {
+      leader.status = 'winning';
+      await leader.save({ transaction });
+    }
+
+    return leader;
+  }
+}
+
+export const retractionService = RetractionService;
\ No newline at end of file
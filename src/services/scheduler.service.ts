@@ -0,0 +1,570 @@
+import { Op } from 'sequelize';
+import Auction from '../database/models/Auction';
+import Lot from '../database/models/Lot';
+import Settlement from '../database/models/Settlement';
+import WebhookEvent from '../database/models/WebhookEvent';
+import redisClient from '../config/redis';
+import { auctionService } from './auction.service';
+import { lotService } from './lot.service';
+import { depositService } from './deposit.service';
+import { settlementService } from './settlement.service';
+import { ledgerService } from './ledger.service';
+import { webhookService } from './webhook.service';
+import { reconciliationService } from './reconciliation.service';
+import {
+  broadcastAuctionEnded,
+  broadcastAuctionStarted,
+  broadcastAuctionUpdate,
+  broadcastLotEnded
+} from '../sockets/auction.socket';
+import { logger } from '../utils/logger';
+
+export type LifecycleJobType =
+  | 'start'
+  | 'end'
+  | 'preview_start'
+  | 'preview_end'
+  | 'featured_expiry'
+  | 'lot_end'
+  | 'deposit_settlement'
+  | 'settlement_open'
+  | 'settlement_due'
+  | 'escrow_release'
+  | 'webhook_event'
+  | 'payment_reconciliation';
+
+const JOB_TYPES: LifecycleJobType[] = [
+  'start',
+  'end',
+  'preview_start',
+  'preview_end',
+  'featured_expiry',
+  'deposit_settlement',
+  'settlement_open'
+];
+
+const CLOSED_STATUSES = ['ended', 'sold', 'cancelled'];
+
+// Due jobs, scored by the epoch millisecond they fall due
+const JOBS_KEY = 'scheduler:auction:jobs';
+// Claimed jobs, scored by when their lease runs out
+const PROCESSING_KEY = 'scheduler:auction:processing';
+const RECONCILE_LOCK_KEY = 'scheduler:auction:reconcile';
+
+const POLL_INTERVAL_MS = 1000;
+const RECONCILE_INTERVAL_MS = 5 * 60 * 1000;
+const JOB_LEASE_MS = 60 * 1000;
+const CLAIM_BATCH_SIZE = 50;
+// UTC hour the previous day's payments are reconciled, once providers have settled them
+const RECONCILIATION_HOUR = parseInt(process.env.RECONCILIATION_HOUR || '3');
+
+/**
+ * Atomically move due jobs into the processing set so only one instance
+ * ever holds a given job at a time
+ */
+const CLAIM_SCRIPT = `
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[2]))
+for _, job in ipairs(due) do
+  redis.call('ZREM', KEYS[1], job)
+  redis.call('ZADD', KEYS[2], tonumber(ARGV[3]), job)
+end
+return due
+`;
+
+/**
+ * Hand jobs whose lease ran out (the claiming instance died or stalled)
+ * back to the due set, unless they have been rescheduled in the meantime
+ */
+const REQUEUE_SCRIPT = `
+local stale = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+for _, job in ipairs(stale) do
+  redis.call('ZREM', KEYS[2], job)
+  redis.call('ZADD', KEYS[1], 'NX', tonumber(ARGV[1]), job)
+end
+return #stale
+`;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let reconcileTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+/**
+ * Durable auction lifecycle scheduler. Transition times live in a Redis
+ * sorted set shared by every instance; a job is claimed by exactly one
+ * instance and its handler re-checks the auction under a row lock, so each
+ * transition is applied once no matter how many nodes are running.
+ */
+export class SchedulerService {
+  public static start(): void {
+    if (pollTimer) return;
+
+    if (!redisClient.isReady) {
+      logger.warn('Auction scheduler not started: Redis is unavailable');
+      return;
+    }
+
+    pollTimer = setInterval(() => {
+      this.poll();
+    }, POLL_INTERVAL_MS);
+
+    // Catch up on anything missed while no instance was running
+    reconcileTimer = setInterval(() => {
+      this.reconcile();
+    }, RECONCILE_INTERVAL_MS);
+    this.reconcile();
+
+    logger.info('Auction lifecycle scheduler started');
+  }
+
+  public static stop(): void {
+    if (pollTimer) clearInterval(pollTimer);
+    if (reconcileTimer) clearInterval(reconcileTimer);
+    pollTimer = null;
+    reconcileTimer = null;
+  }
+
+  /**
+   * Bring the auction's pending jobs in line with its current status and
+   * timing. Safe to call after any write; failures are logged, not thrown,
+   * because the reconcile sweep will pick the auction up again.
+   */
+  public static async scheduleAuction(auction: Auction): Promise<void> {
+    if (!redisClient.isReady) return;
+
+    try {
+      const due = this.getDueJobs(auction);
+      const multi = redisClient.multi();
+
+      for (const type of JOB_TYPES) {
+        const member = `${type}:${auction.id}`;
+        const dueAt = due[type];
+
+        if (dueAt) {
+          multi.zAdd(JOBS_KEY, { score: dueAt.getTime(), value: member });
+        } else {
+          multi.zRem(JOBS_KEY, member);
+        }
+      }
+
+      if (lotService.isLotEvent(auction)) {
+        await this.scheduleLots(auction, multi);
+      }
+
+      await multi.exec();
+    } catch (error) {
+      logger.error(`Error scheduling lifecycle jobs for auction ${auction.id}:`, error);
+    }
+  }
+
+  /**
+   * Lot events close lot by lot, each on its own job keyed by lot id,
+   * instead of through a single event-level end job
+   */
+  private static async scheduleLots(auction: Auction, multi: ReturnType<typeof redisClient.multi>): Promise<void> {
+    const lots = await Lot.findAll({
+      where: { auctionId: auction.id },
+      attributes: ['id', 'status', 'closesAt']
+    });
+
+    for (const lot of lots) {
+      const member = `lot_end:${lot.id}`;
+
+      if (auction.status === 'live' && lot.status === 'open' && lot.closesAt) {
+        multi.zAdd(JOBS_KEY, { score: new Date(lot.closesAt).getTime(), value: member });
+      } else {
+        multi.zRem(JOBS_KEY, member);
+      }
+    }
+  }
+
+  /**
+   * Payment reminders, defaults and second-chance expiry run on a job keyed
+   * by settlement id, due at the settlement's next action
+   */
+  public static async scheduleSettlement(settlement: Settlement): Promise<void> {
+    if (!redisClient.isReady) return;
+
+    try {
+      const member = `settlement_due:${settlement.id}`;
+
+      if (settlement.isOpen() && settlement.nextActionAt) {
+        await redisClient.zAdd(JOBS_KEY, { score: new Date(settlement.nextActionAt).getTime(), value: member });
+      } else {
+        await redisClient.zRem(JOBS_KEY, member);
+      }
+    } catch (error) {
+      logger.error(`Error scheduling settlement ${settlement.id}:`, error);
+    }
+  }
+
+  /**
+   * A paid sale is split out of escrow straight away (the job retries it if
+   * that failed) and the seller's share is released when the buyer's
+   * inspection window ends. Keyed by settlement id.
+   */
+  public static async scheduleEscrowRelease(settlement: Settlement): Promise<void> {
+    if (!redisClient.isReady) return;
+
+    try {
+      const member = `escrow_release:${settlement.id}`;
+
+      if (settlement.status === 'paid' && !settlement.escrowStatus) {
+        await redisClient.zAdd(JOBS_KEY, { score: Date.now(), value: member });
+      } else if (settlement.escrowStatus === 'held' && settlement.escrowReleaseAt) {
+        await redisClient.zAdd(JOBS_KEY, { score: new Date(settlement.escrowReleaseAt).getTime(), value: member });
+      } else {
+        await redisClient.zRem(JOBS_KEY, member);
+      }
+    } catch (error) {
+      logger.error(`Error scheduling escrow release for settlement ${settlement.id}:`, error);
+    }
+  }
+
+  /**
+   * Process a stored webhook when its next attempt falls due. Keyed by
+   * webhook event id.
+   */
+  public static async scheduleWebhookEvent(event: WebhookEvent): Promise<void> {
+    if (!redisClient.isReady) return;
+
+    try {
+      const member = `webhook_event:${event.id}`;
+
+      if (['pending', 'failed'].includes(event.status) && event.nextAttemptAt) {
+        await redisClient.zAdd(JOBS_KEY, { score: new Date(event.nextAttemptAt).getTime(), value: member });
+      } else {
+        await redisClient.zRem(JOBS_KEY, member);
+      }
+    } catch (error) {
+      logger.error(`Error scheduling webhook event ${event.id}:`, error);
+    }
+  }
+
+  /**
+   * Reconcile payments against the providers once a day. Keyed by the day
+   * being reconciled, so every instance queues the same job.
+   */
+  public static async scheduleReconciliation(now: Date = new Date()): Promise<void> {
+    if (!redisClient.isReady) return;
+
+    try {
+      const runAt = new Date(now);
+      runAt.setUTCHours(RECONCILIATION_HOUR, 0, 0, 0);
+
+      if (runAt.getTime() <= now.getTime()) {
+        runAt.setUTCDate(runAt.getUTCDate() + 1);
+      }
+
+      const member = `payment_reconciliation:${reconciliationService.previousDay(runAt)}`;
+
+      await redisClient.zAdd(JOBS_KEY, { score: runAt.getTime(), value: member }, { NX: true });
+    } catch (error) {
+      logger.error('Error scheduling payment reconciliation:', error);
+    }
+  }
+
+  /**
+   * Work out which transitions are still ahead of the auction and when
+   */
+  private static getDueJobs(auction: Auction): Partial<Record<LifecycleJobType, Date>> {
+    const due: Partial<Record<LifecycleJobType, Date>> = {};
+    const timing = auction.timing || {};
+    const metadata = auction.metadata || {};
+    const isOpen = ['draft', 'scheduled', 'live', 'paused'].includes(auction.status);
+
+    if (auction.status === 'scheduled' && timing.biddingStartsAt) {
+      due.start = new Date(timing.biddingStartsAt);
+    }
+
+    if (auction.status === 'live' && timing.biddingEndsAt && !lotService.isLotEvent(auction)) {
+      due.end = new Date(timing.biddingEndsAt);
+    }
+
+    if (isOpen && timing.previewStartsAt && !metadata.previewStartedAt) {
+      due.preview_start = new Date(timing.previewStartsAt);
+    }
+
+    if (isOpen && timing.previewEndsAt && !metadata.previewEndedAt) {
+      due.preview_end = new Date(timing.previewEndsAt);
+    }
+
+    if (metadata.featured && metadata.featuredUntil) {
+      due.featured_expiry = new Date(metadata.featuredUntil);
+    }
+
+    // Deposits are settled as soon as the auction closes
+    if (CLOSED_STATUSES.includes(auction.status) && depositService.getRequiredDeposit(auction) > 0 && !metadata.depositsSettledAt) {
+      due.deposit_settlement = new Date();
+    }
+
+    // Winners are asked to pay as soon as the auction closes
+    if (settlementService.needsSettlement(auction)) {
+      due.settlement_open = new Date();
+    }
+
+    return due;
+  }
+
+  private static async poll(): Promise<void> {
+    if (polling || !redisClient.isReady) return;
+    polling = true;
+
+    try {
+      const now = Date.now();
+
+      await redisClient.eval(REQUEUE_SCRIPT, {
+        keys: [JOBS_KEY, PROCESSING_KEY],
+        arguments: [now.toString()]
+      });
+
+      const claimed = await redisClient.eval(CLAIM_SCRIPT, {
+        keys: [JOBS_KEY, PROCESSING_KEY],
+        arguments: [now.toString(), CLAIM_BATCH_SIZE.toString(), (now + JOB_LEASE_MS).toString()]
+      }) as string[];
+
+      for (const member of claimed) {
+        await this.runJob(member);
+      }
+    } catch (error) {
+      logger.error('Error polling auction scheduler:', error);
+    } finally {
+      polling = false;
+    }
+  }
+
+  /**
+   * Run one claimed job. A job is only released once its handler succeeds;
+   * on failure the lease expires and another poll retries it.
+   */
+  private static async runJob(member: string): Promise<void> {
+    const separator = member.lastIndexOf(':');
+    const type = member.slice(0, separator) as LifecycleJobType;
+    const auctionId = member.slice(separator + 1);
+
+    try {
+      await this.handleJob(type, auctionId);
+      await redisClient.zRem(PROCESSING_KEY, member);
+    } catch (error) {
+      logger.error(`Auction scheduler job ${member} failed:`, error);
+    }
+  }
+
+  private static async handleJob(type: LifecycleJobType, auctionId: string): Promise<void> {
+    switch (type) {
+      case 'start': {
+        const auction = await auctionService.openScheduledAuction(auctionId);
+        if (auction) {
+          await this.scheduleAuction(auction);
+          broadcastAuctionStarted(auction);
+        } else {
+          await this.rescheduleById(auctionId);
+        }
+        break;
+      }
+
+      case 'end': {
+        const closed = await auctionService.closeAuction(auctionId);
+        if (closed) {
+          await this.scheduleAuction(closed.auction);
+          broadcastAuctionEnded(closed.auction, closed.outcome);
+        } else {
+          // Still live means the deadline was extended after the job was queued
+          await this.rescheduleById(auctionId);
+        }
+        break;
+      }
+
+      case 'preview_start':
+      case 'preview_end': {
+        const auction = await auctionService.syncPreviewWindow(auctionId, type === 'preview_start' ? 'start' : 'end');
+        if (auction) {
+          broadcastAuctionUpdate(auction, type === 'preview_start' ? 'AUCTION_PREVIEW_STARTED' : 'AUCTION_PREVIEW_ENDED');
+        } else {
+          await this.rescheduleById(auctionId);
+        }
+        break;
+      }
+
+      case 'featured_expiry': {
+        const auction = await auctionService.expireFeatured(auctionId);
+        if (auction) {
+          broadcastAuctionUpdate(auction, 'AUCTION_FEATURE_EXPIRED');
+        } else {
+          await this.rescheduleById(auctionId);
+        }
+        break;
+      }
+
+      case 'lot_end': {
+        // The id is the lot's, not the event's
+        const closed = await lotService.closeLot(auctionId);
+        if (closed) {
+          broadcastLotEnded(closed.lot, closed.outcome);
+          if (closed.eventOutcome) {
+            broadcastAuctionEnded(closed.auction, closed.eventOutcome);
+          }
+        }
+        await this.rescheduleLot(auctionId);
+        break;
+      }
+
+      case 'deposit_settlement': {
+        // Throws while any deposit is unsettled, leaving the job to be retried
+        await depositService.settleDeposits(auctionId);
+        break;
+      }
+
+      case 'settlement_open': {
+        await settlementService.openSettlements(auctionId);
+        break;
+      }
+
+      case 'settlement_due': {
+        // The id is the settlement's; reminders queue their own next step
+        const settlement = await settlementService.processDue(auctionId);
+        await this.rescheduleSettlement(settlement ? settlement.id : auctionId);
+        break;
+      }
+
+      case 'escrow_release': {
+        // Also keyed by settlement; allocation is a no-op once done
+        await ledgerService.allocateSettlement(auctionId);
+        await ledgerService.releaseSettlement(auctionId);
+        const settlement = await Settlement.findByPk(auctionId);
+        if (settlement) {
+          await this.scheduleEscrowRelease(settlement);
+        }
+        break;
+      }
+
+      case 'webhook_event': {
+        // Keyed by webhook event id; failures are recorded and retried on the event itself
+        const event = await webhookService.processEvent(auctionId);
+        if (event) {
+          await this.scheduleWebhookEvent(event);
+        }
+        break;
+      }
+
+      case 'payment_reconciliation': {
+        // Keyed by the day to reconcile; a provider that fails gets a failed report rather than a retry
+        await reconciliationService.run(auctionId);
+        await this.scheduleReconciliation();
+        break;
+      }
+
+      default:
+        logger.warn(`Unknown auction scheduler job type: ${type}`);
+    }
+  }
+
+  private static async rescheduleById(auctionId: string): Promise<void> {
+    const auction = await Auction.findByPk(auctionId);
+    if (auction) {
+      await this.scheduleAuction(auction);
+    }
+  }
+
+  private static async rescheduleLot(lotId: string): Promise<void> {
+    const lot = await Lot.findByPk(lotId, { attributes: ['id', 'auctionId'] });
+    if (lot) {
+      await this.rescheduleById(lot.auctionId);
+    }
+  }
+
+  private static async rescheduleSettlement(settlementId: string): Promise<void> {
+    const settlement = await Settlement.findByPk(settlementId);
+    if (settlement) {
+      await this.scheduleSettlement(settlement);
+    }
+  }
+
+  /**
+   * Rebuild the job set from the database. Runs on startup and periodically
+   * so transitions that fell due while every instance was down are replayed;
+   * jobs already past due fire on the next poll.
+   */
+  public static async reconcile(): Promise<number> {
+    if (!redisClient.isReady) return 0;
+
+    try {
+      // One instance sweeps at a time
+      const acquired = await redisClient.set(RECONCILE_LOCK_KEY, process.pid.toString(), {
+        NX: true,
+        PX: JOB_LEASE_MS
+      });
+
+      if (!acquired) return 0;
+
+      const auctions = await Auction.findAll({
+        where: {
+          [Op.or]: [
+            { status: { [Op.in]: ['draft', 'scheduled', 'live', 'paused'] } },
+            { 'metadata.featured': true },
+            {
+              status: { [Op.in]: CLOSED_STATUSES },
+              'auctionConfig.depositRequired': { [Op.gt]: 0 },
+              'metadata.depositsSettledAt': null
+            },
+            {
+              status: { [Op.in]: ['ended', 'sold'] },
+              format: { [Op.ne]: 'reverse' },
+              finalAmount: { [Op.gt]: 0 },
+              'metadata.settlementStartedAt': null
+            }
+          ]
+        } as any
+      });
+
+      for (const auction of auctions) {
+        await this.scheduleAuction(auction);
+      }
+
+      const settlements = await Settlement.findAll({
+        where: {
+          status: { [Op.in]: ['offered', 'awaiting_payment'] },
+          nextActionAt: { [Op.ne]: null }
+        }
+      });
+
+      for (const settlement of settlements) {
+        await this.scheduleSettlement(settlement);
+      }
+
+      const paidSettlements = await Settlement.findAll({
+        where: {
+          status: 'paid',
+          [Op.or]: [{ escrowStatus: null }, { escrowStatus: 'held' }]
+        }
+      });
+
+      for (const settlement of paidSettlements) {
+        await this.scheduleEscrowRelease(settlement);
+      }
+
+      const webhookEvents = await WebhookEvent.findAll({
+        where: {
+          status: { [Op.in]: ['pending', 'failed'] },
+          nextAttemptAt: { [Op.ne]: null }
+        }
+      });
+
+      for (const event of webhookEvents) {
+        await this.scheduleWebhookEvent(event);
+      }
+
+      await this.scheduleReconciliation();
+
+      await redisClient.del(RECONCILE_LOCK_KEY);
+
+      logger.info(`Auction scheduler reconciled ${auctions.length} auctions`);
+
+      return auctions.length;
+    } catch (error) {
+      logger.error('Error reconciling auction scheduler:', error);
+      return 0;
+    }
+  }
+}
+
+export const schedulerService = SchedulerService;
\ No newline at end of file
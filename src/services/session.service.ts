@@ -0,0 +1,220 @@
+import { Op } from 'sequelize';
+import Session from '../database/models/Session';
+import User from '../database/models/User';
+import redisClient from '../config/redis';
+import { ApiResponse, generateToken, hashToken } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_DAYS || '30') * 24 * 60 * 60 * 1000;
+// Access tokens outlive a revoked session by at most this long; matches User.generateAuthToken
+const ACCESS_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+// How long a session read from the database is trusted to still be live
+const ACTIVE_CACHE_SECONDS = 60;
+
+export interface SessionContext {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  deviceInfo?: {
+    deviceId?: string;
+    deviceName?: string;
+    platform?: string;
+  } | null;
+}
+
+export interface IssuedSession {
+  session: Session;
+  // Only ever handed to the client; we keep its hash
+  refreshToken: string;
+}
+
+const revokedKey = (sessionId: string): string => `session:revoked:${sessionId}`;
+const activeKey = (sessionId: string): string => `session:active:${sessionId}`;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Refresh tokens are <session id>.<secret>, so a lookup never scans
+const parseRefreshToken = (refreshToken: string): { sessionId: string; secret: string } | null => {
+  const [sessionId, secret] = (refreshToken || '').split('.');
+  return sessionId && secret && UUID_PATTERN.test(sessionId) ? { sessionId, secret } : null;
+};
+
+/**
+ * Server-side sessions behind the refresh tokens. A refresh token is good
+ * for exactly one refresh: it is swapped for a new one each time, and an
+ * old token turning up again means someone else holds a copy, so the whole
+ * session is revoked. Revocation also reaches the session's access tokens
+ * through protect(), which checks a Redis marker and falls back to the
+ * session row whenever Redis has no answer.
+ */
+export class SessionService {
+  public static async create(user: User, twoFactor: boolean, context: SessionContext = {}): Promise<IssuedSession> {
+    try {
+      const secret = generateToken(32);
+      const now = new Date();
+
+      const session = await Session.create({
+        userId: user.id,
+        refreshTokenHash: hashToken(secret),
+        twoFactor,
+        deviceId: context.deviceInfo?.deviceId || null,
+        deviceName: context.deviceInfo?.deviceName || null,
+        platform: context.deviceInfo?.platform || null,
+        ipAddress: context.ipAddress || null,
+        userAgent: context.userAgent || null,
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + SESSION_TTL_MS)
+      } as any);
+
+      return { session, refreshToken: `${session.id}.${secret}` };
+    } catch (error) {
+      logger.error('Error creating session:', error);
+      throw new ApiResponse(500, 'Failed to create session');
+    }
+  }
+
+  /**
+   * Swap a refresh token for a new one. Reusing a rotated token revokes
+   * the session for whoever holds it, legitimate client included.
+   */
+  public static async rotate(refreshToken: string, context: SessionContext = {}): Promise<IssuedSession> {
+    const parsed = parseRefreshToken(refreshToken);
+    const session = parsed ? await Session.findByPk(parsed.sessionId) : null;
+
+    if (!parsed || !session || !session.isActive()) {
+      throw new ApiResponse(401, 'Invalid refresh token');
+    }
+
+    const presentedHash = hashToken(parsed.secret);
+
+    if (presentedHash !== session.refreshTokenHash) {
+      await this.revoke(session, 'Refresh token reused');
+      logger.warn(`Refresh token reuse on session ${session.id} (user ${session.userId}); session revoked`);
+      throw new ApiResponse(401, 'Invalid refresh token');
+    }
+
+    const secret = generateToken(32);
+    const now = new Date();
+
+    // Conditional on the old hash so two refreshes racing with one token cannot both win
+    const [rotated] = await Session.update({
+      refreshTokenHash: hashToken(secret),
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+      ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+      ...(context.userAgent ? { userAgent: context.userAgent } : {})
+    }, {
+      where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null }
+    });
+
+    if (rotated === 0) {
+      await this.revoke(session, 'Refresh token reused');
+      throw new ApiResponse(401, 'Invalid refresh token');
+    }
+
+    await session.reload();
+
+    return { session, refreshToken: `${session.id}.${secret}` };
+  }
+
+  public static async getActiveSessions(userId: string): Promise<Session[]> {
+    try {
+      return await Session.findAll({
+        where: { userId, revokedAt: null, expiresAt: { [Op.gt]: new Date() } },
+        order: [['lastUsedAt', 'DESC']]
+      });
+    } catch (error) {
+      logger.error('Error getting sessions:', error);
+      throw new ApiResponse(500, 'Failed to fetch sessions');
+    }
+  }
+
+  // End one of the user's own sessions
+  public static async revokeSession(sessionId: string, userId: string, reason: string): Promise<Session> {
+    const session = await Session.findOne({ where: { id: sessionId, userId } });
+
+    if (!session) {
+      throw new ApiResponse(404, 'Session not found');
+    }
+
+    await this.revoke(session, reason);
+
+    return session;
+  }
+
+  /**
+   * End every session of a user, optionally sparing the one making the
+   * request. Returns how many were ended.
+   */
+  public static async revokeAll(userId: string, reason: string, exceptSessionId?: string | null): Promise<number> {
+    try {
+      const sessions = await Session.findAll({
+        where: {
+          userId,
+          revokedAt: null,
+          expiresAt: { [Op.gt]: new Date() },
+          ...(exceptSessionId ? { id: { [Op.ne]: exceptSessionId } } : {})
+        }
+      });
+
+      for (const session of sessions) {
+        await this.revoke(session, reason);
+      }
+
+      logger.info(`Revoked ${sessions.length} sessions for user ${userId}: ${reason}`);
+
+      return sessions.length;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error revoking sessions:', error);
+      throw new ApiResponse(500, 'Failed to revoke sessions');
+    }
+  }
+
+  /**
+   * Checked on every authenticated request. Redis answers from the
+   * revocation marker, or from a short-lived note that the session was
+   * live; anything else (a flushed or restarted Redis) goes back to the
+   * session row, so a lost marker never brings a revoked session back.
+   */
+  public static async isRevoked(sessionId: string): Promise<boolean> {
+    if (redisClient.isReady) {
+      if ((await redisClient.exists(revokedKey(sessionId))) === 1) {
+        return true;
+      }
+
+      if ((await redisClient.exists(activeKey(sessionId))) === 1) {
+        return false;
+      }
+    }
+
+    const session = await Session.findByPk(sessionId, { attributes: ['id', 'revokedAt', 'revokedReason'] });
+    const revoked = !session || !!session.revokedAt;
+
+    if (redisClient.isReady) {
+      if (revoked) {
+        await redisClient.setEx(revokedKey(sessionId), ACCESS_TOKEN_TTL_SECONDS, session?.revokedReason || 'Session revoked');
+      } else {
+        await redisClient.setEx(activeKey(sessionId), ACTIVE_CACHE_SECONDS, '1');
+      }
+    }
+
+    return revoked;
+  }
+
+  private static async revoke(session: Session, reason: string): Promise<void> {
+    if (!session.revokedAt) {
+      await session.update({ revokedAt: new Date(), revokedReason: reason });
+    }
+
+    // Outlasts any access token the session issued. Without Redis the
+    // session row alone is checked, so nothing is lost.
+    if (redisClient.isReady) {
+      await redisClient.setEx(revokedKey(session.id), ACCESS_TOKEN_TTL_SECONDS, reason);
+      await redisClient.del(activeKey(session.id));
+    }
+  }
+}
+
+export const sessionService = SessionService;
\ No newline at end of file
@@ -0,0 +1,591 @@
+import { Op, Transaction } from 'sequelize';
+import Auction from '../database/models/Auction';
+import Bid from '../database/models/Bid';
+import Lot from '../database/models/Lot';
+import Payment from '../database/models/Payment';
+import Settlement from '../database/models/Settlement';
+import { auctionStateService } from './auctionState.service';
+import { companyAuditService } from './companyAudit.service';
+import { companyMemberService } from './companyMember.service';
+import { feeService, FeeBreakdown } from './fee.service';
+import { invoiceService } from './invoice.service';
+import { ledgerService } from './ledger.service';
+import { lotService } from './lot.service';
+import { schedulerService } from './scheduler.service';
+import { notifyCompany, notifyUser } from '../sockets/auction.socket';
+import { ApiResponse } from '../utils/helpers';
+import sequelize from '../config/database';
+import { logger } from '../utils/logger';
+
+// Used when the auction's payment terms do not say how many days the buyer has
+const DEFAULT_PAYMENT_DAYS = parseInt(process.env.SETTLEMENT_PAYMENT_DAYS || '7');
+
+// Reminders sent after the due date before the buyer is put in default
+const MAX_REMINDERS = parseInt(process.env.SETTLEMENT_REMINDERS || '2');
+const REMINDER_INTERVAL_MS = parseInt(process.env.SETTLEMENT_REMINDER_INTERVAL_HOURS || '24') * 60 * 60 * 1000;
+
+const SECOND_CHANCE_TTL_MS = parseInt(process.env.SECOND_CHANCE_OFFER_HOURS || '48') * 60 * 60 * 1000;
+
+const OPEN_STATUSES = ['offered', 'awaiting_payment'];
+
+export type SettlementAction = 'reminder' | 'defaulted' | 'expired';
+
+/**
+ * What happens after the hammer falls. Each winner gets a payment request
+ * due by the auction's payment terms; unpaid requests are chased with
+ * reminders and then put in default, after which the seller may offer the
+ * item to the runner-up. Every step is driven by the lifecycle scheduler.
+ */
+export class SettlementService {
+  /**
+   * Read the number of days from terms like "Net 7 days"
+   */
+  public static getPaymentDueDate(auction: Auction, from: Date = new Date()): Date {
+    const match = /(\d+)\s*day/i.exec(auction.terms?.paymentTerms || '');
+    const days = match ? parseInt(match[1] as string) : DEFAULT_PAYMENT_DAYS;
+
+    return new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Whether a closed auction still needs its winners' payment requests raised.
+   * Reverse auctions never do: their winner is a supplier to be paid by the
+   * buyer, not a bidder who owes for the lot.
+   */
+  public static needsSettlement(auction: Auction): boolean {
+    return auction.format !== 'reverse'
+      && ['ended', 'sold'].includes(auction.status)
+      && Number(auction.finalAmount) > 0
+      && !auction.metadata?.settlementStartedAt;
+  }
+
+  /**
+   * Raise a payment request for each winner of a closed auction: the
+   * auction's winner, or everyone who won a lot of a lot event. Returns the
+   * new settlements, or an empty list if there is nothing to settle.
+   */
+  public static async openSettlements(auctionId: string): Promise<Settlement[]> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const auction = await Auction.findByPk(auctionId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!auction || !this.needsSettlement(auction)) {
+        await transaction.rollback();
+        return [];
+      }
+
+      const hammerByWinner = await this.getHammerByWinner(auction, transaction);
+      const sellerId = await companyMemberService.getAccountHolderId(auction.companyId, transaction);
+      const now = new Date();
+      const dueAt = this.getPaymentDueDate(auction, now);
+      const settlements: Settlement[] = [];
+      const breakdowns: FeeBreakdown[] = [];
+
+      for (const [bidderId, hammerAmount] of hammerByWinner) {
+        const fees = await feeService.calculateForAuction(auction, hammerAmount, transaction);
+
+        settlements.push(await Settlement.create({
+          auctionId: auction.id,
+          bidderId,
+          sellerId,
+          kind: 'winner',
+          status: 'awaiting_payment',
+          hammerAmount,
+          ...this.getCharges(fees),
+          currency: auction.auctionConfig?.currency || 'INR',
+          dueAt,
+          nextActionAt: dueAt,
+          metadata: { fees }
+        } as any, { transaction }));
+
+        breakdowns.push(fees);
+      }
+
+      const combined = feeService.combine(breakdowns);
+      if (combined) {
+        feeService.applyToAuction(auction, combined);
+      }
+      auction.metadata = { ...auction.metadata, settlementStartedAt: now };
+
+      await auction.save({ transaction });
+      await transaction.commit();
+
+      for (const settlement of settlements) {
+        await schedulerService.scheduleSettlement(settlement);
+        this.notifySettlement(settlement, auction, 'PAYMENT_REQUESTED');
+      }
+
+      logger.info(`Settlement opened for auction ${auction.id}: ${settlements.length} payment requests`);
+
+      return settlements;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error opening settlements:', error);
+      throw new ApiResponse(500, 'Failed to open settlements');
+    }
+  }
+
+  /**
+   * Scheduler step for a settlement whose next action has fallen due: expire
+   * an unanswered second-chance offer, remind a late buyer, or put them in
+   * default once the reminders have run out.
+   */
+  public static async processDue(settlementId: string): Promise<Settlement | null> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const settlement = await Settlement.findByPk(settlementId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (
+        !settlement ||
+        !settlement.isOpen() ||
+        !settlement.nextActionAt ||
+        new Date(settlement.nextActionAt) > new Date()
+      ) {
+        await transaction.rollback();
+        return null;
+      }
+
+      const now = new Date();
+      let action: SettlementAction;
+
+      if (settlement.status === 'offered') {
+        action = 'expired';
+        settlement.status = 'expired';
+        settlement.nextActionAt = null;
+      } else if (settlement.remindersSent < MAX_REMINDERS) {
+        action = 'reminder';
+        settlement.remindersSent += 1;
+        settlement.lastReminderAt = now;
+        settlement.nextActionAt = new Date(now.getTime() + REMINDER_INTERVAL_MS);
+      } else {
+        action = 'defaulted';
+        settlement.status = 'defaulted';
+        settlement.defaultedAt = now;
+        settlement.nextActionAt = null;
+      }
+
+      await settlement.save({ transaction });
+
+      const auction = await Auction.findByPk(settlement.auctionId, { transaction });
+
+      if (auction && action !== 'reminder') {
+        await auctionStateService.record(auction.id, auction.status, auction.status, {
+          reason: action === 'defaulted' ? 'Buyer did not pay by the deadline' : 'Second-chance offer expired',
+          metadata: { event: `settlement_${action}`, settlementId: settlement.id, bidderId: settlement.bidderId }
+        }, transaction);
+      }
+
+      await transaction.commit();
+
+      if (auction) {
+        this.notifySettlement(settlement, auction, action === 'reminder'
+          ? 'PAYMENT_REMINDER'
+          : action === 'defaulted' ? 'PAYMENT_DEFAULTED' : 'SECOND_CHANCE_EXPIRED');
+      }
+
+      logger.info(`Settlement ${settlement.id}: ${action}`);
+
+      return settlement;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error processing settlement:', error);
+      throw new ApiResponse(500, 'Failed to process settlement');
+    }
+  }
+
+  /**
+   * Mark the buyer's open payment request paid once their completed
+   * payments on the auction (an applied deposit included) cover it, and
+   * issue the tax invoice for the sale
+   */
+  public static async recordPayment(auctionId: string, bidderId: string, paymentId: string | null = null): Promise<Settlement | null> {
+    try {
+      const settlement = await Settlement.findOne({
+        where: { auctionId, bidderId, status: 'awaiting_payment' }
+      });
+
+      if (!settlement) {
+        return null;
+      }
+
+      const paid = await this.getAmountPaid(auctionId, bidderId);
+
+      if (paid < Number(settlement.totalAmount)) {
+        return null;
+      }
+
+      settlement.status = 'paid';
+      settlement.paidAt = new Date();
+      settlement.nextActionAt = null;
+      await settlement.save();
+
+      await schedulerService.scheduleSettlement(settlement);
+
+      const auction = await Auction.findByPk(auctionId);
+      if (auction) {
+        this.notifySettlement(settlement, auction, 'PAYMENT_RECEIVED');
+      }
+
+      // The scheduler retries the escrow split if it fails here
+      try {
+        await ledgerService.allocateSettlement(settlement.id);
+      } catch (error) {
+        logger.error(`Error allocating settlement ${settlement.id}:`, error);
+        await schedulerService.scheduleEscrowRelease(settlement);
+      }
+
+      // A failed invoice must not undo the payment; it can be issued again on request
+      try {
+        await invoiceService.issueForSettlement(settlement.id, paymentId);
+      } catch (error) {
+        logger.error(`Error invoicing settlement ${settlement.id}:`, error);
+      }
+
+      logger.info(`Settlement ${settlement.id} paid by ${bidderId}`);
+
+      return settlement;
+    } catch (error) {
+      logger.error('Error recording settlement payment:', error);
+      throw new ApiResponse(500, 'Failed to record settlement payment');
+    }
+  }
+
+  /**
+   * After the buyer defaults, the seller may offer the item to the best
+   * remaining bidder at that bidder's own highest bid. The actor is the
+   * company member (or admin) who made the offer.
+   */
+  public static async offerSecondChance(
+    auctionId: string,
+    actor: { id: string; role: string },
+    companyId?: string
+  ): Promise<Settlement> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const auction = await Auction.findByPk(auctionId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
+
+      if (companyId && auction.companyId !== companyId) {
+        throw new ApiResponse(403, 'Not authorized to make offers on this auction');
+      }
+
+      if (lotService.isLotEvent(auction)) {
+        throw new ApiResponse(400, 'Second-chance offers are not available for lot events');
+      }
+
+      if (auction.format === 'reverse') {
+        throw new ApiResponse(400, 'Second-chance offers are not available for reverse auctions');
+      }
+
+      const settlements = await Settlement.findAll({
+        where: { auctionId },
+        transaction
+      });
+
+      if (!settlements.some(settlement => settlement.status === 'defaulted')) {
+        throw new ApiResponse(400, 'Second-chance offers can only be made after the buyer defaults');
+      }
+
+      if (settlements.some(settlement => settlement.isOpen() || settlement.status === 'paid')) {
+        throw new ApiResponse(400, 'This auction already has an open or paid settlement');
+      }
+
+      // Everyone already asked to pay is skipped
+      const excluded = settlements.map(settlement => settlement.bidderId);
+
+      const runnerUp = await Bid.findOne({
+        where: {
+          auctionId,
+          bidderId: { [Op.notIn]: excluded },
+          status: { [Op.notIn]: ['withdrawn', 'invalid'] }
+        },
+        order: [['amount', 'DESC'], ['createdAt', 'ASC']],
+        transaction
+      });
+
+      if (!runnerUp) {
+        throw new ApiResponse(400, 'There is no other bidder to offer the item to');
+      }
+
+      const hammerAmount = Number(runnerUp.amount);
+      const fees = await feeService.calculateForAuction(auction, hammerAmount, transaction);
+      const now = new Date();
+      const offerExpiresAt = new Date(now.getTime() + SECOND_CHANCE_TTL_MS);
+
+      const settlement = await Settlement.create({
+        auctionId,
+        bidderId: runnerUp.bidderId,
+        sellerId: await companyMemberService.getAccountHolderId(auction.companyId, transaction),
+        kind: 'second_chance',
+        status: 'offered',
+        hammerAmount,
+        ...this.getCharges(fees),
+        currency: auction.auctionConfig?.currency || 'INR',
+        offerExpiresAt,
+        nextActionAt: offerExpiresAt,
+        metadata: { bidId: runnerUp.id, fees }
+      } as any, { transaction });
+
+      await auctionStateService.record(auction.id, auction.status, auction.status, {
+        actorId: actor.id,
+        actorRole: actor.role === 'admin' ? 'admin' : 'company',
+        reason: 'Second-chance offer made to the runner-up',
+        metadata: { event: 'second_chance_offered', settlementId: settlement.id, bidderId: runnerUp.bidderId, amount: hammerAmount }
+      }, transaction);
+
+      await companyAuditService.record(auction.companyId, actor.id, 'auction.second_chance_offered', { type: 'auction', id: auction.id }, {
+        settlementId: settlement.id,
+        bidderId: runnerUp.bidderId,
+        amount: hammerAmount
+      }, transaction);
+
+      await transaction.commit();
+
+      await schedulerService.scheduleSettlement(settlement);
+      this.notifySettlement(settlement, auction, 'SECOND_CHANCE_OFFER');
+
+      logger.info(`Second-chance offer on auction ${auctionId} to ${runnerUp.bidderId} at ${hammerAmount}`);
+
+      return settlement;
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error making second-chance offer:', error);
+      throw new ApiResponse(500, 'Failed to make second-chance offer');
+    }
+  }
+
+  /**
+   * The runner-up accepts (becoming the winner with a fresh payment
+   * deadline) or declines a second-chance offer
+   */
+  public static async respondToSecondChance(auctionId: string, bidderId: string, accept: boolean): Promise<Settlement> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const auction = await Auction.findByPk(auctionId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
+
+      const settlement = await Settlement.findOne({
+        where: { auctionId, bidderId, kind: 'second_chance', status: 'offered' },
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!settlement) {
+        throw new ApiResponse(404, 'No open second-chance offer found for this auction');
+      }
+
+      if (settlement.offerExpiresAt && new Date(settlement.offerExpiresAt) <= new Date()) {
+        throw new ApiResponse(400, 'Offer has expired');
+      }
+
+      if (accept) {
+        const dueAt = this.getPaymentDueDate(auction);
+
+        settlement.status = 'awaiting_payment';
+        settlement.dueAt = dueAt;
+        settlement.nextActionAt = dueAt;
+
+        auction.winnerId = bidderId;
+        auction.winnerAmount = Number(settlement.hammerAmount);
+        feeService.applyToAuction(auction, settlement.metadata.fees);
+        await auction.save({ transaction });
+      } else {
+        settlement.status = 'declined';
+        settlement.nextActionAt = null;
+      }
+
+      settlement.metadata = { ...settlement.metadata, respondedAt: new Date() };
+      await settlement.save({ transaction });
+
+      await auctionStateService.record(auction.id, auction.status, auction.status, {
+        actorId: bidderId,
+        actorRole: 'bidder',
+        reason: `Second-chance offer ${accept ? 'accepted' : 'declined'}`,
+        metadata: { event: accept ? 'second_chance_accepted' : 'second_chance_declined', settlementId: settlement.id }
+      }, transaction);
+
+      await transaction.commit();
+
+      await schedulerService.scheduleSettlement(settlement);
+      this.notifySettlement(settlement, auction, accept ? 'SECOND_CHANCE_ACCEPTED' : 'SECOND_CHANCE_DECLINED');
+
+      logger.info(`Second-chance offer on auction ${auctionId} ${accept ? 'accepted' : 'declined'} by ${bidderId}`);
+
+      return settlement;
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error responding to second-chance offer:', error);
+      throw new ApiResponse(500, 'Failed to respond to second-chance offer');
+    }
+  }
+
+  /**
+   * An auction's settlements; bidders only see their own
+   */
+  public static async getAuctionSettlements(
+    auctionId: string,
+    viewer: { id: string; role: string; companyId?: string | null }
+  ): Promise<Settlement[]> {
+    try {
+      const auction = await Auction.findByPk(auctionId, { attributes: ['id', 'companyId'] });
+
+      if (!auction) {
+        throw new ApiResponse(404, 'Auction not found');
+      }
+
+      const where: any = { auctionId };
+
+      if (viewer.role !== 'admin' && auction.companyId !== viewer.companyId) {
+        where.bidderId = viewer.id;
+      }
+
+      return await Settlement.findAll({
+        where,
+        order: [['createdAt', 'ASC']],
+        include: [
+          {
+            association: 'bidder',
+            attributes: ['id', 'firstName', 'lastName', 'email']
+          }
+        ]
+      });
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error getting auction settlements:', error);
+      throw new ApiResponse(500, 'Failed to fetch settlements');
+    }
+  }
+
+  public static async getBidderSettlements(bidderId: string, filters: any = {}): Promise<{ settlements: Settlement[]; total: number }> {
+    try {
+      const { status, limit = 10, offset = 0 } = filters;
+      const where: any = { bidderId };
+
+      if (status && status !== 'all') {
+        where.status = status;
+      } else if (!status) {
+        where.status = { [Op.in]: OPEN_STATUSES };
+      }
+
+      const { rows, count } = await Settlement.findAndCountAll({
+        where,
+        limit: parseInt(limit.toString()),
+        offset: parseInt(offset.toString()),
+        order: [['createdAt', 'DESC']],
+        include: [
+          {
+            association: 'auction',
+            attributes: ['id', 'title', 'status', 'terms']
+          }
+        ]
+      });
+
+      return { settlements: rows, total: count };
+    } catch (error) {
+      logger.error('Error getting bidder settlements:', error);
+      throw new ApiResponse(500, 'Failed to fetch settlements');
+    }
+  }
+
+  public static async getAmountPaid(auctionId: string, bidderId: string): Promise<number> {
+    const paid = await Payment.sum('amount', {
+      // A partial refund does not undo the sale
+      where: { auctionId, userId: bidderId, status: { [Op.in]: ['completed', 'partially_refunded'] } }
+    });
+
+    return Number(paid || 0);
+  }
+
+  // The buyer-facing part of a fee breakdown
+  private static getCharges(fees: FeeBreakdown): { commissionAmount: number; taxAmount: number; totalAmount: number } {
+    return {
+      commissionAmount: fees.buyerPremium,
+      taxAmount: fees.buyerPremiumTax,
+      totalAmount: fees.buyerTotal
+    };
+  }
+
+  private static async getHammerByWinner(auction: Auction, transaction: Transaction): Promise<Map<string, number>> {
+    const hammerByWinner = new Map<string, number>();
+
+    if (!lotService.isLotEvent(auction)) {
+      if (auction.winnerId) {
+        hammerByWinner.set(auction.winnerId, Number(auction.winnerAmount ?? auction.finalAmount));
+      }
+      return hammerByWinner;
+    }
+
+    const soldLots = await Lot.findAll({
+      where: { auctionId: auction.id, status: 'sold' },
+      attributes: ['winnerId', 'winnerAmount'],
+      transaction
+    });
+
+    soldLots.forEach(lot => {
+      if (lot.winnerId) {
+        hammerByWinner.set(lot.winnerId, (hammerByWinner.get(lot.winnerId) || 0) + Number(lot.winnerAmount));
+      }
+    });
+
+    return hammerByWinner;
+  }
+
+  // Tell the buyer, and the seller where it concerns them, about a settlement step
+  private static notifySettlement(settlement: Settlement, auction: Auction, event: string): void {
+    const payload = {
+      settlementId: settlement.id,
+      auctionId: auction.id,
+      auctionTitle: auction.title,
+      kind: settlement.kind,
+      status: settlement.status,
+      hammerAmount: Number(settlement.hammerAmount),
+      commissionAmount: Number(settlement.commissionAmount),
+      taxAmount: Number(settlement.taxAmount),
+      totalAmount: Number(settlement.totalAmount),
+      currency: settlement.currency,
+      dueAt: settlement.dueAt,
+      offerExpiresAt: settlement.offerExpiresAt,
+      remindersSent: settlement.remindersSent
+    };
+
+    notifyUser(settlement.bidderId, event, payload);
+
+    if (!['PAYMENT_REQUESTED', 'PAYMENT_REMINDER', 'SECOND_CHANCE_OFFER'].includes(event)) {
+      notifyCompany(auction.companyId, event, { ...payload, bidderId: settlement.bidderId });
+    }
+  }
+}
+
+export const settlementService = SettlementService;
\ No newline at end of file
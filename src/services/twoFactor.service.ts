@@ -0,0 +1,299 @@
+import crypto from 'crypto';
+import { Transaction } from 'sequelize';
+import User from '../database/models/User';
+import redisClient from '../config/redis';
+import sequelize from '../config/database';
+import { ApiResponse, decrypt, encrypt, generateToken, hashToken } from '../utils/helpers';
+import { generateSecret, provisioningUri, verifyTotp } from '../utils/totp';
+import { logger } from '../utils/logger';
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'BidMaster';
+// How long a password-checked login waits for its second factor
+const CHALLENGE_TTL_SECONDS = parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL_SECONDS || '300');
+const CHALLENGE_MAX_ATTEMPTS = 5;
+const BACKUP_CODE_COUNT = 10;
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface LoginChallenge {
+  challengeToken: string;
+  expiresIn: number;
+}
+
+interface StoredChallenge {
+  userId: string;
+}
+
+interface ChallengeResult {
+  valid: boolean;
+  locked: boolean;
+}
+
+// Backup codes are shown as xxxxx-xxxxx; accept them however they are typed back
+const normaliseBackupCode = (code: string): string => code.toLowerCase().replace(/[^0-9a-f]/g, '');
+
+const challengeKey = (challengeToken: string): string => `2fa:challenge:${hashToken(challengeToken)}`;
+const attemptsKey = (challengeToken: string): string => `${challengeKey(challengeToken)}:attempts`;
+
+/**
+ * TOTP two-factor authentication. A secret is issued on setup and only
+ * switches 2FA on once the user proves their authenticator app produces
+ * matching codes; they then get one-time backup codes for a lost device.
+ * Logins of users with 2FA go through a short-lived challenge that is
+ * exchanged for tokens once a code checks out.
+ */
+export class TwoFactorService {
+  /**
+   * Issue a new secret. Nothing changes for the user until it is confirmed.
+   */
+  public static async setup(userId: string): Promise<TwoFactorSetup> {
+    return this.withUser(userId, async (user, transaction) => {
+      if (user.twoFactorEnabled) {
+        throw new ApiResponse(409, 'Two-factor authentication is already enabled');
+      }
+
+      const secret = generateSecret();
+
+      await user.update({ twoFactorSecret: encrypt(secret), twoFactorLastStep: null }, { transaction });
+
+      return { secret, otpauthUrl: provisioningUri(secret, user.email, ISSUER) };
+    });
+  }
+
+  /**
+   * Switch 2FA on with a code from the newly set up app. Returns the
+   * backup codes, which are only ever shown this once.
+   */
+  public static async confirm(userId: string, code: string): Promise<string[]> {
+    return this.withUser(userId, async (user, transaction) => {
+      if (user.twoFactorEnabled) {
+        throw new ApiResponse(409, 'Two-factor authentication is already enabled');
+      }
+
+      if (!user.twoFactorSecret) {
+        throw new ApiResponse(400, 'Set up two-factor authentication first');
+      }
+
+      if (!(await this.consumeCode(user, code, false, transaction))) {
+        throw new ApiResponse(401, 'Invalid verification code');
+      }
+
+      const backupCodes = this.generateBackupCodes();
+
+      await user.update({
+        twoFactorEnabled: true,
+        twoFactorBackupCodes: backupCodes.map(backupCode => hashToken(normaliseBackupCode(backupCode)))
+      }, { transaction });
+
+      logger.info(`Two-factor authentication enabled for user ${user.id}`);
+
+      return backupCodes;
+    });
+  }
+
+  public static async disable(userId: string, code: string): Promise<void> {
+    await this.withUser(userId, async (user, transaction) => {
+      if (!user.twoFactorEnabled) {
+        throw new ApiResponse(400, 'Two-factor authentication is not enabled');
+      }
+
+      if (!(await this.consumeCode(user, code, true, transaction))) {
+        throw new ApiResponse(401, 'Invalid verification code');
+      }
+
+      await user.update({
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: [],
+        twoFactorLastStep: null
+      }, { transaction });
+
+      logger.info(`Two-factor authentication disabled for user ${user.id}`);
+    });
+  }
+
+  // Replace every backup code, e.g. once most have been used
+  public static async regenerateBackupCodes(userId: string, code: string): Promise<string[]> {
+    return this.withUser(userId, async (user, transaction) => {
+      if (!user.twoFactorEnabled) {
+        throw new ApiResponse(400, 'Two-factor authentication is not enabled');
+      }
+
+      if (!(await this.consumeCode(user, code, false, transaction))) {
+        throw new ApiResponse(401, 'Invalid verification code');
+      }
+
+      const backupCodes = this.generateBackupCodes();
+
+      await user.update({
+        twoFactorBackupCodes: backupCodes.map(backupCode => hashToken(normaliseBackupCode(backupCode)))
+      }, { transaction });
+
+      return backupCodes;
+    });
+  }
+
+  /**
+   * Start the second step of a login whose password checked out
+   */
+  public static async createChallenge(user: User): Promise<LoginChallenge> {
+    if (!redisClient.isReady) {
+      throw new ApiResponse(503, 'Two-factor login is temporarily unavailable');
+    }
+
+    const challengeToken = generateToken(32);
+    const challenge: StoredChallenge = { userId: user.id };
+
+    await redisClient.setEx(challengeKey(challengeToken), CHALLENGE_TTL_SECONDS, JSON.stringify(challenge));
+
+    return { challengeToken, expiresIn: CHALLENGE_TTL_SECONDS };
+  }
+
+  /**
+   * Exchange a login challenge and a TOTP or backup code for the user.
+   * The challenge is single-use and dies after a few wrong codes. Wrong
+   * codes also count as failed logins on the user, so starting a fresh
+   * challenge with the password does not buy more guesses.
+   */
+  public static async completeChallenge(challengeToken: string, code: string): Promise<User> {
+    if (!redisClient.isReady) {
+      throw new ApiResponse(503, 'Two-factor login is temporarily unavailable');
+    }
+
+    const key = challengeKey(challengeToken);
+    const stored = await redisClient.get(key);
+
+    if (!stored) {
+      throw new ApiResponse(401, 'Login challenge expired. Please login again.');
+    }
+
+    const challenge: StoredChallenge = JSON.parse(stored);
+
+    const result = await this.withUser(challenge.userId, async (user, transaction): Promise<ChallengeResult> => {
+      if (!user.twoFactorEnabled) {
+        throw new ApiResponse(401, 'Login challenge expired. Please login again.');
+      }
+
+      if (user.isLocked()) {
+        throw new ApiResponse(423, 'Account locked due to too many failed attempts');
+      }
+
+      if (await this.consumeCode(user, code, true, transaction)) {
+        user.resetLoginAttempts();
+        await user.save({ transaction });
+        return { valid: true, locked: false };
+      }
+
+      // Counted under the row lock, so parallel guesses cannot all slip through
+      await user.incrementLoginAttempts(transaction);
+      return { valid: false, locked: user.isLocked() };
+    });
+
+    if (!result.valid) {
+      const attempts = await redisClient.incr(attemptsKey(challengeToken));
+      await redisClient.expire(attemptsKey(challengeToken), CHALLENGE_TTL_SECONDS);
+
+      if (result.locked) {
+        await redisClient.del([key, attemptsKey(challengeToken)]);
+        throw new ApiResponse(423, 'Account locked due to too many failed attempts');
+      }
+
+      if (attempts >= CHALLENGE_MAX_ATTEMPTS) {
+        await redisClient.del([key, attemptsKey(challengeToken)]);
+        throw new ApiResponse(401, 'Too many invalid codes. Please login again.');
+      }
+
+      throw new ApiResponse(401, 'Invalid verification code');
+    }
+
+    // Whoever deletes the challenge first gets the login
+    if (!(await redisClient.del(key))) {
+      throw new ApiResponse(401, 'Login challenge expired. Please login again.');
+    }
+
+    await redisClient.del(attemptsKey(challengeToken));
+
+    const user = await User.findByPk(challenge.userId);
+
+    if (!user || !user.isActive) {
+      throw new ApiResponse(401, 'Account is not available');
+    }
+
+    return user;
+  }
+
+  /**
+   * Accept a TOTP code (never the same time step twice) or, when allowed,
+   * one of the user's unused backup codes, which is then spent
+   */
+  private static async consumeCode(
+    user: User,
+    code: string,
+    allowBackupCode: boolean,
+    transaction: Transaction
+  ): Promise<boolean> {
+    const candidate = (code || '').trim();
+    const step = verifyTotp(decrypt(user.twoFactorSecret!), candidate, user.twoFactorLastStep);
+
+    if (step !== null) {
+      await user.update({ twoFactorLastStep: step }, { transaction });
+      return true;
+    }
+
+    if (!allowBackupCode) {
+      return false;
+    }
+
+    const hashed = hashToken(normaliseBackupCode(candidate));
+    const remaining = (user.twoFactorBackupCodes || []).filter(backupCode => backupCode !== hashed);
+
+    if (remaining.length === (user.twoFactorBackupCodes || []).length) {
+      return false;
+    }
+
+    await user.update({ twoFactorBackupCodes: remaining }, { transaction });
+
+    logger.warn(`Backup code used by user ${user.id}; ${remaining.length} left`);
+
+    return true;
+  }
+
+  private static generateBackupCodes(): string[] {
+    return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  // Lock the user row so concurrent attempts cannot both spend the same code
+  private static async withUser<T>(userId: string, fn: (user: User, transaction: Transaction) => Promise<T>): Promise<T> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const user = await User.findByPk(userId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!user) {
+        throw new ApiResponse(404, 'User not found');
+      }
+
+      const result = await fn(user, transaction);
+
+      await transaction.commit();
+
+      return result;
+    } catch (error) {
+      await transaction.rollback();
+
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error updating two-factor authentication:', error);
+      throw new ApiResponse(500, 'Two-factor authentication failed');
+    }
+  }
+}
+
+export const twoFactorService = TwoFactorService;
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { Op } from 'sequelize';
+import UserToken, { UserTokenPurpose } from '../database/models/UserToken';
+import { ApiResponse, generateToken, hashToken } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+// How long each kind of mailed link stays valid
+export const USER_TOKEN_TTL_MS: Record<UserTokenPurpose, number> = {
+  email_verification: 24 * 60 * 60 * 1000,
+  password_reset: 60 * 60 * 1000,
+  email_change: 24 * 60 * 60 * 1000
+};
+
+export interface IssuedUserToken {
+  // Mailed to the user; only its hash is stored
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Single-use tokens for the links we mail out. Issuing one supersedes any
+ * unused token the user has for the same purpose, and consuming one is
+ * atomic, so a link can only ever be followed once.
+ */
+export class UserTokenService {
+  public static async issue(userId: string, purpose: UserTokenPurpose, data: any = {}): Promise<IssuedUserToken> {
+    try {
+      const token = generateToken(32);
+      const expiresAt = new Date(Date.now() + USER_TOKEN_TTL_MS[purpose]);
+
+      await UserToken.destroy({ where: { userId, purpose, consumedAt: null } });
+
+      await UserToken.create({
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        data,
+        expiresAt
+      } as any);
+
+      return { token, expiresAt };
+    } catch (error) {
+      logger.error(`Error issuing ${purpose} token:`, error);
+      throw new ApiResponse(500, 'Failed to issue token');
+    }
+  }
+
+  /**
+   * Spend a token. Throws 400 when it is unknown, for another purpose,
+   * already used or expired.
+   */
+  public static async consume(token: string, purpose: UserTokenPurpose): Promise<UserToken> {
+    const tokenHash = hashToken(token || '');
+
+    const [consumed] = await UserToken.update(
+      { consumedAt: new Date() },
+      { where: { tokenHash, purpose, consumedAt: null, expiresAt: { [Op.gt]: new Date() } } }
+    );
+
+    const userToken = consumed ? await UserToken.findOne({ where: { tokenHash } }) : null;
+
+    if (!userToken) {
+      throw new ApiResponse(400, 'Invalid or expired token');
+    }
+
+    return userToken;
+  }
+}
+
+export const userTokenService = UserTokenService;
\ No newline at end of file
@@ -0,0 +1,225 @@
+import { Op, UniqueConstraintError } from 'sequelize';
+import Payment, { PaymentProviderName } from '../database/models/Payment';
+import WebhookEvent from '../database/models/WebhookEvent';
+import { paymentService } from './payment.service';
+import { refundService } from './refund.service';
+import { paymentProviders, PaymentMatch } from './providers';
+import { schedulerService } from './scheduler.service';
+import { ApiResponse } from '../utils/helpers';
+import sequelize from '../config/database';
+import { logger } from '../utils/logger';
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+// First retry after this long, doubling on each further failure
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30') * 1000;
+
+export interface ReceivedWebhook {
+  event: WebhookEvent;
+  // The provider redelivered an event we already have
+  duplicate: boolean;
+}
+
+/**
+ * Incoming provider webhooks. Each delivery is signature-checked, stored
+ * under the provider's event id (so a redelivery is a no-op) and processed
+ * later by the scheduler, retrying with backoff until it succeeds or runs
+ * out of attempts. Admins can replay any stored event.
+ */
+export class WebhookService {
+  public static async receive(providerName: string, rawBody: string, headers: Record<string, any>): Promise<ReceivedWebhook> {
+    const provider = paymentProviders.get(providerName).name;
+    const { eventId, type, payload } = paymentProviders.get(provider).verifyWebhook(rawBody, headers);
+
+    if (!eventId || !type) {
+      throw new ApiResponse(400, 'Webhook event id or type missing');
+    }
+
+    try {
+      const event = await WebhookEvent.create({
+        provider,
+        eventId,
+        type,
+        payload,
+        status: 'pending',
+        nextAttemptAt: new Date()
+      } as any);
+
+      await schedulerService.scheduleWebhookEvent(event);
+
+      logger.info(`${provider} webhook ${eventId} (${type}) received`);
+
+      return { event, duplicate: false };
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        const existing = await WebhookEvent.findOne({ where: { provider, eventId } });
+
+        if (existing) {
+          logger.info(`${provider} webhook ${eventId} redelivered; ignoring`);
+          return { event: existing, duplicate: true };
+        }
+      }
+      logger.error('Error storing webhook event:', error);
+      throw new ApiResponse(500, 'Failed to store webhook event');
+    }
+  }
+
+  /**
+   * Run one stored event. Failures are recorded on the event and scheduled
+   * for retry rather than thrown.
+   */
+  public static async processEvent(id: string): Promise<WebhookEvent | null> {
+    // Claim the event so two workers never apply it at the same time
+    const [claimed] = await WebhookEvent.update(
+      { status: 'processing', attempts: sequelize.literal('attempts + 1') as any },
+      { where: { id, status: { [Op.in]: ['pending', 'failed'] }, nextAttemptAt: { [Op.lte]: new Date() } } }
+    );
+
+    const event = await WebhookEvent.findByPk(id);
+
+    if (!event || claimed === 0) {
+      return event;
+    }
+
+    try {
+      const handled = await this.dispatch(event);
+
+      event.status = handled ? 'processed' : 'ignored';
+      event.processedAt = new Date();
+      event.nextAttemptAt = null;
+      event.lastError = null;
+    } catch (error: any) {
+      const exhausted = event.attempts >= MAX_ATTEMPTS;
+
+      event.status = 'failed';
+      event.lastError = error?.message || String(error);
+      event.nextAttemptAt = exhausted
+        ? null
+        : new Date(Date.now() + RETRY_BASE_MS * Math.pow(2, event.attempts - 1));
+
+      logger.error(`Webhook ${event.provider}:${event.eventId} failed (attempt ${event.attempts}${exhausted ? ', giving up' : ''}):`, error);
+    }
+
+    await event.save();
+
+    return event;
+  }
+
+  /**
+   * Run a stored event again now, whatever happened to it before. The
+   * handlers are idempotent, so replaying a processed event is harmless.
+   */
+  public static async replay(id: string): Promise<WebhookEvent> {
+    try {
+      const event = await WebhookEvent.findByPk(id);
+
+      if (!event) {
+        throw new ApiResponse(404, 'Webhook event not found');
+      }
+
+      event.status = 'pending';
+      event.nextAttemptAt = new Date();
+      event.lastError = null;
+      await event.save();
+
+      const processed = await this.processEvent(event.id);
+
+      logger.info(`Webhook ${event.provider}:${event.eventId} replayed: ${processed?.status}`);
+
+      return processed || event;
+    } catch (error) {
+      if (error instanceof ApiResponse) {
+        throw error;
+      }
+      logger.error('Error replaying webhook event:', error);
+      throw new ApiResponse(500, 'Failed to replay webhook event');
+    }
+  }
+
+  public static async getEvents(filters: any = {}): Promise<{ events: WebhookEvent[]; total: number }> {
+    try {
+      const { provider, status, type, limit = 20, offset = 0 } = filters;
+      const where: any = {};
+
+      if (provider) where.provider = provider;
+      if (status) where.status = status;
+      if (type) where.type = type;
+
+      const { rows, count } = await WebhookEvent.findAndCountAll({
+        where,
+        limit: parseInt(limit.toString()),
+        offset: parseInt(offset.toString()),
+        order: [['createdAt', 'DESC']]
+      });
+
+      return { events: rows, total: count };
+    } catch (error) {
+      logger.error('Error getting webhook events:', error);
+      throw new ApiResponse(500, 'Failed to fetch webhook events');
+    }
+  }
+
+  /**
+   * Apply an event to its payment. Returns false for event types we do not
+   * act on; throws when the payment is not there yet, so it is retried.
+   */
+  private static async dispatch(event: WebhookEvent): Promise<boolean> {
+    const action = paymentProviders.get(event.provider).parseWebhook(event.type, event.payload);
+
+    if (!action) {
+      logger.info(`Unhandled ${event.provider} event type: ${event.type}`);
+      return false;
+    }
+
+    switch (action.type) {
+      case 'completed':
+        await this.findPayment(event.provider, { providerOrderId: action.orderId });
+        await paymentService.markCompleted(action.orderId, action.paymentId);
+        break;
+
+      case 'authorised':
+        await this.findPayment(event.provider, { providerOrderId: action.orderId });
+        await paymentService.markAuthorised(action.orderId);
+        break;
+
+      case 'failed':
+        await this.findPayment(event.provider, { providerOrderId: action.orderId });
+        await paymentService.markFailed(action.orderId, action.reason);
+        break;
+
+      case 'refunded':
+        await refundService.recordProviderRefund(await this.findPayment(event.provider, action.match), {
+          providerRefundId: action.refundId,
+          amount: action.amount,
+          reason: action.reason
+        });
+        break;
+
+      case 'refund_failed':
+        await refundService.recordProviderRefundFailure(event.provider, action.refundId, action.reason);
+        break;
+
+      case 'dispute':
+        await paymentService.recordDispute(await this.findPayment(event.provider, action.match), action.dispute);
+        break;
+    }
+
+    return true;
+  }
+
+  /**
+   * Webhooks can arrive before the payment row is written; failing here
+   * schedules a retry. Only the provider that took a payment may change it.
+   */
+  private static async findPayment(provider: PaymentProviderName, match: PaymentMatch): Promise<Payment> {
+    const value = 'providerOrderId' in match ? match.providerOrderId : match.providerPaymentId;
+    const payment = value ? await Payment.findOne({ where: { ...match, provider } }) : null;
+
+    if (!payment) {
+      throw new Error(`Payment ${value} not found`);
+    }
+
+    return payment;
+  }
+}
+
+export const webhookService = WebhookService;
\ No newline at end of file
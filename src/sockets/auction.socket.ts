@@ -1,9 +1,14 @@
 import { Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
-import { auctionService } from '../services/auction.service';
-import { bidService } from '../services/bid.service';
+import { AuctionCloseOutcome, getMinNextBid } from '../services/auctionFormat.service';
+import { bidService, AuctionExtension, BidPlacementResult, LotBidPlacementResult } from '../services/bid.service';
+import { lotService } from '../services/lot.service';
+import { RetractionOutcome } from '../services/retraction.service';
+import { incrementService } from '../services/increment.service';
+import { exposureService } from '../services/exposure.service';
 import User from '../database/models/User';
 import Auction from '../database/models/Auction';
+import Lot from '../database/models/Lot';
 import { logger } from '../utils/logger';
 import { socketAuth } from '../middleware/auth.middleware';
 import redisClient from '../config/redis';
@@ -20,20 +25,25 @@ interface SocketUser {
 
 interface JoinAuctionData {
   auctionId: string;
+  // Lot events: also join this lot's room
+  lotId?: string;
 }
 
 interface PlaceBidData {
   auctionId: string;
   amount: number;
+  lotId?: string;
 }
 
 interface AuctionRoomInfo {
   users: Map<string, SocketUser>;
   auction: any;
   bidHistory: Array<{
+    bidId?: string;
     amount: number;
     bidderId: string;
     bidderName: string;
+    isAutoBid?: boolean;
     timestamp: Date;
   }>;
 }
@@ -41,7 +51,12 @@ interface AuctionRoomInfo {
 // Store active auction rooms
 const activeAuctionRooms = new Map<string, AuctionRoomInfo>();
 
+// Socket server reference so HTTP-triggered bids can broadcast too
+let auctionIo: Server | null = null;
+
 export const setupAuctionSocket = (io: Server): void => {
+  auctionIo = io;
+
   // Authentication middleware for WebSocket connections
   io.use(socketAuth);
 
@@ -57,10 +72,15 @@ export const setupAuctionSocket = (io: Server): void => {
     // Join user to their personal room for private messages
     socket.join(`user:${user.id}`);
 
+    // Company members share a room for their company's auction activity
+    if (user.companyId) {
+      socket.join(`company:${user.companyId}`);
+    }
+
     // Handle joining an auction room
     socket.on('JOIN_AUCTION', async (data: JoinAuctionData) => {
       try {
-        const { auctionId } = data;
+        const { auctionId, lotId } = data;
 
         // Validate auction
         const auction = await Auction.findByPk(auctionId);
@@ -69,14 +89,27 @@ export const setupAuctionSocket = (io: Server): void => {
           return;
         }
 
-        // Check if auction is live
-        if (!auction.isLive()) {
+        // Check if auction is live (lot events run past biddingEndsAt while later lots close)
+        const isLotEvent = lotService.isLotEvent(auction);
+        if (isLotEvent ? auction.status !== 'live' : !auction.isLive()) {
           socket.emit('ERROR', { message: 'Auction is not live' });
           return;
         }
 
+        let lot: Lot | null = null;
+        if (lotId) {
+          lot = await Lot.findOne({ where: { id: lotId, auctionId } });
+          if (!lot) {
+            socket.emit('ERROR', { message: 'Lot not found' });
+            return;
+          }
+        }
+
         // Join the auction room
         socket.join(`auction:${auctionId}`);
+        if (lot) {
+          socket.join(`auction:${auctionId}:lot:${lot.id}`);
+        }
 
         // Initialize or update room info
         if (!activeAuctionRooms.has(auctionId)) {
@@ -93,6 +126,14 @@ export const setupAuctionSocket = (io: Server): void => {
         // Send welcome message with auction details
         socket.emit('AUCTION_JOINED', {
           auction: auction.toJSON(),
+          format: auction.format,
+          minNextBid: lot
+            ? lot.getMinNextBid(incrementService.getLadder(auction))
+            : isLotEvent ? null : getMinNextBid(auction),
+          // Clients show the step that applies now and the ladder for later prices
+          bidIncrement: lot?.bidIncrement ?? incrementService.getIncrement(auction, Number((lot || auction).currentHighestBid)),
+          incrementTiers: incrementService.getLadder(auction),
+          lot: lot ? lot.toJSON() : null,
           currentHighestBid: auction.currentHighestBid,
           currentHighestBidderId: auction.currentHighestBidderId,
           totalBids: auction.totalBids,
@@ -117,7 +158,7 @@ export const setupAuctionSocket = (io: Server): void => {
     // Handle placing a bid
     socket.on('PLACE_BID', async (data: PlaceBidData) => {
       try {
-        const { auctionId, amount } = data;
+        const { auctionId, amount, lotId } = data;
 
         // Check if user is in the auction room
         if (!socket.rooms.has(`auction:${auctionId}`)) {
@@ -131,62 +172,20 @@ export const setupAuctionSocket = (io: Server): void => {
           return;
         }
 
-        // Place bid using service
-        const bidResult = await bidService.placeBid(auctionId, user.id, amount);
-
-        // Get updated auction
-        const auction = await Auction.findByPk(auctionId);
-        if (!auction) {
-          socket.emit('BID_ERROR', { message: 'Auction not found' });
-          return;
-        }
-
-        // Create bid record
-        const bidRecord = {
-          amount: bidResult.amount,
-          bidderId: bidResult.bidderId,
-          bidderName: `${user.firstName} ${user.lastName}`,
-          timestamp: new Date()
+        const bidMetadata = {
+          ipAddress: socket.handshake.address,
+          userAgent: socket.handshake.headers['user-agent'] || null
         };
 
-        // Update room bid history
-        const roomInfo = activeAuctionRooms.get(auctionId);
-        if (roomInfo) {
-          roomInfo.bidHistory.push(bidRecord);
-          roomInfo.auction = auction.toJSON();
-        }
-
-        // Broadcast new bid to all users in the auction room
-        io.to(`auction:${auctionId}`).emit('NEW_BID', {
-          auctionId,
-          bid: bidRecord,
-          auction: {
-            currentHighestBid: auction.currentHighestBid,
-            currentHighestBidderId: auction.currentHighestBidderId,
-            totalBids: auction.totalBids,
-            totalBidders: auction.totalBidders
-          }
-        });
-
-        // Send notification to previous highest bidder if different
-        if (bidResult.previousHighestBidderId && 
-            bidResult.previousHighestBidderId !== user.id) {
-          io.to(`user:${bidResult.previousHighestBidderId}`).emit('OUTBID', {
-            auctionId,
-            auctionTitle: auction.title,
-            newBid: amount,
-            outbidBy: `${user.firstName} ${user.lastName}`
-          });
+        // Place bid using service
+        if (lotId) {
+          const lotBidResult = await bidService.placeLotBid(auctionId, lotId, user.id, amount, bidMetadata);
+          await broadcastLotBid(lotBidResult);
+        } else {
+          const bidResult = await bidService.placeBid(auctionId, user.id, amount, bidMetadata);
+          await broadcastBidPlacement(bidResult);
         }
 
-        // Notify auction owner
-        io.to(`user:${auction.companyId}`).emit('AUCTION_BID_RECEIVED', {
-          auctionId,
-          auctionTitle: auction.title,
-          bidAmount: amount,
-          bidderName: `${user.firstName} ${user.lastName}`
-        });
-
         logger.info(`Bid placed by ${user.email}: ${amount} on auction ${auctionId}`);
       } catch (error: any) {
         logger.error('Error placing bid:', error);
@@ -197,10 +196,13 @@ export const setupAuctionSocket = (io: Server): void => {
     });
 
     // Handle leaving an auction room
-    socket.on('LEAVE_AUCTION', (data: { auctionId: string }) => {
-      const { auctionId } = data;
+    socket.on('LEAVE_AUCTION', (data: { auctionId: string; lotId?: string }) => {
+      const { auctionId, lotId } = data;
       
       socket.leave(`auction:${auctionId}`);
+      if (lotId) {
+        socket.leave(`auction:${auctionId}:lot:${lotId}`);
+      }
       
       const roomInfo = activeAuctionRooms.get(auctionId);
       if (roomInfo) {
@@ -352,70 +354,475 @@ export const setupAuctionSocket = (io: Server): void => {
     });
   });
 
-  // Periodically check and update auction status
+  // Periodically send timer updates to the rooms joined on this instance.
+  // Status transitions are driven by the lifecycle scheduler, not this loop.
   setInterval(async () => {
     try {
-      // Get all live auctions
+      const localAuctionIds = Array.from(activeAuctionRooms.keys());
+      if (localAuctionIds.length === 0) return;
+
       const liveAuctions = await Auction.findAll({
-        where: { status: 'live' }
+        where: { id: localAuctionIds, status: 'live' }
       });
 
       for (const auction of liveAuctions) {
         const auctionId = auction.id;
+        const endTime = new Date(auction.timing.biddingEndsAt).getTime();
+        const timeRemaining = Math.max(0, endTime - Date.now());
         
-        // Check if auction should end
-        if (!auction.isLive()) {
-          // Update auction status
-          auction.status = 'ended';
-          await auction.save();
-
-          // Notify all users in the auction room
-          const roomInfo = activeAuctionRooms.get(auctionId);
-          if (roomInfo) {
-            io.to(`auction:${auctionId}`).emit('AUCTION_ENDED', {
-              auctionId,
-              winnerId: auction.winnerId,
-              finalAmount: auction.finalAmount,
-              message: 'Auction has ended'
-            });
-
-            // Clear room after auction ends
-            setTimeout(() => {
-              activeAuctionRooms.delete(auctionId);
-            }, 30000); // 30 seconds delay
-          }
-
-          // Notify winner
-          if (auction.winnerId) {
-            io.to(`user:${auction.winnerId}`).emit('AUCTION_WON', {
-              auctionId,
-              auctionTitle: auction.title,
-              winningAmount: auction.finalAmount
-            });
-          }
-        } else {
-          // Send timer updates to all users in the room
-          const endTime = new Date(auction.timing.biddingEndsAt).getTime();
-          const timeRemaining = Math.max(0, endTime - Date.now());
-          
-          // Only send updates if less than 5 minutes remain
-          if (timeRemaining <= 5 * 60 * 1000) {
-            io.to(`auction:${auctionId}`).emit('TIMER_UPDATE', {
-              auctionId,
-              timeRemaining,
-              formattedTime: formatTimeRemaining(timeRemaining)
-            });
-          }
+        // Only send updates if less than 5 minutes remain
+        if (timeRemaining <= 5 * 60 * 1000) {
+          io.local.to(`auction:${auctionId}`).emit('TIMER_UPDATE', {
+            auctionId,
+            timeRemaining,
+            formattedTime: formatTimeRemaining(timeRemaining),
+            // Dutch auctions tick down the asking price as well as the clock
+            ...(auction.format === 'dutch' && { currentPrice: getMinNextBid(auction) })
+          });
         }
       }
     } catch (error) {
-      logger.error('Error in auction status check:', error);
+      logger.error('Error sending auction timer updates:', error);
     }
-  }, 10000); // Check every 10 seconds
+  }, 10000); // Every 10 seconds
 
   logger.info('WebSocket server initialized for auction functionality');
 };
 
+/**
+ * Broadcast every resolved step of a bid placement (the triggering bid plus
+ * any proxy counter-bids) and notify displaced and owning users
+ */
+export async function broadcastBidPlacement(result: BidPlacementResult): Promise<void> {
+  if (!auctionIo) return;
+
+  const io = auctionIo;
+  const { auctionId } = result;
+
+  try {
+    const auction = await Auction.findByPk(auctionId);
+    if (!auction) return;
+
+    const roomInfo = activeAuctionRooms.get(auctionId);
+
+    // Sealed bids only announce that a bid arrived; amounts stay hidden until close
+    if (result.sealed) {
+      io.to(`auction:${auctionId}`).emit('SEALED_BID_RECEIVED', {
+        auctionId,
+        totalBids: auction.totalBids,
+        totalBidders: auction.totalBidders
+      });
+
+      io.to(`company:${auction.companyId}`).emit('AUCTION_BID_RECEIVED', {
+        auctionId,
+        auctionTitle: auction.title,
+        sealed: true
+      });
+
+      io.to(`user:${result.bidderId}`).emit('SEALED_BID_CONFIRMED', {
+        auctionId,
+        bidId: result.bidId,
+        amount: result.amount
+      });
+
+      return;
+    }
+
+    for (const step of result.steps) {
+      const bidRecord = {
+        bidId: step.bidId,
+        amount: step.amount,
+        bidderId: step.bidderId,
+        bidderName: step.bidderName,
+        isAutoBid: step.isAutoBid,
+        timestamp: step.timestamp
+      };
+
+      if (roomInfo) {
+        roomInfo.bidHistory.push(bidRecord);
+      }
+
+      // Broadcast new bid to all users in the auction room
+      io.to(`auction:${auctionId}`).emit('NEW_BID', {
+        auctionId,
+        bid: bidRecord,
+        auction: {
+          currentHighestBid: auction.currentHighestBid,
+          currentHighestBidderId: auction.currentHighestBidderId,
+          totalBids: auction.totalBids,
+          totalBidders: auction.totalBidders
+        }
+      });
+
+      // Notify auction owner
+      io.to(`company:${auction.companyId}`).emit('AUCTION_BID_RECEIVED', {
+        auctionId,
+        auctionTitle: auction.title,
+        bidAmount: step.amount,
+        bidderName: step.bidderName,
+        isAutoBid: step.isAutoBid
+      });
+    }
+
+    if (roomInfo) {
+      roomInfo.auction = auction.toJSON();
+    }
+
+    // Everyone who bid in this placement but no longer leads has been outbid
+    const leader = result.steps.find(step => step.bidderId === auction.currentHighestBidderId);
+    const outbidUserIds = new Set(
+      [result.previousHighestBidderId, ...result.steps.map(step => step.bidderId)]
+        .filter((id): id is string => !!id && id !== auction.currentHighestBidderId)
+    );
+
+    outbidUserIds.forEach(userId => {
+      io.to(`user:${userId}`).emit('OUTBID', {
+        auctionId,
+        auctionTitle: auction.title,
+        newBid: auction.currentHighestBid,
+        outbidBy: leader?.bidderName || 'another bidder'
+      });
+    });
+
+    if (result.extension) {
+      broadcastAuctionExtended(auction, result.extension);
+    }
+
+    if (result.soldImmediately) {
+      broadcastAuctionEnded(auction, auction.metadata?.endReason || 'buy_now');
+    }
+
+    await broadcastExposure([result.previousHighestBidderId, ...result.steps.map(step => step.bidderId)]);
+  } catch (error) {
+    logger.error('Error broadcasting bid placement:', error);
+  }
+}
+
+/**
+ * Broadcast a bid on one lot to the lot's room and the event room, and
+ * notify the lot's previous leader and the seller
+ */
+export async function broadcastLotBid(result: LotBidPlacementResult): Promise<void> {
+  if (!auctionIo) return;
+
+  const io = auctionIo;
+  const { auctionId, lotId } = result;
+
+  try {
+    const auction = await Auction.findByPk(auctionId);
+    if (!auction) return;
+
+    const [step] = result.steps;
+    if (!step) return;
+
+    const bidRecord = {
+      bidId: step.bidId,
+      amount: step.amount,
+      bidderId: step.bidderId,
+      bidderName: step.bidderName,
+      isAutoBid: step.isAutoBid,
+      timestamp: step.timestamp
+    };
+
+    const payload = {
+      auctionId,
+      lotId,
+      lotNumber: result.lotNumber,
+      bid: bidRecord,
+      lot: {
+        currentHighestBid: result.currentHighestBid,
+        currentHighestBidderId: result.currentHighestBidderId,
+        totalBids: result.lotTotalBids,
+        closesAt: result.lotClosesAt
+      },
+      auction: {
+        currentHighestBid: auction.currentHighestBid,
+        totalBids: auction.totalBids,
+        totalBidders: auction.totalBidders
+      }
+    };
+
+    io.to(`auction:${auctionId}:lot:${lotId}`).to(`auction:${auctionId}`).emit('NEW_BID', payload);
+
+    io.to(`company:${auction.companyId}`).emit('AUCTION_BID_RECEIVED', {
+      auctionId,
+      lotId,
+      auctionTitle: auction.title,
+      bidAmount: step.amount,
+      bidderName: step.bidderName,
+      isAutoBid: false
+    });
+
+    if (result.extension) {
+      broadcastAuctionExtended(auction, result.extension);
+    }
+
+    if (result.previousHighestBidderId && result.previousHighestBidderId !== result.bidderId) {
+      io.to(`user:${result.previousHighestBidderId}`).emit('OUTBID', {
+        auctionId,
+        lotId,
+        lotNumber: result.lotNumber,
+        auctionTitle: auction.title,
+        newBid: result.currentHighestBid,
+        outbidBy: step.bidderName
+      });
+    }
+
+    await broadcastExposure([result.bidderId, result.previousHighestBidderId]);
+  } catch (error) {
+    logger.error('Error broadcasting lot bid:', error);
+  }
+}
+
+/**
+ * Push a soft-close extension straight away rather than waiting for the
+ * next TIMER_UPDATE tick. Lot extensions go to the lot's room and the event room.
+ */
+export function broadcastAuctionExtended(auction: Auction, extension: AuctionExtension): void {
+  if (!auctionIo) return;
+
+  const timeRemaining = Math.max(0, new Date(extension.biddingEndsAt).getTime() - Date.now());
+  const payload = {
+    auctionId: auction.id,
+    lotId: extension.lotId,
+    biddingEndsAt: extension.biddingEndsAt,
+    previousEndsAt: extension.previousEndsAt,
+    extensions: extension.extensions,
+    triggeredBy: extension.triggeredBy,
+    timeRemaining,
+    formattedTime: formatTimeRemaining(timeRemaining)
+  };
+
+  const rooms = extension.lotId
+    ? [`auction:${auction.id}`, `auction:${auction.id}:lot:${extension.lotId}`]
+    : [`auction:${auction.id}`];
+
+  auctionIo.to(rooms).emit('AUCTION_EXTENDED', payload);
+  auctionIo.to(`company:${auction.companyId}`).emit('AUCTION_EXTENDED', payload);
+}
+
+/**
+ * Tell the room the lead was rolled back after a retraction, and let the
+ * restored leader and the seller know
+ */
+export async function broadcastBidRetracted(outcome: RetractionOutcome): Promise<void> {
+  if (!auctionIo) return;
+
+  const io = auctionIo;
+  const { auctionId, lotId } = outcome;
+
+  try {
+    const auction = await Auction.findByPk(auctionId);
+    if (!auction) return;
+
+    const payload = {
+      auctionId,
+      lotId,
+      bidId: outcome.bidId,
+      currentHighestBid: outcome.currentHighestBid,
+      currentHighestBidderId: outcome.leaderId,
+      auction: {
+        currentHighestBid: auction.currentHighestBid,
+        totalBids: auction.totalBids,
+        totalBidders: auction.totalBidders
+      }
+    };
+
+    const rooms = lotId
+      ? [`auction:${auctionId}`, `auction:${auctionId}:lot:${lotId}`]
+      : [`auction:${auctionId}`];
+
+    io.to(rooms).emit('BID_RETRACTED', payload);
+
+    io.to(`company:${auction.companyId}`).emit('BID_RETRACTED', {
+      ...payload,
+      auctionTitle: auction.title
+    });
+
+    if (outcome.leaderId && outcome.leaderId !== outcome.previousLeaderId) {
+      io.to(`user:${outcome.leaderId}`).emit('LEADING_BID_RESTORED', {
+        auctionId,
+        lotId,
+        auctionTitle: auction.title,
+        amount: outcome.currentHighestBid
+      });
+    }
+
+    const roomInfo = activeAuctionRooms.get(auctionId);
+    if (roomInfo) {
+      roomInfo.bidHistory = roomInfo.bidHistory.filter(entry => entry.bidId !== outcome.bidId);
+      roomInfo.auction = auction.toJSON();
+    }
+
+    await broadcastExposure([outcome.bidderId, outcome.previousLeaderId, outcome.leaderId]);
+  } catch (error) {
+    logger.error('Error broadcasting bid retraction:', error);
+  }
+}
+
+/**
+ * Announce a closed lot to its room, the rest of the event and the winner
+ */
+export function broadcastLotEnded(lot: Lot, outcome: AuctionCloseOutcome): void {
+  if (!auctionIo) return;
+
+  const io = auctionIo;
+  const { auctionId } = lot;
+  const payload = {
+    auctionId,
+    lotId: lot.id,
+    lotNumber: lot.lotNumber,
+    status: lot.status,
+    outcome,
+    reserveMet: outcome !== 'reserve_not_met',
+    winnerId: lot.winnerId,
+    finalAmount: lot.winnerAmount,
+    message: outcome === 'won'
+      ? `Lot ${lot.lotNumber} has ended`
+      : outcome === 'reserve_not_met'
+        ? `Lot ${lot.lotNumber} has ended: reserve not met`
+        : `Lot ${lot.lotNumber} has ended without a sale`
+  };
+
+  io.to(`auction:${auctionId}:lot:${lot.id}`).emit('AUCTION_ENDED', payload);
+  io.to(`auction:${auctionId}`).emit('LOT_ENDED', payload);
+
+  if (lot.winnerId) {
+    io.to(`user:${lot.winnerId}`).emit('AUCTION_WON', {
+      auctionId,
+      lotId: lot.id,
+      lotNumber: lot.lotNumber,
+      auctionTitle: lot.title,
+      winningAmount: lot.winnerAmount
+    });
+  }
+
+  // A lead that fell below reserve no longer counts; a win counts until paid
+  broadcastExposure([lot.currentHighestBidderId]);
+}
+
+/**
+ * Announce a closed auction to its room, the winner and the seller
+ */
+export function broadcastAuctionEnded(
+  auction: Auction,
+  outcome: AuctionCloseOutcome | 'buy_now' | 'dutch_accept'
+): void {
+  if (!auctionIo) return;
+
+  const io = auctionIo;
+  const auctionId = auction.id;
+  const reserveMet = outcome !== 'reserve_not_met';
+
+  io.to(`auction:${auctionId}`).emit('AUCTION_ENDED', {
+    auctionId,
+    status: auction.status,
+    outcome,
+    reserveMet,
+    winnerId: auction.winnerId,
+    finalAmount: auction.finalAmount,
+    message: outcome === 'buy_now'
+      ? 'Auction has ended: sold at the buy-now price'
+      : outcome === 'dutch_accept'
+        ? 'Auction has ended: price accepted'
+        : reserveMet ? 'Auction has ended' : 'Auction has ended: reserve not met'
+  });
+
+  // Clear room after auction ends
+  if (activeAuctionRooms.has(auctionId)) {
+    setTimeout(() => {
+      activeAuctionRooms.delete(auctionId);
+    }, 30000); // 30 seconds delay
+  }
+
+  // Notify winner
+  if (auction.winnerId) {
+    io.to(`user:${auction.winnerId}`).emit('AUCTION_WON', {
+      auctionId,
+      auctionTitle: auction.title,
+      winningAmount: auction.finalAmount
+    });
+  }
+
+  // Let the seller know they can still offer the item to the top bidder
+  if (!reserveMet) {
+    io.to(`company:${auction.companyId}`).emit('RESERVE_NOT_MET', {
+      auctionId,
+      auctionTitle: auction.title,
+      topBid: auction.currentHighestBid,
+      topBidderId: auction.currentHighestBidderId,
+      reservePrice: auction.auctionConfig?.reservePrice
+    });
+  }
+
+  broadcastExposure([auction.currentHighestBidderId, auction.winnerId]);
+}
+
+/**
+ * Announce that a scheduled auction has opened for bidding
+ */
+export function broadcastAuctionStarted(auction: Auction): void {
+  if (!auctionIo) return;
+
+  const payload = {
+    auctionId: auction.id,
+    auctionTitle: auction.title,
+    biddingEndsAt: auction.timing?.biddingEndsAt,
+    startingBid: auction.auctionConfig?.startingBid
+  };
+
+  auctionIo.to(`auction:${auction.id}`).emit('AUCTION_STARTED', payload);
+  auctionIo.to(`company:${auction.companyId}`).emit('AUCTION_STARTED', payload);
+}
+
+// Push a lifecycle change (preview window, featuring) to the room and the seller
+export function broadcastAuctionUpdate(auction: Auction, event: string): void {
+  if (!auctionIo) return;
+
+  const payload = {
+    auctionId: auction.id,
+    status: auction.status,
+    timing: auction.timing,
+    metadata: auction.metadata
+  };
+
+  auctionIo.to(`auction:${auction.id}`).emit(event, payload);
+  auctionIo.to(`company:${auction.companyId}`).emit(event, payload);
+}
+
+/**
+ * Push each user's current credit exposure to their private room
+ */
+export async function broadcastExposure(userIds: Array<string | null | undefined>): Promise<void> {
+  if (!auctionIo) return;
+
+  const io = auctionIo;
+  const unique = new Set(userIds.filter((id): id is string => !!id));
+
+  for (const userId of unique) {
+    try {
+      const summary = await exposureService.getSummary(userId);
+      io.to(`user:${userId}`).emit('EXPOSURE_UPDATED', summary);
+    } catch (error) {
+      logger.error(`Error broadcasting exposure for user ${userId}:`, error);
+    }
+  }
+}
+
+// Send a private event to a single user's room
+export function notifyUser(userId: string, event: string, payload: any): void {
+  if (!auctionIo) return;
+
+  auctionIo.to(`user:${userId}`).emit(event, payload);
+}
+
+// Send a private event to every signed-in member of a company
+export function notifyCompany(companyId: string, event: string, payload: any): void {
+  if (!auctionIo) return;
+
+  auctionIo.to(`company:${companyId}`).emit(event, payload);
+}
+
 // Helper function to format time remaining
 function formatTimeRemaining(ms: number): string {
   const seconds = Math.floor(ms / 1000);
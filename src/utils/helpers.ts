@@ -112,6 +112,43 @@ export const generateToken = (length: number = 64): string => {
   return crypto.randomBytes(length).toString('hex');
 };
 
+/**
+ * Hash a high-entropy token for storage; unlike a password it needs no salt
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// AES-256-GCM key for secrets we must be able to read back
+const encryptionKey = (): Buffer => {
+  if (!process.env.ENCRYPTION_KEY) {
+    throw new Error('ENCRYPTION_KEY is not configured');
+  }
+  return crypto.createHash('sha256').update(process.env.ENCRYPTION_KEY).digest();
+};
+
+/**
+ * Encrypt a value at rest, as iv:tag:ciphertext in base64
+ */
+export const encrypt = (plaintext: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+};
+
+/**
+ * Decrypt a value written by encrypt
+ */
+export const decrypt = (payload: string): string => {
+  const [iv, tag, ciphertext] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv!);
+  decipher.setAuthTag(tag!);
+
+  return Buffer.concat([decipher.update(ciphertext!), decipher.final()]).toString('utf8');
+};
+
 /**
  * Hash password
  */
@@ -537,6 +574,9 @@ export default {
   validateRequest,
   generateRandomString,
   generateToken,
+  hashToken,
+  encrypt,
+  decrypt,
   hashPassword,
   comparePassword,
   generateJWT,
@@ -0,0 +1,104 @@
+/**
+ * Minimal PDF writer for generated documents such as invoices. It only
+ * knows text in the standard Helvetica fonts and straight lines, which is
+ * all a tabular document needs, and keeps us off a heavyweight dependency.
+ * Coordinates are in points from the top-left of an A4 page.
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  // Treat x as the right edge of the text instead of the left
+  alignRight?: boolean;
+}
+
+// Average glyph width of Helvetica as a fraction of the font size, good enough to right-align figures
+const AVERAGE_GLYPH_WIDTH = 0.52;
+
+// The standard fonts use WinAnsi encoding; anything outside Latin-1 is replaced
+const encodeText = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private page: string[] = [];
+
+  constructor() {
+    this.pages.push(this.page);
+  }
+
+  public get width(): number {
+    return PAGE_WIDTH;
+  }
+
+  public get height(): number {
+    return PAGE_HEIGHT;
+  }
+
+  public addPage(): void {
+    this.page = [];
+    this.pages.push(this.page);
+  }
+
+  public text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const size = options.size || 10;
+    const left = options.alignRight ? x - text.length * size * AVERAGE_GLYPH_WIDTH : x;
+
+    this.page.push(
+      `BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  public line(x1: number, y1: number, x2: number, y2: number, width: number = 0.5): void {
+    this.page.push(
+      `${width} w ${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`
+    );
+  }
+
+  public toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // 1: catalog, 2: page tree, 3 and 4: fonts; pages and their content follow
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((operations, index) => {
+      const pageId = 5 + index * 2;
+      const contentId = pageId + 1;
+      const content = operations.join('\n');
+
+      pageIds.push(pageId);
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
\ No newline at end of file
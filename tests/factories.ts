@@ -0,0 +1,217 @@
+import { Attributes, CreationAttributes, Model, Transaction } from 'sequelize';
+import sequelize from '../src/config/database';
+import Auction from '../src/database/models/Auction';
+import AutoBid from '../src/database/models/AutoBid';
+import Bid from '../src/database/models/Bid';
+import BidderDeposit from '../src/database/models/BidderDeposit';
+import Lot from '../src/database/models/Lot';
+import Payment from '../src/database/models/Payment';
+import Settlement from '../src/database/models/Settlement';
+import User from '../src/database/models/User';
+
+/**
+ * Unsaved model instances with just enough filled in to pass through the
+ * services. Tests override the fields they are about.
+ */
+type Fields<M extends Model> = Partial<Attributes<M>>;
+
+export const ids = {
+  auction: 'a0000000-0000-4000-8000-000000000001',
+  company: 'c0000000-0000-4000-8000-000000000001',
+  seller: 'u0000000-0000-4000-8000-000000000001',
+  bidder: 'u0000000-0000-4000-8000-000000000002',
+  rival: 'u0000000-0000-4000-8000-000000000003',
+  lot: 'l0000000-0000-4000-8000-000000000001'
+};
+
+const hoursFromNow = (hours: number): Date => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+export const buildAuction = (fields: Fields<Auction> = {}): Auction => Auction.build({
+  id: ids.auction,
+  companyId: ids.company,
+  title: 'CNC lathe',
+  description: 'Used, in working order',
+  category: 'machinery',
+  subcategory: 'lathes',
+  format: 'english',
+  itemDetails: {},
+  auctionConfig: {
+    bidIncrement: 100,
+    startingBid: 1000,
+    reservePrice: null,
+    buyNowPrice: null,
+    autoExtend: false,
+    extensionTime: 300,
+    maxExtensions: 3,
+    depositRequired: 0,
+    currency: 'INR'
+  },
+  timing: { biddingStartsAt: hoursFromNow(-1), biddingEndsAt: hoursFromNow(1) },
+  terms: {},
+  status: 'live',
+  currentHighestBid: 0,
+  currentHighestBidderId: null,
+  totalBids: 0,
+  totalBidders: 0,
+  totalViews: 0,
+  totalWatches: 0,
+  winnerId: null,
+  winnerAmount: null,
+  commissionAmount: null,
+  taxAmount: null,
+  finalAmount: null,
+  metadata: {},
+  ...fields
+} as CreationAttributes<Auction>);
+
+export const buildBid = (fields: Fields<Bid> = {}): Bid => Bid.build({
+  auctionId: ids.auction,
+  lotId: null,
+  bidderId: ids.bidder,
+  amount: 1000,
+  isAutoBid: false,
+  maxAutoBidAmount: null,
+  status: 'active',
+  metadata: {},
+  createdAt: new Date(),
+  ...fields
+} as CreationAttributes<Bid>);
+
+export const buildLot = (fields: Fields<Lot> = {}): Lot => Lot.build({
+  id: ids.lot,
+  auctionId: ids.auction,
+  lotNumber: 1,
+  title: 'Lot 1',
+  description: null,
+  itemDetails: {},
+  startingBid: 1000,
+  bidIncrement: null,
+  reservePrice: null,
+  status: 'open',
+  closesAt: hoursFromNow(1),
+  currentHighestBid: 0,
+  currentHighestBidderId: null,
+  totalBids: 0,
+  totalBidders: 0,
+  winnerId: null,
+  winnerAmount: null,
+  metadata: {},
+  ...fields
+} as CreationAttributes<Lot>);
+
+export const buildAutoBid = (fields: Fields<AutoBid> = {}): AutoBid => AutoBid.build({
+  auctionId: ids.auction,
+  bidderId: ids.bidder,
+  maxAmount: 2000,
+  status: 'active',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...fields
+} as CreationAttributes<AutoBid>);
+
+export const buildUser = (fields: Fields<User> = {}): User => User.build({
+  id: ids.bidder,
+  email: 'bidder@example.com',
+  password: 'not-a-real-hash',
+  role: 'bidder',
+  firstName: 'Asha',
+  lastName: 'Rao',
+  phone: '+919800000000',
+  companyId: null,
+  isVerified: true,
+  isActive: true,
+  kycStatus: 'verified',
+  creditLimit: null,
+  twoFactorEnabled: false,
+  twoFactorSecret: null,
+  twoFactorBackupCodes: [],
+  twoFactorLastStep: null,
+  loginAttempts: 0,
+  accountLockedUntil: null,
+  ...fields
+});
+
+export const buildDeposit = (fields: Fields<BidderDeposit> = {}): BidderDeposit => BidderDeposit.build({
+  auctionId: ids.auction,
+  bidderId: ids.bidder,
+  paymentId: 'p0000000-0000-4000-8000-000000000001',
+  amount: 50000,
+  currency: 'INR',
+  provider: 'mock',
+  status: 'held',
+  heldAt: new Date(),
+  releasedAt: null,
+  appliedAt: null,
+  metadata: {},
+  ...fields
+} as CreationAttributes<BidderDeposit>);
+
+export const buildPayment = (fields: Fields<Payment> = {}): Payment => Payment.build({
+  userId: ids.bidder,
+  auctionId: ids.auction,
+  amount: 1000,
+  currency: 'INR',
+  provider: 'mock',
+  providerOrderId: 'mock_order_000001',
+  status: 'created',
+  refundedAmount: 0,
+  metadata: {},
+  ...fields
+} as CreationAttributes<Payment>);
+
+export const buildSettlement = (fields: Fields<Settlement> = {}): Settlement => Settlement.build({
+  auctionId: ids.auction,
+  bidderId: ids.bidder,
+  sellerId: ids.seller,
+  kind: 'winner',
+  status: 'awaiting_payment',
+  hammerAmount: 1000,
+  commissionAmount: 0,
+  taxAmount: 0,
+  totalAmount: 1000,
+  currency: 'INR',
+  dueAt: hoursFromNow(72),
+  offerExpiresAt: null,
+  nextActionAt: hoursFromNow(72),
+  remindersSent: 0,
+  lastReminderAt: null,
+  paidAt: null,
+  defaultedAt: null,
+  escrowStatus: null,
+  escrowReleaseAt: null,
+  deliveryConfirmedAt: null,
+  escrowReleasedAt: null,
+  metadata: {},
+  ...fields
+} as CreationAttributes<Settlement>);
+
+export interface FakeTransaction {
+  LOCK: typeof Transaction.LOCK;
+  commit: jest.Mock;
+  rollback: jest.Mock;
+}
+
+/**
+ * Hands the services a transaction that never reaches a database, so a
+ * test can check whether the work was committed or rolled back
+ */
+export const stubTransaction = (): FakeTransaction => {
+  const transaction: FakeTransaction = { LOCK: Transaction.LOCK, commit: jest.fn(), rollback: jest.fn() };
+
+  jest.spyOn(sequelize, 'transaction').mockImplementation(async () => transaction as unknown as Transaction);
+
+  return transaction;
+};
+
+/**
+ * Make instance saves, updates and reloads resolve in memory; the instance
+ * keeps the new values so a test can read them back
+ */
+export const stubInstanceWrites = (): void => {
+  jest.spyOn(Model.prototype, 'save').mockImplementation(async function (this: Model) {
+    return this;
+  });
+  jest.spyOn(Model.prototype, 'reload').mockImplementation(async function (this: Model) {
+    return this;
+  });
+};
\ No newline at end of file
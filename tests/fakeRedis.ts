@@ -0,0 +1,156 @@
+/**
+ * An in-memory stand-in for the shared Redis client, covering the commands
+ * the services use. Swap it in with
+ * `jest.mock('../../src/config/redis', () => require('../fakeRedis'))`.
+ * Expiry is not modelled; call reset() between tests.
+ */
+type SortedSet = Map<string, number>;
+
+const strings = new Map<string, string>();
+const sortedSets = new Map<string, SortedSet>();
+
+const sortedSet = (key: string): SortedSet => {
+  let set = sortedSets.get(key);
+
+  if (!set) {
+    set = new Map();
+    sortedSets.set(key, set);
+  }
+
+  return set;
+};
+
+// Members scored at or below max, lowest score first
+const rangeByScore = (key: string, max: number): string[] => Array.from(sortedSet(key))
+  .filter(([, score]) => score <= max)
+  .sort((a, b) => a[1] - b[1])
+  .map(([member]) => member);
+
+const zAdd = async (key: string, entry: { score: number; value: string }, options: { NX?: boolean } = {}): Promise<number> => {
+  const set = sortedSet(key);
+
+  if (options.NX && set.has(entry.value)) {
+    return 0;
+  }
+
+  set.set(entry.value, entry.score);
+  return 1;
+};
+
+const zRem = async (key: string, member: string): Promise<number> => (sortedSet(key).delete(member) ? 1 : 0);
+
+const zScore = async (key: string, member: string): Promise<number | null> => sortedSet(key).get(member) ?? null;
+
+const get = async (key: string): Promise<string | null> => strings.get(key) ?? null;
+
+const set = async (key: string, value: string, options: { NX?: boolean } = {}): Promise<string | null> => {
+  if (options.NX && strings.has(key)) {
+    return null;
+  }
+
+  strings.set(key, value);
+  return 'OK';
+};
+
+const setEx = async (key: string, _seconds: number, value: string): Promise<string> => {
+  strings.set(key, value);
+  return 'OK';
+};
+
+const incr = async (key: string): Promise<number> => {
+  const value = Number(strings.get(key) ?? 0) + 1;
+  strings.set(key, String(value));
+  return value;
+};
+
+const exists = async (key: string): Promise<number> => (strings.has(key) || sortedSets.has(key) ? 1 : 0);
+
+const expire = async (key: string, _seconds: number): Promise<boolean> => strings.has(key) || sortedSets.has(key);
+
+const del = async (key: string | string[]): Promise<number> =>
+  (Array.isArray(key) ? key : [key]).filter(name => strings.delete(name) || sortedSets.delete(name)).length;
+
+type Queued = () => Promise<unknown>;
+
+const multi = () => {
+  const queued: Queued[] = [];
+  const transaction = {
+    zAdd: (...args: Parameters<typeof zAdd>) => {
+      queued.push(() => zAdd(...args));
+      return transaction;
+    },
+    zRem: (...args: Parameters<typeof zRem>) => {
+      queued.push(() => zRem(...args));
+      return transaction;
+    },
+    set: (...args: Parameters<typeof set>) => {
+      queued.push(() => set(...args));
+      return transaction;
+    },
+    del: (...args: Parameters<typeof del>) => {
+      queued.push(() => del(...args));
+      return transaction;
+    },
+    exec: async (): Promise<unknown[]> => {
+      const replies: unknown[] = [];
+      for (const command of queued) {
+        replies.push(await command());
+      }
+      return replies;
+    }
+  };
+
+  return transaction;
+};
+
+/**
+ * Only the scheduler runs scripts: one claims due jobs into the processing
+ * set with a lease, the other hands back jobs whose lease ran out
+ */
+const evalScript = async (script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown> => {
+  const [jobsKey = '', processingKey = ''] = options.keys;
+  const [now = '0', limit = '0', leaseUntil = '0'] = options.arguments;
+
+  if (script.includes("'LIMIT'")) {
+    const due = rangeByScore(jobsKey, Number(now)).slice(0, Number(limit));
+
+    for (const member of due) {
+      sortedSet(jobsKey).delete(member);
+      sortedSet(processingKey).set(member, Number(leaseUntil));
+    }
+
+    return due;
+  }
+
+  const stale = rangeByScore(processingKey, Number(now));
+
+  for (const member of stale) {
+    sortedSet(processingKey).delete(member);
+    await zAdd(jobsKey, { score: Number(now), value: member }, { NX: true });
+  }
+
+  return stale.length;
+};
+
+const client = {
+  isReady: true,
+  get,
+  set,
+  setEx,
+  incr,
+  exists,
+  expire,
+  del,
+  zAdd,
+  zRem,
+  zScore,
+  multi,
+  eval: evalScript,
+  reset: (): void => {
+    client.isReady = true;
+    strings.clear();
+    sortedSets.clear();
+  }
+};
+
+export default client;
\ No newline at end of file
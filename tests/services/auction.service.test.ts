@@ -0,0 +1,144 @@
+import Auction from '../../src/database/models/Auction';
+import AuctionStatusHistory from '../../src/database/models/AuctionStatusHistory';
+import AutoBid from '../../src/database/models/AutoBid';
+import { auctionService } from '../../src/services/auction.service';
+import { schedulerService } from '../../src/services/scheduler.service';
+import { FakeTransaction, buildAuction, ids, stubInstanceWrites, stubTransaction } from '../factories';
+
+jest.mock('../../src/services/scheduler.service', () => ({
+  schedulerService: { scheduleAuction: jest.fn(), unscheduleAuction: jest.fn() }
+}));
+
+const minutesAgo = (minutes: number): Date => new Date(Date.now() - minutes * 60 * 1000);
+
+describe('AuctionService', () => {
+  let auction: Auction;
+  let transaction: FakeTransaction;
+
+  beforeEach(() => {
+    transaction = stubTransaction();
+    stubInstanceWrites();
+
+    jest.spyOn(Auction, 'findByPk').mockImplementation(async () => auction);
+    jest.spyOn(AutoBid, 'update').mockResolvedValue([0]);
+    jest.spyOn(AuctionStatusHistory, 'create').mockImplementation(async () => AuctionStatusHistory.build());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // A live auction whose bidding window has just run out, led by the bidder at 4000
+  const expired = (auctionConfig: Record<string, unknown>): Auction => buildAuction({
+    currentHighestBid: 4000,
+    currentHighestBidderId: ids.bidder,
+    auctionConfig: { bidIncrement: 100, startingBid: 1000, ...auctionConfig },
+    timing: { biddingStartsAt: minutesAgo(120), biddingEndsAt: minutesAgo(1) }
+  });
+
+  describe('closeAuction', () => {
+    it('sells to the top bidder when the reserve is met', async () => {
+      auction = expired({ reservePrice: 4000 });
+
+      await expect(auctionService.closeAuction(auction.id)).resolves.toMatchObject({ outcome: 'won' });
+      expect(auction).toMatchObject({ status: 'ended', winnerId: ids.bidder, winnerAmount: 4000 });
+      expect(transaction.commit).toHaveBeenCalled();
+    });
+
+    it('ends with no winner below the reserve', async () => {
+      auction = expired({ reservePrice: 5000 });
+
+      await expect(auctionService.closeAuction(auction.id)).resolves.toMatchObject({ outcome: 'reserve_not_met' });
+      expect(auction).toMatchObject({ status: 'ended', winnerId: null });
+      expect(auction.metadata.endReason).toBe('reserve_not_met');
+    });
+
+    it('leaves an auction that is still taking bids', async () => {
+      auction = buildAuction();
+
+      await expect(auctionService.closeAuction(auction.id)).resolves.toBeNull();
+      expect(auction.status).toBe('live');
+      expect(transaction.rollback).toHaveBeenCalled();
+    });
+  });
+
+  describe('below-reserve offers', () => {
+    beforeEach(async () => {
+      auction = expired({ reservePrice: 5000 });
+      await auctionService.closeAuction(auction.id);
+    });
+
+    it('offers the item to the top bidder at their own bid', async () => {
+      await auctionService.offerToTopBidder(auction.id, ids.company);
+
+      expect(auction.metadata.reserveOffer).toMatchObject({ bidderId: ids.bidder, amount: 4000, status: 'pending' });
+      await expect(auctionService.offerToTopBidder(auction.id, ids.company))
+        .rejects.toMatchObject({ statusCode: 400, message: 'An offer to the top bidder is already pending' });
+    });
+
+    it('only lets the seller make the offer', async () => {
+      await expect(auctionService.offerToTopBidder(auction.id, 'another-company'))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('sells at the offered price when the top bidder accepts', async () => {
+      await auctionService.offerToTopBidder(auction.id, ids.company);
+
+      await auctionService.respondToReserveOffer(auction.id, ids.bidder, true);
+
+      expect(auction).toMatchObject({ status: 'sold', winnerId: ids.bidder, finalAmount: 4000 });
+      expect(auction.metadata.reserveOffer.status).toBe('accepted');
+      expect(schedulerService.scheduleAuction).toHaveBeenCalledWith(auction);
+    });
+
+    it('keeps the offer to the top bidder alone', async () => {
+      await auctionService.offerToTopBidder(auction.id, ids.company);
+
+      await expect(auctionService.respondToReserveOffer(auction.id, ids.rival, true))
+        .rejects.toMatchObject({ statusCode: 404 });
+      expect(auction.status).toBe('ended');
+    });
+
+    it('refuses an answer after the offer has expired', async () => {
+      await auctionService.offerToTopBidder(auction.id, ids.company);
+      auction.metadata = { ...auction.metadata, reserveOffer: { ...auction.metadata.reserveOffer, expiresAt: minutesAgo(1) } };
+
+      await expect(auctionService.respondToReserveOffer(auction.id, ids.bidder, true))
+        .rejects.toMatchObject({ message: 'Offer has expired' });
+    });
+  });
+
+  describe('updateAuctionStatus', () => {
+    it('gives back the time that was left when a paused auction resumes', async () => {
+      auction = buildAuction({ timing: { biddingStartsAt: minutesAgo(60), biddingEndsAt: new Date(Date.now() + 30 * 60 * 1000) } });
+
+      await auctionService.updateAuctionStatus(auction.id, 'paused', ids.company);
+      expect(auction.status).toBe('paused');
+
+      // Paused for two hours, past the original deadline
+      auction.timing = { ...auction.timing, pausedAt: minutesAgo(120) };
+      await auctionService.updateAuctionStatus(auction.id, 'live', ids.company);
+
+      const minutesLeft = (new Date(auction.timing.biddingEndsAt).getTime() - Date.now()) / (60 * 1000);
+      expect(auction.status).toBe('live');
+      expect(Math.round(minutesLeft)).toBe(30);
+      expect(auction.timing.pausedAt).toBeUndefined();
+      expect(schedulerService.scheduleAuction).toHaveBeenCalledWith(auction);
+    });
+
+    it('refuses a status change the state machine does not allow', async () => {
+      auction = buildAuction({ status: 'ended' });
+
+      await expect(auctionService.updateAuctionStatus(auction.id, 'live', ids.company))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(transaction.rollback).toHaveBeenCalled();
+    });
+
+    it('only lets the selling company change the status', async () => {
+      auction = buildAuction();
+
+      await expect(auctionService.updateAuctionStatus(auction.id, 'paused', 'another-company'))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+});
\ No newline at end of file
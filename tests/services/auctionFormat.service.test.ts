@@ -0,0 +1,153 @@
+import sequelize from '../../src/config/database';
+import Auction from '../../src/database/models/Auction';
+import Bid from '../../src/database/models/Bid';
+import { assertBidOnLadder, getAuctionFormat, getMinNextBid } from '../../src/services/auctionFormat.service';
+import { buildAuction, buildBid, ids, stubInstanceWrites, stubTransaction } from '../factories';
+
+describe('AuctionFormatService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses formats it does not know', () => {
+    expect(() => getAuctionFormat('candle')).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(getAuctionFormat(null).format).toBe('english');
+  });
+
+  describe('getMinNextBid', () => {
+    it('asks for one increment over the leader in an English auction', () => {
+      expect(getMinNextBid(buildAuction())).toBe(1000);
+      expect(getMinNextBid(buildAuction({ currentHighestBid: 1200, currentHighestBidderId: ids.rival }))).toBe(1300);
+    });
+
+    it('asks a reverse auction for one decrement under the best offer', () => {
+      const procurement = buildAuction({ format: 'reverse', auctionConfig: { bidIncrement: 100, startingBid: 10000 } });
+
+      expect(getMinNextBid(procurement)).toBe(10000);
+
+      procurement.currentHighestBid = 8000;
+      procurement.currentHighestBidderId = ids.rival;
+      expect(getMinNextBid(procurement)).toBe(7900);
+    });
+
+    it('drops the Dutch ask on schedule down to the floor', () => {
+      const clearance = buildAuction({
+        format: 'dutch',
+        auctionConfig: { startingBid: 10000, priceDropAmount: 1000, priceDropInterval: 60, floorPrice: 7000 },
+        timing: { biddingStartsAt: new Date(Date.now() - 150 * 1000) }
+      });
+
+      expect(getMinNextBid(clearance)).toBe(8000);
+
+      clearance.timing = { biddingStartsAt: new Date(Date.now() - 60 * 60 * 1000) };
+      expect(getMinNextBid(clearance)).toBe(7000);
+    });
+
+    it('steps up the auction\'s own increment ladder', () => {
+      const auction = buildAuction({
+        currentHighestBid: 9950,
+        currentHighestBidderId: ids.rival,
+        auctionConfig: { startingBid: 1000, incrementTiers: [{ upTo: 10000, increment: 100 }, { upTo: null, increment: 500 }] }
+      });
+
+      expect(getMinNextBid(auction)).toBe(10050);
+
+      auction.currentHighestBid = 10050;
+      expect(getMinNextBid(auction)).toBe(10550);
+    });
+
+    it('quotes the starting bid for sealed formats', () => {
+      expect(getMinNextBid(buildAuction({ format: 'vickrey', currentHighestBid: 5000 }))).toBe(1000);
+    });
+  });
+
+  describe('assertBidOnLadder', () => {
+    it('reports the increment that applies when an English bid is too low', async () => {
+      jest.spyOn(Auction, 'findByPk').mockResolvedValue(buildAuction({ currentHighestBid: 1500, currentHighestBidderId: ids.rival }));
+
+      await expect(assertBidOnLadder(ids.auction, 1550)).rejects.toThrow('Minimum bid required is 1600 (increment 100 at the current price)');
+      await expect(assertBidOnLadder(ids.auction, 1600)).resolves.toBeUndefined();
+    });
+
+    it('leaves clock and sealed prices to the bid itself', async () => {
+      jest.spyOn(Auction, 'findByPk').mockResolvedValue(buildAuction({ format: 'sealed_first_price' }));
+
+      await expect(assertBidOnLadder(ids.auction, 1)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('reverse winners', () => {
+    const close = async (auction: Auction) => {
+      stubTransaction();
+      return getAuctionFormat('reverse').determineWinner(auction, await sequelize.transaction());
+    };
+
+    it('awards the lowest offer when it is within the buyer\'s reserve', async () => {
+      const procurement = buildAuction({
+        format: 'reverse',
+        auctionConfig: { startingBid: 10000, reservePrice: 8000 },
+        currentHighestBid: 7500,
+        currentHighestBidderId: ids.bidder
+      });
+
+      await expect(close(procurement)).resolves.toEqual({ outcome: 'won', winnerId: ids.bidder, amount: 7500 });
+    });
+
+    it('awards nothing when every offer is above the reserve', async () => {
+      const procurement = buildAuction({
+        format: 'reverse',
+        auctionConfig: { startingBid: 10000, reservePrice: 8000 },
+        currentHighestBid: 9000,
+        currentHighestBidderId: ids.bidder
+      });
+
+      await expect(close(procurement)).resolves.toMatchObject({ outcome: 'reserve_not_met', winnerId: null });
+    });
+  });
+
+  describe('sealed winners', () => {
+    let sealedBids: Bid[];
+
+    beforeEach(() => {
+      stubInstanceWrites();
+      sealedBids = [
+        buildBid({ bidderId: ids.bidder, amount: 5000 }),
+        buildBid({ bidderId: ids.rival, amount: 4200 })
+      ];
+
+      jest.spyOn(Bid, 'findAll').mockImplementation(async () => sealedBids);
+      jest.spyOn(Bid, 'update').mockResolvedValue([1]);
+    });
+
+    const close = async (auction: Auction) => {
+      stubTransaction();
+      return getAuctionFormat(auction.format).determineWinner(auction, await sequelize.transaction());
+    };
+
+    it('charges the first-price winner their own bid and reveals it', async () => {
+      const auction = buildAuction({ format: 'sealed_first_price' });
+
+      await expect(close(auction)).resolves.toEqual({ outcome: 'won', winnerId: ids.bidder, amount: 5000 });
+      expect(auction).toMatchObject({ currentHighestBid: 5000, currentHighestBidderId: ids.bidder });
+      expect(sealedBids[0]!.status).toBe('winning');
+    });
+
+    it('charges the Vickrey winner the runner-up bid', async () => {
+      await expect(close(buildAuction({ format: 'vickrey' })))
+        .resolves.toEqual({ outcome: 'won', winnerId: ids.bidder, amount: 4200 });
+    });
+
+    it('charges a lone Vickrey bidder the reserve when it is above the starting bid', async () => {
+      sealedBids = [buildBid({ bidderId: ids.bidder, amount: 5000 })];
+      const auction = buildAuction({ format: 'vickrey', auctionConfig: { startingBid: 1000, reservePrice: 3000 } });
+
+      await expect(close(auction)).resolves.toEqual({ outcome: 'won', winnerId: ids.bidder, amount: 3000 });
+    });
+
+    it('sells nothing when the top sealed bid misses the reserve', async () => {
+      const auction = buildAuction({ format: 'vickrey', auctionConfig: { startingBid: 1000, reservePrice: 6000 } });
+
+      await expect(close(auction)).resolves.toMatchObject({ outcome: 'reserve_not_met', winnerId: null });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,139 @@
+import Auction from '../../src/database/models/Auction';
+import AuctionStatusHistory from '../../src/database/models/AuctionStatusHistory';
+import { auctionStateService } from '../../src/services/auctionState.service';
+import { ApiResponse } from '../../src/utils/helpers';
+import { buildAuction, ids } from '../factories';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const MINUTE = 60 * 1000;
+
+const auction = (status: Auction['status'], fields: Parameters<typeof buildAuction>[0] = {}): Auction => buildAuction({
+  status,
+  timing: {
+    biddingStartsAt: new Date(NOW.getTime() - 10 * MINUTE),
+    biddingEndsAt: new Date(NOW.getTime() + 30 * MINUTE)
+  },
+  ...fields
+});
+
+const refusal = (fn: () => unknown): ApiResponse => {
+  try {
+    fn();
+  } catch (error) {
+    return error as ApiResponse;
+  }
+  throw new Error('Expected the transition to be refused');
+};
+
+describe('AuctionStateService', () => {
+  let record: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    record = jest.spyOn(AuctionStatusHistory, 'create').mockImplementation(async () => AuctionStatusHistory.build());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('assertTransition', () => {
+    it('allows only the edges in the transition table', () => {
+      expect(auctionStateService.canTransition('draft', 'scheduled')).toBe(true);
+      expect(auctionStateService.canTransition('live', 'paused')).toBe(true);
+      expect(auctionStateService.canTransition('ended', 'sold')).toBe(true);
+      expect(auctionStateService.canTransition('draft', 'live')).toBe(false);
+      expect(auctionStateService.canTransition('ended', 'live')).toBe(false);
+      expect(auctionStateService.canTransition('cancelled', 'draft')).toBe(false);
+      expect(auctionStateService.canTransition('sold', 'ended')).toBe(false);
+    });
+
+    it('refuses an unknown edge with a conflict', () => {
+      const error = refusal(() => auctionStateService.assertTransition(auction('ended'), 'ended', 'live'));
+
+      expect(error.statusCode).toBe(409);
+    });
+
+    it('needs a bidding window before scheduling', () => {
+      const draft = auction('draft', { timing: { biddingStartsAt: NOW } });
+
+      expect(refusal(() => auctionStateService.assertTransition(draft, 'draft', 'scheduled')).message)
+        .toBe('Bidding start and end times must be set before scheduling');
+    });
+
+    it('does not open a scheduled auction early', () => {
+      const scheduled = auction('scheduled', {
+        timing: { biddingStartsAt: new Date(NOW.getTime() + MINUTE), biddingEndsAt: new Date(NOW.getTime() + 30 * MINUTE) }
+      });
+
+      expect(refusal(() => auctionStateService.assertTransition(scheduled, 'scheduled', 'live')).statusCode).toBe(400);
+      expect(() => auctionStateService.assertTransition(auction('scheduled'), 'scheduled', 'live')).not.toThrow();
+    });
+
+    it('refuses to pause in the final minute', () => {
+      const closing = auction('live', {
+        timing: { biddingStartsAt: NOW, biddingEndsAt: new Date(NOW.getTime() + 30 * 1000) }
+      });
+
+      expect(refusal(() => auctionStateService.assertTransition(closing, 'live', 'paused')).message)
+        .toMatch(/Cannot pause with less than/);
+    });
+
+    it('only marks an auction sold once it has a winner', () => {
+      expect(refusal(() => auctionStateService.assertTransition(auction('ended'), 'ended', 'sold')).statusCode).toBe(400);
+      expect(() => auctionStateService.assertTransition(auction('ended', { winnerId: ids.bidder }), 'ended', 'sold')).not.toThrow();
+    });
+  });
+
+  describe('transition', () => {
+    it('applies the status and records who changed it', async () => {
+      const live = auction('scheduled');
+
+      await auctionStateService.transition(live, 'live', { actorId: 'admin-1', actorRole: 'admin' });
+
+      expect(live.status).toBe('live');
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ auctionId: ids.auction, fromStatus: 'scheduled', toStatus: 'live', actorId: 'admin-1', actorRole: 'admin' }),
+        { transaction: null }
+      );
+    });
+
+    it('leaves the auction alone when the transition is refused', async () => {
+      const ended = auction('ended');
+
+      await expect(auctionStateService.transition(ended, 'live')).rejects.toBeInstanceOf(ApiResponse);
+      expect(ended.status).toBe('ended');
+      expect(record).not.toHaveBeenCalled();
+    });
+
+    it('keeps the time left on pause and restores it on resume', async () => {
+      const live = auction('live');
+
+      await auctionStateService.transition(live, 'paused');
+
+      expect(live.timing.pausedRemainingMs).toBe(30 * MINUTE);
+
+      jest.setSystemTime(new Date(NOW.getTime() + 45 * MINUTE));
+      expect(auctionStateService.getPausedMs(live)).toBe(45 * MINUTE);
+
+      await auctionStateService.transition(live, 'live');
+
+      expect(live.status).toBe('live');
+      expect(new Date(live.timing.biddingEndsAt).getTime()).toBe(NOW.getTime() + 75 * MINUTE);
+      expect(live.timing.pausedAt).toBeUndefined();
+      expect(live.timing.pausedRemainingMs).toBeUndefined();
+    });
+
+    it('keeps the paused timing when resuming is refused', async () => {
+      const paused = auction('paused', {
+        timing: { biddingStartsAt: NOW, biddingEndsAt: NOW, pausedAt: NOW, pausedRemainingMs: 0 }
+      });
+      const timing = paused.timing;
+
+      await expect(auctionStateService.transition(paused, 'live')).rejects.toBeInstanceOf(ApiResponse);
+      expect(paused.status).toBe('paused');
+      expect(paused.timing).toBe(timing);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { CreationAttributes, Op } from 'sequelize';
+import User from '../../src/database/models/User';
+import UserToken from '../../src/database/models/UserToken';
+import { authService } from '../../src/services/auth.service';
+import { MemoryTransport } from '../../src/services/mail';
+import { mailService } from '../../src/services/mail.service';
+import { sessionService } from '../../src/services/session.service';
+import { userTokenService } from '../../src/services/userToken.service';
+import { buildUser, ids, stubInstanceWrites } from '../factories';
+
+jest.mock('../../src/services/session.service', () => ({
+  sessionService: { revokeAll: jest.fn() }
+}));
+
+const outbox = new MemoryTransport();
+mailService.useTransport(outbox);
+
+describe('AuthService', () => {
+  let user: User;
+  let tokens: UserToken[];
+
+  // The token in the last link mailed to an address
+  const mailedToken = (to: string): string => outbox.last(to)!.text.match(/\/(?:reset-password|verify-email|confirm-email)\/([0-9a-f]+)/)![1]!;
+
+  beforeEach(() => {
+    user = buildUser();
+    tokens = [];
+    outbox.reset();
+    stubInstanceWrites();
+
+    jest.spyOn(User, 'findByPk').mockImplementation(async () => user);
+    jest.spyOn(User, 'findOne').mockImplementation(async options => {
+      const { email } = options?.where as { email: string };
+      return email === user.email ? user : null;
+    });
+
+    jest.spyOn(UserToken, 'create').mockImplementation(async values => {
+      const token = UserToken.build({ consumedAt: null, ...values } as CreationAttributes<UserToken>);
+      tokens.push(token);
+      return token;
+    });
+    jest.spyOn(UserToken, 'destroy').mockImplementation(async options => {
+      const { userId, purpose } = options?.where as { userId: string; purpose: string };
+      const before = tokens.length;
+      tokens = tokens.filter(token => !(token.userId === userId && token.purpose === purpose && !token.consumedAt));
+      return before - tokens.length;
+    });
+    // Spends an unused, unexpired token for the purpose in one step
+    jest.spyOn(UserToken, 'update').mockImplementation(async (values, options) => {
+      const { tokenHash, purpose, expiresAt } = options.where as { tokenHash: string; purpose: string; expiresAt: { [Op.gt]: Date } };
+      const token = tokens.find(candidate => candidate.tokenHash === tokenHash && candidate.purpose === purpose &&
+        !candidate.consumedAt && candidate.expiresAt > expiresAt[Op.gt]);
+
+      token?.set(values);
+      return [token ? 1 : 0];
+    });
+    jest.spyOn(UserToken, 'findOne').mockImplementation(async options => {
+      const { tokenHash } = options?.where as { tokenHash: string };
+      return tokens.find(token => token.tokenHash === tokenHash) ?? null;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('updateUser', () => {
+    it('changes profile fields and ignores everything else in the request', async () => {
+      const body = { firstName: 'Meera', phone: '+919811111111', role: 'admin', creditLimit: 100000000, twoFactorEnabled: false, isVerified: true };
+      user = buildUser({ isVerified: false, twoFactorEnabled: true });
+
+      await authService.updateUser(ids.bidder, body);
+
+      expect(user).toMatchObject({
+        firstName: 'Meera',
+        phone: '+919811111111',
+        role: 'bidder',
+        creditLimit: null,
+        twoFactorEnabled: true,
+        isVerified: false
+      });
+    });
+
+    it('reports a missing user', async () => {
+      jest.spyOn(User, 'findByPk').mockResolvedValue(null);
+
+      await expect(authService.updateUser(ids.bidder, { firstName: 'Meera' })).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('password reset', () => {
+    it('mails a link that resets the password once and signs every device out', async () => {
+      await authService.requestPasswordReset(user.email);
+      const token = mailedToken(user.email);
+
+      await authService.resetPassword(token, 'a-new-password');
+
+      expect(user.password).toBe('a-new-password');
+      expect(sessionService.revokeAll).toHaveBeenCalledWith(user.id, 'Password reset');
+      expect(outbox.last(user.email)!.template).toBe('password_changed');
+
+      await expect(authService.resetPassword(token, 'another-password')).rejects.toMatchObject({ statusCode: 400 });
+      expect(user.password).toBe('a-new-password');
+    });
+
+    it('only honours the latest link', async () => {
+      await authService.requestPasswordReset(user.email);
+      const first = mailedToken(user.email);
+      await authService.requestPasswordReset(user.email);
+
+      await expect(authService.resetPassword(first, 'a-new-password')).rejects.toMatchObject({ statusCode: 400 });
+      await expect(authService.resetPassword(mailedToken(user.email), 'a-new-password')).resolves.toBeUndefined();
+    });
+
+    it('refuses an expired link', async () => {
+      await authService.requestPasswordReset(user.email);
+      tokens[0]!.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(authService.resetPassword(mailedToken(user.email), 'a-new-password')).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('answers the same whether or not the address has an account, even when mail is down', async () => {
+      await expect(authService.requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+
+      jest.spyOn(outbox, 'send').mockRejectedValueOnce(new Error('SMTP unavailable'));
+      await expect(authService.requestPasswordReset(user.email)).resolves.toBeUndefined();
+
+      expect(outbox.outbox).toHaveLength(0);
+    });
+  });
+
+  describe('email links', () => {
+    it('verifies the address the link was sent to, once', async () => {
+      user = buildUser({ emailVerified: false });
+      await authService.sendVerificationEmail(user);
+      const token = mailedToken(user.email);
+
+      await expect(authService.verifyEmail(token)).resolves.toMatchObject({ emailVerified: true });
+      await expect(authService.verifyEmail(token)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('ignores a verification link for an address the account no longer uses', async () => {
+      user = buildUser({ emailVerified: false });
+      await authService.sendVerificationEmail(user);
+      user.email = 'new@example.com';
+
+      await expect(authService.verifyEmail(mailedToken('bidder@example.com'))).rejects.toMatchObject({ statusCode: 400 });
+      expect(user.emailVerified).toBe(false);
+    });
+
+    it('does not take a token minted for another purpose', async () => {
+      const { token } = await userTokenService.issue(user.id, 'email_change', { email: 'new@example.com' });
+
+      await expect(authService.resetPassword(token, 'a-new-password')).rejects.toMatchObject({ statusCode: 400 });
+      await expect(authService.confirmEmailChange(token)).resolves.toMatchObject({ email: 'new@example.com', emailVerified: true });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,475 @@
+import { Op } from 'sequelize';
+import Auction from '../../src/database/models/Auction';
+import AuctionStatusHistory from '../../src/database/models/AuctionStatusHistory';
+import AutoBid from '../../src/database/models/AutoBid';
+import Bid from '../../src/database/models/Bid';
+import Lot from '../../src/database/models/Lot';
+import Payment from '../../src/database/models/Payment';
+import User from '../../src/database/models/User';
+import { bidService } from '../../src/services/bid.service';
+import { depositService } from '../../src/services/deposit.service';
+import { schedulerService } from '../../src/services/scheduler.service';
+import {
+  FakeTransaction,
+  buildAuction,
+  buildAutoBid,
+  buildBid,
+  buildLot,
+  buildUser,
+  ids,
+  stubInstanceWrites,
+  stubTransaction
+} from '../factories';
+
+jest.mock('../../src/services/deposit.service', () => ({
+  depositService: { getRequiredDeposit: jest.fn(), hasActiveDeposit: jest.fn() }
+}));
+jest.mock('../../src/services/scheduler.service', () => ({
+  schedulerService: { scheduleAuction: jest.fn() }
+}));
+
+// Whether a query's bidderId condition (an id, or Op.ne an id) lets this bidder through
+const matchesBidder = (options: { where?: unknown } | undefined, bidderId: string): boolean => {
+  const where = options?.where;
+
+  if (!where || typeof where !== 'object' || !('bidderId' in where)) {
+    return true;
+  }
+
+  const condition = where.bidderId;
+
+  if (condition && typeof condition === 'object' && Op.ne in condition) {
+    return condition[Op.ne] !== bidderId;
+  }
+
+  return condition === bidderId;
+};
+
+describe('BidService', () => {
+  let auction: Auction;
+  let bids: Bid[];
+  let autoBids: AutoBid[];
+  let users: User[];
+  let transaction: FakeTransaction;
+
+  beforeEach(() => {
+    auction = buildAuction();
+    bids = [];
+    autoBids = [];
+    users = [
+      buildUser(),
+      buildUser({ id: ids.rival, email: 'rival@example.com', firstName: 'Ravi' })
+    ];
+
+    transaction = stubTransaction();
+    stubInstanceWrites();
+
+    jest.mocked(depositService.getRequiredDeposit).mockReturnValue(0);
+    jest.mocked(depositService.hasActiveDeposit).mockResolvedValue(true);
+
+    jest.spyOn(Auction, 'findByPk').mockImplementation(async () => auction);
+    jest.spyOn(User, 'findByPk').mockImplementation(async id => users.find(user => user.id === id) ?? null);
+    jest.spyOn(User, 'findAll').mockImplementation(async () => users);
+
+    jest.spyOn(Bid, 'count').mockImplementation(async options =>
+      bids.filter(bid => matchesBidder(options, bid.bidderId) && bid.status !== 'withdrawn').length
+    );
+    jest.spyOn(Bid, 'create').mockImplementation(async values => {
+      const bid = buildBid({ ...values, createdAt: new Date(Date.now() + bids.length) });
+      bids.push(bid);
+      return bid;
+    });
+    // Placing a leading bid outbids everyone else
+    jest.spyOn(Bid, 'update').mockImplementation(async values => {
+      const outbid = bids.filter(bid => ['winning', 'active'].includes(bid.status));
+      outbid.forEach(bid => Object.assign(bid, values));
+      return [outbid.length];
+    });
+    jest.spyOn(Bid, 'findOne').mockImplementation(async options =>
+      [...bids].reverse().find(bid => matchesBidder(options, bid.bidderId) && bid.status === 'winning') ?? null
+    );
+
+    jest.spyOn(AutoBid, 'findAll').mockImplementation(async () => autoBids.filter(autoBid => autoBid.status === 'active'));
+    jest.spyOn(AutoBid, 'create').mockImplementation(async values => {
+      const autoBid = buildAutoBid({ ...values, createdAt: new Date(Date.now() + autoBids.length) });
+      autoBids.push(autoBid);
+      return autoBid;
+    });
+    jest.spyOn(AutoBid, 'update').mockImplementation(async (values, options) => {
+      const changed = autoBids.filter(autoBid => autoBid.status === 'active' && matchesBidder(options, autoBid.bidderId));
+      changed.forEach(autoBid => Object.assign(autoBid, values));
+      return [changed.length];
+    });
+
+    // Nobody leads or owes anything elsewhere
+    jest.spyOn(Auction, 'findAll').mockResolvedValue([]);
+    jest.spyOn(Lot, 'findAll').mockResolvedValue([]);
+    jest.spyOn(Payment, 'findAll').mockResolvedValue([]);
+    jest.spyOn(AuctionStatusHistory, 'create').mockImplementation(async () => AuctionStatusHistory.build());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('placeBid', () => {
+    it('records an English bid at or above the next increment and takes the lead', async () => {
+      auction = buildAuction({ currentHighestBid: 1500, currentHighestBidderId: ids.rival, totalBids: 3, totalBidders: 1 });
+
+      const result = await bidService.placeBid(auction.id, ids.bidder, 1600);
+
+      expect(result).toMatchObject({
+        amount: 1600,
+        isWinning: true,
+        previousHighestBidderId: ids.rival,
+        currentHighestBid: 1600,
+        auctionTotalBids: 4,
+        sealed: false
+      });
+      expect(bids).toEqual([expect.objectContaining({ bidderId: ids.bidder, amount: 1600, status: 'winning' })]);
+      expect(auction.totalBidders).toBe(2);
+      expect(transaction.commit).toHaveBeenCalled();
+    });
+
+    it('rejects an English bid below the next increment', async () => {
+      auction = buildAuction({ currentHighestBid: 1500, currentHighestBidderId: ids.rival });
+
+      await expect(bidService.placeBid(auction.id, ids.bidder, 1550))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Minimum bid required is 1600' });
+      expect(bids).toHaveLength(0);
+      expect(transaction.rollback).toHaveBeenCalled();
+    });
+
+    it('opens an English auction at the starting bid', async () => {
+      await expect(bidService.placeBid(auction.id, ids.bidder, 900))
+        .rejects.toMatchObject({ message: 'Minimum bid required is 1000' });
+
+      await expect(bidService.placeBid(auction.id, ids.bidder, 1000)).resolves.toMatchObject({ isWinning: true });
+    });
+
+    it('keeps every bid in the ledger and marks the previous leader outbid', async () => {
+      await bidService.placeBid(auction.id, ids.rival, 1000, { ipAddress: '203.0.113.7', userAgent: 'jest' });
+      await bidService.placeBid(auction.id, ids.bidder, 1100);
+      await bidService.placeBid(auction.id, ids.rival, 1200);
+
+      expect(bids.map(bid => [bid.bidderId, Number(bid.amount), bid.status])).toEqual([
+        [ids.rival, 1000, 'outbid'],
+        [ids.bidder, 1100, 'outbid'],
+        [ids.rival, 1200, 'winning']
+      ]);
+      expect(bids[0]!.metadata).toMatchObject({ ipAddress: '203.0.113.7', userAgent: 'jest' });
+      expect(auction).toMatchObject({ totalBids: 3, totalBidders: 2 });
+    });
+
+    it('keeps sealed bids hidden and unranked', async () => {
+      auction = buildAuction({ format: 'sealed_first_price' });
+
+      const result = await bidService.placeBid(auction.id, ids.bidder, 5000);
+
+      expect(result).toMatchObject({ sealed: true, isWinning: false, currentHighestBidderId: null });
+      expect(auction.currentHighestBid).toBe(0);
+      expect(bids).toEqual([expect.objectContaining({ amount: 5000, status: 'active' })]);
+    });
+
+    it('takes one sealed bid per bidder', async () => {
+      auction = buildAuction({ format: 'vickrey' });
+
+      await bidService.placeBid(auction.id, ids.bidder, 5000);
+
+      await expect(bidService.placeBid(auction.id, ids.bidder, 6000))
+        .rejects.toMatchObject({ message: 'You have already submitted a sealed bid for this auction' });
+      await expect(bidService.placeBid(auction.id, ids.rival, 4000)).resolves.toMatchObject({ sealed: true });
+    });
+
+    it('sells a Dutch auction to the first bidder at the current ask', async () => {
+      const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
+      auction = buildAuction({
+        format: 'dutch',
+        auctionConfig: { startingBid: 10000, priceDropAmount: 500, priceDropInterval: 120, floorPrice: 6000 },
+        timing: { biddingStartsAt: tenMinutesAgo, biddingEndsAt: new Date(Date.now() + 60 * 60 * 1000) }
+      });
+
+      const result = await bidService.placeBid(auction.id, ids.bidder, 9000);
+
+      // Five drops of 500 in ten minutes
+      expect(result).toMatchObject({ amount: 7500, soldImmediately: true, auctionStatus: 'sold' });
+      expect(auction).toMatchObject({ winnerId: ids.bidder, winnerAmount: 7500 });
+      expect(auction.metadata.endReason).toBe('dutch_accept');
+      expect(schedulerService.scheduleAuction).toHaveBeenCalledWith(auction);
+    });
+
+    it('closes an English auction as soon as a bid reaches the buy-now price', async () => {
+      auction = buildAuction({ auctionConfig: { bidIncrement: 100, startingBid: 1000, buyNowPrice: 5000 } });
+      await bidService.setAutoBid(auction.id, ids.rival, 8000);
+
+      const result = await bidService.placeBid(auction.id, ids.bidder, 5000);
+
+      // The rival's proxy gets no answer once the item is taken
+      expect(result).toMatchObject({ isWinning: true, soldImmediately: true, auctionStatus: 'sold', steps: [expect.anything()] });
+      expect(auction).toMatchObject({ winnerId: ids.bidder, winnerAmount: 5000 });
+      expect(auction.metadata.endReason).toBe('buy_now');
+      expect(autoBids.map(autoBid => autoBid.status)).toEqual(['cancelled']);
+    });
+
+    it('refuses an offer below the Dutch ask', async () => {
+      auction = buildAuction({ format: 'dutch', auctionConfig: { startingBid: 10000, priceDropInterval: 60 } });
+
+      await expect(bidService.placeBid(auction.id, ids.bidder, 9000))
+        .rejects.toMatchObject({ message: 'Current price is 10000' });
+    });
+  });
+
+  describe('deposits', () => {
+    beforeEach(() => {
+      jest.mocked(depositService.getRequiredDeposit).mockReturnValue(50000);
+    });
+
+    it('refuses a bid until the bidder holds the deposit', async () => {
+      jest.mocked(depositService.hasActiveDeposit).mockResolvedValue(false);
+
+      await expect(bidService.placeBid(auction.id, ids.bidder, 1000))
+        .rejects.toMatchObject({ statusCode: 402, message: 'A deposit of 50000 is required before bidding on this auction' });
+      expect(bids).toHaveLength(0);
+    });
+
+    it('takes the bid once the deposit is held', async () => {
+      await expect(bidService.placeBid(auction.id, ids.bidder, 1000)).resolves.toMatchObject({ isWinning: true });
+      expect(depositService.hasActiveDeposit).toHaveBeenCalledWith(auction.id, ids.bidder, expect.anything());
+    });
+  });
+
+  describe('soft close', () => {
+    const secondsFromNow = (seconds: number): Date => new Date(Date.now() + seconds * 1000);
+
+    // Thirty seconds left, two-minute extensions
+    const closing = (auctionConfig: Record<string, unknown>, metadata: Record<string, unknown> = {}): Auction => buildAuction({
+      auctionConfig: { startingBid: 1000, bidIncrement: 100, autoExtend: true, extensionTime: 120, maxExtensions: 3, ...auctionConfig },
+      timing: { biddingStartsAt: secondsFromNow(-3600), biddingEndsAt: secondsFromNow(30) },
+      metadata
+    });
+
+    const secondsLeft = (): number => Math.round((new Date(auction.timing.biddingEndsAt).getTime() - Date.now()) / 1000);
+
+    it('moves the deadline to the extension time after a late bid and logs who triggered it', async () => {
+      auction = closing({});
+
+      const result = await bidService.placeBid(auction.id, ids.bidder, 1000);
+
+      expect(secondsLeft()).toBe(120);
+      expect(result.extension).toMatchObject({ extensions: 1, triggeredBy: ids.bidder, bidId: result.bidId });
+      expect(auction.metadata.extensions).toBe(1);
+      expect(AuctionStatusHistory.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: ids.bidder,
+          metadata: expect.objectContaining({ event: 'extension', mode: 'after_last_bid' })
+        }),
+        expect.anything()
+      );
+      expect(schedulerService.scheduleAuction).toHaveBeenCalledWith(auction);
+    });
+
+    it('adds a fixed window to the old deadline in fixed mode', async () => {
+      auction = closing({ extensionMode: 'fixed' });
+
+      await bidService.placeBid(auction.id, ids.bidder, 1000);
+
+      expect(secondsLeft()).toBe(150);
+    });
+
+    it('leaves bids outside the trigger window alone', async () => {
+      auction = closing({ extensionTrigger: 10 });
+
+      await expect(bidService.placeBid(auction.id, ids.bidder, 1000)).resolves.toMatchObject({ extension: null });
+      expect(secondsLeft()).toBe(30);
+      expect(schedulerService.scheduleAuction).not.toHaveBeenCalled();
+    });
+
+    it('stops at maxExtensions unless extensions are unlimited', async () => {
+      auction = closing({}, { extensions: 3 });
+      await expect(bidService.placeBid(auction.id, ids.bidder, 1000)).resolves.toMatchObject({ extension: null });
+
+      auction = closing({ unlimitedExtensions: true }, { extensions: 3 });
+      await expect(bidService.placeBid(auction.id, ids.bidder, 1000)).resolves.toMatchObject({ extension: { extensions: 4 } });
+    });
+  });
+
+  describe('placeLotBid', () => {
+    let lot: Lot;
+
+    beforeEach(() => {
+      auction = buildAuction({ currentHighestBid: 3000, totalBids: 4, totalBidders: 2, metadata: { lotCount: 2 } });
+      lot = buildLot({ currentHighestBid: 1200, currentHighestBidderId: ids.rival, totalBids: 1, totalBidders: 1 });
+      bids = [buildBid({ lotId: lot.id, bidderId: ids.rival, amount: 1200, status: 'winning' })];
+
+      jest.spyOn(Lot, 'findOne').mockImplementation(async () => lot);
+    });
+
+    it('takes the lead on the lot and rolls the bid up into the event totals', async () => {
+      await expect(bidService.placeLotBid(auction.id, lot.id, ids.bidder, 1300))
+        .resolves.toMatchObject({ lotId: lot.id, isWinning: true, previousHighestBidderId: ids.rival });
+
+      expect(lot).toMatchObject({ currentHighestBid: 1300, currentHighestBidderId: ids.bidder, totalBids: 2, totalBidders: 2 });
+      // Only the 100 the lot's lead went up by is added to the event
+      expect(auction).toMatchObject({ currentHighestBid: 3100, totalBids: 5, totalBidders: 3 });
+      expect(bids[0]!.status).toBe('outbid');
+    });
+
+    it('holds the lot to its own increment', async () => {
+      lot.bidIncrement = 500;
+
+      await expect(bidService.placeLotBid(auction.id, lot.id, ids.bidder, 1300))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Minimum bid required is 1700' });
+    });
+
+    it('refuses bids once the lot has closed', async () => {
+      lot.closesAt = new Date(Date.now() - 1000);
+
+      await expect(bidService.placeLotBid(auction.id, lot.id, ids.bidder, 1300))
+        .rejects.toMatchObject({ message: 'Lot is closed for bidding' });
+      expect(transaction.rollback).toHaveBeenCalled();
+    });
+
+    it('turns away event-level bids on a lot event', async () => {
+      await expect(bidService.placeBid(auction.id, ids.bidder, 5000))
+        .rejects.toMatchObject({ message: 'Bids on this auction must be placed on one of its lots' });
+    });
+  });
+
+  describe('reverse auctions', () => {
+    beforeEach(() => {
+      auction = buildAuction({ format: 'reverse', auctionConfig: { startingBid: 10000, bidIncrement: 100, floorPrice: 5000 } });
+    });
+
+    it('gives the lead to an undercut of at least one decrement', async () => {
+      await bidService.placeBid(auction.id, ids.rival, 9000);
+
+      await expect(bidService.placeBid(auction.id, ids.bidder, 8950))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Maximum bid allowed is 8900' });
+      await expect(bidService.placeBid(auction.id, ids.bidder, 8900)).resolves.toMatchObject({ isWinning: true });
+      expect(auction).toMatchObject({ currentHighestBid: 8900, currentHighestBidderId: ids.bidder });
+    });
+
+    it('refuses offers below the floor price', async () => {
+      await expect(bidService.placeBid(auction.id, ids.bidder, 4000))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Minimum bid allowed is 5000' });
+    });
+
+    it('refuses offers of nothing when there is no floor', async () => {
+      auction = buildAuction({ format: 'reverse', auctionConfig: { startingBid: 10000, bidIncrement: 100 } });
+
+      await expect(bidService.placeBid(auction.id, ids.bidder, 0))
+        .rejects.toMatchObject({ message: 'Bid must be more than 0' });
+      await expect(bidService.placeBid(auction.id, ids.bidder, -500))
+        .rejects.toMatchObject({ message: 'Bid must be more than 0' });
+    });
+
+    it('does not count offers against the supplier\'s credit limit', async () => {
+      users[0]!.creditLimit = 0;
+
+      await expect(bidService.placeBid(auction.id, ids.bidder, 9000)).resolves.toMatchObject({ isWinning: true });
+    });
+  });
+
+  describe('proxy bidding', () => {
+    const rival = (): User => users.find(user => user.id === ids.rival)!;
+    const statusOf = (bidderId: string): string | undefined => [...autoBids].reverse().find(autoBid => autoBid.bidderId === bidderId)?.status;
+
+    it('opens a lone proxy at the starting bid', async () => {
+      const result = await bidService.setAutoBid(auction.id, ids.bidder, 3000);
+
+      expect(result).toMatchObject({ isWinning: true, amount: 1000, maxAmount: 3000 });
+      expect(result.steps).toEqual([expect.objectContaining({ bidderId: ids.bidder, amount: 1000, isAutoBid: true, isWinning: true })]);
+    });
+
+    it('answers a manual bid one increment above it, up to the ceiling', async () => {
+      await bidService.setAutoBid(auction.id, ids.rival, 2500);
+
+      const result = await bidService.placeBid(auction.id, ids.bidder, 1600);
+
+      expect(result.isWinning).toBe(false);
+      expect(result.steps.map(step => [step.bidderId, step.amount, step.isAutoBid])).toEqual([
+        [ids.bidder, 1600, false],
+        [ids.rival, 1700, true]
+      ]);
+      expect(auction).toMatchObject({ currentHighestBid: 1700, currentHighestBidderId: ids.rival });
+    });
+
+    it('settles two ceilings in one step, one increment over the lower one', async () => {
+      await bidService.setAutoBid(auction.id, ids.rival, 2500);
+
+      const result = await bidService.setAutoBid(auction.id, ids.bidder, 4000);
+
+      expect(result.steps.map(step => [step.bidderId, step.amount, step.isWinning])).toEqual([
+        [ids.rival, 2500, false],
+        [ids.bidder, 2600, true]
+      ]);
+      expect(statusOf(ids.rival)).toBe('outbid');
+      expect(statusOf(ids.bidder)).toBe('active');
+    });
+
+    it('gives equal ceilings to whoever set theirs first', async () => {
+      await bidService.setAutoBid(auction.id, ids.rival, 3000);
+
+      const result = await bidService.setAutoBid(auction.id, ids.bidder, 3000);
+
+      expect(result.isWinning).toBe(false);
+      expect(auction).toMatchObject({ currentHighestBid: 3000, currentHighestBidderId: ids.rival });
+    });
+
+    it('replaces a bidder\'s earlier ceiling', async () => {
+      await bidService.setAutoBid(auction.id, ids.bidder, 2000);
+      await bidService.setAutoBid(auction.id, ids.bidder, 5000);
+
+      expect(autoBids.map(autoBid => [Number(autoBid.maxAmount), autoBid.status])).toEqual([[2000, 'cancelled'], [5000, 'active']]);
+    });
+
+    it('refuses proxies on formats without them', async () => {
+      auction = buildAuction({ format: 'vickrey' });
+
+      await expect(bidService.setAutoBid(auction.id, ids.bidder, 3000))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Auto-bidding is not available for vickrey auctions' });
+    });
+
+    describe('re-checking a proxy before it leads', () => {
+      it('cancels a proxy that would go over its credit limit and leaves the lead alone', async () => {
+        await bidService.setAutoBid(auction.id, ids.rival, 5000);
+        rival().creditLimit = 1500;
+
+        const result = await bidService.placeBid(auction.id, ids.bidder, 1600);
+
+        expect(result.isWinning).toBe(true);
+        expect(statusOf(ids.rival)).toBe('cancelled');
+      });
+
+      it('checks credit at the price the proxy would lead with, not its ceiling', async () => {
+        await bidService.setAutoBid(auction.id, ids.rival, 5000);
+        rival().creditLimit = 1800;
+
+        await bidService.placeBid(auction.id, ids.bidder, 1600);
+
+        expect(auction).toMatchObject({ currentHighestBid: 1700, currentHighestBidderId: ids.rival });
+      });
+
+      it('cancels a proxy whose deposit is no longer held', async () => {
+        await bidService.setAutoBid(auction.id, ids.rival, 5000);
+        jest.mocked(depositService.getRequiredDeposit).mockReturnValue(500);
+        jest.mocked(depositService.hasActiveDeposit).mockImplementation(async (_auctionId, bidderId) => bidderId !== ids.rival);
+
+        const result = await bidService.placeBid(auction.id, ids.bidder, 1600);
+
+        expect(result.isWinning).toBe(true);
+        expect(statusOf(ids.rival)).toBe('cancelled');
+      });
+
+      it('keeps a leader on their standing bid when their own proxy no longer qualifies', async () => {
+        await bidService.setAutoBid(auction.id, ids.rival, 3000);
+        rival().creditLimit = 1000;
+
+        const result = await bidService.setAutoBid(auction.id, ids.bidder, 2000);
+
+        expect(statusOf(ids.rival)).toBe('cancelled');
+        expect(result.steps).toEqual([expect.objectContaining({ bidderId: ids.bidder, amount: 1100, isWinning: true })]);
+      });
+    });
+  });
+});
\ No newline at end of file
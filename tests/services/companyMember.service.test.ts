@@ -0,0 +1,261 @@
+import { ColumnsDescription, CreationAttributes } from 'sequelize';
+import sequelize, { connectDatabase } from '../../src/config/database';
+import Company from '../../src/database/models/Company';
+import CompanyInvitation from '../../src/database/models/CompanyInvitation';
+import CompanyMember from '../../src/database/models/CompanyMember';
+import User from '../../src/database/models/User';
+import { companyAuditService } from '../../src/services/companyAudit.service';
+import { companyMemberService } from '../../src/services/companyMember.service';
+import { MemoryTransport } from '../../src/services/mail';
+import { mailService } from '../../src/services/mail.service';
+import { FakeTransaction, buildUser, ids, stubInstanceWrites, stubTransaction } from '../factories';
+
+jest.mock('../../src/services/companyAudit.service', () => ({
+  companyAuditService: { record: jest.fn() }
+}));
+
+const outbox = new MemoryTransport();
+mailService.useTransport(outbox);
+
+const OWNER = { id: ids.seller, firstName: 'Vikram', lastName: 'Shah' };
+
+describe('CompanyMemberService', () => {
+  let company: Company;
+  let users: User[];
+  let members: CompanyMember[];
+  let invitations: CompanyInvitation[];
+  let transaction: FakeTransaction;
+
+  const mailedToken = (to: string): string => outbox.last(to)!.text.match(/\/company-invitations\/([0-9a-f]+)/)![1]!;
+
+  const addMember = (userId: string, role: CompanyMember['role']): CompanyMember => {
+    const member = CompanyMember.build({ companyId: ids.company, userId, role, invitedBy: null } as CreationAttributes<CompanyMember>);
+    members.push(member);
+    return member;
+  };
+
+  beforeEach(() => {
+    outbox.reset();
+    stubInstanceWrites();
+    transaction = stubTransaction();
+
+    company = Company.build({ id: ids.company, userId: ids.seller, name: 'Shah Antiques' } as CreationAttributes<Company>);
+    users = [
+      buildUser({ id: ids.seller, email: 'seller@example.com', role: 'company', companyId: ids.company }),
+      buildUser({ id: ids.bidder, email: 'bidder@example.com' })
+    ];
+    members = [];
+    invitations = [];
+    addMember(ids.seller, 'owner');
+
+    jest.spyOn(Company, 'findByPk').mockImplementation(async id => (id === company.id ? company : null));
+    jest.spyOn(User, 'findByPk').mockImplementation(async id => users.find(user => user.id === id) ?? null);
+    jest.spyOn(User, 'findOne').mockImplementation(async options => {
+      const { email } = options?.where as { email: string };
+      return users.find(user => user.email === email) ?? null;
+    });
+    jest.spyOn(User, 'update').mockImplementation(async (values, options) => {
+      const { id } = options.where as { id: string };
+      users.find(user => user.id === id)?.set(values);
+      return [1];
+    });
+
+    jest.spyOn(CompanyInvitation, 'create').mockImplementation(async values => {
+      const invitation = CompanyInvitation.build({ acceptedAt: null, acceptedBy: null, revokedAt: null, ...values } as CreationAttributes<CompanyInvitation>);
+      invitations.push(invitation);
+      return invitation;
+    });
+    // Revokes the pending invitations to an address
+    jest.spyOn(CompanyInvitation, 'update').mockImplementation(async (values, options) => {
+      const { email } = options.where as { email: string };
+      const pending = invitations.filter(invitation => invitation.email === email && !invitation.acceptedAt && !invitation.revokedAt);
+
+      pending.forEach(invitation => invitation.set(values));
+      return [pending.length];
+    });
+    jest.spyOn(CompanyInvitation, 'findOne').mockImplementation(async options => {
+      const { tokenHash } = options?.where as { tokenHash: string };
+      return invitations.find(invitation => invitation.tokenHash === tokenHash) ?? null;
+    });
+
+    jest.spyOn(CompanyMember, 'create').mockImplementation(async values => {
+      const { userId, role } = values as CreationAttributes<CompanyMember>;
+      return addMember(userId, role);
+    });
+    jest.spyOn(CompanyMember, 'findOne').mockImplementation(async options => {
+      const { companyId, userId } = options?.where as { companyId: string; userId: string };
+      return members.find(member => member.companyId === companyId && member.userId === userId) ?? null;
+    });
+    jest.spyOn(CompanyMember.prototype, 'destroy').mockImplementation(async function (this: CompanyMember) {
+      members = members.filter(member => member !== this);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('invitations', () => {
+    it('mails a link that lets the invited address join once', async () => {
+      await companyMemberService.invite(ids.company, 'bidder@example.com', 'lister', OWNER, 'owner');
+
+      expect(outbox.last('bidder@example.com')!.subject).toBe('Join Shah Antiques on BidMaster');
+      const token = mailedToken('bidder@example.com');
+
+      const member = await companyMemberService.acceptInvitation(token, ids.bidder);
+
+      expect(member).toMatchObject({ companyId: ids.company, userId: ids.bidder, role: 'lister' });
+      expect(users[1]).toMatchObject({ role: 'company', companyId: ids.company });
+      expect(transaction.commit).toHaveBeenCalled();
+      expect(companyAuditService.record).toHaveBeenCalledWith(
+        ids.company, ids.bidder, 'member.joined', { type: 'user', id: ids.bidder }, expect.anything(), transaction
+      );
+
+      await expect(companyMemberService.acceptInvitation(token, ids.bidder)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('only honours the latest invitation to an address', async () => {
+      await companyMemberService.invite(ids.company, 'bidder@example.com', 'viewer', OWNER, 'owner');
+      const first = mailedToken('bidder@example.com');
+      await companyMemberService.invite(ids.company, 'bidder@example.com', 'manager', OWNER, 'owner');
+
+      await expect(companyMemberService.acceptInvitation(first, ids.bidder)).rejects.toMatchObject({ statusCode: 400 });
+      await expect(companyMemberService.acceptInvitation(mailedToken('bidder@example.com'), ids.bidder))
+        .resolves.toMatchObject({ role: 'manager' });
+    });
+
+    it('leaves inviting owners to owners', async () => {
+      await expect(companyMemberService.invite(ids.company, 'bidder@example.com', 'owner', OWNER, 'manager'))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(outbox.last('bidder@example.com')).toBeNull();
+    });
+
+    it('refuses an account signed in with another address or already in a company', async () => {
+      await companyMemberService.invite(ids.company, 'someone@example.com', 'viewer', OWNER, 'owner');
+
+      await expect(companyMemberService.acceptInvitation(mailedToken('someone@example.com'), ids.bidder))
+        .rejects.toMatchObject({ statusCode: 403 });
+
+      users[1]!.email = 'someone@example.com';
+      users[1]!.companyId = 'c0000000-0000-4000-8000-000000000002';
+
+      await expect(companyMemberService.acceptInvitation(mailedToken('someone@example.com'), ids.bidder))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(transaction.rollback).toHaveBeenCalledTimes(2);
+      expect(members).toHaveLength(1);
+    });
+  });
+
+  describe('removeMember', () => {
+    it('turns a removed member back into a bidder', async () => {
+      users[1]!.set({ role: 'company', companyId: ids.company });
+      addMember(ids.bidder, 'lister');
+
+      await companyMemberService.removeMember(ids.company, ids.bidder, OWNER);
+
+      expect(members.map(member => member.userId)).toEqual([ids.seller]);
+      expect(users[1]).toMatchObject({ role: 'bidder', companyId: null });
+      expect(companyAuditService.record).toHaveBeenCalledWith(
+        ids.company, ids.seller, 'member.removed', { type: 'user', id: ids.bidder }, { role: 'lister' }, transaction
+      );
+    });
+
+    it('never removes or demotes the account holder', async () => {
+      await expect(companyMemberService.removeMember(ids.company, ids.seller, OWNER)).rejects.toMatchObject({ statusCode: 400 });
+      await expect(companyMemberService.updateMemberRole(ids.company, ids.seller, 'viewer', OWNER)).rejects.toMatchObject({ statusCode: 400 });
+      expect(members[0]!.role).toBe('owner');
+    });
+  });
+
+  describe('moving companies from before teams', () => {
+    it('makes each account holder an owner, once', async () => {
+      const older = Company.build({ id: 'c0000000-0000-4000-8000-000000000002', userId: ids.bidder, name: 'Rao Art' } as CreationAttributes<Company>);
+      jest.spyOn(Company, 'findAll').mockImplementation(async () => [company, older]);
+      jest.spyOn(CompanyMember, 'findAll').mockImplementation(async () => members.filter(member => member.role === 'owner'));
+      jest.spyOn(CompanyMember, 'findOrCreate').mockImplementation(async options => {
+        const member = CompanyMember.build(options.defaults as CreationAttributes<CompanyMember>);
+        members.push(member);
+        return [member, true];
+      });
+
+      await companyMemberService.syncAccountHolders();
+      await companyMemberService.syncAccountHolders();
+
+      expect(CompanyMember.findOrCreate).toHaveBeenCalledTimes(1);
+      expect(members.find(member => member.userId === ids.bidder)).toMatchObject({ companyId: older.id, role: 'owner' });
+      expect(users[1]!.companyId).toBe(older.id);
+    });
+
+    describe('on connecting to the database', () => {
+      const queryInterface = sequelize.getQueryInterface();
+      const environment = process.env['NODE_ENV'];
+
+      const columns = (...names: string[]): ColumnsDescription =>
+        Object.fromEntries(names.map(name => [name, {}])) as unknown as ColumnsDescription;
+
+      beforeEach(() => {
+        process.env['NODE_ENV'] = 'development';
+
+        jest.spyOn(sequelize, 'authenticate').mockResolvedValue();
+        jest.spyOn(sequelize, 'sync').mockResolvedValue(sequelize);
+        jest.spyOn(sequelize, 'query').mockResolvedValue([[], 0]);
+        jest.spyOn(queryInterface, 'tableExists').mockResolvedValue(true);
+        jest.spyOn(queryInterface, 'describeTable').mockImplementation(async table =>
+          (table === 'companies' ? columns('id', 'userId') : columns('id', 'companyId')));
+        jest.spyOn(queryInterface, 'getForeignKeyReferencesForTable').mockImplementation(async table => [
+          { constraintName: `${table}_companyId_fkey`, columnName: 'companyId', referencedTableName: 'users' }
+        ]);
+        jest.spyOn(queryInterface, 'removeConstraint').mockResolvedValue();
+        // connectDatabase exits the process when anything fails
+        jest.spyOn(process, 'exit').mockImplementation(code => {
+          throw new Error(`process.exit(${code})`);
+        });
+      });
+
+      afterEach(() => {
+        process.env['NODE_ENV'] = environment;
+      });
+
+      const statements = (): string[] => jest.mocked(sequelize.query).mock.calls.map(([sql]) => String(sql).replace(/\s+/g, ' ').trim());
+
+      it('moves auctions and fee schedules to their company before the models are synced', async () => {
+        await connectDatabase();
+
+        expect(queryInterface.removeConstraint).toHaveBeenCalledWith('auctions', 'auctions_companyId_fkey');
+        expect(queryInterface.removeConstraint).toHaveBeenCalledWith('fee_schedules', 'fee_schedules_companyId_fkey');
+        expect(statements()).toEqual([
+          'UPDATE "auctions" SET "companyId" = companies.id FROM companies WHERE "auctions"."companyId" = companies."userId"',
+          'UPDATE "fee_schedules" SET "companyId" = companies.id FROM companies WHERE "fee_schedules"."companyId" = companies."userId"'
+        ]);
+
+        const [lastUpdate] = jest.mocked(sequelize.query).mock.invocationCallOrder.slice(-1);
+        const [sync] = jest.mocked(sequelize.sync).mock.invocationCallOrder;
+        expect(lastUpdate).toBeLessThan(sync!);
+      });
+
+      it('handles the snake_case columns of databases created from init.sql', async () => {
+        jest.spyOn(queryInterface, 'describeTable').mockImplementation(async table =>
+          (table === 'companies' ? columns('id', 'user_id') : columns('id', 'company_id')));
+        jest.spyOn(queryInterface, 'getForeignKeyReferencesForTable').mockImplementation(async table => [
+          { constraintName: `${table}_company_id_fkey`, columnName: 'company_id', referencedTableName: 'users' }
+        ]);
+
+        await connectDatabase();
+
+        expect(queryInterface.removeConstraint).toHaveBeenCalledWith('auctions', 'auctions_company_id_fkey');
+        expect(statements()).toContain(
+          'UPDATE "auctions" SET "company_id" = companies.id FROM companies WHERE "auctions"."company_id" = companies."user_id"'
+        );
+      });
+
+      it('leaves a new install to sync', async () => {
+        jest.spyOn(queryInterface, 'tableExists').mockResolvedValue(false);
+
+        await connectDatabase();
+
+        expect(sequelize.query).not.toHaveBeenCalled();
+        expect(sequelize.sync).toHaveBeenCalledWith({ alter: true });
+      });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,146 @@
+import Auction from '../../src/database/models/Auction';
+import BidderDeposit from '../../src/database/models/BidderDeposit';
+import Lot from '../../src/database/models/Lot';
+import Payment from '../../src/database/models/Payment';
+import User from '../../src/database/models/User';
+import { depositService } from '../../src/services/deposit.service';
+import { paymentService } from '../../src/services/payment.service';
+import { buildAuction, buildDeposit, buildPayment, buildUser, ids, stubInstanceWrites } from '../factories';
+
+jest.mock('../../src/services/payment.service', () => ({
+  paymentService: { createDepositHold: jest.fn(), captureDepositHold: jest.fn(), releaseDepositHold: jest.fn() }
+}));
+
+describe('DepositService', () => {
+  let auction: Auction;
+  let deposits: BidderDeposit[];
+
+  beforeEach(() => {
+    auction = buildAuction({
+      auctionConfig: { startingBid: 1000, bidIncrement: 100, depositRequired: 50000, currency: 'INR' }
+    });
+    deposits = [];
+
+    stubInstanceWrites();
+
+    jest.spyOn(Auction, 'findByPk').mockImplementation(async () => auction);
+    jest.spyOn(User, 'findByPk').mockImplementation(async () => buildUser());
+    jest.spyOn(BidderDeposit, 'findOne').mockImplementation(async () => deposits.find(deposit => deposit.status === 'held') ?? null);
+    jest.spyOn(BidderDeposit, 'findAll').mockImplementation(async () =>
+      deposits.filter(deposit => ['pending', 'held'].includes(deposit.status))
+    );
+    jest.spyOn(BidderDeposit, 'update').mockImplementation(async values => {
+      const superseded = deposits.filter(deposit => deposit.status === 'pending');
+      superseded.forEach(deposit => Object.assign(deposit, values));
+      return [superseded.length];
+    });
+    jest.spyOn(BidderDeposit, 'create').mockImplementation(async values => {
+      const deposit = buildDeposit(values);
+      deposits.push(deposit);
+      return deposit;
+    });
+    jest.spyOn(Payment, 'findByPk').mockImplementation(async id => buildPayment({ id: String(id) }));
+    jest.spyOn(Lot, 'findAll').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createDeposit', () => {
+    beforeEach(() => {
+      jest.mocked(paymentService.createDepositHold).mockResolvedValue({
+        payment: buildPayment({ id: 'p0000000-0000-4000-8000-000000000002', amount: 50000 }),
+        clientSecret: null,
+        orderId: 'mock_order_000002'
+      });
+    });
+
+    it('opens a hold for the auction\'s deposit and supersedes an unfinished one', async () => {
+      deposits = [buildDeposit({ status: 'pending' })];
+
+      const { deposit, orderId } = await depositService.createDeposit(auction.id, ids.bidder);
+
+      expect(paymentService.createDepositHold).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 50000, currency: 'INR', userId: ids.bidder, auctionId: auction.id }),
+        undefined
+      );
+      expect(deposit).toMatchObject({ status: 'pending', amount: 50000, paymentId: 'p0000000-0000-4000-8000-000000000002' });
+      expect(orderId).toBe('mock_order_000002');
+      expect(deposits[0]!.status).toBe('released');
+    });
+
+    it('refuses auctions without a deposit and bidders who already hold one', async () => {
+      deposits = [buildDeposit()];
+      await expect(depositService.createDeposit(auction.id, ids.bidder)).rejects.toMatchObject({ statusCode: 409 });
+
+      auction = buildAuction();
+      await expect(depositService.createDeposit(auction.id, ids.bidder))
+        .rejects.toMatchObject({ statusCode: 400, message: 'This auction does not require a deposit' });
+      expect(paymentService.createDepositHold).not.toHaveBeenCalled();
+    });
+
+    it('refuses a deposit from the selling company', async () => {
+      jest.spyOn(User, 'findByPk').mockImplementation(async () => buildUser({ companyId: ids.company }));
+
+      await expect(depositService.createDeposit(auction.id, ids.bidder))
+        .rejects.toMatchObject({ message: 'Cannot place a deposit on your own auction' });
+    });
+  });
+
+  describe('settleDeposits', () => {
+    let winning: BidderDeposit;
+    let losing: BidderDeposit;
+    let unfinished: BidderDeposit;
+
+    beforeEach(() => {
+      auction.status = 'ended';
+      auction.winnerId = ids.bidder;
+      winning = buildDeposit({ paymentId: 'p0000000-0000-4000-8000-000000000011' });
+      losing = buildDeposit({ bidderId: ids.rival, paymentId: 'p0000000-0000-4000-8000-000000000012' });
+      unfinished = buildDeposit({ bidderId: ids.seller, status: 'pending', paymentId: 'p0000000-0000-4000-8000-000000000013' });
+      deposits = [winning, losing, unfinished];
+    });
+
+    it('applies the winner\'s deposit and releases everyone else\'s', async () => {
+      await expect(depositService.settleDeposits(auction.id)).resolves.toBe(true);
+
+      expect(winning.status).toBe('applied');
+      expect(losing.status).toBe('released');
+      expect(unfinished.status).toBe('released');
+      expect(paymentService.captureDepositHold).toHaveBeenCalledTimes(1);
+      expect(paymentService.captureDepositHold).toHaveBeenCalledWith(expect.objectContaining({ id: winning.paymentId }));
+      expect(paymentService.releaseDepositHold).toHaveBeenCalledTimes(2);
+      expect(auction.metadata.depositsSettledAt).toBeInstanceOf(Date);
+    });
+
+    it('gives every deposit back when the auction is cancelled', async () => {
+      auction.status = 'cancelled';
+
+      await depositService.settleDeposits(auction.id);
+
+      expect(winning.status).toBe('released');
+      expect(paymentService.captureDepositHold).not.toHaveBeenCalled();
+    });
+
+    it('settles the rest when one provider call fails and leaves the failure for a retry', async () => {
+      jest.mocked(paymentService.releaseDepositHold)
+        .mockRejectedValueOnce(new Error('provider unavailable'))
+        .mockResolvedValue();
+
+      await expect(depositService.settleDeposits(auction.id)).rejects.toThrow('1 deposits on auction');
+
+      expect(winning.status).toBe('applied');
+      expect(losing.status).toBe('held');
+      expect(unfinished.status).toBe('released');
+      expect(auction.metadata.depositsSettledAt).toBeUndefined();
+    });
+
+    it('waits until the auction has closed', async () => {
+      auction.status = 'live';
+
+      await expect(depositService.settleDeposits(auction.id)).resolves.toBe(false);
+      expect(winning.status).toBe('held');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,89 @@
+import sequelize from '../../src/config/database';
+import Auction from '../../src/database/models/Auction';
+import Lot from '../../src/database/models/Lot';
+import Payment from '../../src/database/models/Payment';
+import User from '../../src/database/models/User';
+import { exposureService } from '../../src/services/exposure.service';
+import { buildAuction, buildLot, buildPayment, buildUser, ids, stubInstanceWrites, stubTransaction } from '../factories';
+
+const otherAuction = 'a0000000-0000-4000-8000-000000000002';
+
+describe('ExposureService', () => {
+  let bidder: User;
+
+  beforeEach(() => {
+    stubInstanceWrites();
+    bidder = buildUser({ creditLimit: 10000 });
+
+    jest.spyOn(User, 'findByPk').mockImplementation(async () => bidder);
+
+    // Leading a live auction at 3000 and a lot at 1000; won another auction at 5000 and paid 2000 of it
+    jest.spyOn(Auction, 'findAll').mockImplementation(async options => {
+      const where = (options?.where || {}) as { winnerId?: string };
+      return where.winnerId
+        ? [buildAuction({ id: otherAuction, status: 'ended', winnerId: ids.bidder, finalAmount: 5000 })]
+        : [buildAuction({ currentHighestBid: 3000, currentHighestBidderId: ids.bidder })];
+    });
+    jest.spyOn(Lot, 'findAll').mockImplementation(async options => {
+      const where = (options?.where || {}) as { winnerId?: string };
+      return where.winnerId ? [] : [buildLot({ currentHighestBid: 1000, currentHighestBidderId: ids.bidder })];
+    });
+    jest.spyOn(Payment, 'findAll').mockResolvedValue([buildPayment({ auctionId: otherAuction, amount: 2000, status: 'completed' })]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('falls back to the KYC tier when no admin limit is set', () => {
+    expect(exposureService.getCreditLimit(buildUser({ creditLimit: 250 }))).toBe(250);
+    expect(exposureService.getCreditLimit(buildUser({ kycStatus: 'verified' }))).toBe(1000000);
+    expect(exposureService.getCreditLimit(buildUser({ kycStatus: 'pending' }))).toBe(100000);
+    expect(exposureService.getCreditLimit(buildUser({ kycStatus: 'rejected' }))).toBe(0);
+  });
+
+  it('adds what the bidder leads to what they won and have not paid for', async () => {
+    await expect(exposureService.getSummary(ids.bidder)).resolves.toEqual({
+      userId: ids.bidder,
+      creditLimit: 10000,
+      limitSource: 'admin',
+      leading: 4000,
+      unpaid: 3000,
+      exposure: 7000,
+      available: 3000
+    });
+  });
+
+  describe('assertWithinLimit', () => {
+    const check = async (auction: Auction, amount: number) => {
+      stubTransaction();
+      return exposureService.assertWithinLimit(bidder, auction, amount, await sequelize.transaction());
+    };
+
+    it('refuses a bid that would take the bidder over their limit with a 402', async () => {
+      const auction = buildAuction({ id: 'a0000000-0000-4000-8000-000000000003', currentHighestBid: 3000, currentHighestBidderId: ids.rival });
+
+      await expect(check(auction, 3100)).rejects.toMatchObject({
+        statusCode: 402,
+        message: 'This bid would raise your exposure to 10100, above your credit limit of 10000'
+      });
+      await expect(check(auction, 3000)).resolves.toBeUndefined();
+    });
+
+    it('only counts the raise when the bidder already leads', async () => {
+      await expect(check(buildAuction({ currentHighestBid: 3000, currentHighestBidderId: ids.bidder }), 6000)).resolves.toBeUndefined();
+    });
+
+    it('never counts reverse auctions', async () => {
+      await expect(check(buildAuction({ format: 'reverse' }), 1000000)).resolves.toBeUndefined();
+    });
+  });
+
+  it('lets an admin clear the override back to the KYC tier', async () => {
+    await expect(exposureService.setCreditLimit(ids.bidder, -1, 'admin-id')).rejects.toMatchObject({ statusCode: 400 });
+
+    await expect(exposureService.setCreditLimit(ids.bidder, null, 'admin-id'))
+      .resolves.toMatchObject({ creditLimit: 1000000, limitSource: 'kyc' });
+    expect(bidder.creditLimit).toBeNull();
+  });
+});
\ No newline at end of file
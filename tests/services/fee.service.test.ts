@@ -0,0 +1,182 @@
+import { CreationAttributes } from 'sequelize';
+import FeeSchedule from '../../src/database/models/FeeSchedule';
+import { feeService } from '../../src/services/fee.service';
+import { buildAuction, ids, stubTransaction } from '../factories';
+
+const schedule = (fields: Partial<CreationAttributes<FeeSchedule>> = {}): FeeSchedule => FeeSchedule.build({
+  id: 'f0000000-0000-4000-8000-000000000001',
+  version: 3,
+  category: null,
+  companyId: null,
+  buyerPremiumTiers: [{ upTo: null, rate: 10 }],
+  buyerPremiumMin: null,
+  buyerPremiumMax: null,
+  sellerCommissionTiers: [{ upTo: null, rate: 5 }],
+  sellerCommissionMin: null,
+  sellerCommissionMax: null,
+  taxRate: 18,
+  effectiveFrom: new Date(),
+  supersededAt: null,
+  createdBy: null,
+  notes: null,
+  ...fields
+} as CreationAttributes<FeeSchedule>);
+
+describe('FeeService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('applyTiers', () => {
+    const tiers = [
+      { upTo: null, rate: 5 },
+      { upTo: 1000, rate: 20 },
+      { upTo: 10000, rate: 10 }
+    ];
+
+    it('charges each band only on the part of the price inside it', () => {
+      expect(feeService.applyTiers(tiers, 500)).toBe(100);
+      expect(feeService.applyTiers(tiers, 1000)).toBe(200);
+      // 1000 at 20% + 9000 at 10% + 5000 at 5%
+      expect(feeService.applyTiers(tiers, 15000)).toBe(1350);
+    });
+
+    it('applies the minimum and maximum after the bands', () => {
+      expect(feeService.applyTiers(tiers, 100, 50, null)).toBe(50);
+      expect(feeService.applyTiers(tiers, 15000, null, 1000)).toBe(1000);
+    });
+
+    it('rounds to whole cents', () => {
+      expect(feeService.applyTiers([{ upTo: null, rate: 3.333 }], 10.01)).toBe(0.33);
+    });
+  });
+
+  describe('validateTiers', () => {
+    it('accepts a table ending in an open band', () => {
+      expect(feeService.validateTiers([{ upTo: 1000, rate: 10 }, { upTo: null, rate: 5 }])).toBeNull();
+    });
+
+    it('rejects empty tables, bad rates, duplicate bounds and a closed last band', () => {
+      expect(feeService.validateTiers([])).toMatch(/non-empty/);
+      expect(feeService.validateTiers([{ upTo: null, rate: 120 }])).toMatch(/between 0 and 100/);
+      expect(feeService.validateTiers([{ upTo: 100, rate: 1 }, { upTo: 100, rate: 2 }, { upTo: null, rate: 3 }])).toMatch(/unique/);
+      expect(feeService.validateTiers([{ upTo: 100, rate: 1 }])).toMatch(/no upper bound/);
+    });
+  });
+
+  describe('calculate', () => {
+    it('itemises premium, tax and commission from a schedule', () => {
+      const breakdown = feeService.calculate(schedule(), 1000, 'default');
+
+      expect(breakdown).toMatchObject({
+        scheduleId: 'f0000000-0000-4000-8000-000000000001',
+        version: 3,
+        scope: 'default',
+        hammerAmount: 1000,
+        buyerPremium: 100,
+        buyerPremiumTax: 18,
+        sellerCommission: 50,
+        buyerTotal: 1118,
+        sellerPayout: 950
+      });
+      expect(breakdown.lines.map(line => [line.code, line.amount, line.party])).toEqual([
+        ['hammer', 1000, 'buyer'],
+        ['buyer_premium', 100, 'buyer'],
+        ['buyer_premium_tax', 18, 'buyer'],
+        ['seller_commission', 50, 'seller']
+      ]);
+    });
+
+    it('falls back to the environment rates without a schedule', () => {
+      const breakdown = feeService.calculate(null, 1000, 'fallback');
+
+      expect(breakdown).toMatchObject({
+        scheduleId: null,
+        buyerPremium: 50,
+        buyerPremiumTax: 9,
+        sellerCommission: 0,
+        buyerTotal: 1059,
+        sellerPayout: 1000
+      });
+    });
+  });
+
+  it('combines breakdowns line by line', () => {
+    const combined = feeService.combine([
+      feeService.calculate(schedule(), 1000, 'default'),
+      feeService.calculate(schedule(), 500, 'default')
+    ]);
+
+    expect(combined).toMatchObject({ hammerAmount: 1500, buyerPremium: 150, buyerTotal: 1677, sellerPayout: 1425 });
+    expect(combined!.lines.find(line => line.code === 'buyer_premium_tax')!.amount).toBe(27);
+    expect(feeService.combine([])).toBeNull();
+  });
+
+  it('fills the auction\'s financial fields from the breakdown', () => {
+    const auction = buildAuction();
+
+    feeService.applyToAuction(auction, feeService.calculate(schedule(), 1000, 'default'));
+
+    expect(auction).toMatchObject({ commissionAmount: 150, taxAmount: 18, finalAmount: 1118 });
+    expect(auction.metadata.fees.scheduleId).toBe('f0000000-0000-4000-8000-000000000001');
+  });
+
+  describe('calculateForAuction', () => {
+    it('prefers the most specific active schedule', async () => {
+      jest.spyOn(FeeSchedule, 'findAll').mockResolvedValue([
+        schedule({ id: 'f0000000-0000-4000-8000-000000000002' }),
+        schedule({ id: 'f0000000-0000-4000-8000-000000000003', companyId: ids.company, buyerPremiumTiers: [{ upTo: null, rate: 2 }] }),
+        schedule({ id: 'f0000000-0000-4000-8000-000000000004', category: 'machinery' })
+      ]);
+
+      const breakdown = await feeService.calculateForAuction(buildAuction(), 1000);
+
+      expect(breakdown).toMatchObject({ scheduleId: 'f0000000-0000-4000-8000-000000000003', scope: 'company', buyerPremium: 20 });
+    });
+
+    it('reuses the schedule version an auction was first priced with', async () => {
+      const findAll = jest.spyOn(FeeSchedule, 'findAll');
+      jest.spyOn(FeeSchedule, 'findByPk').mockResolvedValue(schedule({ id: 'f0000000-0000-4000-8000-000000000005', version: 1 }));
+
+      const breakdown = await feeService.calculateForAuction(
+        buildAuction({ metadata: { fees: { scheduleId: 'f0000000-0000-4000-8000-000000000005', scope: 'category' } } }),
+        2000
+      );
+
+      expect(findAll).not.toHaveBeenCalled();
+      expect(breakdown).toMatchObject({ version: 1, scope: 'category', buyerPremium: 200 });
+    });
+  });
+
+  describe('setSchedule', () => {
+    const input = {
+      category: 'machinery',
+      buyerPremiumTiers: [{ upTo: null, rate: 12 }],
+      sellerCommissionTiers: [{ upTo: null, rate: 4 }],
+      taxRate: 18
+    };
+
+    it('publishes the next version for the scope and retires the current one', async () => {
+      stubTransaction();
+      jest.spyOn(FeeSchedule, 'max').mockResolvedValue(3);
+      const retire = jest.spyOn(FeeSchedule, 'update').mockResolvedValue([1]);
+      jest.spyOn(FeeSchedule, 'create').mockImplementation(async values => schedule(values));
+
+      const published = await feeService.setSchedule(input, 'admin-id');
+
+      expect(published).toMatchObject({ category: 'machinery', companyId: null, version: 4, createdBy: 'admin-id' });
+      expect(retire).toHaveBeenCalledWith(
+        { supersededAt: expect.any(Date) },
+        expect.objectContaining({ where: { category: 'machinery', companyId: null, supersededAt: null } })
+      );
+    });
+
+    it('refuses an invalid rate table', async () => {
+      const transaction = stubTransaction();
+
+      await expect(feeService.setSchedule({ ...input, sellerCommissionTiers: [] }, 'admin-id'))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(transaction.rollback).toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
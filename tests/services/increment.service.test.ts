@@ -0,0 +1,99 @@
+import { CreationAttributes } from 'sequelize';
+import BidIncrementTable, { IncrementTier } from '../../src/database/models/BidIncrementTable';
+import { incrementService } from '../../src/services/increment.service';
+import { buildAuction } from '../factories';
+
+// +100 up to 10k, +500 up to 100k, +2,500 above that
+const ladder: IncrementTier[] = [
+  { upTo: null, increment: 2500 },
+  { upTo: 10000, increment: 100 },
+  { upTo: 100000, increment: 500 }
+];
+
+const categoryTable = (tiers: IncrementTier[]): BidIncrementTable => BidIncrementTable.build(
+  { category: 'machinery', tiers } as CreationAttributes<BidIncrementTable>
+);
+
+describe('IncrementService', () => {
+  beforeEach(async () => {
+    // Start every test with no category ladders cached
+    jest.spyOn(BidIncrementTable, 'findAll').mockResolvedValue([]);
+    await incrementService.refresh();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('climbs the ladder as the price crosses each bound', () => {
+    const tiers = incrementService.normalizeLadder(ladder);
+
+    expect(tiers.map(tier => tier.upTo)).toEqual([10000, 100000, null]);
+    expect(incrementService.incrementAt(tiers, 9999)).toBe(100);
+    expect(incrementService.incrementAt(tiers, 10000)).toBe(500);
+    expect(incrementService.incrementAt(tiers, 250000)).toBe(2500);
+  });
+
+  describe('getLadder', () => {
+    it('falls back to the flat bidIncrement', () => {
+      expect(incrementService.getIncrement(buildAuction({ currentHighestBid: 50000 }))).toBe(100);
+    });
+
+    it('uses the category ladder admins set', async () => {
+      jest.spyOn(BidIncrementTable, 'findAll').mockResolvedValue([categoryTable(ladder)]);
+      await incrementService.refresh();
+
+      expect(incrementService.getIncrement(buildAuction({ currentHighestBid: 50000 }))).toBe(500);
+      expect(incrementService.getIncrement(buildAuction({ category: 'vehicles', currentHighestBid: 50000 }))).toBe(100);
+    });
+
+    it('lets an auction override its category ladder', async () => {
+      jest.spyOn(BidIncrementTable, 'findAll').mockResolvedValue([categoryTable(ladder)]);
+      await incrementService.refresh();
+
+      const auction = buildAuction({
+        currentHighestBid: 50000,
+        auctionConfig: { bidIncrement: 100, incrementTiers: [{ upTo: null, increment: 1000 }] }
+      });
+
+      expect(incrementService.getIncrement(auction)).toBe(1000);
+    });
+  });
+
+  describe('validateLadder', () => {
+    it('accepts a ladder that ends with an unbounded tier', () => {
+      expect(incrementService.validateLadder(ladder)).toBeNull();
+    });
+
+    it.each([
+      [[], 'Increment tiers must be a non-empty array'],
+      [[{ upTo: null, increment: 0 }], 'Every tier needs an increment greater than zero'],
+      [[{ upTo: -5, increment: 100 }, { upTo: null, increment: 500 }], 'Tier upper bounds must be positive numbers'],
+      [[{ upTo: 1000, increment: 100 }, { upTo: 1000, increment: 500 }, { upTo: null, increment: 900 }], 'Tier upper bounds must be unique'],
+      [[{ upTo: 1000, increment: 100 }], 'The last tier must have no upper bound (upTo: null)']
+    ])('refuses %j', (tiers, failure) => {
+      expect(incrementService.validateLadder(tiers)).toBe(failure);
+    });
+  });
+
+  describe('setCategoryLadder', () => {
+    it('stores the sorted ladder and applies it straight away', async () => {
+      const upsert = jest.spyOn(BidIncrementTable, 'upsert').mockResolvedValue([categoryTable(ladder), true]);
+
+      await incrementService.setCategoryLadder('machinery', ladder, 'admin-id');
+
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ category: 'machinery', tiers: incrementService.normalizeLadder(ladder) }),
+        expect.anything()
+      );
+      expect(incrementService.getIncrement(buildAuction({ currentHighestBid: 150000 }))).toBe(2500);
+    });
+
+    it('refuses unknown categories and broken ladders', async () => {
+      await expect(incrementService.setCategoryLadder('art', ladder, 'admin-id'))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Invalid category' });
+      await expect(incrementService.setCategoryLadder('machinery', [{ upTo: 1000, increment: 100 }], 'admin-id'))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+});
\ No newline at end of file
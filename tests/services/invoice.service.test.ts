@@ -0,0 +1,156 @@
+import { CreationAttributes } from 'sequelize';
+import sequelize from '../../src/config/database';
+import Auction from '../../src/database/models/Auction';
+import Company from '../../src/database/models/Company';
+import Invoice from '../../src/database/models/Invoice';
+import Settlement from '../../src/database/models/Settlement';
+import User from '../../src/database/models/User';
+import { feeService } from '../../src/services/fee.service';
+import { invoiceService } from '../../src/services/invoice.service';
+import { FakeTransaction, buildAuction, buildSettlement, buildUser, ids, stubTransaction } from '../factories';
+
+jest.mock('../../src/services/companyMember.service', () => ({
+  companyMemberService: { getAccountHolderId: jest.fn(async () => 'u0000000-0000-4000-8000-000000000001') }
+}));
+
+describe('InvoiceService', () => {
+  const financialYear = invoiceService.getFinancialYear(new Date());
+
+  let invoices: Invoice[];
+  let settlement: Settlement;
+  let transaction: FakeTransaction;
+
+  beforeEach(() => {
+    invoices = [];
+    settlement = buildSettlement({
+      status: 'paid',
+      hammerAmount: 1000,
+      commissionAmount: 100,
+      taxAmount: 18,
+      totalAmount: 1118,
+      metadata: { fees: feeService.calculate(null, 1000, 'fallback') }
+    });
+
+    transaction = stubTransaction();
+
+    jest.spyOn(sequelize, 'query').mockImplementation(async () => [[], 0]);
+    jest.spyOn(Settlement, 'findByPk').mockImplementation(async () => settlement);
+    jest.spyOn(Auction, 'findByPk').mockImplementation(async () => buildAuction({ status: 'ended' }));
+    jest.spyOn(User, 'findByPk').mockImplementation(async id => buildUser({ id: String(id) }));
+    jest.spyOn(Company, 'findOne').mockResolvedValue(null);
+
+    jest.spyOn(Invoice, 'findOne').mockImplementation(async () => invoices.find(invoice => invoice.type === 'invoice') ?? null);
+    jest.spyOn(Invoice, 'findByPk').mockImplementation(async id => invoices.find(invoice => invoice.id === id) ?? null);
+    // Seven invoices were issued earlier in the year
+    jest.spyOn(Invoice, 'max').mockImplementation(async (_field, options) => {
+      const { type } = options?.where as { type: string };
+      return Math.max(type === 'invoice' ? 7 : 0, ...invoices.filter(invoice => invoice.type === type).map(invoice => invoice.sequence));
+    });
+    jest.spyOn(Invoice, 'sum').mockImplementation(async () =>
+      invoices.filter(invoice => invoice.type === 'credit_note').reduce((sum, note) => sum + Number(note.totalAmount), 0)
+    );
+    jest.spyOn(Invoice, 'create').mockImplementation(async values => {
+      const invoice = Invoice.build(values as CreationAttributes<Invoice>);
+      invoices.push(invoice);
+      return invoice;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('labels financial years from April', () => {
+    expect(invoiceService.getFinancialYear(new Date(2026, 2, 31))).toBe('2025-26');
+    expect(invoiceService.getFinancialYear(new Date(2026, 3, 1))).toBe('2026-27');
+  });
+
+  describe('issueForSettlement', () => {
+    it('numbers the invoice after the last one in the year, under the series lock', async () => {
+      const invoice = await invoiceService.issueForSettlement(settlement.id, 'payment-1');
+
+      expect(invoice).toMatchObject({
+        type: 'invoice',
+        number: `INV/${financialYear}/000008`,
+        sequence: 8,
+        buyerId: ids.bidder,
+        sellerId: ids.seller,
+        paymentId: 'payment-1',
+        taxAmount: 18,
+        totalAmount: 1118,
+        subtotal: 1100
+      });
+      expect(sequelize.query).toHaveBeenCalledWith(
+        'SELECT pg_advisory_xact_lock(hashtext(:series))',
+        { replacements: { series: `invoice:${financialYear}` }, transaction }
+      );
+      expect(transaction.commit).toHaveBeenCalled();
+    });
+
+    it('itemises the buyer\'s side of the fee breakdown', async () => {
+      const invoice = await invoiceService.issueForSettlement(settlement.id);
+
+      expect(invoice.lines.map(line => line.code)).toEqual(['hammer', 'buyer_premium', 'buyer_premium_tax']);
+      expect(invoice.lines[0]!.description).toBe('Hammer price - CNC lathe');
+      expect(invoice.buyer).toMatchObject({ userId: ids.bidder, name: 'Asha Rao', email: 'bidder@example.com' });
+    });
+
+    it('hands back the invoice already issued instead of taking another number', async () => {
+      const first = await invoiceService.issueForSettlement(settlement.id);
+
+      await expect(invoiceService.issueForSettlement(settlement.id)).resolves.toBe(first);
+      expect(invoices).toHaveLength(1);
+    });
+
+    it('only invoices paid settlements and gives the number back on failure', async () => {
+      settlement.status = 'awaiting_payment';
+
+      await expect(invoiceService.issueForSettlement(settlement.id)).rejects.toMatchObject({ statusCode: 400 });
+      expect(invoices).toHaveLength(0);
+      expect(transaction.rollback).toHaveBeenCalled();
+    });
+  });
+
+  describe('issueCreditNote', () => {
+    let invoice: Invoice;
+
+    beforeEach(async () => {
+      invoice = await invoiceService.issueForSettlement(settlement.id);
+    });
+
+    it('splits a partial credit between taxable value and tax in the invoice\'s proportion', async () => {
+      const note = await invoiceService.issueCreditNote(invoice.id, 559, 'Partial refund');
+
+      expect(note).toMatchObject({
+        type: 'credit_note',
+        number: `CN/${financialYear}/000001`,
+        originalInvoiceId: invoice.id,
+        totalAmount: 559,
+        taxAmount: 9,
+        subtotal: 550
+      });
+    });
+
+    it('never credits more than is left on the invoice', async () => {
+      await invoiceService.issueCreditNote(invoice.id, 1000, 'Partial refund');
+
+      await expect(invoiceService.issueCreditNote(invoice.id, 200, 'Second refund'))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Credit amount must be between 0 and the uncredited 118' });
+      await expect(invoiceService.issueCreditNote(invoice.id, null, 'Rest')).resolves.toMatchObject({ totalAmount: 118 });
+    });
+  });
+
+  it('only shows an invoice to its buyer, the seller and admins', async () => {
+    const invoice = await invoiceService.issueForSettlement(settlement.id);
+
+    await expect(invoiceService.getInvoice(invoice.id, { id: ids.bidder, role: 'bidder' })).resolves.toBe(invoice);
+    await expect(invoiceService.getInvoice(invoice.id, { id: ids.seller, role: 'company', companyId: ids.company })).resolves.toBe(invoice);
+    await expect(invoiceService.getInvoice(invoice.id, { id: ids.rival, role: 'bidder' })).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('renders a PDF', async () => {
+    const invoice = await invoiceService.issueForSettlement(settlement.id);
+
+    expect(invoiceService.renderPdf(invoice).subarray(0, 5).toString()).toBe('%PDF-');
+  });
+});
\ No newline at end of file
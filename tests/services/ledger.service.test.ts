@@ -0,0 +1,275 @@
+import { CreationAttributes, Op } from 'sequelize';
+import sequelize from '../../src/config/database';
+import LedgerEntry, { LedgerAccount } from '../../src/database/models/LedgerEntry';
+import Payment from '../../src/database/models/Payment';
+import Payout from '../../src/database/models/Payout';
+import Settlement from '../../src/database/models/Settlement';
+import { ledgerService } from '../../src/services/ledger.service';
+import { schedulerService } from '../../src/services/scheduler.service';
+import { buildPayment, buildSettlement, ids, stubInstanceWrites, stubTransaction } from '../factories';
+
+jest.mock('../../src/services/scheduler.service', () => ({
+  schedulerService: { scheduleEscrowRelease: jest.fn() }
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type EntryFilter = Record<string, unknown>;
+
+// Plain values must be equal; `{ [Op.in]: [...] }` must contain the value
+const matches = (entry: LedgerEntry, where: EntryFilter = {}): boolean => Object.entries(where).every(([field, expected]) => {
+  const actual = entry.get(field);
+
+  if (expected && typeof expected === 'object' && Op.in in expected) {
+    return (expected as { [Op.in]: unknown[] })[Op.in].includes(actual);
+  }
+
+  return actual === expected;
+});
+
+describe('LedgerService', () => {
+  let entries: LedgerEntry[];
+  let settlement: Settlement;
+  let payouts: Payout[];
+
+  // cash is an asset, so it is the one account that grows with debits
+  const balance = (account: LedgerAccount, ownerId?: string): number => entries
+    .filter(entry => entry.account === account && (ownerId === undefined || entry.ownerId === ownerId))
+    .reduce((sum, entry) => sum + (entry.direction === (account === 'cash' ? 'debit' : 'credit') ? 1 : -1) * Number(entry.amount), 0);
+
+  const posted = (kind: string): LedgerEntry[] => entries.filter(entry => entry.kind === kind);
+
+  // A sale paid in full: 1000 hammer, 50 premium and 100 commission to the platform, 27 tax on them
+  const paid = (): Settlement => buildSettlement({
+    id: 's0000000-0000-4000-8000-000000000001',
+    status: 'paid',
+    hammerAmount: 1000,
+    commissionAmount: 150,
+    taxAmount: 27,
+    totalAmount: 1077,
+    paidAt: new Date(),
+    metadata: { fees: { buyerPremium: 50, sellerCommission: 100 } }
+  });
+
+  const payment = (): Payment => buildPayment({
+    id: 'p0000000-0000-4000-8000-000000000001',
+    amount: 1077,
+    status: 'completed'
+  });
+
+  beforeEach(() => {
+    entries = [];
+    payouts = [];
+    settlement = paid();
+
+    stubTransaction();
+    stubInstanceWrites();
+
+    jest.spyOn(sequelize, 'query').mockImplementation(async () => [[], 0]);
+    jest.spyOn(LedgerEntry, 'bulkCreate').mockImplementation(async lines => {
+      const created = lines.map(line => LedgerEntry.build(line as CreationAttributes<LedgerEntry>));
+      entries.push(...created);
+      return created;
+    });
+    jest.spyOn(LedgerEntry, 'count').mockImplementation(async options =>
+      entries.filter(entry => matches(entry, options?.where as EntryFilter)).length);
+    jest.spyOn(LedgerEntry, 'sum').mockImplementation(async (_field, options) => entries
+      .filter(entry => matches(entry, options?.where as EntryFilter))
+      .reduce((sum, entry) => sum + Number(entry.amount), 0));
+    jest.spyOn(LedgerEntry, 'findAll').mockImplementation(async options => {
+      const where = options?.where as EntryFilter;
+
+      if (!options?.group) {
+        return entries.filter(entry => matches(entry, where));
+      }
+
+      // The payout batch reads seller_available balances grouped by owner, as raw rows
+      const owners = new Set(entries.filter(entry => matches(entry, where)).map(entry => entry.ownerId as string));
+      const rows = [...owners].map(ownerId => ({ ownerId, currency: 'INR', balance: balance('seller_available', ownerId) }));
+      return rows as unknown as LedgerEntry[];
+    });
+
+    jest.spyOn(Settlement, 'findByPk').mockImplementation(async id => (id === settlement.id ? settlement : null));
+    jest.spyOn(Settlement, 'findOne').mockImplementation(async () =>
+      (settlement.escrowStatus === 'held' || settlement.escrowStatus === 'released' ? settlement : null));
+
+    jest.spyOn(Payout, 'create').mockImplementation(async values => {
+      const payout = Payout.build(values as CreationAttributes<Payout>);
+      payouts.push(payout);
+      return payout;
+    });
+    jest.spyOn(Payout, 'findByPk').mockImplementation(async id => payouts.find(payout => payout.id === id) ?? null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('recordPaymentReceived', () => {
+    it('holds the buyer\'s payment in escrow, once', async () => {
+      await ledgerService.recordPaymentReceived(payment());
+      await ledgerService.recordPaymentReceived(payment());
+
+      expect(posted('payment_received')).toHaveLength(2);
+      expect(balance('cash')).toBe(1077);
+      expect(balance('escrow', ids.bidder)).toBe(1077);
+    });
+
+    it('ignores a payment that has not completed', async () => {
+      await ledgerService.recordPaymentReceived(buildPayment({ status: 'created' }));
+
+      expect(entries).toHaveLength(0);
+    });
+  });
+
+  describe('allocateSettlement', () => {
+    it('splits escrow into fees, tax and the seller\'s share and starts the inspection window', async () => {
+      await ledgerService.recordPaymentReceived(payment());
+
+      await expect(ledgerService.allocateSettlement(settlement.id)).resolves.toBe(settlement);
+
+      expect(balance('escrow', ids.bidder)).toBe(0);
+      expect(balance('platform_revenue')).toBe(150);
+      expect(balance('tax_payable')).toBe(27);
+      expect(balance('seller_payable', ids.seller)).toBe(900);
+      expect(settlement.escrowStatus).toBe('held');
+      expect(settlement.escrowReleaseAt!.getTime() - settlement.paidAt!.getTime()).toBe(7 * DAY);
+      expect(schedulerService.scheduleEscrowRelease).toHaveBeenCalledWith(settlement);
+    });
+
+    it('leaves an unpaid or already allocated sale alone', async () => {
+      settlement = buildSettlement({ id: settlement.id });
+      await expect(ledgerService.allocateSettlement(settlement.id)).resolves.toBeNull();
+
+      settlement = paid();
+      settlement.escrowStatus = 'held';
+      await expect(ledgerService.allocateSettlement(settlement.id)).resolves.toBeNull();
+
+      expect(entries).toHaveLength(0);
+    });
+  });
+
+  describe('releasing escrow', () => {
+    beforeEach(async () => {
+      await ledgerService.recordPaymentReceived(payment());
+      await ledgerService.allocateSettlement(settlement.id);
+    });
+
+    it('waits for the inspection window to end', async () => {
+      await expect(ledgerService.releaseSettlement(settlement.id)).resolves.toBeNull();
+      expect(balance('seller_available', ids.seller)).toBe(0);
+
+      settlement.escrowReleaseAt = new Date(Date.now() - 1000);
+      await ledgerService.releaseSettlement(settlement.id);
+
+      expect(balance('seller_payable', ids.seller)).toBe(0);
+      expect(balance('seller_available', ids.seller)).toBe(900);
+      expect(settlement.escrowStatus).toBe('released');
+      expect(posted('funds_released')[0]!.description).toBe('Inspection window ended');
+    });
+
+    it('releases straight away once the buyer confirms delivery', async () => {
+      await ledgerService.confirmDelivery(settlement.id, ids.bidder);
+
+      expect(balance('seller_available', ids.seller)).toBe(900);
+      expect(posted('funds_released')[0]!.description).toBe('Delivery confirmed by buyer');
+    });
+
+    it('only takes delivery confirmation from the buyer', async () => {
+      await expect(ledgerService.confirmDelivery(settlement.id, ids.rival)).rejects.toMatchObject({ statusCode: 403 });
+      expect(settlement.escrowStatus).toBe('held');
+    });
+  });
+
+  describe('recordRefund', () => {
+    beforeEach(async () => {
+      await ledgerService.recordPaymentReceived(payment());
+      await ledgerService.allocateSettlement(settlement.id);
+    });
+
+    it('unwinds the sale on a full refund, leaving every account at zero', async () => {
+      await ledgerService.recordRefund(payment(), 1077, 'Item not as described');
+
+      (['cash', 'escrow', 'platform_revenue', 'tax_payable', 'seller_payable'] as LedgerAccount[])
+        .forEach(account => expect(balance(account)).toBe(0));
+      expect(settlement.escrowStatus).toBe('reversed');
+    });
+
+    it('charges a partial refund to the seller\'s share and lets the sale stand', async () => {
+      await ledgerService.recordRefund(payment(), 100, 'Missing accessory', true);
+
+      expect(balance('seller_payable', ids.seller)).toBe(800);
+      expect(balance('platform_revenue')).toBe(150);
+      expect(balance('cash')).toBe(977);
+      expect(settlement.escrowStatus).toBe('held');
+    });
+  });
+
+  describe('payouts', () => {
+    const other = 'u0000000-0000-4000-8000-000000000009';
+    const admin = 'u0000000-0000-4000-8000-000000000010';
+
+    beforeEach(async () => {
+      await ledgerService.recordPaymentReceived(payment());
+      await ledgerService.allocateSettlement(settlement.id);
+      await ledgerService.confirmDelivery(settlement.id, ids.bidder);
+
+      // Another seller with a balance below the payout minimum
+      entries.push(LedgerEntry.build({
+        transactionId: 't0000000-0000-4000-8000-000000000001',
+        account: 'seller_available',
+        ownerId: other,
+        direction: 'credit',
+        amount: 40,
+        currency: 'INR',
+        kind: 'funds_released'
+      } as CreationAttributes<LedgerEntry>));
+    });
+
+    it('pays out every available balance at or above the minimum', async () => {
+      const { batchId, payouts: batch } = await ledgerService.createPayoutBatch(admin, 100);
+
+      expect(batch).toHaveLength(1);
+      expect(batch[0]).toMatchObject({ batchId, sellerId: ids.seller, amount: 900, status: 'pending' });
+      expect(balance('seller_available', ids.seller)).toBe(0);
+      expect(balance('payouts_in_transit', ids.seller)).toBe(900);
+      expect(balance('seller_available', other)).toBe(40);
+    });
+
+    it('returns a failed payout to the seller\'s available balance', async () => {
+      const { payouts: [payout] } = await ledgerService.createPayoutBatch(admin, 100);
+
+      await ledgerService.completePayout(payout!.id, 'failed', { reason: 'Account closed' });
+
+      expect(balance('payouts_in_transit', ids.seller)).toBe(0);
+      expect(balance('seller_available', ids.seller)).toBe(900);
+      await expect(ledgerService.completePayout(payout!.id, 'paid')).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('takes a paid payout out of cash', async () => {
+      const { payouts: [payout] } = await ledgerService.createPayoutBatch(admin, 100);
+
+      await ledgerService.completePayout(payout!.id, 'paid', { reference: 'UTR0001' });
+
+      expect(balance('payouts_in_transit', ids.seller)).toBe(0);
+      expect(balance('cash')).toBe(177);
+      expect(payout!.reference).toBe('UTR0001');
+    });
+  });
+
+  it('balances debits and credits in every posting', async () => {
+    await ledgerService.recordPaymentReceived(payment());
+    await ledgerService.allocateSettlement(settlement.id);
+    await ledgerService.confirmDelivery(settlement.id, ids.bidder);
+    await ledgerService.createPayoutBatch(ids.seller);
+
+    const net = new Map<string, number>();
+    entries.forEach(entry => net.set(
+      entry.transactionId,
+      (net.get(entry.transactionId) || 0) + (entry.direction === 'debit' ? 1 : -1) * Number(entry.amount)
+    ));
+
+    expect(net.size).toBe(4);
+    net.forEach(difference => expect(difference).toBe(0));
+  });
+});
\ No newline at end of file
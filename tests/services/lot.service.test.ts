@@ -0,0 +1,161 @@
+import { Op, WhereOptions } from 'sequelize';
+import Auction from '../../src/database/models/Auction';
+import AuctionStatusHistory from '../../src/database/models/AuctionStatusHistory';
+import Lot from '../../src/database/models/Lot';
+import { lotService } from '../../src/services/lot.service';
+import { schedulerService } from '../../src/services/scheduler.service';
+import { FakeTransaction, buildAuction, buildLot, ids, stubInstanceWrites, stubTransaction } from '../factories';
+
+jest.mock('../../src/services/scheduler.service', () => ({
+  schedulerService: { scheduleAuction: jest.fn() }
+}));
+
+const minutesFromNow = (minutes: number): Date => new Date(Date.now() + minutes * 60 * 1000);
+
+// The lot queries filter on status as a value, Op.ne or Op.in
+const matchesStatus = (where: WhereOptions<Lot> | undefined, lot: Lot): boolean => {
+  const condition = where && 'status' in where ? where.status : undefined;
+
+  if (condition === undefined) {
+    return true;
+  }
+  if (condition && typeof condition === 'object') {
+    if (Op.ne in condition) {
+      return lot.status !== condition[Op.ne];
+    }
+    if (Op.in in condition) {
+      return (condition[Op.in] as string[]).includes(lot.status);
+    }
+  }
+
+  return lot.status === condition;
+};
+
+describe('LotService', () => {
+  let auction: Auction;
+  let lots: Lot[];
+  let transaction: FakeTransaction;
+
+  beforeEach(() => {
+    lots = [];
+    transaction = stubTransaction();
+    stubInstanceWrites();
+
+    jest.spyOn(Auction, 'findByPk').mockImplementation(async () => auction);
+    jest.spyOn(Lot, 'findByPk').mockImplementation(async id => lots.find(lot => lot.id === id) ?? null);
+    jest.spyOn(Lot, 'findOne').mockImplementation(async () => lots[0] ?? null);
+    jest.spyOn(Lot, 'findAll').mockImplementation(async options =>
+      lots.filter(lot => matchesStatus(options?.where as WhereOptions<Lot>, lot)).sort((a, b) => a.lotNumber - b.lotNumber)
+    );
+    jest.spyOn(Lot, 'count').mockImplementation(async options =>
+      lots.filter(lot => matchesStatus(options?.where as WhereOptions<Lot>, lot)).length
+    );
+    jest.spyOn(Lot, 'max').mockImplementation(async () => Math.max(0, ...lots.map(lot => lot.lotNumber)));
+    jest.spyOn(Lot, 'bulkCreate').mockImplementation(async records => {
+      const created = records.map((record, index) => buildLot({ ...record, id: `lot-${lots.length + index + 1}` }));
+      lots.push(...created);
+      return created;
+    });
+    jest.spyOn(AuctionStatusHistory, 'create').mockImplementation(async () => AuctionStatusHistory.build());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('addLots', () => {
+    beforeEach(() => {
+      auction = buildAuction({
+        status: 'scheduled',
+        auctionConfig: { startingBid: 1000, bidIncrement: 100, lotCloseInterval: 120 },
+        timing: { biddingStartsAt: minutesFromNow(60), biddingEndsAt: minutesFromNow(180) }
+      });
+    });
+
+    it('numbers new lots after the catalogue and staggers their closing times', async () => {
+      lots = [buildLot({ id: 'lot-1', lotNumber: 1 })];
+
+      await lotService.addLots(auction.id, [{ title: 'Press brake' }, { title: 'Forklift', reservePrice: 50000 }], ids.company);
+
+      const endsAt = new Date(auction.timing.biddingEndsAt).getTime();
+      expect(lots.map(lot => lot.lotNumber)).toEqual([1, 2, 3]);
+      expect(lots.map(lot => lot.closesAt!.getTime() - endsAt)).toEqual([0, 120 * 1000, 240 * 1000]);
+      expect(auction.metadata.lotCount).toBe(3);
+      expect(transaction.commit).toHaveBeenCalled();
+    });
+
+    it('only adds lots to an English event that has not gone live', async () => {
+      auction.format = 'dutch';
+      await expect(lotService.addLots(auction.id, [{ title: 'Press brake' }], ids.company))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Lots are only supported for english auctions' });
+
+      auction = buildAuction();
+      await expect(lotService.addLots(auction.id, [{ title: 'Press brake' }], ids.company))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Lots can only be changed before the auction goes live' });
+      expect(transaction.rollback).toHaveBeenCalledTimes(2);
+    });
+
+    it('only lets the selling company change the catalogue', async () => {
+      await expect(lotService.addLots(auction.id, [{ title: 'Press brake' }], 'another-company'))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  describe('closeLot', () => {
+    beforeEach(() => {
+      auction = buildAuction({ metadata: { lotCount: 2 } });
+      lots = [
+        buildLot({ id: 'lot-1', lotNumber: 1, closesAt: minutesFromNow(-1), reservePrice: 2000, currentHighestBid: 2500, currentHighestBidderId: ids.bidder }),
+        buildLot({ id: 'lot-2', lotNumber: 2, closesAt: minutesFromNow(1), reservePrice: 5000, currentHighestBid: 4000, currentHighestBidderId: ids.rival })
+      ];
+    });
+
+    it('sells a lot that met its reserve and leaves the event running while lots are open', async () => {
+      await expect(lotService.closeLot('lot-1')).resolves.toMatchObject({ outcome: 'won', eventOutcome: null });
+
+      expect(lots[0]).toMatchObject({ status: 'sold', winnerId: ids.bidder, winnerAmount: 2500 });
+      expect(auction.status).toBe('live');
+    });
+
+    it('waits for the lot\'s own closing time', async () => {
+      await expect(lotService.closeLot('lot-2')).resolves.toBeNull();
+
+      expect(lots[1]!.status).toBe('open');
+      expect(transaction.rollback).toHaveBeenCalled();
+    });
+
+    it('ends the event with the sold lots rolled up when the last lot closes', async () => {
+      await lotService.closeLot('lot-1');
+      lots[1]!.closesAt = minutesFromNow(-1);
+
+      await expect(lotService.closeLot('lot-2')).resolves.toMatchObject({ outcome: 'reserve_not_met', eventOutcome: 'won' });
+
+      expect(lots[1]).toMatchObject({ status: 'unsold', winnerId: null });
+      expect(auction).toMatchObject({ status: 'ended', finalAmount: 2500 });
+      expect(auction.metadata).toMatchObject({ lotsSold: 1, lotsUnsold: 1 });
+    });
+  });
+
+  describe('withdrawLot', () => {
+    beforeEach(() => {
+      auction = buildAuction({ metadata: { lotCount: 1 } });
+    });
+
+    it('refuses to withdraw a lot that already has bids', async () => {
+      lots = [buildLot({ totalBids: 2 })];
+
+      await expect(lotService.withdrawLot(auction.id, ids.lot, ids.company))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Cannot withdraw a lot that has bids' });
+    });
+
+    it('ends a live event when its last open lot is withdrawn', async () => {
+      lots = [buildLot()];
+
+      await expect(lotService.withdrawLot(auction.id, ids.lot, ids.company)).resolves.toMatchObject({ eventOutcome: 'no_bids' });
+
+      expect(lots[0]!.status).toBe('withdrawn');
+      expect(auction).toMatchObject({ status: 'ended', metadata: expect.objectContaining({ lotCount: 0 }) });
+      expect(schedulerService.scheduleAuction).toHaveBeenCalledWith(auction);
+    });
+  });
+});
\ No newline at end of file
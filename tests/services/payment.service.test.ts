@@ -0,0 +1,117 @@
+import Payment from '../../src/database/models/Payment';
+import BidderDeposit from '../../src/database/models/BidderDeposit';
+import { paymentService } from '../../src/services/payment.service';
+import { mockProvider, paymentProviders } from '../../src/services/providers';
+import { buildPayment, stubInstanceWrites } from '../factories';
+
+// The real gateways need SDKs and credentials; these tests only use the mock one
+jest.mock('../../src/services/providers/stripe.provider', () => ({
+  StripeProvider: jest.fn(() => ({ name: 'stripe', isConfigured: () => false }))
+}));
+jest.mock('../../src/services/providers/razorpay.provider', () => ({
+  RazorpayProvider: jest.fn(() => ({ name: 'razorpay', isConfigured: () => false }))
+}));
+jest.mock('../../src/services/settlement.service', () => ({
+  settlementService: { recordPayment: jest.fn() }
+}));
+jest.mock('../../src/services/ledger.service', () => ({
+  ledgerService: { recordPaymentReceived: jest.fn() }
+}));
+jest.mock('../../src/services/refund.service', () => ({
+  refundService: { refundRemaining: jest.fn(), recordProviderRefund: jest.fn() }
+}));
+
+describe('PaymentProviderRegistry', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('refuses a provider it does not know', () => {
+    expect(() => paymentProviders.get('paypal')).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+
+  it('refuses a provider without credentials', () => {
+    expect(() => paymentProviders.get('stripe')).toThrow(expect.objectContaining({ statusCode: 503 }));
+  });
+
+  it('routes by currency unless a provider is chosen', () => {
+    process.env['PAYMENT_PROVIDER_ROUTES'] = 'INR:mock,*:stripe';
+
+    expect(paymentProviders.resolve('inr').name).toBe('mock');
+    expect(() => paymentProviders.resolve('USD')).toThrow(expect.objectContaining({ statusCode: 503 }));
+    expect(paymentProviders.resolve('USD', 'mock').name).toBe('mock');
+  });
+
+  it('sends every payment through PAYMENT_PROVIDER when it is set', () => {
+    process.env['PAYMENT_PROVIDER'] = 'mock';
+
+    expect(paymentProviders.resolve('USD').name).toBe('mock');
+  });
+
+  it('never offers the mock gateway in production', () => {
+    process.env['NODE_ENV'] = 'production';
+
+    expect(() => paymentProviders.get('mock')).toThrow(expect.objectContaining({ statusCode: 503 }));
+  });
+});
+
+describe('PaymentService with the mock gateway', () => {
+  const env = { ...process.env };
+  let stored: Payment;
+
+  beforeEach(() => {
+    process.env['PAYMENT_PROVIDER'] = 'mock';
+    mockProvider.reset();
+    stubInstanceWrites();
+
+    jest.spyOn(Payment, 'create').mockImplementation(async values => {
+      stored = buildPayment(values);
+      return stored;
+    });
+    jest.spyOn(Payment, 'findOne').mockImplementation(async () => stored);
+    jest.spyOn(BidderDeposit, 'update').mockResolvedValue([0]);
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  it('opens an order and completes it once the checkout signature checks out', async () => {
+    const order = await paymentService.createPaymentOrder({ amount: 2500, currency: 'INR', userId: 'bidder-1' });
+
+    expect(order).toMatchObject({ provider: 'mock', orderId: 'mock_order_000001', amount: 2500 });
+    expect(stored.status).toBe('created');
+
+    const checkout = mockProvider.pay(order.orderId);
+
+    await expect(paymentService.verifyCheckout('mock', checkout.paymentId, order.orderId, checkout.signature))
+      .resolves.toBe(true);
+    expect(stored.status).toBe('completed');
+    expect(stored.providerPaymentId).toBe(checkout.paymentId);
+  });
+
+  it('leaves the payment alone when the signature is wrong', async () => {
+    const order = await paymentService.createPaymentOrder({ amount: 2500, userId: 'bidder-1' });
+    const checkout = mockProvider.pay(order.orderId);
+
+    await expect(paymentService.verifyCheckout('mock', checkout.paymentId, order.orderId, 'forged'))
+      .resolves.toBe(false);
+    expect(stored.status).toBe('created');
+  });
+
+  it('holds a deposit for later capture', async () => {
+    const hold = await paymentService.createDepositHold({ amount: 500, userId: 'bidder-1', auctionId: 'auction-1' });
+
+    expect(hold.payment.metadata).toMatchObject({ type: 'deposit' });
+
+    mockProvider.pay(hold.orderId);
+    await paymentService.captureDepositHold(hold.payment);
+
+    await expect(mockProvider.getStatus({ orderId: hold.orderId, amount: 500, currency: 'INR' }))
+      .resolves.toMatchObject({ status: 'completed' });
+    expect(hold.payment.status).toBe('completed');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { CreationAttributes } from 'sequelize';
+import Role from '../../src/database/models/Role';
+import User from '../../src/database/models/User';
+import UserRole from '../../src/database/models/UserRole';
+import { requirePermission } from '../../src/middleware/auth.middleware';
+import { SUPER_ADMIN_ROLE, SYSTEM_ROLES, permissionService } from '../../src/services/permission.service';
+import fakeRedis from '../fakeRedis';
+import { buildUser } from '../factories';
+
+jest.mock('../../src/config/redis', () => require('../fakeRedis'));
+
+const MODERATOR_ID = 'u0000000-0000-4000-8000-000000000010';
+const SUPER_ADMIN_ID = 'u0000000-0000-4000-8000-000000000011';
+const STAFF_ID = 'u0000000-0000-4000-8000-000000000012';
+
+const systemRole = (name: string): Role => {
+  const definition = SYSTEM_ROLES.find(role => role.name === name)!;
+
+  return Role.build({
+    id: `r0000000-0000-4000-8000-00000000000${SYSTEM_ROLES.indexOf(definition) + 1}`,
+    name: definition.name,
+    description: definition.description,
+    permissions: [...definition.permissions],
+    isSystem: true
+  } as CreationAttributes<Role>);
+};
+
+describe('PermissionService', () => {
+  let moderator: User;
+  let superAdmin: User;
+  // Role ids held by each user, standing in for the user_roles table
+  let holdings: Map<string, string[]>;
+  let roles: Role[];
+
+  beforeEach(() => {
+    fakeRedis.reset();
+
+    moderator = buildUser({ id: MODERATOR_ID, email: 'moderator@example.com', role: 'admin' });
+    superAdmin = buildUser({ id: SUPER_ADMIN_ID, email: 'root@example.com', role: 'admin' });
+    roles = [systemRole(SUPER_ADMIN_ROLE), systemRole('moderator')];
+    holdings = new Map([
+      [MODERATOR_ID, [roles[1]!.id]],
+      [SUPER_ADMIN_ID, [roles[0]!.id]]
+    ]);
+
+    jest.spyOn(UserRole, 'findAll').mockImplementation(async options => {
+      const { userId } = options?.where as { userId: string };
+      const held = holdings.get(userId) ?? [];
+
+      return held.map(roleId => ({ userId, roleId, role: roles.find(role => role.id === roleId) })) as unknown as UserRole[];
+    });
+    jest.spyOn(UserRole, 'findOrCreate').mockImplementation(async options => {
+      const { userId, roleId } = options.where as { userId: string; roleId: string };
+      holdings.set(userId, [...(holdings.get(userId) ?? []), roleId]);
+      return [UserRole.build({ userId, roleId, assignedBy: null } as CreationAttributes<UserRole>), true];
+    });
+    jest.spyOn(Role, 'findByPk').mockImplementation(async id => roles.find(role => role.id === id) ?? null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getPermissions', () => {
+    it('only counts staff roles while the account is an admin', async () => {
+      await expect(permissionService.getPermissions({ id: MODERATOR_ID, role: 'company' })).resolves.toEqual([]);
+      expect(UserRole.findAll).not.toHaveBeenCalled();
+    });
+
+    it('caches the permissions until they are cleared', async () => {
+      await permissionService.getPermissions(moderator);
+      holdings.set(MODERATOR_ID, [roles[0]!.id]);
+
+      await expect(permissionService.getPermissions(moderator)).resolves.not.toContain('role.manage');
+
+      await permissionService.clearCache(MODERATOR_ID);
+
+      await expect(permissionService.getPermissions(moderator)).resolves.toContain('role.manage');
+    });
+  });
+
+  describe('assignRole', () => {
+    it('stops a moderator from handing out permissions they do not hold', async () => {
+      const staff = buildUser({ id: STAFF_ID, email: 'staff@example.com', role: 'admin' });
+      jest.spyOn(User, 'findByPk').mockImplementation(async () => staff);
+
+      await expect(permissionService.assignRole(STAFF_ID, roles[0]!.id, moderator))
+        .rejects.toMatchObject({ statusCode: 403 });
+      await expect(permissionService.assignRole(MODERATOR_ID, roles[0]!.id, moderator))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(UserRole.findOrCreate).not.toHaveBeenCalled();
+
+      await expect(permissionService.assignRole(STAFF_ID, roles[1]!.id, superAdmin))
+        .resolves.toEqual([roles[1]]);
+    });
+  });
+
+  describe('requirePermission', () => {
+    const run = async (user: User, ...required: Parameters<typeof requirePermission>) => {
+      const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+      const next = jest.fn();
+      const req = { user: user.toJSON(), method: 'PUT', originalUrl: `/api/admin/users/${MODERATOR_ID}/role` };
+
+      await requirePermission(...required)(req as unknown as Request, res as unknown as Response, next);
+
+      return { res, next };
+    };
+
+    // The guard on PUT /admin/users/:userId/role, which can make someone an admin
+    it('keeps moderators from changing user roles', async () => {
+      const { res, next } = await run(moderator, 'role.manage');
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'Access denied. Required permissions: role.manage' }));
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('lets a super admin through', async () => {
+      const { res, next } = await run(superAdmin, 'role.manage');
+
+      expect(next).toHaveBeenCalled();
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('still lets moderators manage user status', async () => {
+      const { next } = await run(moderator, 'user.manage');
+
+      expect(next).toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { CreationAttributes } from 'sequelize';
+import Payment from '../../src/database/models/Payment';
+import ReconciliationReport from '../../src/database/models/ReconciliationReport';
+import { paymentService } from '../../src/services/payment.service';
+import { mockProvider } from '../../src/services/providers';
+import { reconciliationService } from '../../src/services/reconciliation.service';
+import { buildPayment, stubInstanceWrites } from '../factories';
+
+// The real gateways need SDKs and credentials; these tests only use the mock one
+jest.mock('../../src/services/providers/stripe.provider', () => ({
+  StripeProvider: jest.fn(() => ({ name: 'stripe', isConfigured: () => false }))
+}));
+jest.mock('../../src/services/providers/razorpay.provider', () => ({
+  RazorpayProvider: jest.fn(() => ({ name: 'razorpay', isConfigured: () => false }))
+}));
+jest.mock('../../src/services/payment.service', () => ({
+  paymentService: { markCompleted: jest.fn(), markAuthorised: jest.fn(), markFailed: jest.fn() }
+}));
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+describe('ReconciliationService', () => {
+  let payments: Payment[];
+  let reports: ReconciliationReport[];
+
+  // A payment we stored for an order opened at the mock gateway
+  const stored = async (amount: number, fields: Parameters<typeof buildPayment>[0] = {}): Promise<Payment> => {
+    const order = await mockProvider.createOrder({ amount, currency: 'INR', receipt: `receipt-${payments.length + 1}` });
+    const payment = buildPayment({ providerOrderId: order.orderId, amount, ...fields });
+    payment.setDataValue('createdAt', new Date());
+    payments.push(payment);
+    return payment;
+  };
+
+  const byOrder = (orderId: string): Payment => payments.find(payment => payment.providerOrderId === orderId)!;
+
+  beforeEach(() => {
+    mockProvider.reset();
+    stubInstanceWrites();
+    payments = [];
+    reports = [];
+
+    jest.spyOn(Payment, 'findAll').mockImplementation(async () => payments);
+    jest.spyOn(ReconciliationReport, 'findOne').mockImplementation(async () => reports[0] ?? null);
+    jest.spyOn(ReconciliationReport, 'create').mockImplementation(async values => {
+      const report = ReconciliationReport.build(values as CreationAttributes<ReconciliationReport>);
+      reports.push(report);
+      return report;
+    });
+
+    // The payment service moves the stored row, as it would in the database
+    jest.mocked(paymentService.markCompleted).mockImplementation(async orderId => {
+      byOrder(orderId).status = 'completed';
+      return byOrder(orderId);
+    });
+    jest.mocked(paymentService.markFailed).mockImplementation(async orderId => {
+      byOrder(orderId).status = 'failed';
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('names the previous UTC day', () => {
+    expect(reconciliationService.previousDay(new Date('2026-03-01T00:30:00Z'))).toBe('2026-02-28');
+  });
+
+  it('refuses a malformed date or one that has not started', async () => {
+    await expect(reconciliationService.run('01/02/2026')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(reconciliationService.run('2999-01-01')).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('completes a payment whose verify call and webhook were both missed', async () => {
+    const payment = await stored(1000);
+    mockProvider.pay(payment.providerOrderId);
+
+    const [report] = await reconciliationService.run(today());
+
+    expect(paymentService.markCompleted).toHaveBeenCalledWith(payment.providerOrderId, expect.stringMatching(/^mock_pay_/));
+    expect(report).toMatchObject({ provider: 'mock', status: 'completed', discrepancies: [] });
+    expect(report!.fixes).toEqual([
+      { paymentId: payment.id, providerOrderId: payment.providerOrderId, from: 'created', to: 'completed', reason: 'Paid at provider' }
+    ]);
+    expect(report!.summary.collected).toEqual({ INR: 1000 });
+  });
+
+  it('gives up on a checkout left unpaid past the stale window', async () => {
+    const payment = await stored(1000);
+    payment.setDataValue('createdAt', new Date(Date.now() - 25 * 60 * 60 * 1000));
+
+    const [report] = await reconciliationService.run(today());
+
+    expect(paymentService.markFailed).toHaveBeenCalledWith(payment.providerOrderId, 'Checkout abandoned');
+    expect(report!.fixes).toMatchObject([{ from: 'created', to: 'failed' }]);
+  });
+
+  it('reports disagreements it should not settle on its own', async () => {
+    const charged = await stored(1000, { status: 'failed' });
+    mockProvider.pay(charged.providerOrderId);
+
+    const short = await stored(1200, { status: 'completed' });
+    short.amount = 1000;
+    mockProvider.pay(short.providerOrderId);
+
+    const unknown = await mockProvider.createOrder({ amount: 500, currency: 'INR', receipt: 'receipt-lost' });
+
+    const [report] = await reconciliationService.run(today());
+
+    expect(report!.fixes).toEqual([]);
+    expect(report!.discrepancies).toEqual([
+      expect.objectContaining({ type: 'status_mismatch', paymentId: charged.id, ours: 'failed', provider: 'completed' }),
+      expect.objectContaining({ type: 'amount_mismatch', paymentId: short.id, ours: 1000, provider: 1200 }),
+      expect.objectContaining({ type: 'unknown_at_provider', paymentId: null, providerOrderId: unknown.orderId })
+    ]);
+    expect(paymentService.markCompleted).not.toHaveBeenCalled();
+  });
+
+  it('saves a failed report when the provider cannot be reached, and replaces it on a rerun', async () => {
+    jest.spyOn(mockProvider, 'listTransactions').mockRejectedValueOnce(new Error('gateway timeout'));
+
+    const [failed] = await reconciliationService.run(today());
+    expect(failed).toMatchObject({ status: 'failed', error: 'gateway timeout' });
+
+    const [rerun] = await reconciliationService.run(today());
+
+    expect(rerun).toBe(failed);
+    expect(rerun).toMatchObject({ status: 'completed', error: null });
+    expect(reports).toHaveLength(1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,198 @@
+import { CreationAttributes } from 'sequelize';
+import Payment from '../../src/database/models/Payment';
+import Refund from '../../src/database/models/Refund';
+import { invoiceService } from '../../src/services/invoice.service';
+import { ledgerService } from '../../src/services/ledger.service';
+import { mockProvider } from '../../src/services/providers';
+import { refundService } from '../../src/services/refund.service';
+import { buildPayment, ids, stubInstanceWrites, stubTransaction } from '../factories';
+
+// The real gateways need SDKs and credentials; these tests only use the mock one
+jest.mock('../../src/services/providers/stripe.provider', () => ({
+  StripeProvider: jest.fn(() => ({ name: 'stripe', isConfigured: () => false }))
+}));
+jest.mock('../../src/services/providers/razorpay.provider', () => ({
+  RazorpayProvider: jest.fn(() => ({ name: 'razorpay', isConfigured: () => false }))
+}));
+jest.mock('../../src/services/ledger.service', () => ({
+  ledgerService: { recordRefund: jest.fn() }
+}));
+jest.mock('../../src/services/invoice.service', () => ({
+  invoiceService: { creditRefund: jest.fn() }
+}));
+
+const ADMIN_ID = 'u0000000-0000-4000-8000-000000000099';
+
+describe('RefundService', () => {
+  let payment: Payment;
+  let refunds: Refund[];
+
+  // Take a payment through the mock checkout the way a buyer would
+  const checkout = async (amount: number): Promise<Payment> => {
+    const order = await mockProvider.createOrder({ amount, currency: 'INR', receipt: 'receipt-1' });
+    const paid = mockProvider.pay(order.orderId);
+
+    return buildPayment({
+      id: 'p0000000-0000-4000-8000-000000000001',
+      providerOrderId: order.orderId,
+      providerPaymentId: paid.paymentId,
+      amount,
+      status: 'completed'
+    });
+  };
+
+  beforeEach(async () => {
+    mockProvider.reset();
+    refunds = [];
+    payment = await checkout(1000);
+
+    stubTransaction();
+    stubInstanceWrites();
+
+    jest.spyOn(Payment, 'findByPk').mockImplementation(async id => (id === payment.id ? payment : null));
+    jest.spyOn(Refund, 'create').mockImplementation(async values => {
+      const refund = Refund.build(values as CreationAttributes<Refund>);
+      refunds.push(refund);
+      return refund;
+    });
+    jest.spyOn(Refund, 'findByPk').mockImplementation(async id => refunds.find(refund => refund.id === id) ?? null);
+    jest.spyOn(Refund, 'findOne').mockImplementation(async options => {
+      const { providerRefundId } = options?.where as { providerRefundId: string | null };
+      return refunds.find(refund => refund.providerRefundId === providerRefundId) ?? null;
+    });
+    // Requested and processing refunds hold money back from further refunds
+    jest.spyOn(Refund, 'sum').mockImplementation(async () =>
+      refunds.filter(refund => refund.isOpen()).reduce((sum, refund) => sum + Number(refund.amount), 0));
+    // Claims a refund that is still waiting for review
+    jest.spyOn(Refund, 'update').mockImplementation(async (values, options) => {
+      const { id } = options.where as { id: string };
+      const refund = refunds.find(candidate => candidate.id === id && candidate.status === 'requested');
+
+      refund?.set(values);
+      return [refund ? 1 : 0];
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createRefund', () => {
+    it('refunds a payment in parts until nothing is left', async () => {
+      const partial = await refundService.createRefund(payment.id, ADMIN_ID, 400, 'Damaged in transit');
+
+      expect(partial).toMatchObject({ status: 'succeeded', reviewedBy: ADMIN_ID });
+      expect(partial.providerRefundId).toMatch(/^mock_refund_/);
+      expect(payment).toMatchObject({ status: 'partially_refunded', refundedAmount: 400 });
+      expect(ledgerService.recordRefund).toHaveBeenCalledWith(payment, 400, 'Damaged in transit', true);
+      expect(invoiceService.creditRefund).toHaveBeenCalledWith(payment.id, 400, 'Damaged in transit');
+
+      // Without an amount, whatever is left is refunded
+      const rest = await refundService.createRefund(payment.id, ADMIN_ID, null, null);
+
+      expect(Number(rest.amount)).toBe(600);
+      expect(payment).toMatchObject({ status: 'refunded', refundedAmount: 1000 });
+      await expect(mockProvider.getStatus({
+        orderId: payment.providerOrderId,
+        paymentId: payment.providerPaymentId || null,
+        amount: 1000,
+        currency: 'INR'
+      })).resolves.toMatchObject({ status: 'refunded', amountRefunded: 1000 });
+
+      await expect(refundService.createRefund(payment.id, ADMIN_ID, 1, null)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('only refunds completed payments', async () => {
+      payment.status = 'created';
+
+      await expect(refundService.createRefund(payment.id, ADMIN_ID, 100, null))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Only completed payments can be refunded' });
+      expect(refunds).toHaveLength(0);
+    });
+
+    it('fails the refund when the provider refuses it', async () => {
+      // The gateway has no record of this order being paid
+      payment.providerOrderId = (await mockProvider.createOrder({ amount: 1000, currency: 'INR', receipt: 'receipt-2' })).orderId;
+
+      await expect(refundService.createRefund(payment.id, ADMIN_ID, 100, null)).rejects.toMatchObject({ statusCode: 502 });
+
+      expect(refunds[0]!.status).toBe('failed');
+      expect(payment.status).toBe('completed');
+    });
+
+    it('keeps the refund processing when recording fails after the provider accepted it', async () => {
+      jest.spyOn(Refund.prototype, 'save')
+        .mockImplementationOnce(async function (this: Refund) {
+          return this;
+        })
+        .mockRejectedValueOnce(new Error('connection lost'));
+
+      const refund = await refundService.createRefund(payment.id, ADMIN_ID, 100, null);
+
+      expect(refund.status).toBe('processing');
+      expect(payment.status).toBe('completed');
+    });
+  });
+
+  describe('buyer requests', () => {
+    it('never reserves more than is left, counting refunds still waiting for review', async () => {
+      await refundService.requestRefund(payment.id, ids.bidder, 700, 'Changed my mind');
+
+      await expect(refundService.createRefund(payment.id, ADMIN_ID, 400, null)).rejects.toMatchObject({
+        statusCode: 400,
+        data: { refundable: 300 }
+      });
+    });
+
+    it('hides another buyer\'s payment', async () => {
+      await expect(refundService.requestRefund(payment.id, ids.rival, null, null)).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('sends an approved request to the provider, once', async () => {
+      const request = await refundService.requestRefund(payment.id, ids.bidder, 300, 'Changed my mind');
+
+      await expect(refundService.approveRefund(request.id, ADMIN_ID)).resolves.toMatchObject({ status: 'succeeded', reviewedBy: ADMIN_ID });
+      await expect(refundService.approveRefund(request.id, ADMIN_ID))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Refund is already succeeded' });
+      expect(payment.refundedAmount).toBe(300);
+    });
+
+    it('frees the amount again when a request is rejected', async () => {
+      const request = await refundService.requestRefund(payment.id, ids.bidder, null, null);
+
+      await refundService.rejectRefund(request.id, ADMIN_ID, 'Outside the return window');
+
+      expect(request).toMatchObject({ status: 'rejected', reviewNote: 'Outside the return window' });
+      await expect(refundService.createRefund(payment.id, ADMIN_ID, 1000, null)).resolves.toMatchObject({ status: 'succeeded' });
+    });
+  });
+
+  describe('provider reports', () => {
+    it('records a refund made outside the platform once, however often it is reported', async () => {
+      const reported = { providerRefundId: 'mock_refund_dashboard', amount: 250, reason: 'Refunded from the dashboard' };
+
+      await refundService.recordProviderRefund(payment, reported);
+      await refundService.recordProviderRefund(payment, reported);
+
+      expect(refunds).toHaveLength(1);
+      expect(refunds[0]).toMatchObject({ status: 'succeeded', requestedBy: null });
+      expect(payment).toMatchObject({ status: 'partially_refunded', refundedAmount: 250 });
+      expect(ledgerService.recordRefund).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails a processing refund the provider could not pay out', async () => {
+      jest.spyOn(Refund.prototype, 'save')
+        .mockImplementationOnce(async function (this: Refund) {
+          return this;
+        })
+        .mockRejectedValueOnce(new Error('connection lost'));
+      const refund = await refundService.createRefund(payment.id, ADMIN_ID, 100, null);
+      refund.providerRefundId = 'mock_refund_late';
+
+      await refundService.recordProviderRefundFailure('mock', 'mock_refund_late', 'Account closed');
+
+      expect(refund).toMatchObject({ status: 'failed', failureReason: 'Account closed' });
+      expect(payment.status).toBe('completed');
+    });
+  });
+});
\ No newline at end of file
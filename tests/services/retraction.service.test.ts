@@ -0,0 +1,185 @@
+import { CreationAttributes, Op, WhereOptions } from 'sequelize';
+import Auction from '../../src/database/models/Auction';
+import AuctionStatusHistory from '../../src/database/models/AuctionStatusHistory';
+import AutoBid from '../../src/database/models/AutoBid';
+import Bid from '../../src/database/models/Bid';
+import BidRetraction from '../../src/database/models/BidRetraction';
+import Lot from '../../src/database/models/Lot';
+import Payment from '../../src/database/models/Payment';
+import User from '../../src/database/models/User';
+import { retractionService } from '../../src/services/retraction.service';
+import {
+  FakeTransaction,
+  buildAuction,
+  buildAutoBid,
+  buildBid,
+  buildUser,
+  ids,
+  stubInstanceWrites,
+  stubTransaction
+} from '../factories';
+
+jest.mock('../../src/services/deposit.service', () => ({
+  depositService: { getRequiredDeposit: jest.fn(() => 0), hasActiveDeposit: jest.fn() }
+}));
+jest.mock('../../src/services/scheduler.service', () => ({
+  schedulerService: { scheduleAuction: jest.fn() }
+}));
+
+const minutesAgo = (minutes: number): Date => new Date(Date.now() - minutes * 60 * 1000);
+
+// Bids still standing that meet a query's bidderId and status conditions
+const standing = (bids: Bid[], where: WhereOptions<Bid> | undefined): Bid[] => {
+  const { bidderId, status } = (where || {}) as { bidderId?: string; status?: unknown };
+
+  return bids.filter(bid =>
+    !['withdrawn', 'invalid'].includes(bid.status) &&
+    (bidderId === undefined || bid.bidderId === bidderId) &&
+    (typeof status !== 'string' || bid.status === status)
+  );
+};
+
+describe('RetractionService', () => {
+  let auction: Auction;
+  let bids: Bid[];
+  let autoBids: AutoBid[];
+  let retractions: BidRetraction[];
+  let transaction: FakeTransaction;
+
+  // The bidder's typo took the lead at 20000 over the rival's 2000
+  let typo: Bid;
+
+  beforeEach(() => {
+    auction = buildAuction({ currentHighestBid: 20000, currentHighestBidderId: ids.bidder, totalBids: 3, totalBidders: 2 });
+    typo = buildBid({ amount: 20000, status: 'winning', createdAt: minutesAgo(1) });
+    bids = [
+      buildBid({ bidderId: ids.rival, amount: 1500, status: 'outbid', createdAt: minutesAgo(30) }),
+      buildBid({ bidderId: ids.rival, amount: 2000, status: 'outbid', createdAt: minutesAgo(20) }),
+      typo
+    ];
+    autoBids = [];
+    retractions = [];
+
+    transaction = stubTransaction();
+    stubInstanceWrites();
+
+    const users = [buildUser(), buildUser({ id: ids.rival, email: 'rival@example.com' })];
+
+    jest.spyOn(Auction, 'findByPk').mockImplementation(async () => auction);
+    jest.spyOn(Bid, 'findByPk').mockImplementation(async id => bids.find(bid => bid.id === id) ?? null);
+    jest.spyOn(Bid, 'findOne').mockImplementation(async options =>
+      standing(bids, options?.where as WhereOptions<Bid>)
+        .sort((a, b) => Number(b.amount) - Number(a.amount) || a.createdAt.getTime() - b.createdAt.getTime())[0] ?? null
+    );
+    jest.spyOn(Bid, 'update').mockImplementation(async values => {
+      const changed = bids.filter(bid => ['winning', 'active'].includes(bid.status));
+      changed.forEach(bid => Object.assign(bid, values));
+      return [changed.length];
+    });
+    jest.spyOn(Bid, 'count').mockImplementation(async options => standing(bids, options?.where as WhereOptions<Bid>).length);
+    jest.spyOn(Bid, 'create').mockImplementation(async values => {
+      const bid = buildBid(values);
+      bids.push(bid);
+      return bid;
+    });
+
+    jest.spyOn(AutoBid, 'findAll').mockImplementation(async () => autoBids.filter(autoBid => autoBid.status === 'active'));
+    jest.spyOn(AutoBid, 'update').mockImplementation(async (values, options) => {
+      const where = options.where as { bidderId?: string | { [Op.ne]: string } };
+      const changed = autoBids.filter(autoBid =>
+        autoBid.status === 'active' &&
+        (typeof where.bidderId === 'string' ? autoBid.bidderId === where.bidderId : autoBid.bidderId !== where.bidderId?.[Op.ne])
+      );
+      changed.forEach(autoBid => Object.assign(autoBid, values));
+      return [changed.length];
+    });
+
+    jest.spyOn(BidRetraction, 'count').mockImplementation(async () => retractions.filter(retraction => retraction.status === 'pending').length);
+    jest.spyOn(BidRetraction, 'create').mockImplementation(async values => {
+      const retraction = BidRetraction.build(values as CreationAttributes<BidRetraction>);
+      retractions.push(retraction);
+      return retraction;
+    });
+    jest.spyOn(BidRetraction, 'findByPk').mockImplementation(async id => retractions.find(retraction => retraction.id === id) ?? null);
+
+    jest.spyOn(User, 'findByPk').mockImplementation(async id => users.find(user => user.id === id) ?? null);
+    jest.spyOn(User, 'findAll').mockImplementation(async () => users);
+    jest.spyOn(Auction, 'findAll').mockResolvedValue([]);
+    jest.spyOn(Lot, 'findAll').mockResolvedValue([]);
+    jest.spyOn(Payment, 'findAll').mockResolvedValue([]);
+    jest.spyOn(AuctionStatusHistory, 'create').mockImplementation(async () => AuctionStatusHistory.build());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('applies a retraction inside the grace window and rolls the lead back', async () => {
+    const { retraction, outcome } = await retractionService.requestRetraction(typo.id, ids.bidder, 'amount_typo');
+
+    expect(retraction).toMatchObject({ status: 'approved', autoApproved: true });
+    expect(outcome).toMatchObject({ previousLeaderId: ids.bidder, leaderId: ids.rival, previousHighestBid: 20000, currentHighestBid: 2000 });
+    expect(typo.status).toBe('withdrawn');
+    expect(bids[1]!.status).toBe('winning');
+    expect(auction).toMatchObject({ currentHighestBid: 2000, currentHighestBidderId: ids.rival });
+    expect(AuctionStatusHistory.create).toHaveBeenCalledWith(
+      expect.objectContaining({ metadata: expect.objectContaining({ event: 'bid_retraction' }) }),
+      expect.anything()
+    );
+    expect(transaction.commit).toHaveBeenCalled();
+  });
+
+  it('keeps the retracting bidder\'s other bids in the running', async () => {
+    bids.push(buildBid({ amount: 2500, status: 'outbid', createdAt: minutesAgo(10) }));
+
+    const { outcome } = await retractionService.requestRetraction(typo.id, ids.bidder, 'amount_typo');
+
+    expect(outcome).toMatchObject({ leaderId: ids.bidder, currentHighestBid: 2500 });
+  });
+
+  it('cancels the retracting bidder\'s proxy and lets a standing proxy answer the rolled-back price', async () => {
+    bids.push(buildBid({ amount: 2500, status: 'outbid', createdAt: minutesAgo(10) }));
+    autoBids = [
+      buildAutoBid({ maxAmount: 30000, createdAt: minutesAgo(5) }),
+      buildAutoBid({ bidderId: ids.rival, maxAmount: 5000, createdAt: minutesAgo(25) })
+    ];
+
+    const { outcome } = await retractionService.requestRetraction(typo.id, ids.bidder, 'amount_typo');
+
+    expect(autoBids[0]!.status).toBe('cancelled');
+    // The bidder's 2500 leads the ledger, and the rival's 5000 ceiling answers it
+    expect(outcome).toMatchObject({ leaderId: ids.rival, currentHighestBid: 2600 });
+    expect(bids[bids.length - 1]).toMatchObject({ bidderId: ids.rival, amount: 2600, isAutoBid: true, status: 'winning' });
+  });
+
+  it('queues a retraction outside the grace window for review', async () => {
+    typo.setDataValue('createdAt', minutesAgo(60));
+
+    const { retraction, outcome } = await retractionService.requestRetraction(typo.id, ids.bidder, 'amount_typo');
+
+    expect(retraction).toMatchObject({ status: 'pending', autoApproved: false });
+    expect(outcome).toBeNull();
+    expect(typo.status).toBe('winning');
+    await expect(retractionService.requestRetraction(typo.id, ids.bidder, 'amount_typo'))
+      .rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('rolls the lead back when an admin approves a queued retraction', async () => {
+    typo.setDataValue('createdAt', minutesAgo(60));
+    const { retraction } = await retractionService.requestRetraction(typo.id, ids.bidder, 'amount_typo');
+
+    const { outcome } = await retractionService.reviewRetraction(retraction.id, 'admin-id', true, 'Obvious typo');
+
+    expect(retraction).toMatchObject({ status: 'approved', reviewedBy: 'admin-id' });
+    expect(outcome).toMatchObject({ leaderId: ids.rival, currentHighestBid: 2000 });
+    await expect(retractionService.reviewRetraction(retraction.id, 'admin-id', false))
+      .rejects.toMatchObject({ message: 'Retraction request has already been reviewed' });
+  });
+
+  it('only lets bidders retract their own bids', async () => {
+    await expect(retractionService.requestRetraction(typo.id, ids.rival, 'amount_typo'))
+      .rejects.toMatchObject({ statusCode: 403 });
+    expect(typo.status).toBe('winning');
+    expect(transaction.rollback).toHaveBeenCalled();
+  });
+});
\ No newline at end of file
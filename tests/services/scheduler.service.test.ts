@@ -0,0 +1,155 @@
+import Auction from '../../src/database/models/Auction';
+import Settlement from '../../src/database/models/Settlement';
+import WebhookEvent from '../../src/database/models/WebhookEvent';
+import { auctionService } from '../../src/services/auction.service';
+import { schedulerService } from '../../src/services/scheduler.service';
+import { broadcastAuctionEnded, broadcastAuctionStarted } from '../../src/sockets/auction.socket';
+import fakeRedis from '../fakeRedis';
+import { buildAuction, ids } from '../factories';
+
+jest.mock('../../src/config/redis', () => require('../fakeRedis'));
+jest.mock('../../src/services/auction.service', () => ({
+  auctionService: { openScheduledAuction: jest.fn(), closeAuction: jest.fn() }
+}));
+jest.mock('../../src/services/lot.service', () => ({
+  lotService: { isLotEvent: jest.fn(() => false) }
+}));
+jest.mock('../../src/services/deposit.service', () => ({
+  depositService: { getRequiredDeposit: jest.fn(() => 0) }
+}));
+jest.mock('../../src/services/settlement.service', () => ({
+  settlementService: { needsSettlement: jest.fn(() => false) }
+}));
+jest.mock('../../src/services/ledger.service', () => ({ ledgerService: {} }));
+jest.mock('../../src/services/webhook.service', () => ({ webhookService: {} }));
+jest.mock('../../src/services/reconciliation.service', () => ({
+  reconciliationService: { previousDay: jest.fn(() => '2026-01-01') }
+}));
+jest.mock('../../src/sockets/auction.socket', () => ({
+  broadcastAuctionEnded: jest.fn(),
+  broadcastAuctionStarted: jest.fn(),
+  broadcastAuctionUpdate: jest.fn(),
+  broadcastLotEnded: jest.fn()
+}));
+
+const JOBS_KEY = 'scheduler:auction:jobs';
+const PROCESSING_KEY = 'scheduler:auction:processing';
+
+const minutesFromNow = (minutes: number): Date => new Date(Date.now() + minutes * 60 * 1000);
+
+const closed = (): Auction => buildAuction({ status: 'ended' });
+
+describe('SchedulerService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fakeRedis.reset();
+
+    jest.spyOn(Auction, 'findAll').mockResolvedValue([]);
+    jest.spyOn(Settlement, 'findAll').mockResolvedValue([]);
+    jest.spyOn(WebhookEvent, 'findAll').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    schedulerService.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('scheduleAuction', () => {
+    it('queues the start of a scheduled auction and swaps it for the end once live', async () => {
+      const startsAt = minutesFromNow(5);
+      const endsAt = minutesFromNow(65);
+      const auction = buildAuction({ status: 'scheduled', timing: { biddingStartsAt: startsAt, biddingEndsAt: endsAt } });
+
+      await schedulerService.scheduleAuction(auction);
+
+      await expect(fakeRedis.zScore(JOBS_KEY, `start:${ids.auction}`)).resolves.toBe(startsAt.getTime());
+      await expect(fakeRedis.zScore(JOBS_KEY, `end:${ids.auction}`)).resolves.toBeNull();
+
+      auction.status = 'live';
+      await schedulerService.scheduleAuction(auction);
+
+      await expect(fakeRedis.zScore(JOBS_KEY, `start:${ids.auction}`)).resolves.toBeNull();
+      await expect(fakeRedis.zScore(JOBS_KEY, `end:${ids.auction}`)).resolves.toBe(endsAt.getTime());
+    });
+
+    it('drops every job once the auction is cancelled', async () => {
+      const auction = buildAuction();
+      await schedulerService.scheduleAuction(auction);
+
+      auction.status = 'cancelled';
+      await schedulerService.scheduleAuction(auction);
+
+      await expect(fakeRedis.zScore(JOBS_KEY, `end:${ids.auction}`)).resolves.toBeNull();
+    });
+  });
+
+  describe('running jobs', () => {
+    it('runs a job once when it falls due and not before', async () => {
+      jest.mocked(auctionService.closeAuction).mockResolvedValue({ auction: closed(), outcome: 'won' });
+      await schedulerService.scheduleAuction(buildAuction({ timing: { biddingEndsAt: minutesFromNow(1) } }));
+
+      schedulerService.start();
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+      expect(auctionService.closeAuction).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(auctionService.closeAuction).toHaveBeenCalledTimes(1);
+      expect(auctionService.closeAuction).toHaveBeenCalledWith(ids.auction);
+      expect(broadcastAuctionEnded).toHaveBeenCalledWith(expect.objectContaining({ status: 'ended' }), 'won');
+      await expect(fakeRedis.zScore(PROCESSING_KEY, `end:${ids.auction}`)).resolves.toBeNull();
+    });
+
+    it('opens a scheduled auction at its start time', async () => {
+      const live = buildAuction();
+      jest.mocked(auctionService.openScheduledAuction).mockResolvedValue(live);
+      await schedulerService.scheduleAuction(buildAuction({ status: 'scheduled', timing: { biddingStartsAt: minutesFromNow(-1) } }));
+
+      schedulerService.start();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(auctionService.openScheduledAuction).toHaveBeenCalledWith(ids.auction);
+      expect(broadcastAuctionStarted).toHaveBeenCalledWith(live);
+      // The live auction's own end job takes over
+      await expect(fakeRedis.zScore(JOBS_KEY, `end:${ids.auction}`)).resolves.not.toBeNull();
+    });
+
+    it('retries a failed job once its lease runs out', async () => {
+      jest.mocked(auctionService.closeAuction)
+        .mockRejectedValueOnce(new Error('database unavailable'))
+        .mockResolvedValue({ auction: closed(), outcome: 'won' });
+      await schedulerService.scheduleAuction(buildAuction({ timing: { biddingEndsAt: minutesFromNow(-1) } }));
+
+      schedulerService.start();
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+      expect(auctionService.closeAuction).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(31 * 1000);
+      expect(auctionService.closeAuction).toHaveBeenCalledTimes(2);
+    });
+
+    it('moves the end job when the deadline was extended after it was queued', async () => {
+      const extendedTo = minutesFromNow(10);
+      jest.mocked(auctionService.closeAuction).mockResolvedValue(null);
+      jest.spyOn(Auction, 'findByPk').mockResolvedValue(buildAuction({ timing: { biddingEndsAt: extendedTo } }));
+      await schedulerService.scheduleAuction(buildAuction({ timing: { biddingEndsAt: minutesFromNow(-1) } }));
+
+      schedulerService.start();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(fakeRedis.zScore(JOBS_KEY, `end:${ids.auction}`)).resolves.toBe(extendedTo.getTime());
+    });
+  });
+
+  it('catches up on an auction that should have closed while no instance was running', async () => {
+    jest.spyOn(Auction, 'findAll').mockResolvedValue([buildAuction({ timing: { biddingEndsAt: minutesFromNow(-30) } })]);
+    jest.mocked(auctionService.closeAuction).mockResolvedValue({ auction: closed(), outcome: 'no_bids' });
+
+    schedulerService.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(auctionService.closeAuction).toHaveBeenCalledWith(ids.auction);
+  });
+});
\ No newline at end of file
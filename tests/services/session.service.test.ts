@@ -0,0 +1,153 @@
+import { CreationAttributes } from 'sequelize';
+import Session from '../../src/database/models/Session';
+import User from '../../src/database/models/User';
+import { sessionService } from '../../src/services/session.service';
+import { hashToken } from '../../src/utils/helpers';
+import fakeRedis from '../fakeRedis';
+import { buildUser, stubInstanceWrites } from '../factories';
+
+jest.mock('../../src/config/redis', () => require('../fakeRedis'));
+
+const UNKNOWN_SESSION = 'e0000000-0000-4000-8000-000000000001';
+
+describe('SessionService', () => {
+  let user: User;
+  // Session rows by id, standing in for the table
+  let rows: Map<string, Session>;
+
+  beforeEach(() => {
+    fakeRedis.reset();
+    stubInstanceWrites();
+    user = buildUser();
+    rows = new Map();
+
+    jest.spyOn(Session, 'create').mockImplementation(async values => {
+      const session = Session.build({ ...values, revokedAt: null, revokedReason: null } as CreationAttributes<Session>);
+      rows.set(session.id, session);
+      return session;
+    });
+    jest.spyOn(Session, 'findByPk').mockImplementation(async id => rows.get(String(id)) ?? null);
+    jest.spyOn(Session, 'findOne').mockImplementation(async options => {
+      const { id, userId } = options?.where as { id: string; userId: string };
+      const session = rows.get(id);
+      return session && session.userId === userId ? session : null;
+    });
+    // Rotation only lands while the row still holds the token it was given
+    jest.spyOn(Session, 'update').mockImplementation(async (values, options) => {
+      const { id, refreshTokenHash } = options.where as { id: string; refreshTokenHash: string };
+      const session = rows.get(id);
+
+      if (!session || session.refreshTokenHash !== refreshTokenHash || session.revokedAt) {
+        return [0];
+      }
+
+      session.set(values);
+      return [1];
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('issues <session id>.<secret> refresh tokens and keeps only their hash', async () => {
+    const { session, refreshToken } = await sessionService.create(user, false);
+    const [sessionId, secret] = refreshToken.split('.');
+
+    expect(sessionId).toBe(session.id);
+    expect(session.refreshTokenHash).toBe(hashToken(secret!));
+    expect(JSON.stringify(session)).not.toContain(session.refreshTokenHash);
+  });
+
+  describe('rotate', () => {
+    it('swaps the refresh token on every refresh', async () => {
+      const issued = await sessionService.create(user, false);
+
+      const first = await sessionService.rotate(issued.refreshToken);
+      const second = await sessionService.rotate(first.refreshToken);
+
+      expect(first.refreshToken).not.toBe(issued.refreshToken);
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      expect(second.session.id).toBe(issued.session.id);
+      expect(second.session.isActive()).toBe(true);
+    });
+
+    it('revokes the whole session when a rotated token is reused', async () => {
+      const issued = await sessionService.create(user, false);
+      const rotated = await sessionService.rotate(issued.refreshToken);
+
+      await expect(sessionService.rotate(issued.refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+
+      expect(rows.get(issued.session.id)!.revokedReason).toBe('Refresh token reused');
+      // The legitimate client's newer token dies with it
+      await expect(sessionService.rotate(rotated.refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+      await expect(sessionService.isRevoked(issued.session.id)).resolves.toBe(true);
+    });
+
+    it('lets only one of two racing refreshes with the same token win', async () => {
+      const issued = await sessionService.create(user, false);
+
+      // The other refresh rotates the row between our lookup and our update
+      jest.spyOn(Session, 'update').mockResolvedValueOnce([0]);
+
+      await expect(sessionService.rotate(issued.refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+      expect(issued.session.revokedAt).not.toBeNull();
+    });
+
+    it('rejects malformed and unknown refresh tokens', async () => {
+      await expect(sessionService.rotate('not-a-token')).rejects.toMatchObject({ statusCode: 401 });
+      await expect(sessionService.rotate(`${UNKNOWN_SESSION}.secret`)).rejects.toMatchObject({ statusCode: 401 });
+      expect(Session.findByPk).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('ends every other session of the user, sparing the current one', async () => {
+    const current = await sessionService.create(user, false);
+    const other = await sessionService.create(user, true);
+    jest.spyOn(Session, 'findAll').mockImplementation(async () => [other.session]);
+
+    await expect(sessionService.revokeAll(user.id, 'Password changed', current.session.id)).resolves.toBe(1);
+
+    await expect(sessionService.isRevoked(other.session.id)).resolves.toBe(true);
+    await expect(sessionService.isRevoked(current.session.id)).resolves.toBe(false);
+  });
+
+  it('only lets a user end their own sessions', async () => {
+    const { session } = await sessionService.create(user, false);
+
+    await expect(sessionService.revokeSession(session.id, 'someone-else', 'Signed out')).rejects.toMatchObject({ statusCode: 404 });
+    expect(session.revokedAt).toBeNull();
+  });
+
+  describe('isRevoked', () => {
+    it('answers from the session row when Redis has no marker, and caches it', async () => {
+      const { session } = await sessionService.create(user, false);
+
+      await expect(sessionService.isRevoked(session.id)).resolves.toBe(false);
+      await expect(sessionService.isRevoked(session.id)).resolves.toBe(false);
+
+      expect(Session.findByPk).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not bring a revoked session back after Redis loses its marker', async () => {
+      const { session } = await sessionService.create(user, false);
+
+      await sessionService.revokeSession(session.id, user.id, 'Signed out');
+      fakeRedis.reset();
+
+      await expect(sessionService.isRevoked(session.id)).resolves.toBe(true);
+    });
+
+    it('falls back to the session row without Redis', async () => {
+      const { session } = await sessionService.create(user, false);
+      fakeRedis.isReady = false;
+
+      await expect(sessionService.isRevoked(session.id)).resolves.toBe(false);
+
+      session.revokedAt = new Date();
+
+      await expect(sessionService.isRevoked(session.id)).resolves.toBe(true);
+      await expect(sessionService.isRevoked(UNKNOWN_SESSION)).resolves.toBe(true);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { Op, WhereOptions } from 'sequelize';
+import Auction from '../../src/database/models/Auction';
+import AuctionStatusHistory from '../../src/database/models/AuctionStatusHistory';
+import Bid from '../../src/database/models/Bid';
+import FeeSchedule from '../../src/database/models/FeeSchedule';
+import Payment from '../../src/database/models/Payment';
+import Settlement from '../../src/database/models/Settlement';
+import { invoiceService } from '../../src/services/invoice.service';
+import { ledgerService } from '../../src/services/ledger.service';
+import { settlementService } from '../../src/services/settlement.service';
+import { schedulerService } from '../../src/services/scheduler.service';
+import { FakeTransaction, buildAuction, buildBid, buildSettlement, ids, stubInstanceWrites, stubTransaction } from '../factories';
+
+jest.mock('../../src/services/companyMember.service', () => ({
+  companyMemberService: { getAccountHolderId: jest.fn(async () => 'u0000000-0000-4000-8000-000000000001') }
+}));
+jest.mock('../../src/services/companyAudit.service', () => ({
+  companyAuditService: { record: jest.fn() }
+}));
+jest.mock('../../src/services/scheduler.service', () => ({
+  schedulerService: { scheduleSettlement: jest.fn(), scheduleEscrowRelease: jest.fn() }
+}));
+jest.mock('../../src/services/ledger.service', () => ({
+  ledgerService: { allocateSettlement: jest.fn() }
+}));
+jest.mock('../../src/services/invoice.service', () => ({
+  invoiceService: { issueForSettlement: jest.fn() }
+}));
+jest.mock('../../src/sockets/auction.socket', () => ({
+  notifyUser: jest.fn(),
+  notifyCompany: jest.fn()
+}));
+
+const hoursAgo = (hours: number): Date => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+// The winner of a closed auction, who has not paid yet
+const closed = (fields: Parameters<typeof buildAuction>[0] = {}): Auction => buildAuction({
+  status: 'ended',
+  winnerId: ids.bidder,
+  winnerAmount: 1000,
+  finalAmount: 1000,
+  terms: { paymentTerms: 'Net 3 days' },
+  ...fields
+});
+
+describe('SettlementService', () => {
+  let auction: Auction;
+  let settlements: Settlement[];
+  let transaction: FakeTransaction;
+
+  beforeEach(() => {
+    auction = closed();
+    settlements = [];
+
+    transaction = stubTransaction();
+    stubInstanceWrites();
+
+    jest.spyOn(Auction, 'findByPk').mockImplementation(async () => auction);
+    jest.spyOn(FeeSchedule, 'findAll').mockResolvedValue([]);
+    jest.spyOn(Settlement, 'create').mockImplementation(async values => {
+      const settlement = buildSettlement(values);
+      settlements.push(settlement);
+      return settlement;
+    });
+    jest.spyOn(Settlement, 'findByPk').mockImplementation(async id => settlements.find(settlement => settlement.id === id) ?? null);
+    jest.spyOn(Settlement, 'findAll').mockImplementation(async () => settlements);
+    jest.spyOn(Settlement, 'findOne').mockImplementation(async options => {
+      const { bidderId, status } = options?.where as { bidderId: string; status: string };
+      return settlements.find(settlement => settlement.bidderId === bidderId && settlement.status === status) ?? null;
+    });
+    jest.spyOn(AuctionStatusHistory, 'create').mockImplementation(async () => AuctionStatusHistory.build());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('needsSettlement', () => {
+    it('asks the winner of a closed auction to pay once', () => {
+      expect(settlementService.needsSettlement(closed())).toBe(true);
+      expect(settlementService.needsSettlement(closed({ status: 'live' }))).toBe(false);
+      expect(settlementService.needsSettlement(closed({ metadata: { settlementStartedAt: new Date() } }))).toBe(false);
+    });
+
+    it('never bills the winning supplier of a reverse auction', () => {
+      expect(settlementService.needsSettlement(closed({ format: 'reverse' }))).toBe(false);
+    });
+  });
+
+  describe('openSettlements', () => {
+    it('raises a payment request for the winner, due by the payment terms', async () => {
+      const [settlement] = await settlementService.openSettlements(auction.id);
+
+      expect(settlement).toMatchObject({
+        bidderId: ids.bidder,
+        sellerId: ids.seller,
+        kind: 'winner',
+        status: 'awaiting_payment',
+        currency: 'INR'
+      });
+      expect(Number(settlement!.hammerAmount)).toBe(1000);
+      expect(new Date(settlement!.dueAt!).getTime() - Date.now()).toBeGreaterThan(3 * 24 * 60 * 60 * 1000 - 60000);
+      expect(auction.metadata.settlementStartedAt).toBeInstanceOf(Date);
+      expect(transaction.commit).toHaveBeenCalled();
+      expect(schedulerService.scheduleSettlement).toHaveBeenCalledWith(settlement);
+    });
+
+    it('raises nothing for a reverse auction', async () => {
+      auction = closed({ format: 'reverse' });
+
+      await expect(settlementService.openSettlements(auction.id)).resolves.toEqual([]);
+
+      expect(Settlement.create).not.toHaveBeenCalled();
+      expect(transaction.rollback).toHaveBeenCalled();
+      expect(auction.metadata.settlementStartedAt).toBeUndefined();
+    });
+  });
+
+  describe('processDue', () => {
+    it('reminds a late buyer before putting them in default', async () => {
+      const late = buildSettlement({ dueAt: hoursAgo(1), nextActionAt: hoursAgo(1) });
+      settlements = [late];
+
+      await settlementService.processDue(late.id);
+      expect(late).toMatchObject({ status: 'awaiting_payment', remindersSent: 1 });
+      expect(late.nextActionAt!.getTime()).toBeGreaterThan(Date.now());
+
+      late.nextActionAt = hoursAgo(1);
+      await settlementService.processDue(late.id);
+      late.nextActionAt = hoursAgo(1);
+      await settlementService.processDue(late.id);
+
+      expect(late).toMatchObject({ status: 'defaulted', remindersSent: 2, nextActionAt: null });
+      expect(late.defaultedAt).toBeInstanceOf(Date);
+    });
+
+    it('leaves a settlement that is not due yet', async () => {
+      const pending = buildSettlement();
+      settlements = [pending];
+
+      await expect(settlementService.processDue(pending.id)).resolves.toBeNull();
+      expect(pending.remindersSent).toBe(0);
+    });
+  });
+
+  describe('recordPayment', () => {
+    it('marks the request paid once payments cover it and invoices the sale', async () => {
+      const owed = buildSettlement({ totalAmount: 1180 });
+      settlements = [owed];
+      jest.spyOn(Payment, 'sum').mockResolvedValue(1180);
+
+      await expect(settlementService.recordPayment(auction.id, ids.bidder, 'payment-1')).resolves.toBe(owed);
+
+      expect(owed.status).toBe('paid');
+      expect(ledgerService.allocateSettlement).toHaveBeenCalledWith(owed.id);
+      expect(invoiceService.issueForSettlement).toHaveBeenCalledWith(owed.id, 'payment-1');
+    });
+
+    it('waits while the payments fall short', async () => {
+      const owed = buildSettlement({ totalAmount: 1180 });
+      settlements = [owed];
+      jest.spyOn(Payment, 'sum').mockResolvedValue(1000);
+
+      await expect(settlementService.recordPayment(auction.id, ids.bidder)).resolves.toBeNull();
+      expect(owed.status).toBe('awaiting_payment');
+    });
+  });
+
+  describe('second-chance offers', () => {
+    beforeEach(() => {
+      settlements = [buildSettlement({ status: 'defaulted', defaultedAt: hoursAgo(1), nextActionAt: null })];
+
+      // The defaulted winner is excluded, which leaves the rival's best bid
+      jest.spyOn(Bid, 'findOne').mockImplementation(async options => {
+        const where = options?.where as WhereOptions<Bid> & { bidderId: { [Op.notIn]: string[] } };
+        return [buildBid({ amount: 1000 }), buildBid({ bidderId: ids.rival, amount: 900 })]
+          .find(bid => !where.bidderId[Op.notIn].includes(bid.bidderId)) ?? null;
+      });
+    });
+
+    it('offers the item to the runner-up at their own best bid and makes them the winner when they accept', async () => {
+      const offer = await settlementService.offerSecondChance(auction.id, { id: ids.seller, role: 'company' }, ids.company);
+
+      expect(offer).toMatchObject({ bidderId: ids.rival, kind: 'second_chance', status: 'offered' });
+      expect(Number(offer.hammerAmount)).toBe(900);
+
+      await settlementService.respondToSecondChance(auction.id, ids.rival, true);
+
+      expect(offer.status).toBe('awaiting_payment');
+      expect(auction).toMatchObject({ winnerId: ids.rival, winnerAmount: 900 });
+    });
+
+    it('waits for the buyer to default', async () => {
+      settlements = [buildSettlement()];
+
+      await expect(settlementService.offerSecondChance(auction.id, { id: ids.seller, role: 'company' }, ids.company))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Second-chance offers can only be made after the buyer defaults' });
+    });
+
+    it('only lets the selling company make the offer', async () => {
+      await expect(settlementService.offerSecondChance(auction.id, { id: ids.seller, role: 'company' }, 'another-company'))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('refuses second-chance offers on a reverse auction', async () => {
+      auction = closed({ format: 'reverse' });
+
+      await expect(settlementService.offerSecondChance(auction.id, { id: 'admin-1', role: 'admin' }))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Second-chance offers are not available for reverse auctions' });
+    });
+  });
+});
\ No newline at end of file
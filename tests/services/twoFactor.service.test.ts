@@ -0,0 +1,138 @@
+import User from '../../src/database/models/User';
+import { twoFactorService } from '../../src/services/twoFactor.service';
+import { generateTotp } from '../../src/utils/totp';
+import fakeRedis from '../fakeRedis';
+import { FakeTransaction, buildUser, ids, stubInstanceWrites, stubTransaction } from '../factories';
+
+jest.mock('../../src/config/redis', () => require('../fakeRedis'));
+
+const STEP_MS = 30 * 1000;
+
+describe('TwoFactorService', () => {
+  let user: User;
+  let transaction: FakeTransaction;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1, 12, 0, 10) });
+    fakeRedis.reset();
+
+    user = buildUser();
+    transaction = stubTransaction();
+    stubInstanceWrites();
+
+    jest.spyOn(User, 'findByPk').mockImplementation(async () => user);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  // Move on to the next 30 second step, so a fresh code is accepted
+  const nextStep = (): void => {
+    jest.setSystemTime(Date.now() + STEP_MS);
+  };
+
+  // Set up and confirm 2FA the way the user would from their authenticator app
+  const enable = async (): Promise<{ secret: string; backupCodes: string[] }> => {
+    const { secret } = await twoFactorService.setup(ids.bidder);
+    const backupCodes = await twoFactorService.confirm(ids.bidder, generateTotp(secret));
+    nextStep();
+    return { secret, backupCodes };
+  };
+
+  describe('setup and confirm', () => {
+    it('only switches 2FA on once a code from the app checks out', async () => {
+      const { secret, otpauthUrl } = await twoFactorService.setup(ids.bidder);
+
+      expect(otpauthUrl).toContain(`secret=${secret}`);
+      expect(user.twoFactorSecret).not.toContain(secret);
+      expect(user.twoFactorEnabled).toBe(false);
+
+      await expect(twoFactorService.confirm(ids.bidder, '000000')).rejects.toMatchObject({ statusCode: 401 });
+      expect(user.twoFactorEnabled).toBe(false);
+      expect(transaction.rollback).toHaveBeenCalled();
+
+      const backupCodes = await twoFactorService.confirm(ids.bidder, generateTotp(secret));
+
+      expect(user.twoFactorEnabled).toBe(true);
+      expect(backupCodes).toHaveLength(10);
+      backupCodes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+      // Only hashes are kept
+      expect(user.twoFactorBackupCodes).not.toContain(backupCodes[0]);
+    });
+
+    it('refuses to set up again while 2FA is on', async () => {
+      await enable();
+
+      await expect(twoFactorService.setup(ids.bidder)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('never accepts the same code twice', async () => {
+      const { secret } = await twoFactorService.setup(ids.bidder);
+      const code = generateTotp(secret);
+
+      await twoFactorService.confirm(ids.bidder, code);
+
+      await expect(twoFactorService.regenerateBackupCodes(ids.bidder, code)).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+
+  describe('login challenges', () => {
+    it('exchanges a challenge and a code for the user, once', async () => {
+      const { secret } = await enable();
+      const { challengeToken } = await twoFactorService.createChallenge(user);
+
+      await expect(twoFactorService.completeChallenge(challengeToken, generateTotp(secret))).resolves.toBe(user);
+
+      nextStep();
+      await expect(twoFactorService.completeChallenge(challengeToken, generateTotp(secret)))
+        .rejects.toMatchObject({ statusCode: 401, message: 'Login challenge expired. Please login again.' });
+    });
+
+    it('takes each backup code once, however it is typed', async () => {
+      const { backupCodes } = await enable();
+      const [code] = backupCodes;
+
+      const first = await twoFactorService.createChallenge(user);
+      await expect(twoFactorService.completeChallenge(first.challengeToken, ` ${code!.toUpperCase()} `)).resolves.toBe(user);
+      expect(user.twoFactorBackupCodes).toHaveLength(9);
+
+      const second = await twoFactorService.createChallenge(user);
+      await expect(twoFactorService.completeChallenge(second.challengeToken, code!)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('counts wrong codes towards the account lockout', async () => {
+      const { secret } = await enable();
+      user.loginAttempts = 4;
+      const { challengeToken } = await twoFactorService.createChallenge(user);
+
+      await expect(twoFactorService.completeChallenge(challengeToken, '000000')).rejects.toMatchObject({ statusCode: 423 });
+      expect(user.isLocked()).toBe(true);
+
+      // The challenge is gone, and a fresh one cannot get past the lock either
+      await expect(twoFactorService.completeChallenge(challengeToken, generateTotp(secret))).rejects.toMatchObject({ statusCode: 401 });
+      const fresh = await twoFactorService.createChallenge(user);
+      await expect(twoFactorService.completeChallenge(fresh.challengeToken, generateTotp(secret))).rejects.toMatchObject({ statusCode: 423 });
+    });
+
+    it('clears the failed attempts after a good code', async () => {
+      const { secret } = await enable();
+      const { challengeToken } = await twoFactorService.createChallenge(user);
+
+      await expect(twoFactorService.completeChallenge(challengeToken, '000000')).rejects.toMatchObject({ statusCode: 401 });
+      expect(user.loginAttempts).toBe(1);
+
+      await twoFactorService.completeChallenge(challengeToken, generateTotp(secret));
+      expect(user.loginAttempts).toBe(0);
+    });
+  });
+
+  it('switches 2FA off with a backup code and forgets the secret', async () => {
+    const { backupCodes } = await enable();
+
+    await twoFactorService.disable(ids.bidder, backupCodes[3]!);
+
+    expect(user).toMatchObject({ twoFactorEnabled: false, twoFactorSecret: null, twoFactorBackupCodes: [], twoFactorLastStep: null });
+  });
+});
\ No newline at end of file
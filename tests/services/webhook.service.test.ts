@@ -0,0 +1,178 @@
+import { CreationAttributes, UniqueConstraintError } from 'sequelize';
+import Payment from '../../src/database/models/Payment';
+import WebhookEvent from '../../src/database/models/WebhookEvent';
+import { paymentService } from '../../src/services/payment.service';
+import { mockProvider } from '../../src/services/providers';
+import { schedulerService } from '../../src/services/scheduler.service';
+import { webhookService } from '../../src/services/webhook.service';
+import { buildPayment, stubInstanceWrites } from '../factories';
+
+// The real gateways need SDKs and credentials; these tests only use the mock one
+jest.mock('../../src/services/providers/stripe.provider', () => ({
+  StripeProvider: jest.fn(() => ({ name: 'stripe', isConfigured: () => false }))
+}));
+jest.mock('../../src/services/providers/razorpay.provider', () => ({
+  RazorpayProvider: jest.fn(() => ({ name: 'razorpay', isConfigured: () => false }))
+}));
+jest.mock('../../src/services/scheduler.service', () => ({
+  schedulerService: { scheduleWebhookEvent: jest.fn() }
+}));
+jest.mock('../../src/services/payment.service', () => ({
+  paymentService: { markCompleted: jest.fn(), markAuthorised: jest.fn(), markFailed: jest.fn(), recordDispute: jest.fn() }
+}));
+jest.mock('../../src/services/refund.service', () => ({
+  refundService: { recordProviderRefund: jest.fn(), recordProviderRefundFailure: jest.fn() }
+}));
+
+const ORDER_ID = 'mock_order_000001';
+
+describe('WebhookService', () => {
+  let events: WebhookEvent[];
+  let payments: Payment[];
+
+  beforeEach(() => {
+    mockProvider.reset();
+    stubInstanceWrites();
+    events = [];
+    payments = [buildPayment({ providerOrderId: ORDER_ID })];
+
+    // The unique index on (provider, eventId) is what turns a redelivery away
+    jest.spyOn(WebhookEvent, 'create').mockImplementation(async values => {
+      const event = WebhookEvent.build(values as CreationAttributes<WebhookEvent>);
+
+      if (events.some(stored => stored.provider === event.provider && stored.eventId === event.eventId)) {
+        throw new UniqueConstraintError({});
+      }
+
+      events.push(event);
+      return event;
+    });
+    jest.spyOn(WebhookEvent, 'findOne').mockImplementation(async options => {
+      const { provider, eventId } = options?.where as { provider: string; eventId: string };
+      return events.find(event => event.provider === provider && event.eventId === eventId) ?? null;
+    });
+    jest.spyOn(WebhookEvent, 'findByPk').mockImplementation(async id => events.find(event => event.id === id) ?? null);
+    // Claims a pending or failed event whose retry is due
+    jest.spyOn(WebhookEvent, 'update').mockImplementation(async (_values, options) => {
+      const { id } = options.where as { id: string };
+      const event = events.find(candidate => candidate.id === id);
+
+      if (!event || !['pending', 'failed'].includes(event.status) || !event.nextAttemptAt || event.nextAttemptAt > new Date()) {
+        return [0];
+      }
+
+      event.status = 'processing';
+      event.attempts += 1;
+      return [1];
+    });
+
+    jest.spyOn(Payment, 'findOne').mockImplementation(async options => {
+      const { providerOrderId } = options?.where as { providerOrderId: string };
+      return payments.find(payment => payment.providerOrderId === providerOrderId) ?? null;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const deliver = (type: string, data: Record<string, unknown> = { orderId: ORDER_ID, paymentId: 'mock_pay_000001' }) => {
+    const { rawBody, headers } = mockProvider.signWebhook(type, data);
+    return webhookService.receive('mock', rawBody, headers);
+  };
+
+  describe('receive', () => {
+    it('stores a signed delivery and queues it', async () => {
+      const { event, duplicate } = await deliver('payment.completed');
+
+      expect(duplicate).toBe(false);
+      expect(event).toMatchObject({ provider: 'mock', type: 'payment.completed', status: 'pending' });
+      expect(schedulerService.scheduleWebhookEvent).toHaveBeenCalledWith(event);
+    });
+
+    it('rejects a delivery whose signature does not match its body', async () => {
+      const { rawBody, headers } = mockProvider.signWebhook('payment.completed', { orderId: ORDER_ID });
+      const tampered = rawBody.replace(ORDER_ID, 'mock_order_999999');
+
+      await expect(webhookService.receive('mock', tampered, headers)).rejects.toMatchObject({ statusCode: 400 });
+      await expect(webhookService.receive('mock', rawBody, {})).rejects.toMatchObject({ statusCode: 400 });
+      expect(events).toHaveLength(0);
+      expect(schedulerService.scheduleWebhookEvent).not.toHaveBeenCalled();
+    });
+
+    it('refuses deliveries for a provider that is not configured', async () => {
+      const { rawBody, headers } = mockProvider.signWebhook('payment.completed', { orderId: ORDER_ID });
+
+      await expect(webhookService.receive('stripe', rawBody, headers)).rejects.toMatchObject({ statusCode: 503 });
+    });
+
+    it('answers a redelivery with the stored event instead of queueing it again', async () => {
+      const { rawBody, headers } = mockProvider.signWebhook('payment.completed', { orderId: ORDER_ID });
+
+      const first = await webhookService.receive('mock', rawBody, headers);
+      const again = await webhookService.receive('mock', rawBody, headers);
+
+      expect(again).toEqual({ event: first.event, duplicate: true });
+      expect(events).toHaveLength(1);
+      expect(schedulerService.scheduleWebhookEvent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('processEvent', () => {
+    it('applies the event to its payment once', async () => {
+      const { event } = await deliver('payment.completed');
+
+      await webhookService.processEvent(event.id);
+      await webhookService.processEvent(event.id);
+
+      expect(event).toMatchObject({ status: 'processed', attempts: 1, nextAttemptAt: null });
+      expect(paymentService.markCompleted).toHaveBeenCalledTimes(1);
+      expect(paymentService.markCompleted).toHaveBeenCalledWith(ORDER_ID, 'mock_pay_000001');
+    });
+
+    it('ignores event types it does not act on', async () => {
+      const { event } = await deliver('payment.created');
+
+      await expect(webhookService.processEvent(event.id)).resolves.toMatchObject({ status: 'ignored' });
+    });
+
+    it('retries with backoff while the payment has not been written yet', async () => {
+      payments = [];
+      const { event } = await deliver('payment.completed');
+
+      await webhookService.processEvent(event.id);
+
+      expect(event).toMatchObject({ status: 'failed', attempts: 1, lastError: `Payment ${ORDER_ID} not found` });
+      const delay = event.nextAttemptAt!.getTime() - Date.now();
+      expect(delay).toBeGreaterThan(25 * 1000);
+      expect(delay).toBeLessThanOrEqual(30 * 1000);
+
+      // Not due yet, so a second run leaves it alone
+      await webhookService.processEvent(event.id);
+      expect(event.attempts).toBe(1);
+      expect(paymentService.markCompleted).not.toHaveBeenCalled();
+    });
+
+    it('gives up after the last attempt', async () => {
+      payments = [];
+      const { event } = await deliver('payment.completed');
+      event.attempts = 7;
+
+      await webhookService.processEvent(event.id);
+
+      expect(event).toMatchObject({ status: 'failed', attempts: 8, nextAttemptAt: null });
+    });
+  });
+
+  it('replays a failed event on demand', async () => {
+    payments = [];
+    const { event } = await deliver('payment.completed');
+    await webhookService.processEvent(event.id);
+
+    payments = [buildPayment({ providerOrderId: ORDER_ID })];
+
+    await expect(webhookService.replay(event.id)).resolves.toMatchObject({ status: 'processed', attempts: 2 });
+    expect(paymentService.markCompleted).toHaveBeenCalledTimes(1);
+    await expect(webhookService.replay('missing')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
\ No newline at end of file